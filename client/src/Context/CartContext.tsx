@@ -1,5 +1,7 @@
-import React, { createContext, useState } from "react";
+import React, { createContext, useEffect, useRef, useState } from "react";
 import { Product } from "../types";
+import { useAuthContext } from "./authContext";
+import { CartService } from "../services/Cart.service";
 
 interface ContextType {
     cart: Product[];
@@ -9,6 +11,30 @@ export const CartContext = createContext<ContextType | null>(null);
 
 export function CartProvider({ children }: { children: React.ReactNode }) {
     const [cart, setCart] = useState<Product[]>(() => JSON.parse(window.localStorage.getItem("cart") || "[]"));
+    const { user } = useAuthContext();
+    const loggedIn = useRef(!!user);
+    const startedLoggedIn = useRef(!!user);
+
+    /**
+     * Load the server cart of the user logged in when the app starts, so the cart follows the user across devices.
+     * The carts of later logins are merged by the login instead.
+     */
+    useEffect(() => {
+        if (!startedLoggedIn.current) return;
+        const cartService = new CartService();
+        cartService
+            .get()
+            .then(setCart)
+            .catch(e => console.error(e));
+    }, []);
+
+    /**
+     * The cart is kept in the server, so it's removed from this device on logout
+     */
+    useEffect(() => {
+        if (loggedIn.current && !user) setCart([]);
+        loggedIn.current = !!user;
+    }, [user]);
 
     return <CartContext.Provider value={{ cart, setCart }}>{children}</CartContext.Provider>;
 }
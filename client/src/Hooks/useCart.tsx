@@ -1,7 +1,9 @@
 import { useContext, useEffect } from "react";
 import { CartContext } from "../Context/CartContext";
-import { Product } from "../types";
-import { CheckoutService } from "../services/Checkout.service";
+import { CheckoutLineError, Product, ProductVariant } from "../types";
+import { CheckoutOptions, CheckoutService } from "../services/Checkout.service";
+import { CartService } from "../services/Cart.service";
+import { useAuthContext } from "../Context/authContext";
 
 export function useCart() {
     const cartContext = useContext(CartContext);
@@ -9,32 +11,69 @@ export function useCart() {
     if (!cartContext) throw new Error("You have to wrap your app with cartProvider");
 
     const { cart, setCart } = cartContext;
+    const { user } = useAuthContext();
 
     useEffect(() => {
         window.localStorage.setItem("cart", JSON.stringify(cart));
     }, [cart]);
 
-    function addProduct(product: Product, amount: number) {
-        if (cart.length > 0 && cart.some(item => item.id === product.id)) {
+    /**
+     * Mirrors a cart change on the server cart when the user is logged in.
+     * When the server rejects the change the cart is replaced with the server cart, so they don't drift apart.
+     */
+    function syncServer(request: (cartService: CartService) => Promise<unknown>) {
+        if (!user) return;
+        const cartService = new CartService();
+        request(cartService)
+            .catch(() => cartService.get().then(setCart))
+            .catch(e => console.error(e));
+    }
+
+    /**
+     * Each variant of a product is a line of its own
+     */
+    function isSameLine(item: Product, product: Product) {
+        return item.id === product.id && (item.variantId ?? null) === (product.variantId ?? null);
+    }
+
+    /**
+     * Adds units of a product to the cart, the products with variants are added with the chosen variant
+     */
+    function addProduct(product: Product, amount: number, variant?: ProductVariant) {
+        const line: Product = variant
+            ? {
+                  ...product,
+                  variantId: variant.id,
+                  sku: variant.sku,
+                  size: variant.size,
+                  color: variant.color,
+                  price: variant.price ?? product.price,
+                  currentStock: variant.currentStock,
+              }
+            : product;
+        syncServer(cartService => cartService.add(line.id, amount, line.variantId ?? null));
+        if (cart.length > 0 && cart.some(item => isSameLine(item, line))) {
             const updatedCart = cart.map(item => {
-                if (item.id === product.id) return { ...product, quantity: item.quantity + amount };
+                if (isSameLine(item, line)) return { ...line, quantity: item.quantity + amount };
                 return item;
             });
             setCart(updatedCart);
         } else {
-            setCart(prev => [...prev, { ...product, quantity: amount }]);
+            setCart(prev => [...prev, { ...line, quantity: amount }]);
         }
     }
 
     function removeProduct(product: Product) {
-        const updatedCart = cart.filter(item => item.id !== product.id);
+        syncServer(cartService => cartService.remove(product.id, product.variantId ?? null));
+        const updatedCart = cart.filter(item => !isSameLine(item, product));
         setCart(updatedCart);
     }
 
     function incrementProduct(product: Product) {
         if (product.quantity < product.currentStock) {
+            syncServer(cartService => cartService.update(product.id, product.quantity + 1, product.variantId ?? null));
             const updatedCart = cart.map(item => {
-                if (item.id === product.id) return { ...item, quantity: item.quantity + 1 };
+                if (isSameLine(item, product)) return { ...item, quantity: item.quantity + 1 };
                 return item;
             });
             setCart(updatedCart);
@@ -43,8 +82,9 @@ export function useCart() {
 
     function decrementProduct(product: Product) {
         if (product.quantity > 1) {
+            syncServer(cartService => cartService.update(product.id, product.quantity - 1, product.variantId ?? null));
             const updatedCart = cart.map(item => {
-                if (item.id === product.id && item) return { ...item, quantity: item.quantity - 1 };
+                if (isSameLine(item, product)) return { ...item, quantity: item.quantity - 1 };
                 return item;
             });
             setCart(updatedCart);
@@ -52,14 +92,74 @@ export function useCart() {
     }
 
     function clearCart() {
+        syncServer(cartService => cartService.clear());
         setCart([]);
     }
 
-    async function checkout() {
+    /**
+     * Updates the cart lines rejected by the checkout with their current values.
+     * Products that can't be bought anymore, or that have to be chosen by variant, are removed from the cart,
+     * the quantities are capped to the stock not held in the carts of other users, in the server cart too.
+     */
+    function refreshLines(errors: CheckoutLineError[]) {
+        const stock = (error: CheckoutLineError) => error.availableStock ?? error.currentStock;
+        const isRemoved = (error: CheckoutLineError) =>
+            error.reason === "NOT_FOUND" ||
+            error.reason === "DISABLED" ||
+            error.reason === "VARIANT_REQUIRED" ||
+            stock(error) === 0;
+        const findError = (item: Product) =>
+            errors.find(e => e.productId === item.id && (e.variantId ?? null) === (item.variantId ?? null));
+        errors
+            .filter(isRemoved)
+            .forEach(e => syncServer(cartService => cartService.remove(e.productId, e.variantId ?? null)));
+        const updatedCart = cart
+            .filter(item => {
+                const error = findError(item);
+                return !error || !isRemoved(error);
+            })
+            .map(item => {
+                const error = findError(item);
+                if (!error) return item;
+                const product = {
+                    ...item,
+                    price: error.price ?? item.price,
+                    discountPercentage: error.discountPercentage ?? item.discountPercentage,
+                    currentStock: error.currentStock ?? item.currentStock,
+                };
+                const quantity = Math.min(product.quantity, stock(error) ?? product.currentStock);
+                if (quantity < item.quantity) {
+                    syncServer(cartService => cartService.update(item.id, quantity, item.variantId ?? null));
+                }
+                return { ...product, quantity };
+            });
+        setCart(updatedCart);
+    }
+
+    /**
+     * Merge the anonymous cart into the server cart of the logged user
+     */
+    async function mergeCart() {
+        const cartService = new CartService();
+        const merged = await cartService.merge(cart);
+        setCart(merged);
+    }
+
+    async function checkout(options: CheckoutOptions = {}) {
         const checkoutService = new CheckoutService();
-        const invoice = await checkoutService.produceInvoice(cart);
+        const invoice = await checkoutService.produceInvoice(cart, options);
         return invoice;
     }
 
-    return { cart, addProduct, clearCart, checkout, removeProduct, incrementProduct, decrementProduct };
+    return {
+        cart,
+        addProduct,
+        clearCart,
+        checkout,
+        refreshLines,
+        mergeCart,
+        removeProduct,
+        incrementProduct,
+        decrementProduct,
+    };
 }
@@ -0,0 +1,32 @@
+import { useLoaderData, useRouteLoaderData } from "react-router-dom";
+import { FacetCount, ProductFilter, ProductResponse } from "../types";
+
+export type FacetOption = {
+    value: string;
+    label: string;
+};
+
+/**
+ * Returns the categories, sizes and brands of the store with how many products each one would return for the current filter.
+ * The options without products are hidden, except the ones that are set.
+ * @param filter - the filter currently applied to the products
+ */
+export function useFacets(filter: ProductFilter) {
+    const { sizes, categories } = useLoaderData() as { sizes: string[]; categories: string[] };
+    const data = useRouteLoaderData("products") as ProductResponse | undefined;
+    const brands = data?.facets?.brands.map(brand => brand.value) ?? [];
+
+    function options(values: string[], counts: FacetCount[] | undefined, active: string[]): FacetOption[] {
+        if (!counts) return values.map(value => ({ value, label: value }));
+        return [...new Set([...values, ...active])]
+            .map(value => ({ value, count: counts.find(facet => facet.value === value)?.count ?? 0 }))
+            .filter(({ value, count }) => count > 0 || active.includes(value))
+            .map(({ value, count }) => ({ value, label: `${value} (${count})` }));
+    }
+
+    return {
+        categories: options(categories, data?.facets?.categories, filter.categories),
+        sizes: options(sizes, data?.facets?.sizes, filter.sizes),
+        brands: options(brands, data?.facets?.brands, filter.brands),
+    };
+}
@@ -1,15 +1,18 @@
 import type { RegisterData } from "../types";
 import { useAuthContext } from "../Context/AuthContext";
 import { UsersService } from "../services/User.service";
+import { useCart } from "./useCart";
 
 export function useLogin() {
     const { user, setUser } = useAuthContext();
+    const { mergeCart } = useCart();
 
     async function getAuth(email: string, password: string) {
         const userService = new UsersService();
         const authData = await userService.login(email, password);
         if (authData) {
             setUser(authData);
+            await mergeCart().catch(e => console.error(e));
         }
     }
 
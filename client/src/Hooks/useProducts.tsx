@@ -1,67 +1,54 @@
-import { useEffect, useState } from "react";
-import { ProductResponse, setFilterType } from "../types";
+import { useEffect, useMemo, useState } from "react";
+import { ProductFilter, ProductResponse, setFilterType } from "../types";
 import { ProductService } from "../services/Product.service";
 import { Product as ProductType } from "../types";
-import { useLocation, useParams, useRouteLoaderData } from "react-router-dom";
+import { useParams, useRouteLoaderData, useSearchParams } from "react-router-dom";
+import { filterFromParams, filterToParams } from "../pages/utilities/productFilter";
 
-export type Props = [
-    filter: {
-        category: string;
-        size: string;
-    },
-    setFilter: setFilterType,
-    products: ProductType[],
-    loading: boolean,
-];
+export type Props = [filter: ProductFilter, setFilter: setFilterType, products: ProductType[], loading: boolean];
 
 /**
  * Returns an array of products, a function to update it, the filter currently applied to the products and a function to update it's filters
+ * The filter lives in the url, so the filtered views can be shared and follow the back and forward navigation
  * @param productsArray - {@link Types.ProductType}
  * @returns - {@link Props}
  */
 export function useProducts(): Props {
     const { storeId } = useParams();
-    const location = useLocation();
+    const [searchParams, setSearchParams] = useSearchParams();
+    const filter = useMemo(() => filterFromParams(searchParams), [searchParams]);
     const data = useRouteLoaderData("products") as ProductResponse;
-    const [filter, setFilterI] = useState({
-        category: new URLSearchParams(location.search).get("category") || "",
-        size: new URLSearchParams(location.search).get("size") || "",
-    });
     const [loading, setLoading] = useState(false);
-    const [nextPage, setNextPage] = useState(data.pagination.hasNextPage);
-    const [page, setPage] = useState(1);
+    const [cursor, setCursor] = useState(data.pagination.nextCursor);
+    const [scrolledToEnd, setScrolledToEnd] = useState(false);
     const [products, setProducts] = useState<ProductType[]>(data.products);
 
     const fetchProducts = async () => {
-        if (!nextPage || loading) return;
+        if (!cursor || loading) return;
         setLoading(true);
         try {
             const productService = new ProductService();
             const response = await productService.getByFilter({
                 storeId: Number(storeId),
-                page,
-                size: filter.size,
-                category: filter.category,
+                cursor,
+                filter,
             });
             if (response?.products) {
                 setProducts(prev => [...prev, ...response.products]);
             }
-            setNextPage(response?.pagination.hasNextPage || false);
+            setCursor(response?.pagination.nextCursor || null);
         } catch (e) {
             console.error(e);
         } finally {
             setLoading(false);
+            setScrolledToEnd(false);
         }
     };
 
-    useEffect(() => {
-        setFilter({ size: "", category: "" });
-    }, [storeId]);
-
     useEffect(() => {
         // Reset states
-        setPage(1);
-        setNextPage(data.pagination.hasNextPage);
+        setCursor(data.pagination.nextCursor);
+        setScrolledToEnd(false);
         setProducts(data.products);
     }, [filter, data]);
 
@@ -71,30 +58,29 @@ export function useProducts(): Props {
 
     const handleScroll = () => {
         if (window.innerHeight + document.documentElement.scrollTop + 400 >= document.documentElement.scrollHeight) {
-            setPage(prev => prev + 1);
+            setScrolledToEnd(true);
         }
     };
 
     useEffect(() => {
-        if (!nextPage) return;
+        if (!cursor) return;
         window.addEventListener("scroll", handleScroll);
         return () => {
             window.removeEventListener("scroll", handleScroll);
         };
-    }, [nextPage]);
+    }, [cursor]);
 
     useEffect(() => {
-        if (page > 1 && nextPage) {
+        if (scrolledToEnd && cursor) {
             fetchProducts();
         }
-    }, [page]);
+    }, [scrolledToEnd]);
 
     /**
-     * Used By Types and Sizes components to change the products array filters
+     * Used By the filter components to change the products array filters, the products are loaded again for the new url
      **/
-    function setFilter({ category, size }: { category?: string; size?: string }) {
-        if (category !== undefined) setFilterI(prev => ({ ...prev, category }));
-        if (size !== undefined) setFilterI(prev => ({ ...prev, size }));
+    function setFilter(changes: Partial<ProductFilter>) {
+        setSearchParams(filterToParams({ ...filter, ...changes }));
     }
 
     return [filter, setFilter, products, loading];
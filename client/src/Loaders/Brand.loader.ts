@@ -0,0 +1,19 @@
+import { Params } from "react-router-dom";
+import { BrandService } from "../services/Brand.service";
+
+export const BrandsLoader = {
+    /**
+     * Fetch the brand by id with a page of its products from every store
+     * @param params url params
+     * @query page=number
+     * @returns the brand with its products {@link BrandResponse}
+     */
+    async getBrand({ request, params }: { request: Request; params: Params<string> }) {
+        const brandService = new BrandService();
+        const { brandId } = params;
+        const page = Number(new URL(request.url).searchParams.get("page")) || 1;
+        if (Number(brandId)) {
+            return await brandService.get(Number(brandId), page);
+        }
+    },
+};
@@ -1,5 +1,6 @@
 import { Params } from "react-router-dom";
 import { ProductService } from "../services/Product.service";
+import { filterFromParams } from "../pages/utilities/productFilter";
 
 export const ProductsLoader = {
     /**
@@ -17,26 +18,35 @@ export const ProductsLoader = {
         }
     },
     /**
-     * Fetch all products by store id with and limit amount and a page number
+     * Fetch the first page of the products by store id with the filter of the url
      * @param storeId
-     * @query page_number=number&product_amount=number
+     * @query category=string&size=string&brand=string&min_price=number&max_price=number&sort=string
      * @returns product object {@link Product}
      */
     async getAllProducts({ request, params }: { request: Request; params: Params<string> }) {
         const productService = new ProductService();
         const { storeId } = params;
         const url = new URL(request.url);
-        const category = url.searchParams.get("category");
-        const size = url.searchParams.get("size");
-        const page = url.searchParams.get("page");
         if (Number(storeId)) {
             const data = await productService.getByFilter({
                 storeId: Number(storeId),
-                size: size,
-                category: category,
-                page: Number(page),
+                filter: filterFromParams(url.searchParams),
             });
             return data;
         }
     },
+    /**
+     * Search the products of all the stores
+     * @query q=string&page=number
+     * @returns the products found with their store {@link ProductSearchResult}
+     */
+    async search({ request }: { request: Request }) {
+        const productService = new ProductService();
+        const url = new URL(request.url);
+        const q = url.searchParams.get("q") ?? "";
+        const page = Number(url.searchParams.get("page")) || 1;
+        if (q.trim()) {
+            return await productService.search(q, page);
+        }
+    },
 };
@@ -0,0 +1,33 @@
+import { useEffect, useState } from "react";
+import styles from "./index.module.css";
+
+const second = 1000;
+const minute = 60 * second;
+const hour = 60 * minute;
+const day = 24 * hour;
+
+function format(left: number) {
+    const pad = (value: number) => String(value).padStart(2, "0");
+    const days = Math.floor(left / day);
+    const time = `${pad(Math.floor((left % day) / hour))}:${pad(Math.floor((left % hour) / minute))}:${pad(
+        Math.floor((left % minute) / second)
+    )}`;
+    return days > 0 ? `${days}d ${time}` : time;
+}
+
+/**
+ * Shows the time left until the date, nothing is shown once it passed
+ */
+export function Countdown({ until, className = "" }: { until: string | Date; className?: string }) {
+    const [now, setNow] = useState(Date.now());
+    const left = new Date(until).getTime() - now;
+
+    useEffect(() => {
+        const interval = setInterval(() => setNow(Date.now()), second);
+        return () => clearInterval(interval);
+    }, []);
+
+    if (!(left > 0)) return null;
+
+    return <p className={`${styles.countdown} ${className}`}>Termina en {format(left)}</p>;
+}
@@ -5,6 +5,7 @@ export const baseEndpoints = {
     products: {
         get: `${baseUrl}/product`,
         getAll: `${baseUrl}/product/store`,
+        search: `${baseUrl}/product/search`,
     },
     stores: {
         get: `${baseUrl}/shop`,
@@ -28,8 +29,33 @@ export const baseEndpoints = {
         changeRoleManager: `${baseUrl}/users/admin/change_role_manager`,
         changeRoleClient: `${baseUrl}/users/admin/change_role_client`,
     },
+    cart: {
+        get: `${baseUrl}/cart`,
+        merge: `${baseUrl}/cart/merge`,
+    },
     checkout: {
         get: `${baseUrl}/checkout/get`,
         produce: `${baseUrl}/checkout/produce`,
+        base: `${baseUrl}/checkout`,
+    },
+    payments: {
+        pay: `${baseUrl}/payments`,
+    },
+    returns: {
+        get: `${baseUrl}/returns`,
+        request: `${baseUrl}/returns`,
+    },
+    pickup: {
+        store: `${baseUrl}/pickup/store`,
+    },
+    promotions: {
+        quote: `${baseUrl}/promotions/quote`,
+    },
+    catalog: {
+        export: `${baseUrl}/catalog/export`,
+        import: `${baseUrl}/catalog/import`,
+    },
+    brands: {
+        get: `${baseUrl}/brand`,
     },
 };
@@ -0,0 +1,85 @@
+import styles from "./index.module.css";
+import { Link, useLoaderData, useNavigation } from "react-router-dom";
+import { useState } from "react";
+import Loader from "../LoadingSpinner";
+import { Product } from "../Stores/Products/ProductCard/Product";
+import { groupByStore } from "../utilities/groupByStore";
+import { brandLogo } from "../utilities/brandLogo";
+import type { BrandResponse } from "@/types";
+
+export default function Brand() {
+    const navigation = useNavigation();
+    const data = useLoaderData() as BrandResponse | undefined;
+    const [sequencer, setSequencer] = useState<number[]>([]);
+
+    if (navigation.state === "loading") {
+        return (
+            <div style={{ minHeight: "100%", margin: "auto", position: "relative" }}>
+                <div style={{ height: "80px", top: "calc(50% - 40px)", position: "absolute" }}>
+                    <Loader />
+                </div>
+            </div>
+        );
+    }
+
+    if (!data) {
+        return (
+            <div className={styles.not_found_container}>
+                <p>No encontramos la marca.</p>
+            </div>
+        );
+    }
+
+    const { brand, products, pagination } = data;
+    const logo = brandLogo(brand);
+    const pageLink = (page: number) => `/brands/${brand.id}?${new URLSearchParams({ page: String(page) })}`;
+
+    return (
+        <div className={styles.brand_container}>
+            <header className={styles.header}>
+                {logo && (
+                    <img
+                        className={styles.logo}
+                        src={logo.src}
+                        alt={`logo ${brand.name}`}
+                        width={logo.width}
+                        height={logo.height}
+                    />
+                )}
+                <h2 className={styles.title}>{brand.name}</h2>
+                <p>{pagination.totalItems} productos</p>
+            </header>
+            {products.length === 0 && (
+                <div className={styles.not_found_container}>
+                    <p>Ninguna tienda vende productos de {brand.name} por ahora.</p>
+                </div>
+            )}
+            {groupByStore(products).map(([storeId, group]) => (
+                <section key={storeId} className={styles.store_group}>
+                    <Link to={`/stores/${storeId}/q`} className={styles.store_name}>
+                        {group.store}
+                    </Link>
+                    <div className={styles.grid}>
+                        {group.products.map(product => (
+                            <Product
+                                product={product}
+                                key={product.id}
+                                sequencer={sequencer}
+                                setSequencer={setSequencer}
+                            />
+                        ))}
+                    </div>
+                </section>
+            ))}
+            {pagination.totalPages > 1 && (
+                <nav className={styles.page_nav}>
+                    {pagination.page > 1 && <Link to={pageLink(pagination.page - 1)}>Anterior</Link>}
+                    <span>
+                        {pagination.page} / {pagination.totalPages}
+                    </span>
+                    {pagination.hasNextPage && <Link to={pageLink(pagination.page + 1)}>Siguiente</Link>}
+                </nav>
+            )}
+        </div>
+    );
+}
@@ -1,15 +1,19 @@
+import { useState } from "react";
 import { Button } from "../../../components/ui/Button";
 import { Input } from "../../../components/ui/Input";
 import styles from "../index.module.css";
 import Loader from "../../LoadingSpinner";
+import { PaymentMethod } from "../../../types";
 
 type Props = {
-    submitAction: (arg01: React.FormEvent) => void;
+    submitAction: (arg01: React.FormEvent<HTMLFormElement>) => void;
     isLoading: boolean;
     backAction: () => void;
+    children?: React.ReactNode;
 };
 
-export function PaymentForm({ submitAction, isLoading, backAction }: Props) {
+export function PaymentForm({ submitAction, isLoading, backAction, children }: Props) {
+    const [method, setMethod] = useState<PaymentMethod>("CARD");
     return (
         <form onSubmit={submitAction} className={styles.paymentForm}>
             <h3>Informacion personal</h3>
@@ -21,20 +25,45 @@ export function PaymentForm({ submitAction, isLoading, backAction }: Props) {
                     Documento
                 </Input>
             </div>
+            {children}
             <h3>Medio de pago</h3>
-            <div className={styles.cardInfo}>
-                <Input required type="number">
-                    Numero de la tarjeta
-                </Input>
-                <div className={styles.thirdRow}>
-                    <Input type="month" required className={styles.expireDate}>
-                        Vencimiento
-                    </Input>
-                    <Input type="number" required className={styles.securityCode}>
-                        CVV
+            <div className={styles.paymentMethods}>
+                <label>
+                    <input
+                        type="radio"
+                        name="method"
+                        value="CARD"
+                        checked={method === "CARD"}
+                        onChange={() => setMethod("CARD")}
+                    />
+                    Tarjeta
+                </label>
+                <label>
+                    <input
+                        type="radio"
+                        name="method"
+                        value="CASH_ON_PICKUP"
+                        checked={method === "CASH_ON_PICKUP"}
+                        onChange={() => setMethod("CASH_ON_PICKUP")}
+                    />
+                    Efectivo al retirar
+                </label>
+            </div>
+            {method === "CARD" && (
+                <div className={styles.cardInfo}>
+                    <Input required type="number" name="cardNumber">
+                        Numero de la tarjeta
                     </Input>
+                    <div className={styles.thirdRow}>
+                        <Input type="month" required name="cardExpiry" className={styles.expireDate}>
+                            Vencimiento
+                        </Input>
+                        <Input type="number" required name="cardCvv" className={styles.securityCode}>
+                            CVV
+                        </Input>
+                    </div>
                 </div>
-            </div>
+            )}
             {isLoading ? (
                 <div style={{ height: 35, margin: "auto" }}>
                     <Loader />
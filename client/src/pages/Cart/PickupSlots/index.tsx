@@ -0,0 +1,80 @@
+import { useEffect, useState } from "react";
+import { PickupService } from "../../../services/Pickup.service";
+import { StoreService } from "../../../services/Store.service";
+import { PickupSlot } from "../../../types";
+import styles from "./index.module.css";
+
+type Props = {
+    storeIds: number[];
+    selected: Record<number, number>;
+    onChange: (storeId: number, slotId: number) => void;
+};
+
+type StoreSlots = {
+    storeId: number;
+    name: string;
+    slots: PickupSlot[];
+};
+
+function formatSlot(slot: PickupSlot) {
+    const startsAt = new Date(slot.startsAt);
+    const endsAt = new Date(slot.endsAt);
+    return `${startsAt.toLocaleDateString()} ${startsAt.toLocaleTimeString([], {
+        hour: "2-digit",
+        minute: "2-digit",
+    })} - ${endsAt.toLocaleTimeString([], { hour: "2-digit", minute: "2-digit" })}`;
+}
+
+/**
+ * Lets the customer choose when to pick up the products of each store.
+ * Stores without slots with room left are picked up during opening hours.
+ */
+export function PickupSlots({ storeIds, selected, onChange }: Props) {
+    const [stores, setStores] = useState<StoreSlots[]>([]);
+    const storesKey = storeIds.join(",");
+
+    useEffect(() => {
+        const ids = storesKey.split(",").map(Number);
+        const pickupService = new PickupService();
+        const storeService = new StoreService();
+        (async () => {
+            const names = (await storeService.getNames()) as unknown as { id: number; name: string }[];
+            const slots = await Promise.all(ids.map(storeId => pickupService.getByStore(storeId)));
+            setStores(
+                ids.map((storeId, i) => ({
+                    storeId,
+                    name: names.find(store => store.id === storeId)?.name ?? "",
+                    slots: slots[i].filter(slot => slot.booked < slot.capacity),
+                }))
+            );
+        })();
+    }, [storesKey]);
+
+    return (
+        <div className={styles.pickup}>
+            {stores.map(store => (
+                <label key={store.storeId} className={styles.store}>
+                    <span>Retiro en {store.name}</span>
+                    {store.slots.length > 0 ? (
+                        <select
+                            required
+                            value={selected[store.storeId] ?? ""}
+                            onChange={e => onChange(store.storeId, Number(e.target.value))}
+                        >
+                            <option value="" disabled>
+                                Elegí un horario
+                            </option>
+                            {store.slots.map(slot => (
+                                <option key={slot.id} value={slot.id}>
+                                    {formatSlot(slot)}
+                                </option>
+                            ))}
+                        </select>
+                    ) : (
+                        <small>En el horario de atención de la tienda</small>
+                    )}
+                </label>
+            ))}
+        </div>
+    );
+}
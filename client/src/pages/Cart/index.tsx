@@ -1,12 +1,17 @@
-import { useState } from "react";
+import { useEffect, useRef, useState } from "react";
 import { useCart } from "../../Hooks/useCart";
 import { formatPrice } from "../utilities/formatPrice";
+import { variantName } from "../utilities/variantName";
 import styles from "./index.module.css";
 import { Button } from "../../components/ui/Button";
 import Invoice from "../utilities/Invoice";
 import { PaymentForm } from "./PaymentForm";
-import { assetsUrl } from "../../endpoints";
-import { InvoiceInterface } from "../../types";
+import { PickupSlots } from "./PickupSlots";
+import { imageUrl } from "../utilities/imageUrl";
+import { CheckoutLineError, InvoiceInterface, PaymentMethod, PromotionQuote } from "../../types";
+import { FetchError } from "../../services/Fetcher";
+import { PaymentService } from "../../services/Payment.service";
+import { PromotionService } from "../../services/Promotion.service";
 import EmptyCart from "./EmptyCart";
 import TrashIconSVG from "../../assets/TrashSVG";
 import { Link } from "../../components/ui/Link";
@@ -15,12 +20,40 @@ import { useNavigate } from "react-router-dom";
 
 export default function Cart() {
     const { user } = useAuthContext();
-    const { cart, clearCart, checkout, removeProduct, incrementProduct, decrementProduct } = useCart();
+    const { cart, clearCart, checkout, refreshLines, removeProduct, incrementProduct, decrementProduct } = useCart();
     const [showForm, setShowForm] = useState(false);
     const [invoice, setInvoice] = useState<InvoiceInterface | null>(null);
     const [isLoading, setLoading] = useState(false);
+    const [error, setError] = useState("");
+    // a retried or double submitted payment form must not produce a second order or payment
+    const checkoutKey = useRef(crypto.randomUUID());
+    const paymentKey = useRef(crypto.randomUUID());
+    const [pendingInvoice, setPendingInvoice] = useState<InvoiceInterface | null>(null);
+    const [pickupSlots, setPickupSlots] = useState<Record<number, number>>({});
+    const [couponInput, setCouponInput] = useState("");
+    const [coupon, setCoupon] = useState<string | undefined>(undefined);
+    const [quote, setQuote] = useState<(PromotionQuote & { coupon?: string }) | null>(null);
     const navigate = useNavigate();
 
+    useEffect(() => {
+        if (!user || !cart || cart.length === 0 || pendingInvoice) return;
+        new PromotionService()
+            .quote(cart, coupon)
+            .then(data => setQuote({ ...data, coupon }))
+            .catch((e: Error) => {
+                if (!coupon) return;
+                setError(
+                    e.message === "Invalid coupon" ? "El cupón no es válido." : "El cupón no aplica a esta compra."
+                );
+                setCoupon(undefined);
+            });
+    }, [user, cart, coupon, pendingInvoice]);
+
+    function applyCoupon() {
+        setError("");
+        setCoupon(couponInput.trim() || undefined);
+    }
+
     function confirmCartContent() {
         if (!user) {
             navigate("/login");
@@ -28,20 +61,74 @@ export default function Cart() {
         setShowForm(true);
     }
 
-    async function confirmPayment(event: React.FormEvent) {
+    async function confirmPayment(event: React.FormEvent<HTMLFormElement>) {
         event.preventDefault();
+        const form = new FormData(event.currentTarget);
+        const method = form.get("method") as PaymentMethod;
+        const card =
+            method === "CARD"
+                ? {
+                      number: String(form.get("cardNumber")),
+                      expiry: String(form.get("cardExpiry")),
+                      cvv: String(form.get("cardCvv")),
+                  }
+                : undefined;
         setLoading(true);
-        const data = await checkout();
-        setLoading(false);
-        setInvoice(data);
-        clearCart();
-        setShowForm(false);
+        setError("");
+        let order = pendingInvoice;
+        try {
+            if (!order) {
+                order = await checkout({
+                    pickupSlots: Object.values(pickupSlots),
+                    coupon: quote?.coupon,
+                    idempotencyKey: checkoutKey.current,
+                });
+                setPendingInvoice(order);
+                clearCart();
+            }
+        } catch (e) {
+            if (e instanceof FetchError && Array.isArray(e.data)) {
+                refreshLines(e.data as CheckoutLineError[]);
+                setError("Algunos productos cambiaron de precio o no tienen stock suficiente. Revisá tu carrito.");
+            } else {
+                setError((e as Error).message);
+            }
+            setLoading(false);
+            setShowForm(false);
+            return;
+        }
+        try {
+            const payment = await new PaymentService().pay(order.id, method, card, paymentKey.current);
+            setInvoice({
+                ...order,
+                paymentMethod: method,
+                status: payment.status === "CAPTURED" ? "PAID" : order.status,
+            });
+        } catch (e) {
+            // the server keeps the answer of the key, the next attempt may use another card or method
+            paymentKey.current = crypto.randomUUID();
+            setError(
+                e instanceof FetchError && e.message === "Payment declined"
+                    ? "El pago fue rechazado. Probá con otra tarjeta o pagá al retirar."
+                    : (e as Error).message
+            );
+        } finally {
+            setLoading(false);
+        }
     }
 
     function backToCart() {
         setShowForm(false);
     }
 
+    function choosePickupSlot(storeId: number, slotId: number) {
+        setPickupSlots({ ...pickupSlots, [storeId]: slotId });
+    }
+
+    function cartStoreIds() {
+        return [...new Set(cart.map(item => item.storeId).filter((id): id is number => id !== undefined))];
+    }
+
     function calculateTotalPrice() {
         return cart.reduce((acc, item) => acc + item.price * item.discountPercentage * item.quantity, 0);
     }
@@ -53,21 +140,24 @@ export default function Cart() {
     if (cart === null) return null;
 
     if (invoice) return <Invoice {...{ invoice }} />;
-    if (cart.length === 0) return <EmptyCart />;
+    if (cart.length === 0 && !pendingInvoice) return <EmptyCart />;
 
     return (
         <main className={styles.container}>
             {showForm ? (
-                <PaymentForm submitAction={confirmPayment} isLoading={isLoading} backAction={backToCart} />
+                <PaymentForm submitAction={confirmPayment} isLoading={isLoading} backAction={backToCart}>
+                    <h3>Retiro en tienda</h3>
+                    <PickupSlots storeIds={cartStoreIds()} selected={pickupSlots} onChange={choosePickupSlot} />
+                </PaymentForm>
             ) : (
                 <>
                     <ul className={styles.cartContainer}>
                         {cart.map(item => (
-                            <li className={styles.itemContainer} key={item.id}>
+                            <li className={styles.itemContainer} key={`${item.id}-${item.variantId ?? ""}`}>
                                 <Link to={`/products/${item.id}`}>
                                     <div className={styles.containerImg}>
                                         <img
-                                            src={`${assetsUrl}/${item.url_img}`}
+                                            src={imageUrl(item.url_img, "thumbnail")}
                                             className={styles.productImg}
                                             alt={item.name}
                                         />
@@ -78,6 +168,7 @@ export default function Cart() {
                                         <Link to={`/products/${item.id}`}>
                                             <div>{item.name}</div>
                                         </Link>
+                                        {item.variantId && <div>{variantName(item)}</div>}
                                         <div className={styles.priceContainer}>
                                             {item.discountPercentage < 1 && (
                                                 <div className={styles.oldPrice}>
@@ -95,7 +186,8 @@ export default function Cart() {
                                                 onClick={() => decrementProduct(item)}
                                                 className={`${styles.counterButton} ${
                                                     item.quantity === 1 ? styles.disableButton : ""
-                                                }`}>
+                                                }`}
+                                            >
                                                 -
                                             </Button>
                                             <span className={styles.quantity}>{item.quantity}</span>
@@ -103,7 +195,8 @@ export default function Cart() {
                                                 onClick={() => incrementProduct(item)}
                                                 className={`${styles.counterButton} ${
                                                     item.quantity >= item.currentStock ? styles.disableButton : ""
-                                                }`}>
+                                                }`}
+                                            >
                                                 +
                                             </Button>
                                         </div>
@@ -118,18 +211,35 @@ export default function Cart() {
                     <div className={styles.purchaseSummaryContainer}>
                         <div>
                             <h2>Resumen de compra</h2>
+                            {error && <p className={styles.error}>{error}</p>}
                             <div className={styles.summary}>
                                 <div className={styles.detail}>
                                     <p>Productos ({calculateTotalItems()})</p>
                                     {formatPrice(calculateTotalPrice())}
                                 </div>
+                                {quote?.discounts.map((discount, i) => (
+                                    <div className={styles.detail} key={discount.description + i}>
+                                        <p>{discount.description}</p>-{formatPrice(discount.amount)}
+                                    </div>
+                                ))}
+                                {user && (
+                                    <div className={styles.coupon}>
+                                        <input
+                                            type="text"
+                                            placeholder="Cupón de descuento"
+                                            value={couponInput}
+                                            onChange={event => setCouponInput(event.target.value)}
+                                        />
+                                        <Button onClick={applyCoupon}>Aplicar</Button>
+                                    </div>
+                                )}
                             </div>
                         </div>
                         <div>
                             <hr />
                             <div className={styles.detail}>
                                 <h3>Total</h3>
-                                <p>{formatPrice(calculateTotalPrice())}</p>
+                                <p>{formatPrice(quote?.total ?? calculateTotalPrice())}</p>
                             </div>
                             <Button onClick={confirmCartContent} className={styles.continueButton}>
                                 Continuar
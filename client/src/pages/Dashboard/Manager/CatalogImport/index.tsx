@@ -0,0 +1,113 @@
+import { useState } from "react";
+import { CatalogImportReport } from "@/types";
+import { CatalogService } from "@/services/Catalog.service";
+import styles from "../index.module.css";
+
+const actions = {
+    CREATED: "✨ Nuevo",
+    UPDATED: "✏️ Actualizado",
+    REJECTED: "⛔ Rechazado",
+};
+
+export default function CatalogImport() {
+    const [csv, setCsv] = useState<File | null>(null);
+    const [images, setImages] = useState<File | null>(null);
+    const [report, setReport] = useState<CatalogImportReport | null>(null);
+    const [error, setError] = useState("");
+
+    async function handleExport() {
+        try {
+            const file = await new CatalogService().export();
+            const url = URL.createObjectURL(file);
+            const link = document.createElement("a");
+            link.href = url;
+            link.download = "catalogo.csv";
+            link.click();
+            URL.revokeObjectURL(url);
+            setError("");
+        } catch (e) {
+            setError("No se pudo descargar el catalogo");
+        }
+    }
+
+    async function handleImport(dryRun: boolean) {
+        if (!csv) return;
+        try {
+            setReport(await new CatalogService().import(csv, images, dryRun));
+            setError("");
+        } catch (e) {
+            setReport(null);
+            setError((e as Error).message);
+        }
+    }
+
+    return (
+        <section>
+            <button type="button" className={styles.button} onClick={handleExport}>
+                📥 Exportar CSV
+            </button>
+            <label htmlFor="csv_file"> CSV: </label>
+            <input
+                type="file"
+                id="csv_file"
+                accept=".csv,text/csv"
+                onChange={e => {
+                    setCsv(e.currentTarget.files?.[0] ?? null);
+                    setReport(null);
+                }}
+            />
+            <label htmlFor="images_zip"> Imagenes (zip): </label>
+            <input
+                type="file"
+                id="images_zip"
+                accept=".zip"
+                onChange={e => {
+                    setImages(e.currentTarget.files?.[0] ?? null);
+                    setReport(null);
+                }}
+            />
+            <button type="button" className={styles.button} disabled={!csv} onClick={() => handleImport(true)}>
+                Previsualizar
+            </button>
+            <button
+                type="button"
+                className={styles.button}
+                disabled={!report?.dryRun}
+                onClick={() => handleImport(false)}
+            >
+                📤 Importar
+            </button>
+            {error && <p>{error}</p>}
+            {report && (
+                <table className={styles.table}>
+                    <thead>
+                        <tr>
+                            <th colSpan={5}>
+                                {report.dryRun ? "Previsualizacion" : "Importado"}: {report.created} nuevos,{" "}
+                                {report.updated} actualizados, {report.rejected} rechazados
+                            </th>
+                        </tr>
+                        <tr>
+                            <th>Linea</th>
+                            <th>ID</th>
+                            <th>Producto</th>
+                            <th>Accion</th>
+                            <th>Detalle</th>
+                        </tr>
+                    </thead>
+                    <tbody>
+                        {report.rows.map(row => (
+                            <tr key={row.line} className={row.action === "REJECTED" ? styles.escalated : undefined}>
+                                <td>{row.line}</td>
+                                <td>{row.productId}</td>
+                                <td>{row.name}</td>
+                                <td>{actions[row.action]}</td>
+                                <td>{row.error ?? row.image}</td>
+                            </tr>
+                        ))}
+                    </tbody>
+                </table>
+            )}
+        </section>
+    );
+}
@@ -21,7 +21,11 @@ export default function FormUpdateProduct({
         event.preventDefault();
         const productService = new ProductService();
         try {
-            await productService.update(product);
+            //the campaigns don't change the discount of the product
+            await productService.update({
+                ...product,
+                discountPercentage: product.regularDiscountPercentage ?? product.discountPercentage,
+            });
         } catch (e) {
             throw Error((e as Error).message);
         }
@@ -51,8 +55,8 @@ export default function FormUpdateProduct({
                 max={1}
                 step={0.01}
                 id="discount"
-                name="discountPercentage"
-                value={product.discountPercentage}
+                name="regularDiscountPercentage"
+                value={product.regularDiscountPercentage ?? product.discountPercentage}
                 onChange={handleChange}
             />
             <label htmlFor="brand">brand:</label>
@@ -40,7 +40,7 @@ export default function ProductsTable() {
                 <td>{product.name}</td>
                 <td>{product.description}</td>
                 <td>{product.price}</td>
-                <td>{product.discountPercentage}</td>
+                <td>{product.regularDiscountPercentage ?? product.discountPercentage}</td>
                 <td>{product.brand}</td>
                 <td>{product.minimum}</td>
                 <td>{product.reorderPoint}</td>
@@ -0,0 +1,56 @@
+import { useLoaderData } from "react-router-dom";
+import { StockAlert, StoreWithProducts } from "@/types";
+import { StoreService } from "@/services/Store.service";
+import { useEffect, useState } from "react";
+import styles from "../index.module.css";
+
+const levels = {
+    REORDER: "⚠️ Punto de pedido",
+    MINIMUM: "🔥 Bajo el mínimo",
+};
+
+export default function StockAlertsTable() {
+    const data = useLoaderData() as StoreWithProducts;
+    const [alerts, setAlerts] = useState<StockAlert[]>([]);
+
+    useEffect(() => {
+        new StoreService()
+            .getAlerts(data.managerId, "OPEN")
+            .then(setAlerts)
+            .catch(() => setAlerts([]));
+    }, [data.managerId]);
+
+    if (alerts.length === 0) return null;
+
+    return (
+        <table className={styles.table}>
+            <thead>
+                <tr>
+                    <th colSpan={6}>Stock bajo</th>
+                </tr>
+                <tr>
+                    <th>ID</th>
+                    <th>Producto</th>
+                    <th>Alerta</th>
+                    <th>Stock</th>
+                    <th>Punto de pedido</th>
+                    <th>Minimo</th>
+                </tr>
+            </thead>
+            <tbody>
+                {alerts.map(alert => (
+                    <tr key={alert.id} className={alert.level === "MINIMUM" ? styles.escalated : undefined}>
+                        <td>{alert.productId}</td>
+                        <td>{alert.product}</td>
+                        <td title={new Date(alert.escalatedAt ?? alert.createdAt).toLocaleString()}>
+                            {levels[alert.level]}
+                        </td>
+                        <td>{alert.currentStock}</td>
+                        <td>{alert.reorderPoint}</td>
+                        <td>{alert.minimum}</td>
+                    </tr>
+                ))}
+            </tbody>
+        </table>
+    );
+}
@@ -1,6 +1,8 @@
 import styles from "./index.module.css";
 import ProductsTable from "./ProductsTable";
 import ColorsTable from "./ColorsTable";
+import StockAlertsTable from "./StockAlertsTable";
+import CatalogImport from "./CatalogImport";
 import { NavLink, Outlet, useLoaderData, useOutletContext } from "react-router-dom";
 import { ColorsType } from "@/types";
 import { setColors } from "../../utilities/setColors";
@@ -24,9 +26,11 @@ export default function Manager() {
         return (
             <main className={styles.container}>
                 <ColorsTable />
+                <StockAlertsTable />
                 <NavLink to="create_product" onClick={() => setCreate(true)}>
                     🚀 Create Product
                 </NavLink>
+                <CatalogImport />
                 <ProductsTable />
             </main>
         );
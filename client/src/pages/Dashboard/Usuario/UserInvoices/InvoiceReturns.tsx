@@ -0,0 +1,69 @@
+import { useState } from "react";
+import { Button } from "@/components/ui/Button";
+import { ReturnService } from "@/services/Return.service";
+import { InvoiceInterface } from "@/types";
+import { formatPrice } from "@/pages/utilities/formatPrice";
+import styles from "./userInvoices.module.css";
+
+const cancellable = ["PENDING_PAYMENT", "PAID", "READY_FOR_PICKUP"];
+
+/**
+ * Lets the customer ask for the return or cancellation of each line of the invoice,
+ * and lists the credit notes it already has
+ */
+export default function InvoiceReturns({ invoice }: { invoice: InvoiceInterface }) {
+    const [requested, setRequested] = useState<number[]>([]);
+    const [error, setError] = useState("");
+    const action =
+        invoice.status === "PICKED_UP" ? "Devolver" : cancellable.includes(invoice.status) ? "Cancelar" : null;
+
+    async function requestReturn(itemId: number, quantity: number) {
+        try {
+            await new ReturnService().request(itemId, quantity);
+            setRequested([...requested, itemId]);
+        } catch (e) {
+            setError((e as Error).message);
+        }
+    }
+
+    return (
+        <div className={styles.returns}>
+            {action && (
+                <ul>
+                    {invoice.products
+                        .filter(product => product.quantity > product.returned)
+                        .map(product => (
+                            <li key={product.itemId}>
+                                {product.name} ({product.quantity - product.returned})
+                                {requested.includes(product.itemId) ? (
+                                    <small> Solicitud enviada</small>
+                                ) : (
+                                    <Button
+                                        variant="ghost"
+                                        onClick={() =>
+                                            requestReturn(product.itemId, product.quantity - product.returned)
+                                        }
+                                    >
+                                        {action}
+                                    </Button>
+                                )}
+                            </li>
+                        ))}
+                </ul>
+            )}
+            {error && <p className={styles.error}>{error}</p>}
+            {invoice.creditNotes?.length > 0 && (
+                <>
+                    <b>Notas de crédito</b>
+                    <ul>
+                        {invoice.creditNotes.map(note => (
+                            <li key={note.id}>
+                                N° {note.id} - {note.product} x{note.quantity}: {formatPrice(note.total)}
+                            </li>
+                        ))}
+                    </ul>
+                </>
+            )}
+        </div>
+    );
+}
@@ -1,14 +1,26 @@
 import { useLoaderData } from "react-router-dom";
 import Invoice from "@/pages/utilities/Invoice";
-import { InvoiceInterface } from "@/types";
+import { InvoiceInterface, InvoiceStatus } from "@/types";
+import InvoiceReturns from "./InvoiceReturns";
 import styles from "./userInvoices.module.css";
 
+const statusLabels: Record<InvoiceStatus, string> = {
+    PENDING_PAYMENT: "Pendiente de pago",
+    PAID: "Pagada",
+    READY_FOR_PICKUP: "Lista para retirar",
+    PICKED_UP: "Retirada",
+    CANCELLED: "Cancelada",
+    EXPIRED: "Vencida",
+};
+
 export default function UserInvoices() {
     const invoices = useLoaderData() as InvoiceInterface[];
     if (!(invoices.length > 0)) return <p>No tiene compras</p>;
     const html = invoices.map(invoice => (
         <div className={styles.invoice} key={invoice.id}>
+            <span className={`${styles.status} ${styles[invoice.status]}`}>{statusLabels[invoice.status]}</span>
             <Invoice {...{ invoice }} />
+            <InvoiceReturns {...{ invoice }} />
         </div>
     ));
     return <main className={styles.main}>{html}</main>;
@@ -1,6 +1,6 @@
 import CartIconSVG from "../../assets/CartIconSVG";
 import Footer from "./Footer";
-import { Outlet, useLoaderData, useLocation, useNavigate } from "react-router-dom";
+import { Form, Outlet, useLoaderData, useLocation, useNavigate, useSearchParams } from "react-router-dom";
 import styles from "./index.module.css";
 import { Link } from "../../components/ui/Link";
 import { NavLink } from "../../components/ui/NavLink";
@@ -18,6 +18,7 @@ export default function Layout() {
     const [visible, setVisible] = useState(true);
     const [prevScrollPos, setPrevScrollPos] = useState(window.scrollY);
     const location = useLocation();
+    const [searchParams] = useSearchParams();
 
     useEffect(() => {
         window.scrollTo(0, 0);
@@ -58,6 +59,18 @@ export default function Layout() {
                     <Link to="/" className={styles.logo}>
                         <h1>Shoppy</h1>
                     </Link>
+                    <Form action="/search" role="search" className={styles.search_form}>
+                        <input
+                            key={location.pathname === "/search" ? searchParams.get("q") : ""}
+                            type="search"
+                            name="q"
+                            defaultValue={location.pathname === "/search" ? searchParams.get("q") ?? "" : ""}
+                            placeholder="Buscar productos"
+                            aria-label="Buscar productos en todas las tiendas"
+                            className={styles.search_input}
+                            required
+                        />
+                    </Form>
                     <div className={styles.buttons_container}>
                         {user ? (
                             <>
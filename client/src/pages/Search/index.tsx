@@ -0,0 +1,68 @@
+import styles from "./index.module.css";
+import { Link, useLoaderData, useNavigation, useSearchParams } from "react-router-dom";
+import { useState } from "react";
+import Loader from "../LoadingSpinner";
+import { Product } from "../Stores/Products/ProductCard/Product";
+import { groupByStore } from "../utilities/groupByStore";
+import type { ProductSearchResponse } from "@/types";
+
+export default function Search() {
+    const navigation = useNavigation();
+    const data = useLoaderData() as ProductSearchResponse | undefined;
+    const [searchParams] = useSearchParams();
+    const [sequencer, setSequencer] = useState<number[]>([]);
+    const q = searchParams.get("q") ?? "";
+    const pageLink = (page: number) => `/search?${new URLSearchParams({ q, page: String(page) })}`;
+
+    if (navigation.state === "loading") {
+        return (
+            <div style={{ minHeight: "100%", margin: "auto", position: "relative" }}>
+                <div style={{ height: "80px", top: "calc(50% - 40px)", position: "absolute" }}>
+                    <Loader />
+                </div>
+            </div>
+        );
+    }
+
+    if (!data || data.products.length === 0) {
+        return (
+            <div className={styles.not_found_container}>
+                <p>No encontramos productos para "{q}", intente con otras palabras.</p>
+            </div>
+        );
+    }
+
+    const { products, pagination } = data;
+
+    return (
+        <div className={styles.search_container}>
+            <h2 className={styles.title}>
+                {pagination.totalItems} resultados para "{q}"
+            </h2>
+            {groupByStore(products).map(([storeId, group]) => (
+                <section key={storeId} className={styles.store_group}>
+                    <Link to={`/stores/${storeId}/q`} className={styles.store_name}>
+                        {group.store}
+                    </Link>
+                    <div className={styles.grid}>
+                        {group.products.map(product => (
+                            <Product
+                                product={product}
+                                key={product.id}
+                                sequencer={sequencer}
+                                setSequencer={setSequencer}
+                            />
+                        ))}
+                    </div>
+                </section>
+            ))}
+            <nav className={styles.page_nav}>
+                {pagination.page > 1 && <Link to={pageLink(pagination.page - 1)}>Anterior</Link>}
+                <span>
+                    {pagination.page} / {pagination.totalPages}
+                </span>
+                {pagination.hasNextPage && <Link to={pageLink(pagination.page + 1)}>Siguiente</Link>}
+            </nav>
+        </div>
+    );
+}
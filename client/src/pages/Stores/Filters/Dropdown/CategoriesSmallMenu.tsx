@@ -1,30 +1,23 @@
-import { setFilterType } from "@/types";
+import { ProductFilter, setFilterType } from "@/types";
 import styles from "./index.module.css";
-import { useLoaderData, useNavigate, useParams } from "react-router-dom";
+import { useFacets } from "@/Hooks/useFacets";
 
 type Props = {
-    filter: {
-        category: string;
-        size: string;
-    };
+    filter: ProductFilter;
     setFilter: setFilterType;
 };
 
 export default function CategoriesSmallMenu({ filter, setFilter }: Props) {
-    const { sizes, categories } = useLoaderData() as { sizes: string[]; categories: string[] };
-    const { storeId } = useParams();
-    const navigate = useNavigate();
+    const { sizes, categories } = useFacets(filter);
 
     function handleChange(e: React.ChangeEvent<HTMLSelectElement>) {
         const name = e.currentTarget.name;
         const value = e.currentTarget.value;
         if (name === "sizes") {
-            setFilter({ size: value });
-            navigate(`/stores/${storeId}/q?category=${filter.category}&size=${value}`);
+            setFilter({ sizes: value ? [value] : [] });
         }
         if (name === "category") {
-            setFilter({ category: value });
-            navigate(`/stores/${storeId}/q?category=${value}&size=${filter.size}`);
+            setFilter({ categories: value ? [value] : [] });
         }
     }
 
@@ -32,12 +25,12 @@ export default function CategoriesSmallMenu({ filter, setFilter }: Props) {
         <div className={styles.menu_container}>
             <label>
                 Sizes
-                <select name={"sizes"} value={filter.size} onChange={handleChange}>
+                <select name={"sizes"} value={filter.sizes[0] ?? ""} onChange={handleChange}>
                     <option value={""}>All</option>
-                    {sizes.map(size => {
+                    {sizes.map(({ value, label }) => {
                         return (
-                            <option key={size} value={size}>
-                                {size}
+                            <option key={value} value={value}>
+                                {label}
                             </option>
                         );
                     })}
@@ -45,12 +38,12 @@ export default function CategoriesSmallMenu({ filter, setFilter }: Props) {
             </label>
             <label>
                 Category
-                <select name={"category"} value={filter.category} onChange={handleChange}>
+                <select name={"category"} value={filter.categories[0] ?? ""} onChange={handleChange}>
                     <option value={""}>All</option>
-                    {categories.map(category => {
+                    {categories.map(({ value, label }) => {
                         return (
-                            <option key={category} value={category}>
-                                {category}
+                            <option key={value} value={value}>
+                                {label}
                             </option>
                         );
                     })}
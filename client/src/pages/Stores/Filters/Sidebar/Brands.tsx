@@ -0,0 +1,27 @@
+import { ProductFilter } from "@/types";
+import styles from "./index.module.css";
+import { useFacets } from "@/Hooks/useFacets";
+import FacetList from "./FacetList";
+
+type Props = {
+    filter: ProductFilter;
+    viewWindow: string;
+};
+
+/**
+ * List of buttons that set the brand filter
+ * @filter the filter currently applied to the product grid
+ */
+export default function Brands({ filter, viewWindow }: Props) {
+    const { brands } = useFacets(filter);
+
+    return (
+        <FacetList
+            name="brands"
+            options={brands}
+            filter={filter}
+            className={styles.brands_category}
+            viewWindow={viewWindow}
+        />
+    );
+}
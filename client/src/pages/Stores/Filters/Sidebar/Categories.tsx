@@ -1,51 +1,27 @@
-import { useLoaderData, Link, useParams } from "react-router-dom";
-import { setFilterType } from "../../../../types";
+import { ProductFilter } from "@/types";
 import styles from "./index.module.css";
+import { useFacets } from "@/Hooks/useFacets";
+import FacetList from "./FacetList";
 
 type Props = {
-    filter: {
-        category: string;
-        size: string;
-    };
-    setFilter: setFilterType;
+    filter: ProductFilter;
     viewWindow: string;
 };
 
 /**
- * List of buttons that set the type category
- * @isCurrentFilter current set type filter
- * @setFilter takes a type:string or size:string and set the filters for the product grid
+ * List of buttons that set the category filter
+ * @filter the filter currently applied to the product grid
  */
-export default function Categories({ filter, setFilter, viewWindow }: Props) {
-    const { categories } = useLoaderData() as { categories: string[] };
-    const { storeId } = useParams();
-
-    function isActive(cat: string) {
-        return filter.category === cat ? [styles.category_item, styles.active].join(" ") : styles.category_item;
-    }
+export default function Categories({ filter, viewWindow }: Props) {
+    const { categories } = useFacets(filter);
 
     return (
-        <ul className={[styles.types_category, styles[viewWindow]].join(" ")}>
-            <li>
-                <Link
-                    to={`/stores/${storeId}/q`}
-                    className={isActive("")}
-                    onClick={filter.category !== "" ? () => setFilter({ category: "" }) : undefined}>
-                    All
-                </Link>
-            </li>
-            {categories.map((category, i) => {
-                return (
-                    <li key={i}>
-                        <Link
-                            to={`/stores/${storeId}/q?category=${category}&size=${filter.size}`}
-                            onClick={() => setFilter({ category: category })}
-                            className={isActive(category)}>
-                            {category}
-                        </Link>
-                    </li>
-                );
-            })}
-        </ul>
+        <FacetList
+            name="categories"
+            options={categories}
+            filter={filter}
+            className={styles.types_category}
+            viewWindow={viewWindow}
+        />
     );
 }
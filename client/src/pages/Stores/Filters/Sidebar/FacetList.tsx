@@ -0,0 +1,45 @@
+import { Link } from "react-router-dom";
+import { ProductFilter } from "@/types";
+import { FacetOption } from "@/Hooks/useFacets";
+import { filterToParams, toggleValue } from "@/pages/utilities/productFilter";
+import styles from "./index.module.css";
+
+type Props = {
+    name: "categories" | "sizes" | "brands";
+    options: FacetOption[];
+    filter: ProductFilter;
+    className: string;
+    viewWindow: string;
+};
+
+/**
+ * List of links that add or remove an option of the filter, several options of the list can be set at once
+ * @name the list of the filter the options belong to
+ */
+export default function FacetList({ name, options, filter, className, viewWindow }: Props) {
+    const selected = filter[name];
+    const linkTo = (values: string[]) => `?${filterToParams({ ...filter, [name]: values })}`;
+
+    function isActive(active: boolean) {
+        return active ? [styles.category_item, styles.active].join(" ") : styles.category_item;
+    }
+
+    return (
+        <ul className={[className, styles[viewWindow]].join(" ")}>
+            <li>
+                <Link to={linkTo([])} className={isActive(selected.length === 0)}>
+                    All
+                </Link>
+            </li>
+            {options.map(({ value, label }) => {
+                return (
+                    <li key={value}>
+                        <Link to={linkTo(toggleValue(selected, value))} className={isActive(selected.includes(value))}>
+                            {label}
+                        </Link>
+                    </li>
+                );
+            })}
+        </ul>
+    );
+}
@@ -0,0 +1,71 @@
+import { ProductFilter, ProductSort, setFilterType } from "@/types";
+import styles from "./index.module.css";
+
+type Props = {
+    filter: ProductFilter;
+    setFilter: setFilterType;
+};
+
+const sortOptions: { value: ProductSort | ""; label: string }[] = [
+    { value: "", label: "Por defecto" },
+    { value: "price_asc", label: "Menor precio" },
+    { value: "price_desc", label: "Mayor precio" },
+    { value: "discount", label: "Mayor descuento" },
+    { value: "newest", label: "Más nuevos" },
+    { value: "name", label: "Nombre" },
+];
+
+/**
+ * The order of the product grid and the range of the price the products are sold at
+ */
+export default function Toolbar({ filter, setFilter }: Props) {
+    function handlePrice(e: React.FormEvent<HTMLFormElement>) {
+        e.preventDefault();
+        const form = new FormData(e.currentTarget);
+        setFilter({ minPrice: String(form.get("min_price") ?? ""), maxPrice: String(form.get("max_price") ?? "") });
+    }
+
+    return (
+        <div className={styles.toolbar}>
+            <label>
+                Ordenar por
+                <select
+                    value={filter.sort}
+                    onChange={e => setFilter({ sort: e.currentTarget.value as ProductSort | "" })}
+                    className={styles.select}
+                >
+                    {sortOptions.map(({ value, label }) => (
+                        <option key={value} value={value}>
+                            {label}
+                        </option>
+                    ))}
+                </select>
+            </label>
+            <form key={`${filter.minPrice}-${filter.maxPrice}`} onSubmit={handlePrice} className={styles.price_form}>
+                <input
+                    type="number"
+                    name="min_price"
+                    min={0}
+                    step="0.01"
+                    placeholder="Mínimo"
+                    defaultValue={filter.minPrice}
+                    aria-label="Precio mínimo"
+                    className={styles.price_input}
+                />
+                <input
+                    type="number"
+                    name="max_price"
+                    min={0}
+                    step="0.01"
+                    placeholder="Máximo"
+                    defaultValue={filter.maxPrice}
+                    aria-label="Precio máximo"
+                    className={styles.price_input}
+                />
+                <button type="submit" className={styles.price_button}>
+                    Aplicar
+                </button>
+            </form>
+        </div>
+    );
+}
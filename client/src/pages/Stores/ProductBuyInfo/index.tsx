@@ -1,17 +1,30 @@
 import styles from "./index.module.css";
-import type { Product } from "@/types";
+import type { PriceHistoryPoint, Product } from "@/types";
 import { useLoaderData } from "react-router-dom";
 import { useCart } from "@/Hooks/useCart";
 import { formatPrice } from "@/pages/utilities/formatPrice";
+import { variantName } from "@/pages/utilities/variantName";
 import { Button } from "@/components/ui/Button";
 import { useEffect, useRef, useState } from "react";
-import { assetsUrl } from "@/endpoints";
+import { imageSrcSet, imageUrl } from "@/pages/utilities/imageUrl";
+import { Countdown } from "@/components/ui/Countdown";
+import { ProductService } from "@/services/Product.service";
 
 export default function Product() {
     const product = useLoaderData() as Product;
     const { addProduct } = useCart();
     const [showNotification, setShowNotification] = useState(false);
+    const variants = (product.variants ?? []).filter(variant => variant.status === 1);
+    const [variantId, setVariantId] = useState(variants.find(variant => variant.currentStock > 0)?.id);
+    const variant = variants.find(variant => variant.id === variantId);
+    const price = variant?.price ?? product.price;
     const timerRef = useRef<NodeJS.Timeout>();
+    const [priceHistory, setPriceHistory] = useState<PriceHistoryPoint[]>([]);
+    const lowestPrice = Math.min(...priceHistory.map(point => point.finalPrice));
+
+    useEffect(() => {
+        new ProductService().getPriceHistory(product.id).then(history => setPriceHistory(history ?? []));
+    }, [product.id]);
 
     useEffect(() => {
         if (showNotification === true) {
@@ -25,28 +38,61 @@ export default function Product() {
     function handleSubmit(event: React.FormEvent<HTMLFormElement>) {
         event.preventDefault();
         const { amount } = event.target as HTMLFormElement;
-        addProduct(product, Number(amount.value));
+        addProduct(product, Number(amount.value), variant);
         setShowNotification(true);
     }
 
     return (
         <main className={styles.container}>
-            <img src={`${assetsUrl}/${product.url_img}`} alt="A product image" width={500} />
+            <img
+                src={imageUrl(product.url_img, "detail")}
+                srcSet={imageSrcSet(product.url_img)}
+                sizes="500px"
+                alt="A product image"
+                width={500}
+            />
             <div className={styles.infoContainer}>
                 <div className={styles.content}>
                     <p className={styles.title}>{product.name}</p>
                     {product.discountPercentage < 1 ? (
                         <div className={styles.offerPriceContainer}>
-                            <p className={styles.price}>{formatPrice(product.price * product.discountPercentage)}</p>
-                            <p className={styles.oldPrice}>{formatPrice(product.price)}</p>
+                            <p className={styles.price}>{formatPrice(price * product.discountPercentage)}</p>
+                            <p className={styles.oldPrice}>{formatPrice(price)}</p>
                         </div>
                     ) : (
-                        <p className={styles.price}>{formatPrice(product.price)}</p>
+                        <p className={styles.price}>{formatPrice(price)}</p>
+                    )}
+                    {product.campaignEndsAt && <Countdown until={product.campaignEndsAt} />}
+                    {priceHistory.length > 1 && (
+                        <p className={styles.priceHistory}>
+                            Precio más bajo de los últimos 90 días: {formatPrice(lowestPrice)}
+                        </p>
                     )}
                     <p className={styles.description}>{product.description}</p>
                 </div>
 
                 <form className={styles.footer} onSubmit={handleSubmit}>
+                    {variants.length > 0 && (
+                        <div className={styles.field}>
+                            <label htmlFor="variant">Talle</label>
+                            <select
+                                id="variant"
+                                value={variantId ?? ""}
+                                onChange={event => setVariantId(Number(event.target.value))}
+                                required
+                            >
+                                <option value="" disabled>
+                                    Elegir
+                                </option>
+                                {variants.map(variant => (
+                                    <option key={variant.id} value={variant.id} disabled={variant.currentStock === 0}>
+                                        {variantName(variant) || variant.sku}
+                                        {variant.currentStock === 0 ? " (sin stock)" : ""}
+                                    </option>
+                                ))}
+                            </select>
+                        </div>
+                    )}
                     <div className={styles.field}>
                         <label htmlFor="amount">Cantidad</label>
                         <input id="amount" type="number" defaultValue={1} min={1} />
@@ -54,7 +100,8 @@ export default function Product() {
                     <Button
                         type="submit"
                         className={`${styles.addToCart} ${showNotification ? styles.notification : ""}`}
-                        disabled={showNotification}>
+                        disabled={showNotification || (variants.length > 0 && !variant)}
+                    >
                         {showNotification ? "Agregado!" : "Agregar al carrito"}
                     </Button>
                 </form>
@@ -3,7 +3,8 @@ import { useState, useEffect } from "react";
 import type { Product } from "../../../../types";
 import styles from "./product.module.css";
 import { NavLink } from "react-router-dom";
-import { assetsUrl } from "../../../../endpoints";
+import { imageSrcSet, imageUrl } from "../../../utilities/imageUrl";
+import { Countdown } from "../../../../components/ui/Countdown";
 
 type ProductProps = {
     product: Product;
@@ -26,7 +27,8 @@ export function Product({ product, sequencer, setSequencer }: ProductProps) {
         <NavLink to={`/products/${product.id}`} className={styles.link_card}>
             <div
                 id={`${product.id}`}
-                className={sequencer.includes(+product.id) ? styles.hidden : styles.product_container}>
+                className={sequencer.includes(+product.id) ? styles.hidden : styles.product_container}
+            >
                 <div key={product.id} className={styles.product_card}>
                     <img
                         onLoad={() => setLoaded(true)}
@@ -35,7 +37,9 @@ export function Product({ product, sequencer, setSequencer }: ProductProps) {
                             currentTarget.src = "/placeholder.jpg";
                         }}
                         className={styles.product_img}
-                        src={`${assetsUrl}/${product.url_img}`}
+                        src={imageUrl(product.url_img, "card")}
+                        srcSet={imageSrcSet(product.url_img)}
+                        sizes="400px"
                         alt={product.name}
                         width={400}
                         height={540}
@@ -54,6 +58,7 @@ export function Product({ product, sequencer, setSequencer }: ProductProps) {
                                 </p>
                             )}
                         </div>
+                        {product.campaignEndsAt && <Countdown until={product.campaignEndsAt} />}
                     </div>
                 </div>
                 <span className={styles.product_buyBtn}>Ver</span>
@@ -5,6 +5,8 @@ import { useNavigation, Outlet, useOutletContext, useLoaderData } from "react-ro
 import { useProducts } from "../../Hooks/useProducts";
 import Categories from "./Filters/Sidebar/Categories";
 import Sizes from "./Filters/Sidebar/Sizes";
+import Brands from "./Filters/Sidebar/Brands";
+import Toolbar from "./Filters/Toolbar";
 import { ColorsType, Product } from "../../types";
 import CategoriesSmallMenu from "./Filters/Dropdown/CategoriesSmallMenu";
 import { setColors } from "../utilities/setColors";
@@ -43,15 +45,20 @@ export default function Store() {
                 <div className={styles.container_sidebar}>
                     <div className={styles.sizes_menu}>
                         <p>Talles</p>
-                        <Sizes filter={filter} setFilter={setFilter} viewWindow={"big"} />
+                        <Sizes filter={filter} viewWindow={"big"} />
                     </div>
                     <div className={styles.types_menu}>
                         <p>Categorias</p>
-                        <Categories filter={filter} setFilter={setFilter} viewWindow={"big"} />
+                        <Categories filter={filter} viewWindow={"big"} />
+                    </div>
+                    <div className={styles.types_menu}>
+                        <p>Marcas</p>
+                        <Brands filter={filter} viewWindow={"big"} />
                     </div>
                 </div>
             </div>
             <div className={styles.products_container}>
+                <Toolbar filter={filter} setFilter={setFilter} />
                 <Outlet context={{ products, loading }} />
             </div>
         </div>
@@ -1,7 +1,29 @@
+import { useState } from "react";
 import { InvoiceInterface } from "../../types";
+import { CheckoutService } from "../../services/Checkout.service";
+import { variantName } from "./variantName";
 
 export default function Invoice({ invoice }: { invoice: InvoiceInterface }) {
     const date = new Date(invoice.date).toDateString();
+    const [pdfError, setPdfError] = useState("");
+    const downloadPdf = async () => {
+        try {
+            const pdf = await new CheckoutService().downloadPdf(invoice.id);
+            const url = URL.createObjectURL(pdf);
+            const link = document.createElement("a");
+            link.href = url;
+            link.download = `factura-${invoice.id}.pdf`;
+            link.click();
+            URL.revokeObjectURL(url);
+            setPdfError("");
+        } catch (e) {
+            setPdfError("No se pudo descargar la factura");
+        }
+    };
+    const taxes = invoice.products.reduce<Record<number, number>>((taxes, product) => {
+        if (product.tax) taxes[product.taxRate] = (taxes[product.taxRate] ?? 0) + product.tax;
+        return taxes;
+    }, {});
     const odd = (number: number) =>
         number % 2 === 0
             ? { backgroundColor: "silver", paddingRight: 5 }
@@ -15,6 +37,12 @@ export default function Invoice({ invoice }: { invoice: InvoiceInterface }) {
                 </h1>
             </header>
             <p>Purchase Order: {invoice.id}</p>
+            {(invoice.numbers ?? []).map(number => (
+                <p key={number.storeId}>
+                    Invoice {String(number.storeId).padStart(4, "0")}-{String(number.number).padStart(8, "0")} -{" "}
+                    {number.store}
+                </p>
+            ))}
             <p>Date : {date}</p>
             <b>BILL TO</b>
             <p>Name: {invoice.name + " " + invoice.lastName}</p>
@@ -47,7 +75,10 @@ export default function Invoice({ invoice }: { invoice: InvoiceInterface }) {
                         const num = odd(i);
                         return (
                             <tr key={product.name + i}>
-                                <td style={num}>{product.name}</td>
+                                <td style={num}>
+                                    {product.name}
+                                    {product.variantId ? ` (${variantName(product)})` : ""}
+                                </td>
                                 <td style={num}>{product.store}</td>
                                 <td style={num}>{product.price}</td>
                                 <td style={num}>{product.quantity}</td>
@@ -57,13 +88,60 @@ export default function Invoice({ invoice }: { invoice: InvoiceInterface }) {
                     })}
                 </tbody>
             </table>
-            <p>
-                Email enviado a:{" "}
-                <a href={invoice.messageUrl} target="_blank">
-                    ethereal email
-                </a>{" "}
-            </p>
+            <button type="button" onClick={downloadPdf}>
+                Descargar PDF
+            </button>
+            {pdfError && <p>{pdfError}</p>}
+            {invoice.messageUrl ? (
+                <p>
+                    Email enviado a:{" "}
+                    <a href={invoice.messageUrl} target="_blank">
+                        ethereal email
+                    </a>{" "}
+                </p>
+            ) : (
+                <p>No se pudo enviar el email de la factura</p>
+            )}
+            {invoice.discounts && invoice.discounts.length > 0 && (
+                <>
+                    <p>Subtotal: ${Math.round((invoice.total + invoice.discount) * 100) / 100}</p>
+                    <b>DISCOUNTS</b>
+                    <ul>
+                        {invoice.discounts.map((discount, i) => (
+                            <li key={discount.description + i}>
+                                {discount.description}
+                                {discount.code && ` (${discount.code})`}: -${discount.amount}
+                            </li>
+                        ))}
+                    </ul>
+                </>
+            )}
             <h2>Grand Total: ${invoice.total}</h2>
+            {Object.entries(taxes).map(([rate, tax]) => (
+                <p key={rate}>
+                    Includes tax {rate}%: ${Math.round(tax * 100) / 100}
+                </p>
+            ))}
+            {invoice.pickupCode && (
+                <>
+                    <b>PICKUP</b>
+                    <p>
+                        Pickup code: <b style={{ fontSize: 24, letterSpacing: 4 }}>{invoice.pickupCode}</b>
+                    </p>
+                    <ul>
+                        {(invoice.pickups ?? []).map(pickup => (
+                            <li key={pickup.storeId}>
+                                {pickup.store}:{" "}
+                                {pickup.startsAt
+                                    ? `${new Date(pickup.startsAt).toLocaleString()} - ${new Date(
+                                          pickup.endsAt ?? ""
+                                      ).toLocaleTimeString()}`
+                                    : "Store opening hours"}
+                            </li>
+                        ))}
+                    </ul>
+                </>
+            )}
         </div>
     );
 }
@@ -0,0 +1,50 @@
+import adidas from "../../assets/logos/adidas.webp";
+import boss from "../../assets/logos/boss.webp";
+import casio from "../../assets/logos/casio.webp";
+import chanel from "../../assets/logos/chanel.webp";
+import cheeky from "../../assets/logos/cheeky.webp";
+import forever21 from "../../assets/logos/forever21.webp";
+import gucci from "../../assets/logos/gucci.webp";
+import lacoste from "../../assets/logos/lacoste.webp";
+import levis from "../../assets/logos/levis.webp";
+import oshkosh from "../../assets/logos/oshkosh.webp";
+import polo from "../../assets/logos/polo.webp";
+import rolex from "../../assets/logos/rolex.webp";
+import swarovski from "../../assets/logos/swarovski.webp";
+import zara from "../../assets/logos/zara.webp";
+import { imageUrl } from "./imageUrl";
+import type { Brand } from "@/types";
+
+type Logo = {
+    src: string;
+    width: number;
+    height?: number;
+};
+
+/**
+ * The logos shipped with the client, by the lowercase name of their brand
+ */
+const bundledLogos: Record<string, Logo> = {
+    adidas: { src: adidas, width: 80, height: 54 },
+    boss: { src: boss, width: 80, height: 30 },
+    casio: { src: casio, width: 80, height: 14 },
+    chanel: { src: chanel, width: 80, height: 45 },
+    cheeky: { src: cheeky, width: 80, height: 80 },
+    forever21: { src: forever21, width: 80, height: 16 },
+    gucci: { src: gucci, width: 80, height: 82 },
+    lacoste: { src: lacoste, width: 80, height: 80 },
+    levi: { src: levis, width: 80, height: 37 },
+    oshkosh: { src: oshkosh, width: 80, height: 80 },
+    polo: { src: polo, width: 80, height: 48 },
+    rolex: { src: rolex, width: 80, height: 80 },
+    swarovski: { src: swarovski, width: 80, height: 45 },
+    zara: { src: zara, width: 80, height: 33 },
+};
+
+/**
+ * The logo uploaded for the brand, or the one shipped with the client for its name
+ */
+export function brandLogo(brand: Pick<Brand, "name" | "url_logo">): Logo | undefined {
+    if (brand.url_logo) return { src: imageUrl(brand.url_logo, "thumbnail"), width: 80 };
+    return bundledLogos[brand.name.toLowerCase()];
+}
@@ -0,0 +1,14 @@
+import type { StoreProduct } from "@/types";
+
+/**
+ * Groups the products by the store that sells them, keeping the stores in the order of their first product
+ */
+export function groupByStore<T extends StoreProduct>(products: T[]) {
+    const groups = new Map<number, { store: string; products: T[] }>();
+    for (const product of products) {
+        const storeId = product.storeId ?? 0;
+        if (!groups.has(storeId)) groups.set(storeId, { store: product.store, products: [] });
+        groups.get(storeId)?.products.push(product);
+    }
+    return [...groups.entries()];
+}
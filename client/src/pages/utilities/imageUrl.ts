@@ -0,0 +1,29 @@
+import { assetsUrl } from "@/endpoints";
+
+/**
+ * The sizes the api generates for the product images, by their width
+ */
+const imageWidths = {
+    thumbnail: 160,
+    card: 400,
+    detail: 1000,
+};
+
+export type ImageSize = keyof typeof imageWidths;
+
+/**
+ * The url of a size of the image, the api generates it when it's missing
+ */
+export function imageUrl(url_img: string, size: ImageSize) {
+    const file = url_img.split("/").pop();
+    return `${assetsUrl}/images/${size}/${file}`;
+}
+
+/**
+ * Every size of the image, so the browser picks the one it needs
+ */
+export function imageSrcSet(url_img: string) {
+    return (Object.keys(imageWidths) as ImageSize[])
+        .map(size => `${imageUrl(url_img, size)} ${imageWidths[size]}w`)
+        .join(", ");
+}
@@ -0,0 +1,47 @@
+import type { ProductFilter, ProductSort } from "@/types";
+
+const listParams = {
+    categories: "category",
+    sizes: "size",
+    brands: "brand",
+} as const;
+
+/**
+ * Reads the filter of a product listing from its url, the lists take values repeated or separated by commas
+ */
+export function filterFromParams(params: URLSearchParams): ProductFilter {
+    const list = (name: string) =>
+        params
+            .getAll(name)
+            .flatMap(value => value.split(","))
+            .filter(Boolean);
+    return {
+        categories: list(listParams.categories),
+        sizes: list(listParams.sizes),
+        brands: list(listParams.brands),
+        minPrice: params.get("min_price") ?? "",
+        maxPrice: params.get("max_price") ?? "",
+        sort: (params.get("sort") ?? "") as ProductSort | "",
+    };
+}
+
+/**
+ * Writes the filter of a product listing as the query of its url, leaving out the empty options
+ */
+export function filterToParams(filter: ProductFilter) {
+    const params = new URLSearchParams();
+    for (const key of Object.keys(listParams) as (keyof typeof listParams)[]) {
+        if (filter[key].length > 0) params.set(listParams[key], filter[key].join(","));
+    }
+    filter.minPrice && params.set("min_price", filter.minPrice);
+    filter.maxPrice && params.set("max_price", filter.maxPrice);
+    filter.sort && params.set("sort", filter.sort);
+    return params;
+}
+
+/**
+ * Adds the value to the list when it's missing and removes it when it's there
+ */
+export function toggleValue(values: string[], value: string) {
+    return values.includes(value) ? values.filter(item => item !== value) : [...values, value];
+}
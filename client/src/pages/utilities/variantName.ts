@@ -0,0 +1,6 @@
+/**
+ * The size and color of a product variant, empty for the products sold without variants
+ */
+export function variantName(variant: { size?: string | null; color?: string | null }) {
+    return [variant.size, variant.color].filter(Boolean).join(" / ");
+}
@@ -2,6 +2,7 @@ import { createBrowserRouter } from "react-router-dom";
 import { StoresLoader } from "./Loaders/Store.loader.ts";
 import { ProductsLoader } from "./Loaders/Product.loader.ts";
 import { UserLoader } from "./Loaders/User.loader.ts";
+import { BrandsLoader } from "./Loaders/Brand.loader.ts";
 import { lazy } from "react";
 import CreateProductContainer from "./pages/Dashboard/Manager/CreateProduct/CreateProductContainer.tsx";
 
@@ -20,6 +21,8 @@ const UserInvoices = lazy(() => import("./pages/Dashboard/Usuario/UserInvoices/U
 const Admin = lazy(() => import("./pages/Dashboard/Admin/index.tsx"));
 const Products = lazy(() => import("./pages/Stores/Products/index.tsx"));
 const Manager = lazy(() => import("./pages/Dashboard/Manager/index.tsx"));
+const Search = lazy(() => import("./pages/Search"));
+const Brand = lazy(() => import("./pages/Brand"));
 
 export const Router = createBrowserRouter([
     {
@@ -51,6 +54,16 @@ export const Router = createBrowserRouter([
                 loader: ProductsLoader.getProduct,
                 element: <Product />,
             },
+            {
+                path: "/search",
+                loader: ProductsLoader.search,
+                element: <Search />,
+            },
+            {
+                path: "/brands/:brandId",
+                loader: BrandsLoader.getBrand,
+                element: <Brand />,
+            },
             {
                 path: "/cart",
                 element: <Cart />,
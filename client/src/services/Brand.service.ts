@@ -0,0 +1,26 @@
+import { baseEndpoints } from "../endpoints";
+import { Brand, BrandResponse } from "../types";
+import Fetcher from "./Fetcher";
+
+export class BrandService {
+    async getAll() {
+        try {
+            const brands = await Fetcher.query<Brand[]>(baseEndpoints.brands.get, { method: "GET" });
+            return brands.data;
+        } catch (e) {
+            console.error(e);
+        }
+    }
+
+    async get(id: Brand["id"], page = 1, perPage = 12) {
+        try {
+            const urlParams = new URLSearchParams({ page: String(page), per_page: String(perPage) });
+            const brand = await Fetcher.query<BrandResponse>(`${baseEndpoints.brands.get}/${id}?${urlParams}`, {
+                method: "GET",
+            });
+            return brand.data;
+        } catch (e) {
+            console.error(e);
+        }
+    }
+}
@@ -0,0 +1,73 @@
+import type { CartLine, Product } from "../types";
+import { baseEndpoints } from "../endpoints";
+import Fetcher from "./Fetcher";
+
+export class CartService {
+    /**
+     * The cart endpoints can be called before the auth interceptor is registered,
+     * so the token is sent on each request.
+     */
+    private get token() {
+        return window.localStorage.getItem("user") || undefined;
+    }
+
+    /**
+     * Maps the server cart lines to the products kept by the cart context
+     */
+    private toProducts(lines: CartLine[]): Product[] {
+        return lines.map(line => ({ ...line, id: line.productId }));
+    }
+
+    async get() {
+        const response = await Fetcher.query<CartLine[]>(baseEndpoints.cart.get, { method: "GET", token: this.token });
+        return this.toProducts(response.data);
+    }
+
+    async add(productId: number, quantity: number, variantId: number | null = null) {
+        const response = await Fetcher.query<CartLine[]>(baseEndpoints.cart.get, {
+            method: "POST",
+            data: { productId, variantId, quantity },
+            token: this.token,
+        });
+        return this.toProducts(response.data);
+    }
+
+    async update(productId: number, quantity: number, variantId: number | null = null) {
+        const response = await Fetcher.query<CartLine[]>(baseEndpoints.cart.get, {
+            method: "PUT",
+            data: { productId, variantId, quantity },
+            token: this.token,
+        });
+        return this.toProducts(response.data);
+    }
+
+    async remove(productId: number, variantId: number | null = null) {
+        const query = variantId ? `?variantId=${variantId}` : "";
+        const response = await Fetcher.query<CartLine[]>(`${baseEndpoints.cart.get}/${productId}${query}`, {
+            method: "DELETE",
+            token: this.token,
+        });
+        return this.toProducts(response.data);
+    }
+
+    async clear() {
+        await Fetcher.query(baseEndpoints.cart.get, { method: "DELETE", token: this.token });
+    }
+
+    /**
+     * Merge the anonymous cart into the user cart
+     * @returns the merged cart
+     */
+    async merge(products: Product[]) {
+        const response = await Fetcher.query<CartLine[]>(baseEndpoints.cart.merge, {
+            method: "POST",
+            data: products.map(product => ({
+                productId: product.id,
+                variantId: product.variantId ?? null,
+                quantity: product.quantity,
+            })),
+            token: this.token,
+        });
+        return this.toProducts(response.data);
+    }
+}
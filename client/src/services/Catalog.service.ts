@@ -0,0 +1,24 @@
+import { baseEndpoints } from "../endpoints";
+import Fetcher from "./Fetcher";
+import { CatalogImportReport } from "../types/index";
+
+export class CatalogService {
+    /**
+     * Downloads the products of the manager store as CSV
+     */
+    async export() {
+        return await Fetcher.download(baseEndpoints.catalog.export);
+    }
+
+    /**
+     * Imports products into the manager store, a dry run reports the rows without saving them
+     */
+    async import(csv: File, images: File | null, dryRun: boolean) {
+        const form = new FormData();
+        form.append("csv_file", csv);
+        if (images) form.append("images_zip", images);
+        const url = `${baseEndpoints.catalog.import}${dryRun ? "?dryRun=true" : ""}`;
+        const response = await Fetcher.query<CatalogImportReport>(url, { method: "POST", data: form, form: true });
+        return response.data;
+    }
+}
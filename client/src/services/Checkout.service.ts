@@ -2,6 +2,12 @@ import type { InvoiceInterface, Product } from "../types";
 import { baseEndpoints } from "../endpoints";
 import Fetcher from "./Fetcher";
 
+export interface CheckoutOptions {
+    pickupSlots?: number[];
+    coupon?: string;
+    idempotencyKey?: string;
+}
+
 export class CheckoutService {
     async getInvoices() {
         const response = await Fetcher.query(baseEndpoints.checkout.get, {
@@ -11,15 +17,29 @@ export class CheckoutService {
         return response.data;
     }
 
-    async produceInvoice(products: Product[]): Promise<InvoiceInterface> {
-        try {
-            const response = await Fetcher.query<InvoiceInterface>(baseEndpoints.checkout.produce, {
-                method: "POST",
-                data: products,
-            });
-            return response.data;
-        } catch (e) {
-            throw Error((e as Error).message)
-        }
+    /**
+     * Produce the invoice of the cart. Retries made with the same idempotency key return the first invoice
+     */
+    async produceInvoice(
+        products: Product[],
+        { pickupSlots = [], coupon, idempotencyKey }: CheckoutOptions = {}
+    ): Promise<InvoiceInterface> {
+        const query = new URLSearchParams();
+        if (pickupSlots.length > 0) query.set("pickupSlots", pickupSlots.join(","));
+        if (coupon) query.set("coupon", coupon);
+        const url = query.toString() ? `${baseEndpoints.checkout.produce}?${query}` : baseEndpoints.checkout.produce;
+        const response = await Fetcher.query<InvoiceInterface>(url, {
+            method: "POST",
+            data: products,
+            idempotencyKey,
+        });
+        return response.data;
+    }
+
+    /**
+     * Download the invoice as a PDF file
+     */
+    async downloadPdf(invoiceId: number): Promise<Blob> {
+        return await Fetcher.download(`${baseEndpoints.checkout.base}/${invoiceId}/pdf`);
     }
 }
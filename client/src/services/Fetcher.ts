@@ -1,6 +1,18 @@
 /* eslint-disable @typescript-eslint/no-explicit-any */
 import { HttpClient, HttpRequest, HttpHeaders, AuthorizationInterceptor } from "@miracledevs/paradigm-web-fetch";
 
+/**
+ * Error returned by the api, with the response data attached
+ */
+export class FetchError<T = unknown> extends Error {
+    data?: T;
+
+    constructor(message: string, data?: T) {
+        super(message);
+        this.data = data;
+    }
+}
+
 class Fetcher {
     private fetcher: HttpClient;
     private static instance: Fetcher;
@@ -15,7 +27,10 @@ class Fetcher {
         return Fetcher.instance;
     }
 
-    async query<T>(url: string, options?: { method: string; data?: any; token?: string; form?: boolean }) {
+    async query<T>(
+        url: string,
+        options?: { method: string; data?: any; token?: string; form?: boolean; idempotencyKey?: string }
+    ) {
         const config: HttpRequest = new HttpRequest(url);
         config.method = options?.method;
         config.headers = new HttpHeaders();
@@ -23,6 +38,9 @@ class Fetcher {
         if (options?.token) {
             config.headers.set("x-auth", options.token);
         }
+        if (options?.idempotencyKey) {
+            config.headers.set("Idempotency-Key", options.idempotencyKey);
+        }
         if (options?.data) {
             if (options.form) {
                 config.body = options.data;
@@ -38,11 +56,29 @@ class Fetcher {
         response.headers.forEach((value, key) => {
             headers = { ...headers, [key]: value };
         });
-        if (body.error) throw new Error(body.message);
+        if (body.error) throw new FetchError(body.message, body.data);
 
         return { headers, data: body.data as T, status: response.status };
     }
 
+    /**
+     * Downloads a file, errors are sent by the api as json
+     */
+    async download(url: string, options?: { token?: string }) {
+        const config: HttpRequest = new HttpRequest(url);
+        config.method = "GET";
+        config.headers = new HttpHeaders();
+        if (options?.token) {
+            config.headers.set("x-auth", options.token);
+        }
+        const response = await this.fetcher.request(config);
+        if (!response.ok) {
+            const body = await response.json();
+            throw new FetchError(body.message, body.data);
+        }
+        return await response.blob();
+    }
+
     addAuthInterceptor(token: string) {
         this.fetcher.registerInterceptor(new AuthorizationInterceptor(token));
     }
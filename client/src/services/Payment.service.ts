@@ -0,0 +1,14 @@
+import type { Payment, PaymentCard, PaymentMethod } from "../types";
+import { baseEndpoints } from "../endpoints";
+import Fetcher from "./Fetcher";
+
+export class PaymentService {
+    async pay(invoiceId: number, method: PaymentMethod, card?: PaymentCard, idempotencyKey?: string) {
+        const response = await Fetcher.query<Payment>(`${baseEndpoints.payments.pay}/${invoiceId}`, {
+            method: "POST",
+            data: { method, card },
+            idempotencyKey,
+        });
+        return response.data;
+    }
+}
@@ -0,0 +1,12 @@
+import type { PickupSlot } from "../types";
+import { baseEndpoints } from "../endpoints";
+import Fetcher from "./Fetcher";
+
+export class PickupService {
+    async getByStore(storeId: number) {
+        const response = await Fetcher.query<PickupSlot[]>(`${baseEndpoints.pickup.store}/${storeId}`, {
+            method: "GET",
+        });
+        return response.data;
+    }
+}
@@ -1,12 +1,12 @@
 import { baseEndpoints } from "../endpoints";
-import { Product, ProductResponse } from "../types";
+import { PriceHistoryPoint, Product, ProductFilter, ProductResponse, ProductSearchResponse } from "../types";
+import { filterToParams } from "../pages/utilities/productFilter";
 import Fetcher from "./Fetcher";
 type FilterProps = {
     storeId: number;
-    page?: number;
+    cursor?: string | null;
     perPage?: number;
-    size?: string | null;
-    category?: string | null;
+    filter: ProductFilter;
 };
 
 export class ProductService {
@@ -20,6 +20,19 @@ export class ProductService {
             console.error(e);
         }
     }
+    async getPriceHistory(id: Product["id"]) {
+        try {
+            const history = await Fetcher.query<PriceHistoryPoint[]>(
+                `${baseEndpoints.products.get}/${id}/price-history`,
+                {
+                    method: "GET",
+                }
+            );
+            return history.data;
+        } catch (e) {
+            console.error(e);
+        }
+    }
     async getAllProducts(storeId: number, pageNumber: number, productAmount: number) {
         try {
             const products = await Fetcher.query<Product[]>(
@@ -39,15 +52,12 @@ export class ProductService {
         }
     }
 
-    async getByFilter({ storeId, page = 1, perPage = 12, size, category }: FilterProps) {
+    async getByFilter({ storeId, cursor, perPage = 12, filter }: FilterProps) {
         try {
-            const urlParamsArray: string[] = [];
-            page && urlParamsArray.push(`page=${page}`);
-            perPage && urlParamsArray.push(`per_page=${perPage}`);
-            size && urlParamsArray.push(`size=${size}`);
-            category && urlParamsArray.push(`category=${category}`);
-            const urlParams = "?" + urlParamsArray.join("&");
-            const url = `${baseEndpoints.products.getAll}/${storeId}/q${urlParams}`;
+            const urlParams = filterToParams(filter);
+            cursor && urlParams.set("cursor", cursor);
+            urlParams.set("per_page", String(perPage));
+            const url = `${baseEndpoints.products.getAll}/${storeId}/q?${urlParams}`;
             const products = await Fetcher.query<ProductResponse>(url, { method: "GET" });
             return products.data;
         } catch (e) {
@@ -55,6 +65,17 @@ export class ProductService {
         }
     }
 
+    async search(q: string, page = 1, perPage = 12) {
+        try {
+            const urlParams = new URLSearchParams({ q, page: String(page), per_page: String(perPage) });
+            const url = `${baseEndpoints.products.search}?${urlParams}`;
+            const products = await Fetcher.query<ProductSearchResponse>(url, { method: "GET" });
+            return products.data;
+        } catch (e) {
+            console.error(e);
+        }
+    }
+
     async post(product: FormData) {
         try {
             const url = `${baseEndpoints.products.get}`;
@@ -0,0 +1,19 @@
+import type { Product, PromotionQuote } from "../types";
+import { baseEndpoints } from "../endpoints";
+import Fetcher from "./Fetcher";
+
+export class PromotionService {
+    /**
+     * Get the discounts of the cart with the active promotions and the coupon
+     */
+    async quote(products: Product[], coupon?: string) {
+        const url = coupon
+            ? `${baseEndpoints.promotions.quote}?coupon=${encodeURIComponent(coupon)}`
+            : baseEndpoints.promotions.quote;
+        const response = await Fetcher.query<PromotionQuote>(url, {
+            method: "POST",
+            data: products,
+        });
+        return response.data;
+    }
+}
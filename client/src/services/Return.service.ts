@@ -0,0 +1,18 @@
+import type { ItemReturn } from "../types";
+import { baseEndpoints } from "../endpoints";
+import Fetcher from "./Fetcher";
+
+export class ReturnService {
+    async get() {
+        const response = await Fetcher.query<ItemReturn[]>(baseEndpoints.returns.get, { method: "GET" });
+        return response.data;
+    }
+
+    async request(itemId: number, quantity: number, reason?: string) {
+        const response = await Fetcher.query<ItemReturn>(baseEndpoints.returns.request, {
+            method: "POST",
+            data: { itemId, quantity, reason },
+        });
+        return response.data;
+    }
+}
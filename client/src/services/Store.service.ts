@@ -1,6 +1,6 @@
 import { baseEndpoints } from "../endpoints";
 import Fetcher from "./Fetcher";
-import { StoreType, StoreWithProducts } from "../types/index";
+import { StockAlert, StockAlertStatus, StoreType, StoreWithProducts } from "../types/index";
 
 export class StoreService {
     async getNames() {
@@ -48,4 +48,13 @@ export class StoreService {
         const response = await Fetcher.query<StoreWithProducts>(url, { method: "GET" });
         return response.data;
     }
+
+    /**
+     * Get the stock alerts of the manager store, the open ones below the minimum first
+     */
+    async getAlerts(managerId: number, status?: StockAlertStatus) {
+        const url = `${baseEndpoints.stores.getByManager}/${managerId}/alerts${status ? `?status=${status}` : ""}`;
+        const response = await Fetcher.query<StockAlert[]>(url, { method: "GET" });
+        return response.data;
+    }
 }
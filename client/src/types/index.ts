@@ -1,18 +1,39 @@
+export type ProductVariant = {
+    id: number;
+    sku: string;
+    size: string | null;
+    color: string | null;
+    price: number | null;
+    currentStock: number;
+    status: number;
+};
+
 export type Product = {
     id: number;
     name: string;
     brand: string;
     categories: string[];
     currentStock: number;
+    reservedStock?: number;
+    availableStock?: number;
     reorderPoint: number;
     minimum: number;
     price: number;
     discountPercentage: number;
+    regularDiscountPercentage?: number;
+    campaignId?: number | null;
+    campaignEndsAt?: string | null;
     description: string;
     url_img: string;
     sizes: string[];
+    variants?: ProductVariant[] | null;
     quantity: number;
     total?: number;
+    storeId?: number;
+    variantId?: number | null;
+    sku?: string | null;
+    size?: string | null;
+    color?: string | null;
 };
 
 export type ProductForCreation = {
@@ -29,8 +50,58 @@ export type ProductForCreation = {
     currentStock: number;
 };
 
+export type PriceHistoryPoint = {
+    version: number;
+    price: number;
+    discountPercentage: number;
+    finalPrice: number;
+    date: string;
+};
+
+export type FacetCount = {
+    value: string;
+    count: number;
+};
+
+export type PriceFacetCount = {
+    min: number;
+    max: number | null;
+    count: number;
+};
+
+export type ProductFacets = {
+    categories: FacetCount[];
+    sizes: FacetCount[];
+    brands: FacetCount[];
+    prices: PriceFacetCount[];
+};
+
+/**
+ * A page of a product listing, the next page is asked for with its `nextCursor`.
+ * The facets only come with the first page.
+ */
 export interface ProductResponse {
     products: Product[];
+    pagination: {
+        perPage: number;
+        nextCursor: string | null;
+        hasNextPage: boolean;
+        totalPages?: number;
+        totalItems?: number;
+    };
+    facets?: ProductFacets;
+}
+
+export type StoreProduct = Product & {
+    store: string;
+};
+
+export type ProductSearchResult = StoreProduct & {
+    relevance: number;
+};
+
+export interface ProductSearchResponse {
+    products: ProductSearchResult[];
     pagination: {
         page: number;
         perPage: number;
@@ -40,30 +111,134 @@ export interface ProductResponse {
     };
 }
 
+export type CheckoutLineError = {
+    productId: number;
+    variantId?: number | null;
+    reason: "NOT_FOUND" | "DISABLED" | "VARIANT_REQUIRED" | "PRICE_CHANGED" | "INSUFFICIENT_STOCK";
+    price?: number;
+    discountPercentage?: number;
+    currentStock?: number;
+    availableStock?: number;
+};
+
+export type CartLine = Product & {
+    productId: number;
+    userId: number;
+    status: number;
+    reservedUntil: string | null;
+};
+
 export type ItemCart = {
     product: Product;
     amount: number;
 };
 
+export type InvoiceStatus = "PENDING_PAYMENT" | "PAID" | "READY_FOR_PICKUP" | "PICKED_UP" | "CANCELLED" | "EXPIRED";
+
 export interface InvoiceInterface {
     id: number;
     date: Date;
     total: number;
+    discount: number;
+    discounts: AppliedDiscount[] | null;
+    tax: number;
+    numbers: { storeId: number; store: string; number: number }[] | null;
+    status: InvoiceStatus;
     name: string;
     lastName: string;
     email: string;
     idDocumentType: string;
     idDocumentNumber: number;
-    messageUrl: string;
+    messageUrl: string | false;
     products: {
+        itemId: number;
         name: string;
+        variantId: number | null;
+        sku: string | null;
+        size: string | null;
+        color: string | null;
         store: string;
         price: number;
         quantity: number;
         total: number;
+        returned: number;
+        taxRate: number;
+        tax: number;
     }[];
+    creditNotes: {
+        id: number;
+        date: string;
+        total: number;
+        product: string;
+        quantity: number;
+        type: ItemReturnType;
+    }[];
+    pickupCode: string | null;
+    paymentMethod: PaymentMethod | null;
+    pickups: {
+        storeId: number;
+        store: string;
+        startsAt: string | null;
+        endsAt: string | null;
+        pickedUpAt: string | null;
+    }[];
+}
+
+export type PaymentMethod = "CARD" | "CASH_ON_PICKUP";
+
+export interface AppliedDiscount {
+    code: string | null;
+    description: string;
+    amount: number;
 }
 
+export interface PromotionQuote {
+    subtotal: number;
+    discounts: AppliedDiscount[];
+    total: number;
+}
+
+export type Payment = {
+    id: number;
+    invoiceId: number;
+    method: PaymentMethod;
+    reference: string;
+    amount: number;
+    status: "PENDING" | "AUTHORIZED" | "CAPTURED" | "DECLINED" | "REFUNDED";
+};
+
+export type PaymentCard = {
+    number: string;
+    expiry: string;
+    cvv: string;
+};
+
+export type ItemReturnType = "RETURN" | "CANCELLATION";
+
+export type ItemReturn = {
+    id: number;
+    itemId: number;
+    invoiceId: number;
+    product: string;
+    store: string;
+    type: ItemReturnType;
+    quantity: number;
+    reason: string | null;
+    status: "REQUESTED" | "APPROVED" | "REJECTED";
+    reviewNote: string | null;
+    creditNoteId: number | null;
+    creditTotal: number | null;
+};
+
+export type PickupSlot = {
+    id: number;
+    storeId: number;
+    startsAt: string;
+    endsAt: string;
+    capacity: number;
+    booked: number;
+};
+
 export type Color = { hue: number; sat: number; light: number };
 
 export type ColorsType = {
@@ -86,7 +261,63 @@ export type StoreWithProducts = StoreType & {
     products: Product[];
 };
 
-export type setFilterType = ({ category, size }: { category?: string; size?: string }) => void;
+export type StockAlertLevel = "REORDER" | "MINIMUM";
+
+export type StockAlertStatus = "OPEN" | "RESOLVED";
+
+export interface StockAlert {
+    id: number;
+    productId: number;
+    product: string;
+    storeId: number;
+    store: string;
+    level: StockAlertLevel;
+    stock: number;
+    currentStock: number;
+    reorderPoint: number;
+    minimum: number;
+    status: StockAlertStatus;
+    createdAt: string;
+    escalatedAt: string | null;
+    resolvedAt: string | null;
+    notifiedAt: string | null;
+    notificationError: string | null;
+}
+
+export type CatalogImportAction = "CREATED" | "UPDATED" | "REJECTED";
+
+export interface CatalogImportRow {
+    line: number;
+    productId: number | null;
+    name: string;
+    action: CatalogImportAction;
+    error?: string;
+    image?: string;
+}
+
+export interface CatalogImportReport {
+    dryRun: boolean;
+    created: number;
+    updated: number;
+    rejected: number;
+    rows: CatalogImportRow[];
+}
+
+export type ProductSort = "price_asc" | "price_desc" | "discount" | "newest" | "name";
+
+/**
+ * The options of a product listing, the products match any of the values of a list and all the lists
+ */
+export type ProductFilter = {
+    categories: string[];
+    sizes: string[];
+    brands: string[];
+    minPrice: string;
+    maxPrice: string;
+    sort: ProductSort | "";
+};
+
+export type setFilterType = (filter: Partial<ProductFilter>) => void;
 
 export type LoaderResponse<T> = {
     data: T | undefined;
@@ -149,3 +380,22 @@ export enum InputError {
     "ERROR",
     "NONE",
 }
+
+export interface Brand {
+    id: number;
+    name: string;
+    url_logo: string | null;
+    /**
+     * The number of active products of the brand
+     */
+    products: number;
+}
+
+/**
+ * A brand with a page of its products from every store
+ */
+export interface BrandResponse {
+    brand: Brand;
+    products: StoreProduct[];
+    pagination: ProductSearchResponse["pagination"];
+}
@@ -33,7 +33,8 @@ CREATE TABLE IF NOT EXISTS User (
 
 CREATE TABLE IF NOT EXISTS Category(
 	id INT PRIMARY KEY AUTO_INCREMENT,
-    name VARCHAR(255) NOT NULL
+    name VARCHAR(255) NOT NULL,
+    FULLTEXT INDEX ft_name_c (name)
 );
 
 CREATE TABLE IF NOT EXISTS Size(
@@ -43,7 +44,10 @@ CREATE TABLE IF NOT EXISTS Size(
 
 CREATE TABLE IF NOT EXISTS Brand (
 	id INT PRIMARY KEY AUTO_INCREMENT,
-  name VARCHAR(255) NOT NULL
+  name VARCHAR(255) NOT NULL,
+  url_logo VARCHAR(255),
+  FULLTEXT INDEX ft_name_b (name),
+  CONSTRAINT uq_name_b UNIQUE (name)
 );
 
 CREATE TABLE IF NOT EXISTS Store (
@@ -69,10 +73,62 @@ CREATE TABLE IF NOT EXISTS Invoice (
 	id INT PRIMARY KEY AUTO_INCREMENT,
     date DATE NOT NULL,
     total DECIMAL(15,2) NOT NULL,
+    discount DECIMAL(15,2) NOT NULL DEFAULT 0,
     userId INT NOT NULL,
+    status ENUM('PENDING_PAYMENT', 'PAID', 'READY_FOR_PICKUP', 'PICKED_UP', 'CANCELLED', 'EXPIRED') NOT NULL DEFAULT 'PENDING_PAYMENT',
+    pickupCode CHAR(6) UNIQUE,
+    emailedAt DATETIME,
+    emailError VARCHAR(255),
     CONSTRAINT fk_userId_purchase FOREIGN KEY (userId) REFERENCES User(id) ON DELETE CASCADE
 );
 
+CREATE TABLE IF NOT EXISTS InvoiceStatusHistory (
+    id INT PRIMARY KEY AUTO_INCREMENT,
+    invoiceId INT NOT NULL,
+    fromStatus ENUM('PENDING_PAYMENT', 'PAID', 'READY_FOR_PICKUP', 'PICKED_UP', 'CANCELLED', 'EXPIRED'),
+    toStatus ENUM('PENDING_PAYMENT', 'PAID', 'READY_FOR_PICKUP', 'PICKED_UP', 'CANCELLED', 'EXPIRED') NOT NULL,
+    userId INT,
+    note VARCHAR(255),
+    createdAt TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    CONSTRAINT fk_invoiceId_ish FOREIGN KEY (invoiceId) REFERENCES Invoice(id) ON DELETE CASCADE,
+    CONSTRAINT fk_userId_ish FOREIGN KEY (userId) REFERENCES User(id) ON DELETE SET NULL
+);
+
+CREATE TABLE IF NOT EXISTS Payment (
+    id INT PRIMARY KEY AUTO_INCREMENT,
+    invoiceId INT NOT NULL,
+    method ENUM('CARD', 'CASH_ON_PICKUP') NOT NULL,
+    provider VARCHAR(50) NOT NULL,
+    reference VARCHAR(255) NOT NULL UNIQUE,
+    amount DECIMAL(15,2) NOT NULL,
+    refundedAmount DECIMAL(15,2) NOT NULL DEFAULT 0,
+    status ENUM('PENDING', 'AUTHORIZED', 'CAPTURED', 'DECLINED', 'REFUNDED') NOT NULL,
+    createdAt TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    updatedAt TIMESTAMP DEFAULT CURRENT_TIMESTAMP ON UPDATE CURRENT_TIMESTAMP,
+    CONSTRAINT fk_invoiceId_pay FOREIGN KEY (invoiceId) REFERENCES Invoice(id) ON DELETE CASCADE
+);
+
+CREATE TABLE IF NOT EXISTS PickupSlot (
+    id INT PRIMARY KEY AUTO_INCREMENT,
+    storeId INT NOT NULL,
+    startsAt DATETIME NOT NULL,
+    endsAt DATETIME NOT NULL,
+    capacity INT NOT NULL,
+    CONSTRAINT fk_storeId_ps FOREIGN KEY (storeId) REFERENCES Store(id) ON DELETE CASCADE
+);
+
+CREATE TABLE IF NOT EXISTS InvoicePickup (
+    id INT PRIMARY KEY AUTO_INCREMENT,
+    invoiceId INT NOT NULL,
+    storeId INT NOT NULL,
+    pickupSlotId INT,
+    pickedUpAt DATETIME,
+    CONSTRAINT fk_invoiceId_ip FOREIGN KEY (invoiceId) REFERENCES Invoice(id) ON DELETE CASCADE,
+    CONSTRAINT fk_storeId_ip FOREIGN KEY (storeId) REFERENCES Store(id) ON DELETE CASCADE,
+    CONSTRAINT fk_pickupSlotId_ip FOREIGN KEY (pickupSlotId) REFERENCES PickupSlot(id) ON DELETE SET NULL,
+    CONSTRAINT uq_invoiceId_storeId_ip UNIQUE (invoiceId, storeId)
+);
+
 CREATE TABLE IF NOT EXISTS Product(
 	id INT PRIMARY KEY AUTO_INCREMENT,
 	name VARCHAR(255) NOT NULL,
@@ -87,7 +143,9 @@ CREATE TABLE IF NOT EXISTS Product(
     storeId INT NOT NULL,
     status BOOLEAN NOT NULL DEFAULT TRUE,
     CONSTRAINT fk_brandId_p FOREIGN KEY (brandId) REFERENCES Brand(id),
-    CONSTRAINT fk_storeId_p FOREIGN KEY (storeId) REFERENCES Store(id) ON DELETE SET NULL
+    CONSTRAINT fk_storeId_p FOREIGN KEY (storeId) REFERENCES Store(id) ON DELETE SET NULL,
+    FULLTEXT INDEX ft_name_p (name),
+    FULLTEXT INDEX ft_description_p (description)
 );
 
 CREATE TABLE IF NOT EXISTS ProductSize (
@@ -106,24 +164,281 @@ CREATE TABLE IF NOT EXISTS ProductCategory (
     CONSTRAINT fk_categoryId_pc FOREIGN KEY (categoryId) REFERENCES Category(id) ON DELETE CASCADE
 );
 
+CREATE TABLE IF NOT EXISTS ProductVariant (
+    id INT PRIMARY KEY AUTO_INCREMENT,
+    productId INT NOT NULL,
+    sizeId INT,
+    color VARCHAR(50),
+    sku VARCHAR(64) NOT NULL,
+    currentStock INT NOT NULL DEFAULT 0,
+    price DECIMAL(10,2),
+    status BOOLEAN NOT NULL DEFAULT TRUE,
+    CONSTRAINT uq_sku_pv UNIQUE (sku),
+    CONSTRAINT fk_productId_pv FOREIGN KEY (productId) REFERENCES Product(id) ON DELETE CASCADE,
+    CONSTRAINT fk_sizeId_pv FOREIGN KEY (sizeId) REFERENCES Size(id)
+);
+
+CREATE TABLE IF NOT EXISTS StockMovement (
+    id INT PRIMARY KEY AUTO_INCREMENT,
+    productId INT NOT NULL,
+    quantity INT NOT NULL,
+    balance INT NOT NULL,
+    reason ENUM('INITIAL', 'SALE', 'RETURN', 'ADJUSTMENT', 'STOCK_TAKE', 'TRANSFER', 'PURCHASE') NOT NULL,
+    userId INT,
+    reference VARCHAR(100),
+    note VARCHAR(255),
+    createdAt DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    CONSTRAINT fk_productId_sm FOREIGN KEY (productId) REFERENCES Product(id) ON DELETE CASCADE,
+    CONSTRAINT fk_userId_sm FOREIGN KEY (userId) REFERENCES User(id) ON DELETE SET NULL
+);
+
+CREATE TABLE IF NOT EXISTS ProductVersion (
+    id INT PRIMARY KEY AUTO_INCREMENT,
+    productId INT NOT NULL,
+    version INT NOT NULL,
+    action ENUM('CREATE', 'UPDATE', 'DISABLE', 'REVERT') NOT NULL,
+    name VARCHAR(255) NOT NULL,
+    description TEXT,
+    price DECIMAL(10,2) NOT NULL,
+    discountPercentage DECIMAL(3,2) NOT NULL,
+    reorderPoint INT NOT NULL,
+    minimum INT NOT NULL,
+    brand VARCHAR(255),
+    brandId INT,
+    categories JSON,
+    sizes JSON,
+    url_img VARCHAR(255),
+    status BOOLEAN NOT NULL,
+    revertedVersion INT,
+    userId INT,
+    createdAt DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    CONSTRAINT fk_productId_pve FOREIGN KEY (productId) REFERENCES Product(id) ON DELETE CASCADE,
+    CONSTRAINT fk_userId_pve FOREIGN KEY (userId) REFERENCES User(id) ON DELETE SET NULL,
+    CONSTRAINT fk_brandId_pve FOREIGN KEY (brandId) REFERENCES Brand(id) ON DELETE SET NULL,
+    CONSTRAINT uq_productId_version_pve UNIQUE (productId, version)
+);
+
+CREATE TABLE IF NOT EXISTS StockAlert (
+    id INT PRIMARY KEY AUTO_INCREMENT,
+    productId INT NOT NULL,
+    storeId INT NOT NULL,
+    level ENUM('REORDER', 'MINIMUM') NOT NULL,
+    stock INT NOT NULL,
+    status ENUM('OPEN', 'RESOLVED') NOT NULL DEFAULT 'OPEN',
+    createdAt DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    escalatedAt DATETIME,
+    resolvedAt DATETIME,
+    notifiedAt DATETIME,
+    notificationError VARCHAR(255),
+    CONSTRAINT fk_productId_sa FOREIGN KEY (productId) REFERENCES Product(id) ON DELETE CASCADE,
+    CONSTRAINT fk_storeId_sa FOREIGN KEY (storeId) REFERENCES Store(id) ON DELETE CASCADE
+);
+
+CREATE TABLE IF NOT EXISTS Supplier (
+    id INT PRIMARY KEY AUTO_INCREMENT,
+    storeId INT NOT NULL,
+    name VARCHAR(255) NOT NULL,
+    email VARCHAR(255) NOT NULL,
+    phone VARCHAR(50),
+    status BOOLEAN NOT NULL DEFAULT TRUE,
+    createdAt DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    CONSTRAINT fk_storeId_su FOREIGN KEY (storeId) REFERENCES Store(id) ON DELETE CASCADE
+);
+
+CREATE TABLE IF NOT EXISTS PurchaseOrder (
+    id INT PRIMARY KEY AUTO_INCREMENT,
+    storeId INT NOT NULL,
+    supplierId INT NOT NULL,
+    status ENUM('DRAFT', 'SENT', 'PARTIALLY_RECEIVED', 'RECEIVED') NOT NULL DEFAULT 'DRAFT',
+    note VARCHAR(255),
+    userId INT,
+    createdAt DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    sentAt DATETIME,
+    receivedAt DATETIME,
+    CONSTRAINT fk_storeId_po FOREIGN KEY (storeId) REFERENCES Store(id) ON DELETE CASCADE,
+    CONSTRAINT fk_supplierId_po FOREIGN KEY (supplierId) REFERENCES Supplier(id),
+    CONSTRAINT fk_userId_po FOREIGN KEY (userId) REFERENCES User(id) ON DELETE SET NULL
+);
+
+CREATE TABLE IF NOT EXISTS PurchaseOrderLine (
+    id INT PRIMARY KEY AUTO_INCREMENT,
+    purchaseOrderId INT NOT NULL,
+    productId INT NOT NULL,
+    variantId INT,
+    quantity INT NOT NULL,
+    receivedQuantity INT NOT NULL DEFAULT 0,
+    unitCost DECIMAL(10,2),
+    CONSTRAINT fk_purchaseOrderId_pol FOREIGN KEY (purchaseOrderId) REFERENCES PurchaseOrder(id) ON DELETE CASCADE,
+    CONSTRAINT fk_productId_pol FOREIGN KEY (productId) REFERENCES Product(id) ON DELETE CASCADE,
+    CONSTRAINT fk_variantId_pol FOREIGN KEY (variantId) REFERENCES ProductVariant(id) ON DELETE CASCADE
+);
+
+CREATE TABLE IF NOT EXISTS InvoiceSequence (
+    storeId INT PRIMARY KEY,
+    lastNumber INT NOT NULL DEFAULT 0,
+    CONSTRAINT fk_storeId_is FOREIGN KEY (storeId) REFERENCES Store(id) ON DELETE CASCADE
+);
+
+CREATE TABLE IF NOT EXISTS InvoiceNumber (
+    id INT PRIMARY KEY AUTO_INCREMENT,
+    invoiceId INT NOT NULL,
+    storeId INT NOT NULL,
+    number INT NOT NULL,
+    CONSTRAINT fk_invoiceId_in FOREIGN KEY (invoiceId) REFERENCES Invoice(id) ON DELETE CASCADE,
+    CONSTRAINT fk_storeId_in FOREIGN KEY (storeId) REFERENCES Store(id) ON DELETE CASCADE,
+    CONSTRAINT uq_invoiceId_storeId_in UNIQUE (invoiceId, storeId),
+    CONSTRAINT uq_storeId_number_in UNIQUE (storeId, number)
+);
+
+CREATE TABLE IF NOT EXISTS TaxRate (
+    id INT PRIMARY KEY AUTO_INCREMENT,
+    name VARCHAR(255) NOT NULL,
+    rate DECIMAL(5,2) NOT NULL,
+    storeId INT,
+    categoryId INT,
+    status BOOLEAN NOT NULL DEFAULT TRUE,
+    CONSTRAINT fk_storeId_tr FOREIGN KEY (storeId) REFERENCES Store(id) ON DELETE CASCADE,
+    CONSTRAINT fk_categoryId_tr FOREIGN KEY (categoryId) REFERENCES Category(id) ON DELETE CASCADE
+);
+
+CREATE TABLE IF NOT EXISTS Promotion (
+    id INT PRIMARY KEY AUTO_INCREMENT,
+    name VARCHAR(255) NOT NULL,
+    code VARCHAR(50) UNIQUE,
+    type ENUM('PERCENTAGE', 'FIXED_AMOUNT', 'BUY_X_GET_Y') NOT NULL,
+    value DECIMAL(15,2) NOT NULL DEFAULT 0,
+    buyQuantity INT,
+    getQuantity INT,
+    minimumTotal DECIMAL(15,2),
+    storeId INT,
+    categoryId INT,
+    brandId INT,
+    usageLimit INT,
+    usageCount INT NOT NULL DEFAULT 0,
+    startsAt DATETIME,
+    endsAt DATETIME,
+    status BOOLEAN NOT NULL DEFAULT TRUE,
+    createdAt TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    CONSTRAINT fk_storeId_pr FOREIGN KEY (storeId) REFERENCES Store(id) ON DELETE CASCADE,
+    CONSTRAINT fk_categoryId_pr FOREIGN KEY (categoryId) REFERENCES Category(id) ON DELETE CASCADE,
+    CONSTRAINT fk_brandId_pr FOREIGN KEY (brandId) REFERENCES Brand(id) ON DELETE CASCADE
+);
+
+CREATE TABLE IF NOT EXISTS InvoiceDiscount (
+    id INT PRIMARY KEY AUTO_INCREMENT,
+    invoiceId INT NOT NULL,
+    promotionId INT,
+    code VARCHAR(50),
+    description VARCHAR(255) NOT NULL,
+    amount DECIMAL(15,2) NOT NULL,
+    CONSTRAINT fk_invoiceId_id FOREIGN KEY (invoiceId) REFERENCES Invoice(id) ON DELETE CASCADE,
+    CONSTRAINT fk_promotionId_id FOREIGN KEY (promotionId) REFERENCES Promotion(id) ON DELETE SET NULL
+);
+
+CREATE TABLE IF NOT EXISTS Campaign (
+    id INT PRIMARY KEY AUTO_INCREMENT,
+    storeId INT NOT NULL,
+    name VARCHAR(255) NOT NULL,
+    discountPercentage DECIMAL(3,2) NOT NULL,
+    categoryId INT,
+    brandId INT,
+    startsAt DATETIME NOT NULL,
+    endsAt DATETIME NOT NULL,
+    status BOOLEAN NOT NULL DEFAULT TRUE,
+    createdAt TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    CONSTRAINT fk_storeId_ca FOREIGN KEY (storeId) REFERENCES Store(id) ON DELETE CASCADE,
+    CONSTRAINT fk_categoryId_ca FOREIGN KEY (categoryId) REFERENCES Category(id) ON DELETE CASCADE,
+    CONSTRAINT fk_brandId_ca FOREIGN KEY (brandId) REFERENCES Brand(id) ON DELETE CASCADE
+);
+
+CREATE TABLE IF NOT EXISTS CampaignProduct (
+    id INT PRIMARY KEY AUTO_INCREMENT,
+    campaignId INT NOT NULL,
+    productId INT NOT NULL,
+    CONSTRAINT fk_campaignId_cp FOREIGN KEY (campaignId) REFERENCES Campaign(id) ON DELETE CASCADE,
+    CONSTRAINT fk_productId_cp FOREIGN KEY (productId) REFERENCES Product(id) ON DELETE CASCADE,
+    CONSTRAINT uq_campaignId_productId_cp UNIQUE (campaignId, productId)
+);
+
 CREATE TABLE IF NOT EXISTS Item (
 	id INT PRIMARY KEY AUTO_INCREMENT,
     quantity INT NOT NULL DEFAULT 1,
     total DECIMAL(15,2) NOT NULL,
     unitPrice DECIMAL(10,2) NOT NULL,
-    productId INT NOT NULL UNIQUE,
+    productId INT NOT NULL,
     invoiceId  INT NOT NULL,
+    returnedQuantity INT NOT NULL DEFAULT 0,
+    taxRate DECIMAL(5,2) NOT NULL DEFAULT 0,
+    taxAmount DECIMAL(15,2) NOT NULL DEFAULT 0,
+    variantId INT,
+    CONSTRAINT uq_invoiceId_productId_variantId_i UNIQUE (invoiceId, productId, (COALESCE(variantId, 0))),
     CONSTRAINT fk_productId_i FOREIGN KEY (productId) REFERENCES Product(id),
+    CONSTRAINT fk_variantId_i FOREIGN KEY (variantId) REFERENCES ProductVariant(id),
     CONSTRAINT fk_invoiceId_i FOREIGN KEY (invoiceId) REFERENCES Invoice(id) ON DELETE CASCADE
 );
 
+CREATE TABLE IF NOT EXISTS ItemReturn (
+    id INT PRIMARY KEY AUTO_INCREMENT,
+    itemId INT NOT NULL,
+    type ENUM('RETURN', 'CANCELLATION') NOT NULL,
+    quantity INT NOT NULL,
+    reason VARCHAR(255),
+    status ENUM('REQUESTED', 'APPROVED', 'REJECTED') NOT NULL DEFAULT 'REQUESTED',
+    userId INT,
+    reviewerId INT,
+    reviewNote VARCHAR(255),
+    createdAt TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    reviewedAt DATETIME,
+    CONSTRAINT fk_itemId_ir FOREIGN KEY (itemId) REFERENCES Item(id) ON DELETE CASCADE,
+    CONSTRAINT fk_userId_ir FOREIGN KEY (userId) REFERENCES User(id) ON DELETE SET NULL,
+    CONSTRAINT fk_reviewerId_ir FOREIGN KEY (reviewerId) REFERENCES User(id) ON DELETE SET NULL
+);
+
+CREATE TABLE IF NOT EXISTS CreditNote (
+    id INT PRIMARY KEY AUTO_INCREMENT,
+    invoiceId INT NOT NULL,
+    itemReturnId INT NOT NULL UNIQUE,
+    date DATE NOT NULL,
+    total DECIMAL(15,2) NOT NULL,
+    CONSTRAINT fk_invoiceId_cn FOREIGN KEY (invoiceId) REFERENCES Invoice(id) ON DELETE CASCADE,
+    CONSTRAINT fk_itemReturnId_cn FOREIGN KEY (itemReturnId) REFERENCES ItemReturn(id) ON DELETE CASCADE
+);
+
 CREATE TABLE IF NOT EXISTS Cart (
     id INT PRIMARY KEY AUTO_INCREMENT,
     userId INT NOT NULL,
-    productId INT NOT NULL UNIQUE,
+    productId INT NOT NULL,
     quantity INT NOT NULL DEFAULT 1,
+    variantId INT,
+    CONSTRAINT uq_userId_productId_variantId_c UNIQUE (userId, productId, (COALESCE(variantId, 0))),
     CONSTRAINT fk_userId_c FOREIGN KEY (userId) REFERENCES User(id) ON DELETE CASCADE,
-    CONSTRAINT fk_productId_c FOREIGN KEY (productId) REFERENCES Product(id) ON DELETE CASCADE
+    CONSTRAINT fk_productId_c FOREIGN KEY (productId) REFERENCES Product(id) ON DELETE CASCADE,
+    CONSTRAINT fk_variantId_c FOREIGN KEY (variantId) REFERENCES ProductVariant(id) ON DELETE CASCADE
+);
+
+CREATE TABLE IF NOT EXISTS StockReservation (
+    id INT PRIMARY KEY AUTO_INCREMENT,
+    userId INT NOT NULL,
+    productId INT NOT NULL,
+    variantId INT,
+    quantity INT NOT NULL,
+    expiresAt DATETIME NOT NULL,
+    createdAt DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    CONSTRAINT uq_userId_productId_variantId_sr UNIQUE (userId, productId, (COALESCE(variantId, 0))),
+    CONSTRAINT fk_userId_sr FOREIGN KEY (userId) REFERENCES User(id) ON DELETE CASCADE,
+    CONSTRAINT fk_productId_sr FOREIGN KEY (productId) REFERENCES Product(id) ON DELETE CASCADE,
+    CONSTRAINT fk_variantId_sr FOREIGN KEY (variantId) REFERENCES ProductVariant(id) ON DELETE CASCADE
+);
+
+CREATE TABLE IF NOT EXISTS IdempotencyKey (
+    id INT PRIMARY KEY AUTO_INCREMENT,
+    userId INT NOT NULL,
+    idempotencyKey VARCHAR(64) NOT NULL,
+    requestHash CHAR(64) NOT NULL,
+    response JSON NULL,
+    createdAt TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    CONSTRAINT uq_userId_idempotencyKey_ik UNIQUE (userId, idempotencyKey),
+    CONSTRAINT fk_userId_ik FOREIGN KEY (userId) REFERENCES User(id) ON DELETE CASCADE
 );
 
 
@@ -136,16 +451,61 @@ CREATE TABLE IF NOT EXISTS Cart (
 # VIEWS
 ########################################################################
 
+CREATE OR REPLACE VIEW active_campaign_product_view AS
+    SELECT
+        C.id AS campaignId,
+        P.id AS productId,
+        C.discountPercentage,
+        C.startsAt,
+        C.endsAt
+    FROM Campaign AS C
+    JOIN Product AS P ON P.storeId = C.storeId
+    WHERE C.status = 1 AND C.startsAt <= NOW() AND C.endsAt > NOW()
+    AND (
+        P.brandId = C.brandId
+        OR EXISTS (SELECT 1 FROM ProductCategory AS PC WHERE PC.productId = P.id AND PC.categoryId = C.categoryId)
+        OR EXISTS (SELECT 1 FROM CampaignProduct AS CP WHERE CP.productId = P.id AND CP.campaignId = C.id)
+    );
+
 CREATE OR REPLACE VIEW product_view AS
     SELECT
         P.id,
         P.name,
         P.description,
         P.price,
-        P.discountPercentage,
+        LEAST(P.discountPercentage, COALESCE((
+            SELECT MIN(AC.discountPercentage)
+            FROM active_campaign_product_view AS AC
+            WHERE AC.productId = P.id
+        ), 1)) AS discountPercentage,
+        P.discountPercentage AS regularDiscountPercentage,
+        (
+            SELECT AC.campaignId
+            FROM active_campaign_product_view AS AC
+            WHERE AC.productId = P.id AND AC.discountPercentage < P.discountPercentage
+            ORDER BY AC.discountPercentage, AC.endsAt
+            LIMIT 1
+        ) AS campaignId,
+        (
+            SELECT AC.endsAt
+            FROM active_campaign_product_view AS AC
+            WHERE AC.productId = P.id AND AC.discountPercentage < P.discountPercentage
+            ORDER BY AC.discountPercentage, AC.endsAt
+            LIMIT 1
+        ) AS campaignEndsAt,
         P.currentStock,
         P.reorderPoint,
         P.minimum,
+        (
+            SELECT COALESCE(SUM(R.quantity), 0)
+            FROM StockReservation AS R
+            WHERE R.productId = P.id AND R.expiresAt > NOW()
+        ) AS reservedStock,
+        P.currentStock - (
+            SELECT COALESCE(SUM(R.quantity), 0)
+            FROM StockReservation AS R
+            WHERE R.productId = P.id AND R.expiresAt > NOW()
+        ) AS availableStock,
         P.storeId,
         P.url_img,
         B.name AS brand,
@@ -159,6 +519,12 @@ CREATE OR REPLACE VIEW product_view AS
             ) AS Category
         ) AS categories,
         JSON_ARRAYAGG(size.name) AS sizes,
+        (
+            SELECT JSON_ARRAYAGG(JSON_OBJECT('id', V.id, 'sku', V.sku, 'size', VS.name, 'color', V.color, 'price', V.price, 'currentStock', V.currentStock, 'status', V.status))
+            FROM ProductVariant AS V
+            LEFT JOIN Size AS VS ON VS.id = V.sizeId
+            WHERE V.productId = P.id
+        ) AS variants,
         P.status
     FROM
         Product AS P
@@ -186,45 +552,215 @@ CREATE OR REPLACE VIEW invoice_view AS
     inv.id,
     inv.date As date,
     inv.total AS total,
+    inv.discount,
+    SUM(i.taxAmount) AS tax,
+    inv.status,
+    inv.pickupCode,
+    (SELECT pay.method FROM payment pay WHERE pay.invoiceId = inv.id AND pay.status <> 'DECLINED' ORDER BY pay.id DESC LIMIT 1) AS paymentMethod,
     inv.userId,
     u.name,
     u.lastName,
     u.email,
     u.idDocumentType,
     u.idDocumentNumber,
-    (SELECT JSON_ARRAYAGG(JSON_OBJECT('name', p.name, 'store', s.name, 'price', i.unitPrice, 'quantity', i.quantity, 'total', i.total))) as products
+    (SELECT JSON_ARRAYAGG(JSON_OBJECT('itemId', i.id, 'name', p.name, 'variantId', i.variantId, 'sku', v.sku, 'size', vs.name, 'color', v.color, 'store', s.name, 'price', i.unitPrice, 'quantity', i.quantity, 'total', i.total, 'returned', i.returnedQuantity, 'taxRate', i.taxRate, 'tax', i.taxAmount))) as products,
+    (SELECT JSON_ARRAYAGG(JSON_OBJECT('storeId', ip.storeId, 'store', ps.name, 'startsAt', sl.startsAt, 'endsAt', sl.endsAt, 'pickedUpAt', ip.pickedUpAt))
+      FROM invoicePickup ip
+      JOIN store ps ON ps.id = ip.storeId
+      LEFT JOIN pickupSlot sl ON sl.id = ip.pickupSlotId
+      WHERE ip.invoiceId = inv.id) as pickups,
+    (SELECT JSON_ARRAYAGG(JSON_OBJECT('id', cn.id, 'date', cn.date, 'total', cn.total, 'product', cp.name, 'quantity', ir.quantity, 'type', ir.type))
+      FROM creditNote cn
+      JOIN itemReturn ir ON ir.id = cn.itemReturnId
+      JOIN item ci ON ci.id = ir.itemId
+      JOIN product cp ON cp.id = ci.productId
+      WHERE cn.invoiceId = inv.id) as creditNotes,
+    (SELECT JSON_ARRAYAGG(JSON_OBJECT('code', d.code, 'description', d.description, 'amount', d.amount))
+      FROM invoiceDiscount d
+      WHERE d.invoiceId = inv.id) as discounts,
+    (SELECT JSON_ARRAYAGG(JSON_OBJECT('storeId', n.storeId, 'store', ns.name, 'number', n.number))
+      FROM invoiceNumber n
+      JOIN store ns ON ns.id = n.storeId
+      WHERE n.invoiceId = inv.id) as numbers
   FROM invoice inv
   JOIN user u ON u.id = inv.userId
   JOIN item i ON i.invoiceId = inv.id
   JOIN product p ON p.id = i.productId
   JOIN store s ON s.id = p.storeId
+  LEFT JOIN productVariant v ON v.id = i.variantId
+  LEFT JOIN size vs ON vs.id = v.sizeId
   GROUP BY
     id,
     date,
     total,
     userId;
 
+CREATE OR REPLACE VIEW item_return_view AS
+  SELECT
+    ir.id,
+    ir.itemId,
+    i.invoiceId,
+    i.productId,
+    p.name AS product,
+    p.storeId,
+    s.name AS store,
+    ir.type,
+    ir.quantity,
+    ir.reason,
+    ir.status,
+    ir.userId,
+    ir.reviewerId,
+    ir.reviewNote,
+    ir.createdAt,
+    ir.reviewedAt,
+    cn.id AS creditNoteId,
+    cn.total AS creditTotal
+  FROM itemReturn ir
+  JOIN item i ON i.id = ir.itemId
+  JOIN product p ON p.id = i.productId
+  JOIN store s ON s.id = p.storeId
+  LEFT JOIN creditNote cn ON cn.itemReturnId = ir.id;
+
+CREATE OR REPLACE VIEW promotion_view AS
+  SELECT
+    pr.id,
+    pr.name,
+    pr.code,
+    pr.type,
+    pr.value,
+    pr.buyQuantity,
+    pr.getQuantity,
+    pr.minimumTotal,
+    pr.storeId,
+    s.name AS store,
+    pr.categoryId,
+    c.name AS category,
+    pr.brandId,
+    b.name AS brand,
+    pr.usageLimit,
+    pr.usageCount,
+    pr.startsAt,
+    pr.endsAt,
+    pr.status,
+    pr.createdAt
+  FROM promotion pr
+  LEFT JOIN store s ON s.id = pr.storeId
+  LEFT JOIN category c ON c.id = pr.categoryId
+  LEFT JOIN brand b ON b.id = pr.brandId;
+
+CREATE OR REPLACE VIEW campaign_view AS
+  SELECT
+    ca.id,
+    ca.storeId,
+    s.name AS store,
+    ca.name,
+    ca.discountPercentage,
+    ca.categoryId,
+    c.name AS category,
+    ca.brandId,
+    b.name AS brand,
+    (SELECT JSON_ARRAYAGG(cp.productId) FROM campaignProduct cp WHERE cp.campaignId = ca.id) AS productIds,
+    ca.startsAt,
+    ca.endsAt,
+    ca.status,
+    ca.createdAt
+  FROM campaign ca
+  JOIN store s ON s.id = ca.storeId
+  LEFT JOIN category c ON c.id = ca.categoryId
+  LEFT JOIN brand b ON b.id = ca.brandId;
+
+CREATE OR REPLACE VIEW stock_alert_view AS
+  SELECT
+    sa.id,
+    sa.productId,
+    p.name AS product,
+    sa.storeId,
+    s.name AS store,
+    u.email AS managerEmail,
+    sa.level,
+    sa.stock,
+    p.currentStock,
+    p.reorderPoint,
+    p.minimum,
+    sa.status,
+    sa.createdAt,
+    sa.escalatedAt,
+    sa.resolvedAt,
+    sa.notifiedAt,
+    sa.notificationError
+  FROM stockAlert sa
+  JOIN product p ON p.id = sa.productId
+  JOIN store s ON s.id = sa.storeId
+  LEFT JOIN user u ON u.id = s.managerId;
+
+CREATE OR REPLACE VIEW purchase_order_view AS
+  SELECT
+    po.id,
+    po.storeId,
+    s.name AS store,
+    po.supplierId,
+    su.name AS supplier,
+    su.email AS supplierEmail,
+    po.status,
+    po.note,
+    po.userId,
+    po.createdAt,
+    po.sentAt,
+    po.receivedAt,
+    (SELECT COALESCE(SUM(l.quantity * l.unitCost), 0) FROM purchaseOrderLine l WHERE l.purchaseOrderId = po.id) AS total,
+    (SELECT JSON_ARRAYAGG(JSON_OBJECT('id', l.id, 'productId', l.productId, 'name', p.name, 'variantId', l.variantId, 'sku', v.sku, 'size', vs.name, 'color', v.color, 'quantity', l.quantity, 'receivedQuantity', l.receivedQuantity, 'unitCost', l.unitCost))
+      FROM purchaseOrderLine l
+      JOIN product p ON p.id = l.productId
+      LEFT JOIN productVariant v ON v.id = l.variantId
+      LEFT JOIN size vs ON vs.id = v.sizeId
+      WHERE l.purchaseOrderId = po.id) AS lines
+  FROM purchaseOrder po
+  JOIN store s ON s.id = po.storeId
+  JOIN supplier su ON su.id = po.supplierId;
+
 CREATE OR REPLACE VIEW cart_view AS
 	SELECT
-    i.id,
-    inv.userId,
+    c.id,
+    c.userId,
     pv.id AS productId,
+    c.variantId,
+    v.sku,
+    vs.name AS size,
+    v.color,
     pv.name,
     pv.description,
-    pv.price,
-    i.quantity,
-    (pv.price*pv.discountPercentage*i.quantity) as total,
+    COALESCE(v.price, pv.price) AS price,
+    c.quantity,
+    (COALESCE(v.price, pv.price)*pv.discountPercentage*c.quantity) as total,
     pv.discountPercentage,
+    COALESCE(v.currentStock, pv.currentStock) AS currentStock,
+    LEAST(COALESCE(v.currentStock - (
+        SELECT COALESCE(SUM(R.quantity), 0)
+        FROM StockReservation AS R
+        WHERE R.variantId = c.variantId AND R.userId <> c.userId AND R.expiresAt > NOW()
+    ), pv.currentStock), pv.currentStock - (
+        SELECT COALESCE(SUM(R.quantity), 0)
+        FROM StockReservation AS R
+        WHERE R.productId = c.productId AND R.userId <> c.userId AND R.expiresAt > NOW()
+    )) AS availableStock,
+    (
+        SELECT R.expiresAt
+        FROM StockReservation AS R
+        WHERE R.productId = c.productId AND R.variantId <=> c.variantId AND R.userId = c.userId AND R.expiresAt > NOW()
+    ) AS reservedUntil,
     pv.storeId,
     pv.url_img,
     pv.brand,
     pv.categories,
-    pv.sizes
-	FROM Item i
+    pv.sizes,
+    IF(v.status = 0, 0, pv.status) AS status
+	FROM Cart c
 	JOIN
-	  product_view pv ON pv.id = i.productId
-  JOIN
-    invoice inv ON i.invoiceId = inv.id;
+	  product_view pv ON pv.id = c.productId
+	LEFT JOIN
+	  ProductVariant v ON v.id = c.variantId
+	LEFT JOIN
+	  Size vs ON vs.id = v.sizeId;
 
 ########################################################################
 # STORED PROCEDURES
@@ -514,6 +1050,23 @@ VALUES
   (62,3),
   (63,2);
 
+INSERT INTO TaxRate (name, rate)
+VALUES
+  ('IVA', 21.00);
+
+-- opening balance of the products that aren't in the stock ledger yet
+INSERT INTO StockMovement (productId, quantity, balance, reason, note)
+SELECT p.id, p.currentStock, p.currentStock, 'INITIAL', 'Opening balance'
+FROM Product p
+WHERE NOT EXISTS (SELECT 1 FROM StockMovement sm WHERE sm.productId = p.id);
+
+-- first version of the products that aren't in the product history yet
+INSERT INTO ProductVersion (productId, version, action, name, description, price, discountPercentage, reorderPoint, minimum, brand, brandId, categories, sizes, url_img, status)
+SELECT pv.id, 1, 'CREATE', pv.name, pv.description, pv.price, COALESCE(pv.regularDiscountPercentage, 1), pv.reorderPoint, pv.minimum, pv.brand, p.brandId, pv.categories, pv.sizes, pv.url_img, pv.status
+FROM product_view pv
+INNER JOIN Product p ON p.id = pv.id
+WHERE NOT EXISTS (SELECT 1 FROM ProductVersion v WHERE v.productId = pv.id);
+
 
 -- INSERT INTO Product (name, description, price, discountPercentage, currentStock, reorderPoint, minimum, brandId, url_img, storeId)
 -- VALUES
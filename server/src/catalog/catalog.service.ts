@@ -0,0 +1,169 @@
+import path from "path";
+import AdmZip from "adm-zip";
+import { DependencyLifeTime, Injectable } from "@miracledevs/paradigm-web-di";
+import { ProductRepository } from "../repositories/product.repository";
+import { ProductDBRepository } from "../repositories/productDB.repository";
+import { StockAlertService } from "../inventory/stockAlert.service";
+import { ImageService, maxImageSize } from "../images/image.service";
+import { UnitOfWork } from "../core/unitofwork/unitofwork";
+import { productForCreation } from "../models/schemas/product.schema";
+import { ProductInterface } from "../models/product";
+import { CatalogImportReportInterface, CatalogImportRowInterface } from "../models/catalog";
+import { parseCsv, toCsv } from "../utils/csv";
+
+/**
+ * The columns of the catalog CSV, categories and sizes are separated by a vertical bar
+ */
+export const catalogColumns = [
+    "id",
+    "name",
+    "description",
+    "price",
+    "discountPercentage",
+    "currentStock",
+    "reorderPoint",
+    "minimum",
+    "brand",
+    "categories",
+    "sizes",
+    "url_img",
+    "status",
+] as const;
+
+const listSeparator = "|";
+
+/**
+ * Exports the catalog of a store as CSV and imports it back, creating and updating its products
+ */
+@Injectable({ lifeTime: DependencyLifeTime.Scoped })
+export class CatalogService {
+    constructor(
+        private readonly productRepo: ProductRepository,
+        private readonly productDBRepo: ProductDBRepository,
+        private readonly stockAlertService: StockAlertService,
+        private readonly imageService: ImageService,
+        private readonly unitOfWork: UnitOfWork
+    ) {}
+
+    /**
+     * Writes every product of the store, the disabled ones included
+     */
+    async export(storeId: number): Promise<string> {
+        const products = await this.productRepo.find({ storeId });
+        const rows = products.map(product => [
+            product.id,
+            product.name,
+            product.description,
+            product.price,
+            product.regularDiscountPercentage,
+            product.currentStock,
+            product.reorderPoint,
+            product.minimum,
+            product.brand,
+            (product.categories ?? []).filter(Boolean).join(listSeparator),
+            (product.sizes ?? []).filter(Boolean).join(listSeparator),
+            product.url_img,
+            product.status,
+        ]);
+        return toCsv([[...catalogColumns], ...rows]);
+    }
+
+    /**
+     * Imports the products of a CSV into the store, the rows with an id update the product and the rest create one.
+     * Each row is validated and saved on its own, a rejected row doesn't stop the import.
+     * The images of the zip are matched to the rows by the file name of their url_img, and stored as webp named by their content.
+     * The images are stored before the rows are saved, an image left without a product is removed with the orphan images.
+     * @param dryRun validates and reports every row without saving the changes
+     * @param userId the user that imports the catalog
+     */
+    async import(storeId: number, csv: string, images: AdmZip | null, dryRun: boolean, userId: number): Promise<CatalogImportReportInterface> {
+        const [header, ...records] = parseCsv(csv);
+        if (!header) throw new Error("The CSV is empty");
+        const columns = header.map(column => column.trim());
+        const unknown = columns.find(column => !(catalogColumns as readonly string[]).includes(column));
+        if (unknown !== undefined) throw new Error(`Unknown column ${unknown}`);
+        const files = new Map((images?.getEntries() ?? []).filter(entry => !entry.isDirectory).map(entry => [path.basename(entry.entryName), entry]));
+
+        const rows: CatalogImportRowInterface[] = [];
+        const productIds: number[] = [];
+        let alertIds: number[] = [];
+        await this.unitOfWork.beginTransaction();
+        try {
+            for (const [i, record] of records.entries()) {
+                const fields = Object.fromEntries(columns.map((column, c) => [column, record[c]?.trim() ?? ""]));
+                const row: CatalogImportRowInterface = { line: i + 2, productId: fields.id ? Number(fields.id) : null, name: fields.name, action: "REJECTED" };
+                rows.push(row);
+                await this.unitOfWork.savepoint("catalog_row");
+                try {
+                    const image = fields.url_img ? path.basename(fields.url_img) : "";
+                    const entry = files.get(image);
+                    // the size in the header is checked first so a large file is never decompressed
+                    if (entry && entry.header.size > maxImageSize) throw new Error("The image is too large");
+                    const data = entry?.getData();
+                    if (data) {
+                        if (dryRun) await this.imageService.validate(data);
+                        else await this.imageService.save(data);
+                        row.image = image;
+                    }
+                    const product = this.toProduct(fields, data && this.imageService.fileName(data));
+                    let productId = product.id;
+                    if (productId) {
+                        const [current] = await this.productRepo.find({ id: product.id });
+                        if (!current) throw new Error("Product not found");
+                        if (current.storeId !== storeId) throw new Error("Unauthorized Store");
+                        await this.productDBRepo.updateProduct({ ...product, url_img: product.url_img ?? current.url_img }, userId);
+                        row.action = "UPDATED";
+                    } else {
+                        const result = await this.productDBRepo.insertProduct(
+                            { ...product, url_img: product.url_img ?? "images/placeholder.jpg" },
+                            storeId,
+                            userId
+                        );
+                        productId = result.insertId;
+                        // the products of a dry run are never saved, so they don't get an id
+                        row.productId = dryRun ? null : productId;
+                        row.action = "CREATED";
+                    }
+                    productIds.push(productId);
+                } catch (e) {
+                    await this.unitOfWork.rollbackToSavepoint("catalog_row");
+                    row.error = e.message;
+                    delete row.image;
+                }
+            }
+            if (dryRun) {
+                await this.unitOfWork.rollbackTransaction();
+            } else {
+                alertIds = await this.stockAlertService.check(productIds);
+                await this.unitOfWork.commitTransaction();
+            }
+        } catch (e) {
+            await this.unitOfWork.rollbackTransaction();
+            throw e;
+        }
+
+        if (!dryRun) await this.stockAlertService.notify(alertIds);
+        return {
+            dryRun,
+            created: rows.filter(row => row.action === "CREATED").length,
+            updated: rows.filter(row => row.action === "UPDATED").length,
+            rejected: rows.filter(row => row.action === "REJECTED").length,
+            rows,
+        };
+    }
+
+    /**
+     * Validates a row with the rules of the products created by the managers
+     */
+    private toProduct(fields: Record<string, string>, image?: string): ProductInterface {
+        const values = Object.fromEntries(Object.entries(fields).filter(([, value]) => value !== ""));
+        const list = (value?: string) =>
+            (value ?? "")
+                .split(listSeparator)
+                .map(item => item.trim())
+                .filter(Boolean);
+        const { error, value } = productForCreation.validate({ ...values, categories: list(values.categories), sizes: list(values.sizes) });
+        if (error) throw new Error(error.details[0].message);
+        return { ...value, url_img: image ? `images/${image}` : value.url_img };
+    }
+}
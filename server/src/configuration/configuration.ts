@@ -1,4 +1,5 @@
 import { MySqlConfiguration } from "./mysql.configuration";
+import { StorageConfiguration } from "./storage.configuration";
 
 export class Configuration {
     /**
@@ -16,6 +17,11 @@ export class Configuration {
      */
     mysql = new MySqlConfiguration();
 
+    /**
+     * The storage of the uploaded files.
+     */
+    storage = new StorageConfiguration();
+
     /**
      * Session timeout
      */
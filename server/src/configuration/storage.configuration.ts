@@ -0,0 +1,36 @@
+export class StorageConfiguration {
+    /**
+     * Where the uploaded files are stored, "local" keeps them on disk and "s3" on an S3 compatible service.
+     */
+    driver: string = process.env.SHOPPY__STORAGEDRIVER || "local";
+
+    /**
+     * The folder of the local driver.
+     */
+    folder = "public";
+
+    /**
+     * The url of the S3 compatible service, if null the AWS endpoint of the region will be used.
+     */
+    endpoint?: string = process.env.SHOPPY__S3ENDPOINT;
+
+    /**
+     * The region of the bucket.
+     */
+    region: string = process.env.SHOPPY__S3REGION || "us-east-1";
+
+    /**
+     * The bucket the files are stored in.
+     */
+    bucket: string = process.env.SHOPPY__S3BUCKET;
+
+    /**
+     * The access key of the user.
+     */
+    accessKeyId: string = process.env.SHOPPY__S3ACCESSKEYID;
+
+    /**
+     * The secret key of the user.
+     */
+    secretAccessKey: string = process.env.SHOPPY__S3SECRETACCESSKEY;
+}
@@ -0,0 +1,181 @@
+import { Action, ApiController, Controller, HttpMethod } from "@miracledevs/paradigm-express-webapi";
+import { Path, PathParam, GET, POST, PUT, DELETE } from "typescript-rest";
+import { Response, Tags } from "typescript-rest-swagger";
+import { JWTAuthFilter, isAdminFilter } from "../filters/jwtAuth";
+import { BrandFilter, BrandMergeFilter } from "../filters/brand.filter";
+import { ImageUploadFilter } from "../filters/upload.filter";
+import { BrandRepository } from "../repositories/brand.repository";
+import { ProductRepository } from "../repositories/product.repository";
+import { UserRepository } from "../repositories/user.repository";
+import { ImageService } from "../images/image.service";
+import { UnitOfWork } from "../core/unitofwork/unitofwork";
+import { BrandInterface, BrandMergeInterface, BrandProductsInterface, BrandViewInterface } from "../models/brand";
+
+@Path("/api/brand")
+@Tags("Brands")
+@Controller({ route: "/api/brand" })
+export class BrandController extends ApiController {
+    constructor(
+        private readonly brandRepo: BrandRepository,
+        private readonly productRepo: ProductRepository,
+        private readonly userRepo: UserRepository,
+        private readonly imageService: ImageService,
+        private readonly unitOfWork: UnitOfWork
+    ) {
+        super();
+    }
+
+    /**
+     * GET every brand with the number of its active products
+     */
+    @GET
+    @Path("/")
+    @Response<BrandViewInterface[]>(200, "Retrieve the brands.")
+    @Action({ route: "/", method: HttpMethod.GET })
+    async get() {
+        return await this.brandRepo.getViews();
+    }
+
+    /**
+     * GET a brand with its active products from every active store, grouped by store
+     * Example
+     * http:url/api/brand/1?page=1&per_page=12
+     * @param brandId
+     */
+    @GET
+    @Path("/:brandId")
+    @Response<BrandProductsInterface>(200, "Retrieve a brand with its products.")
+    @Response(500, "Brand not found")
+    @Action({ route: "/:brandId", method: HttpMethod.GET })
+    async getById(@PathParam("brandId") brandId: number): Promise<BrandProductsInterface> {
+        const { page = 1, per_page = 12 }: { page?: number; per_page?: number } = this.httpContext.request.query;
+        const brand = await this.brandRepo.getView(Number(brandId));
+        if (!brand) throw new Error("Brand not found");
+        const totalItems = await this.productRepo.getCountByBrand(brand.id);
+        const totalPages = Math.ceil(totalItems / per_page);
+        const products = await this.productRepo.getByBrand(brand.id, page, per_page);
+        return {
+            brand,
+            products,
+            pagination: {
+                page: Number(page),
+                perPage: Number(per_page),
+                totalPages,
+                totalItems,
+                hasNextPage: page < totalPages,
+            },
+        };
+    }
+
+    /**
+     * CREATE a brand
+     * @param brand {name}
+     * @returns the brand
+     */
+    @POST
+    @Path("/")
+    @Response<BrandViewInterface>(200, "Create a brand.")
+    @Response(500, "The brand already exists")
+    @Action({ route: "/", method: HttpMethod.POST, filters: [BrandFilter, JWTAuthFilter, isAdminFilter], fromBody: true })
+    async create(brand: BrandInterface) {
+        const name = brand.name.trim();
+        await this.checkName(name);
+        const { insertId } = await this.brandRepo.insertOne({ name });
+        return await this.brandRepo.getView(insertId);
+    }
+
+    /**
+     * UPDATE the name of a brand, the products keep it
+     * @param brand {name}
+     * @param brandId
+     * @returns the brand
+     */
+    @PUT
+    @Path("/:brandId")
+    @Response<BrandViewInterface>(200, "Update a brand.")
+    @Response(500, "Brand not found")
+    @Response(500, "The brand already exists")
+    @Action({ route: "/:brandId", method: HttpMethod.PUT, filters: [BrandFilter, JWTAuthFilter, isAdminFilter], fromBody: true })
+    async update(brand: BrandInterface, @PathParam("brandId") brandId: number) {
+        const name = brand.name.trim();
+        await this.checkName(name, Number(brandId));
+        await this.brandRepo.update({ id: Number(brandId), name });
+        return await this.brandRepo.getView(Number(brandId));
+    }
+
+    /**
+     * UPLOAD the logo of a brand, sent in `img_file` as multipart form data.
+     * It's stored as webp with its thumbnail, card and detail sizes
+     * @param brandId
+     * @returns the brand
+     */
+    @PUT
+    @Path("/:brandId/logo")
+    @Response<BrandViewInterface>(200, "Upload the logo of a brand.")
+    @Response(500, "The logo is required")
+    @Response(500, "Invalid image")
+    @Response(500, "Invalid file type")
+    @Response(500, "The file is too large")
+    @Action({ route: "/:brandId/logo", method: HttpMethod.PUT, filters: [JWTAuthFilter, isAdminFilter, ImageUploadFilter] })
+    async uploadLogo(@PathParam("brandId") brandId: number) {
+        const file = this.httpContext.request.file;
+        if (!file) throw new Error("The logo is required");
+        if (!(await this.brandRepo.getView(Number(brandId)))) throw new Error("Brand not found");
+        await this.brandRepo.update({ id: Number(brandId), url_logo: await this.imageService.save(file.buffer) });
+        return await this.brandRepo.getView(Number(brandId));
+    }
+
+    /**
+     * MERGE a brand into another one, its products, promotions and campaigns are moved to the other brand and it's deleted
+     * @param merge {targetId}
+     * @param brandId the brand that is merged
+     * @returns the brand the products were moved to
+     */
+    @POST
+    @Path("/:brandId/merge")
+    @Response<BrandViewInterface>(200, "Merge a brand into another one.")
+    @Response(500, "Brand not found")
+    @Response(500, "A brand can't be merged into itself")
+    @Action({ route: "/:brandId/merge", method: HttpMethod.POST, filters: [BrandMergeFilter, JWTAuthFilter, isAdminFilter], fromBody: true })
+    async merge(merge: BrandMergeInterface, @PathParam("brandId") brandId: number) {
+        const targetId = Number(merge.targetId);
+        if (targetId === Number(brandId)) throw new Error("A brand can't be merged into itself");
+        if (!(await this.brandRepo.getView(Number(brandId))) || !(await this.brandRepo.getView(targetId))) throw new Error("Brand not found");
+        const { id: userId } = this.userRepo.getAuth();
+        await this.unitOfWork.beginTransaction();
+        try {
+            await this.brandRepo.merge(Number(brandId), targetId, userId);
+            await this.unitOfWork.commitTransaction();
+        } catch (e) {
+            await this.unitOfWork.rollbackTransaction();
+            throw e;
+        }
+        return await this.brandRepo.getView(targetId);
+    }
+
+    /**
+     * DELETE a brand without products, promotions nor campaigns, the brands in use are merged into another one
+     * @param brandId
+     * @returns the brands
+     */
+    @DELETE
+    @Path("/:brandId")
+    @Response<BrandViewInterface[]>(200, "Delete a brand.")
+    @Response(500, "Brand not found")
+    @Response(500, "The brand is in use, merge it into another brand")
+    @Action({ route: "/:brandId", method: HttpMethod.DELETE, filters: [JWTAuthFilter, isAdminFilter] })
+    async delete(@PathParam("brandId") brandId: number) {
+        if (!(await this.brandRepo.getView(Number(brandId)))) throw new Error("Brand not found");
+        if (await this.brandRepo.isInUse(Number(brandId))) throw new Error("The brand is in use, merge it into another brand");
+        await this.brandRepo.delete({ id: Number(brandId) });
+        return await this.get();
+    }
+
+    /**
+     * The names are compared without case nor accents, like the database does
+     */
+    private async checkName(name: string, brandId?: number) {
+        const [existing] = await this.brandRepo.find({ name });
+        if (existing && existing.id !== brandId) throw new Error("The brand already exists");
+    }
+}
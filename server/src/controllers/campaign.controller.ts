@@ -0,0 +1,159 @@
+import { Action, ApiController, Controller, HttpMethod } from "@miracledevs/paradigm-express-webapi";
+import { Path, PathParam, GET, POST, PUT, DELETE } from "typescript-rest";
+import { Response, Tags } from "typescript-rest-swagger";
+import { JWTAuthFilter, isManagerFilter } from "../filters/jwtAuth";
+import { CampaignFilter } from "../filters/campaign.filter";
+import { CampaignRepository } from "../repositories/campaign.repository";
+import { CampaignViewRepository } from "../repositories/campaignView.repository";
+import { CampaignProductRepository } from "../repositories/campaignProduct.repository";
+import { CategoryRepository } from "../repositories/category.repository";
+import { BrandRepository } from "../repositories/brand.repository";
+import { ProductRepository } from "../repositories/product.repository";
+import { StoreRepository } from "../repositories/store.repository";
+import { UserRepository } from "../repositories/user.repository";
+import { UnitOfWork } from "../core/unitofwork/unitofwork";
+import { CampaignForCreationInterface, CampaignInterface, CampaignViewInterface } from "../models/campaign";
+
+/**
+ * Managers schedule the sale campaigns of their store.
+ * The prices of the products change when the campaigns start and end, nothing has to run at those times.
+ */
+@Path("/api/campaigns")
+@Tags("Campaigns")
+@Controller({ route: "/api/campaigns" })
+export class CampaignController extends ApiController {
+    constructor(
+        private readonly campaignRepo: CampaignRepository,
+        private readonly campaignViewRepo: CampaignViewRepository,
+        private readonly campaignProductRepo: CampaignProductRepository,
+        private readonly categoryRepo: CategoryRepository,
+        private readonly brandRepo: BrandRepository,
+        private readonly productRepo: ProductRepository,
+        private readonly storeRepo: StoreRepository,
+        private readonly userRepo: UserRepository,
+        private readonly unitOfWork: UnitOfWork
+    ) {
+        super();
+    }
+
+    /**
+     * GET the campaigns of the manager store
+     */
+    @GET
+    @Path("/")
+    @Response<CampaignViewInterface[]>(200, "Retrieve the campaigns of the manager store.")
+    @Response(500, "Store not found.")
+    @Action({ route: "/", method: HttpMethod.GET, filters: [JWTAuthFilter, isManagerFilter] })
+    async get() {
+        return await this.campaignViewRepo.find({ storeId: await this.getStoreId() });
+    }
+
+    /**
+     * GET a campaign of the manager store
+     * @param campaignId
+     */
+    @GET
+    @Path("/:campaignId")
+    @Response<CampaignViewInterface>(200, "Retrieve a campaign.")
+    @Response(500, "Campaign not found")
+    @Action({ route: "/:campaignId", method: HttpMethod.GET, filters: [JWTAuthFilter, isManagerFilter] })
+    async getOne(@PathParam("campaignId") campaignId: number) {
+        const current = await this.campaignRepo.getByStore(Number(campaignId), await this.getStoreId());
+        return await this.campaignViewRepo.getById(current.id);
+    }
+
+    /**
+     * CREATE a campaign of the manager store
+     * @param campaign {name, discountPercentage, startsAt, endsAt} and one of productIds, categoryId or brandId
+     * @returns the created campaign
+     */
+    @POST
+    @Path("/")
+    @Response<CampaignViewInterface>(200, "Create a campaign.")
+    @Response(500, "Product not found")
+    @Action({ route: "/", method: HttpMethod.POST, filters: [CampaignFilter, JWTAuthFilter, isManagerFilter], fromBody: true })
+    async create(campaign: CampaignForCreationInterface) {
+        const storeId = await this.getStoreId();
+        const entity = await this.toEntity(campaign, storeId);
+        let campaignId: number;
+        await this.unitOfWork.beginTransaction();
+        try {
+            campaignId = (await this.campaignRepo.insertOne(entity)).insertId;
+            await this.campaignProductRepo.setProducts(campaignId, campaign.productIds ?? []);
+            await this.unitOfWork.commitTransaction();
+        } catch (e) {
+            await this.unitOfWork.rollbackTransaction();
+            throw e;
+        }
+        return await this.campaignViewRepo.getById(campaignId);
+    }
+
+    /**
+     * UPDATE a campaign of the manager store, the campaigns that already ended can't be changed
+     * @param campaignId
+     * @param campaign {name, discountPercentage, startsAt, endsAt, status} and one of productIds, categoryId or brandId
+     * @returns the updated campaign
+     */
+    @PUT
+    @Path("/:campaignId")
+    @Response<CampaignViewInterface>(200, "Update a campaign.")
+    @Response(500, "Ended campaigns can't be changed")
+    @Action({ route: "/:campaignId", method: HttpMethod.PUT, filters: [CampaignFilter, JWTAuthFilter, isManagerFilter], fromBody: true })
+    async update(campaign: CampaignForCreationInterface, @PathParam("campaignId") campaignId: number) {
+        const storeId = await this.getStoreId();
+        const current = await this.campaignRepo.getByStore(Number(campaignId), storeId);
+        if (new Date(current.endsAt) <= new Date()) throw new Error("Ended campaigns can't be changed");
+        const entity = await this.toEntity(campaign, storeId);
+        await this.unitOfWork.beginTransaction();
+        try {
+            await this.campaignRepo.update({ ...entity, id: current.id, status: campaign.status ?? current.status });
+            await this.campaignProductRepo.setProducts(current.id, campaign.productIds ?? []);
+            await this.unitOfWork.commitTransaction();
+        } catch (e) {
+            await this.unitOfWork.rollbackTransaction();
+            throw e;
+        }
+        return await this.campaignViewRepo.getById(current.id);
+    }
+
+    /**
+     * DISABLE a campaign, the products go back to their own discount
+     * @param campaignId
+     */
+    @DELETE
+    @Path("/:campaignId")
+    @Response<CampaignViewInterface>(200, "Disable a campaign.")
+    @Response(500, "Campaign not found")
+    @Action({ route: "/:campaignId", method: HttpMethod.DELETE, filters: [JWTAuthFilter, isManagerFilter] })
+    async disable(@PathParam("campaignId") campaignId: number) {
+        const current = await this.campaignRepo.getByStore(Number(campaignId), await this.getStoreId());
+        await this.campaignRepo.update({ id: current.id, status: 0 });
+        return await this.campaignViewRepo.getById(current.id);
+    }
+
+    private async getStoreId() {
+        const { id } = this.userRepo.getAuth();
+        return (await this.storeRepo.getByManager(id)).id;
+    }
+
+    /**
+     * Checks the products, category or brand of the campaign exist, the products must be of the store
+     */
+    private async toEntity(campaign: CampaignForCreationInterface, storeId: number): Promise<CampaignInterface> {
+        const productIds = campaign.productIds ?? [];
+        const products = await this.productRepo.getByIds(productIds);
+        if (products.length !== productIds.length) throw new Error("Product not found");
+        if (products.some(product => product.storeId !== storeId)) throw new Error("Unauthorized Store");
+        if (campaign.categoryId && (await this.categoryRepo.find({ id: campaign.categoryId })).length === 0) throw new Error("Category not found");
+        if (campaign.brandId && (await this.brandRepo.find({ id: campaign.brandId })).length === 0) throw new Error("Brand not found");
+        return {
+            storeId,
+            name: campaign.name,
+            discountPercentage: campaign.discountPercentage,
+            categoryId: campaign.categoryId ?? null,
+            brandId: campaign.brandId ?? null,
+            startsAt: new Date(campaign.startsAt),
+            endsAt: new Date(campaign.endsAt),
+        };
+    }
+}
@@ -0,0 +1,207 @@
+import { Action, ApiController, Controller, HttpMethod } from "@miracledevs/paradigm-express-webapi";
+import { Path, PathParam, GET, POST, PUT, DELETE } from "typescript-rest";
+import { Response, Tags } from "typescript-rest-swagger";
+import { JWTAuthFilter } from "../filters/jwtAuth";
+import { CartLineFilter, CartLineArrayFilter } from "../filters/cart.filter";
+import { CartRepository } from "../repositories/cart.repository";
+import { CartViewRepository } from "../repositories/cartView.repository";
+import { ProductRepository } from "../repositories/product.repository";
+import { ProductDBRepository } from "../repositories/productDB.repository";
+import { ProductVariantRepository } from "../repositories/productVariant.repository";
+import { UserRepository } from "../repositories/user.repository";
+import { UnitOfWork } from "../core/unitofwork/unitofwork";
+import { CartLineInterface } from "../models/cart";
+import { CartViewInterface } from "../models/cartView";
+import { IdempotencyService } from "../utils/idempotency";
+import { StockReservationService } from "../inventory/stockReservation.service";
+
+@Path("/api/cart")
+@Tags("Cart")
+@Controller({ route: "/api/cart" })
+export class CartController extends ApiController {
+    constructor(
+        private readonly cartRepo: CartRepository,
+        private readonly cartViewRepo: CartViewRepository,
+        private readonly productRepo: ProductRepository,
+        private readonly productDBRepo: ProductDBRepository,
+        private readonly variantRepo: ProductVariantRepository,
+        private readonly userRepo: UserRepository,
+        private readonly idempotency: IdempotencyService,
+        private readonly reservationService: StockReservationService,
+        private readonly unitOfWork: UnitOfWork
+    ) {
+        super();
+    }
+
+    /**
+     * GET the cart of the logged user
+     * @returns the cart lines
+     */
+    @GET
+    @Path("/")
+    @Response<CartViewInterface[]>(200, "Retrieve the user cart.")
+    @Response(500, "Server error.")
+    @Action({ route: "/", method: HttpMethod.GET, filters: [JWTAuthFilter] })
+    async get() {
+        const { id } = this.userRepo.getAuth();
+        return await this.cartViewRepo.find({ userId: id });
+    }
+
+    /**
+     * ADD a product to the cart, if the product is already in the cart the quantities are added up.
+     * The products with variants are added with the chosen variant, each variant is a line of the cart.
+     * The units of the line are held for the user until the reservation expires, the stock held by
+     * other users can't be added.
+     * Retries sent with the same Idempotency-Key header don't add the units again.
+     * @param line {productId, variantId, quantity}
+     * @returns the cart lines
+     */
+    @POST
+    @Path("/")
+    @Response<CartViewInterface[]>(200, "Add a product to the cart.")
+    @Response(500, "Not enough stock.")
+    @Response(500, "Choose a variant of the product")
+    @Response(409, "A request with the idempotency key is in progress.")
+    @Response(422, "The idempotency key was used with a different request.")
+    @Action({ route: "/", method: HttpMethod.POST, filters: [CartLineFilter, JWTAuthFilter], fromBody: true })
+    async add(line: CartLineInterface) {
+        const { id } = this.userRepo.getAuth();
+        return await this.idempotency.run(id, this.httpContext.request, async () => {
+            await this.unitOfWork.beginTransaction();
+            try {
+                const current = await this.cartRepo.find({ userId: id, productId: line.productId });
+                const inCart = current.find(c => c.variantId === (line.variantId ?? null))?.quantity ?? 0;
+                await this.setLine(id, { ...line, quantity: inCart + line.quantity });
+                await this.unitOfWork.commitTransaction();
+            } catch (e) {
+                await this.unitOfWork.rollbackTransaction();
+                throw e;
+            }
+            return await this.get();
+        });
+    }
+
+    /**
+     * CHANGE the quantity of a product in the cart, the reservation of the line is renewed
+     * @param line {productId, variantId, quantity}
+     * @returns the cart lines
+     */
+    @PUT
+    @Path("/")
+    @Response<CartViewInterface[]>(200, "Change the quantity of a cart line.")
+    @Response(500, "Not enough stock.")
+    @Action({ route: "/", method: HttpMethod.PUT, filters: [CartLineFilter, JWTAuthFilter], fromBody: true })
+    async update(line: CartLineInterface) {
+        const { id } = this.userRepo.getAuth();
+        await this.unitOfWork.beginTransaction();
+        try {
+            await this.setLine(id, line);
+            await this.unitOfWork.commitTransaction();
+        } catch (e) {
+            await this.unitOfWork.rollbackTransaction();
+            throw e;
+        }
+        return await this.get();
+    }
+
+    /**
+     * REMOVE a product from the cart and release its reservation.
+     * The line of a variant is removed by sending it in the query as `variantId=1`.
+     * @param productId
+     * @returns the cart lines
+     */
+    @DELETE
+    @Path("/:productId")
+    @Response<CartViewInterface[]>(200, "Remove a product from the cart.")
+    @Response(500, "Cart not found.")
+    @Action({ route: "/:productId", method: HttpMethod.DELETE, filters: [JWTAuthFilter] })
+    async remove(@PathParam("productId") productId: number) {
+        const { id } = this.userRepo.getAuth();
+        const { variantId } = this.httpContext.request.query;
+        await this.cartRepo.removeLine(id, Number(productId), variantId ? Number(variantId) : null);
+        await this.reservationService.releaseLine(id, Number(productId), variantId ? Number(variantId) : null);
+        return await this.get();
+    }
+
+    /**
+     * REMOVE every product from the cart and release their reservations
+     */
+    @DELETE
+    @Path("/")
+    @Response<void>(200, "Clear the cart.")
+    @Response(500, "Server error.")
+    @Action({ route: "/", method: HttpMethod.DELETE, filters: [JWTAuthFilter] })
+    async clear() {
+        const { id } = this.userRepo.getAuth();
+        await this.cartRepo.clear(id);
+        await this.reservationService.release(id);
+        return [] as CartViewInterface[];
+    }
+
+    /**
+     * MERGE an anonymous cart into the user cart.
+     * Quantities of the same product are added up and capped to the stock not held by other users,
+     * lines of products that can't be bought are skipped, as the products with variants sent without one.
+     * The merged lines are held for the user.
+     * @param lines [{productId, variantId, quantity}]
+     * @returns the cart lines
+     */
+    @POST
+    @Path("/merge")
+    @Response<CartViewInterface[]>(200, "Merge a cart into the user cart.")
+    @Response(500, "Server error.")
+    @Action({ route: "/merge", method: HttpMethod.POST, filters: [CartLineArrayFilter, JWTAuthFilter], fromBody: true })
+    async merge(lines: CartLineInterface[]) {
+        const { id } = this.userRepo.getAuth();
+        const ids = lines.map(line => line.productId);
+        const current = await this.cartRepo.find({ userId: id });
+        await this.unitOfWork.beginTransaction();
+        try {
+            await this.productDBRepo.lockForUpdate(ids);
+            const products = await this.productRepo.getByIds(ids);
+            const available = await this.reservationService.availableFor(id, products);
+            const variants = await this.variantRepo.getByIds(lines.filter(line => line.variantId).map(line => line.variantId));
+            const variantsAvailable = await this.reservationService.variantsAvailableFor(id, variants);
+            const held = new Map<number, number>();
+            current.forEach(c => held.set(c.productId, (held.get(c.productId) ?? 0) + c.quantity));
+            for (const line of lines) {
+                const product = products.find(p => p.id === line.productId);
+                if (!product || product.status !== 1) continue;
+                const variant = variants.find(v => v.id === line.variantId && v.productId === product.id);
+                if (line.variantId && (!variant || variant.status !== 1)) continue;
+                if (!line.variantId && product.variants?.length) continue;
+                const inCart = current.find(c => c.productId === line.productId && c.variantId === (variant?.id ?? null))?.quantity ?? 0;
+                const room = available.get(product.id) - (held.get(product.id) ?? 0) + inCart;
+                const quantity = Math.min(inCart + line.quantity, room, variant ? variantsAvailable.get(variant.id) : room);
+                if (quantity > inCart) {
+                    held.set(product.id, (held.get(product.id) ?? 0) + quantity - inCart);
+                    await this.reservationService.hold(id, product.id, variant?.id ?? null, quantity);
+                    await this.cartRepo.setQuantity(id, line.productId, variant?.id ?? null, quantity);
+                }
+            }
+            await this.unitOfWork.commitTransaction();
+        } catch (e) {
+            await this.unitOfWork.rollbackTransaction();
+            throw e;
+        }
+        return await this.get();
+    }
+
+    /**
+     * Sets the quantity of a cart line and holds its units
+     */
+    private async setLine(userId: number, line: CartLineInterface) {
+        await this.productDBRepo.lockForUpdate([line.productId]);
+        const variantId = line.variantId ?? null;
+        if (variantId) {
+            const [variant] = await this.variantRepo.find({ id: variantId, productId: line.productId });
+            if (!variant) throw new Error("Variant not found");
+            if (variant.status !== 1) throw new Error("Variant is disabled");
+            if (variant.currentStock < line.quantity) throw new Error("Not enough stock");
+        } else if (await this.variantRepo.hasVariants(line.productId)) {
+            throw new Error("Choose a variant of the product");
+        }
+        await this.cartRepo.setQuantity(userId, line.productId, variantId, line.quantity);
+        await this.reservationService.reserve(userId, line.productId, variantId, line.quantity);
+    }
+}
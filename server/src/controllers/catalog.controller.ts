@@ -0,0 +1,71 @@
+import AdmZip from "adm-zip";
+import { Action, ApiController, Controller, HttpMethod } from "@miracledevs/paradigm-express-webapi";
+import { Path, GET, POST } from "typescript-rest";
+import { Response, Tags } from "typescript-rest-swagger";
+import { JWTAuthFilter, isManagerFilter } from "../filters/jwtAuth";
+import { CatalogUploadFilter } from "../filters/upload.filter";
+import { StoreRepository } from "../repositories/store.repository";
+import { UserRepository } from "../repositories/user.repository";
+import { CatalogService } from "../catalog/catalog.service";
+import { CatalogImportReportInterface } from "../models/catalog";
+
+type CatalogFiles = { csv_file?: Express.Multer.File[]; images_zip?: Express.Multer.File[] };
+
+/**
+ * Managers export the catalog of their store as CSV and import products in bulk from it
+ */
+@Path("/api/catalog")
+@Tags("Catalog")
+@Controller({ route: "/api/catalog" })
+export class CatalogController extends ApiController {
+    constructor(private readonly storeRepo: StoreRepository, private readonly userRepo: UserRepository, private readonly catalogService: CatalogService) {
+        super();
+    }
+
+    /**
+     * DOWNLOAD the products of the manager store as a CSV file
+     */
+    @GET
+    @Path("/export")
+    @Response<Buffer>(200, "Download the catalog of the manager store as a CSV file.")
+    @Response(500, "Store not found")
+    @Action({ route: "/export", method: HttpMethod.GET, filters: [JWTAuthFilter, isManagerFilter] })
+    async export() {
+        const store = await this.storeRepo.getByManager(this.userRepo.getAuth().id);
+        const csv = await this.catalogService.export(store.id);
+        this.httpContext.response.type("text/csv").attachment(`catalog-${store.id}.csv`);
+        return Buffer.from(csv);
+    }
+
+    /**
+     * IMPORT products into the manager store from a CSV file, sent as multipart form data in `csv_file`
+     * with the columns of the export. Rows with an id update the product, the rest create one.
+     * The images are sent zipped in `images_zip` and matched to the rows by the file name of their url_img.
+     * Send `dryRun=true` in the query to get the report without saving the changes.
+     * @returns the rows created, updated and rejected
+     */
+    @POST
+    @Path("/import")
+    @Response<CatalogImportReportInterface>(200, "Import products from a CSV file.")
+    @Response(500, "The CSV file is required")
+    @Response(500, "Invalid images zip")
+    @Response(500, "Invalid file type")
+    @Response(500, "The file is too large")
+    @Action({ route: "/import", method: HttpMethod.POST, filters: [JWTAuthFilter, isManagerFilter, CatalogUploadFilter] })
+    async import() {
+        const { id: userId } = this.userRepo.getAuth();
+        const store = await this.storeRepo.getByManager(userId);
+        const files = (this.httpContext.request.files ?? {}) as CatalogFiles;
+        const [csv] = files.csv_file ?? [];
+        if (!csv) throw new Error("The CSV file is required");
+        const [zip] = files.images_zip ?? [];
+        let images: AdmZip | null = null;
+        try {
+            if (zip) images = new AdmZip(zip.buffer);
+        } catch {
+            throw new Error("Invalid images zip");
+        }
+        const dryRun = this.httpContext.request.query.dryRun === "true";
+        return await this.catalogService.import(store.id, csv.buffer.toString("utf8"), images, dryRun, userId);
+    }
+}
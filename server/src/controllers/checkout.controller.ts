@@ -1,16 +1,45 @@
 import { Action, ApiController, Controller, HttpMethod } from "@miracledevs/paradigm-express-webapi";
-import { JWTAuthFilter } from "../filters/jwtAuth";
+import { JWTAuthFilter, isManagerFilter } from "../filters/jwtAuth";
 import { ProductSaleArrayFilter } from "../filters/product.filter";
-import { Path, POST, GET } from "typescript-rest";
+import { Path, PathParam, POST, GET, PUT } from "typescript-rest";
 import { InvoiceRepository } from "../repositories/invoice.repository";
 import { ItemRepository } from "../repositories/item.repository";
 import { InvoiceViewRepository } from "../repositories/invoiceView.repository";
 import { Tags, Response } from "typescript-rest-swagger";
 import { InvoiceViewInterface } from "../models/invoiceView";
-import { ProductSaleInterface } from "../models/product";
+import { ProductInterface, ProductSaleInterface } from "../models/product";
+import { CheckoutLineErrorInterface } from "../models/checkout";
 import dotenv from "dotenv";
 import { UserRepository } from "../repositories/user.repository";
 import { Emailer } from "../utils/emailer";
+import { InvoicePdf } from "../utils/invoicePdf";
+import { ApiError } from "../utils/apiError";
+import { roundMoney } from "../utils/roundMoney";
+import { ProductRepository } from "../repositories/product.repository";
+import { ProductDBRepository } from "../repositories/productDB.repository";
+import { CartRepository } from "../repositories/cart.repository";
+import { StoreRepository } from "../repositories/store.repository";
+import { InvoiceStatusHistoryRepository } from "../repositories/invoiceStatusHistory.repository";
+import { InvoiceStatusHistoryInterface, InvoiceStatusChangeInterface } from "../models/invoiceStatusHistory";
+import { InvoiceStatusFilter } from "../filters/invoice.filter";
+import { PickupSlotRepository } from "../repositories/pickupSlot.repository";
+import { InvoicePickupRepository } from "../repositories/invoicePickup.repository";
+import { PickupSlotAvailabilityInterface } from "../models/pickup";
+import { PaymentService } from "../payments/payment.service";
+import { PromotionService } from "../promotions/promotion.service";
+import { InvoiceDiscountRepository } from "../repositories/invoiceDiscount.repository";
+import { TaxRateRepository } from "../repositories/taxRate.repository";
+import { InvoiceNumberRepository } from "../repositories/invoiceNumber.repository";
+import { PromotionQuoteInterface } from "../models/promotion";
+import { TaxRateViewInterface } from "../models/tax";
+import { findTaxRate, includedTax } from "../utils/taxes";
+import { UnitOfWork } from "../core/unitofwork/unitofwork";
+import { IdempotencyService } from "../utils/idempotency";
+import { StockAlertService } from "../inventory/stockAlert.service";
+import { StockReservationService } from "../inventory/stockReservation.service";
+import { ProductVariantRepository } from "../repositories/productVariant.repository";
+import { ProductVariant } from "../models/productVariant";
+import { ItemReturnRepository } from "../repositories/itemReturn.repository";
 dotenv.config();
 
 @Path("/api/checkout")
@@ -22,7 +51,26 @@ export class CheckoutController extends ApiController {
         private readonly itemRepo: ItemRepository,
         private readonly invoiceViewRepo: InvoiceViewRepository,
         private readonly userRepo: UserRepository,
-        private readonly emailer: Emailer
+        private readonly productRepo: ProductRepository,
+        private readonly productDBRepo: ProductDBRepository,
+        private readonly variantRepo: ProductVariantRepository,
+        private readonly cartRepo: CartRepository,
+        private readonly storeRepo: StoreRepository,
+        private readonly historyRepo: InvoiceStatusHistoryRepository,
+        private readonly pickupSlotRepo: PickupSlotRepository,
+        private readonly invoicePickupRepo: InvoicePickupRepository,
+        private readonly paymentService: PaymentService,
+        private readonly promotionService: PromotionService,
+        private readonly invoiceDiscountRepo: InvoiceDiscountRepository,
+        private readonly taxRateRepo: TaxRateRepository,
+        private readonly invoiceNumberRepo: InvoiceNumberRepository,
+        private readonly itemReturnRepo: ItemReturnRepository,
+        private readonly idempotency: IdempotencyService,
+        private readonly stockAlertService: StockAlertService,
+        private readonly reservationService: StockReservationService,
+        private readonly unitOfWork: UnitOfWork,
+        private readonly emailer: Emailer,
+        private readonly invoicePdf: InvoicePdf
     ) {
         super();
     }
@@ -40,26 +88,338 @@ export class CheckoutController extends ApiController {
         return invoiceView;
     }
 
+    /**
+     * Produce an invoice from the cart lines.
+     * Prices and stock are taken from the database, the client values are only used
+     * to detect stale carts. Any rejected line aborts the whole checkout.
+     * The products with variants are sold by variant, with the price of the variant when it has one.
+     * The units held in the carts of other users can't be bought, the reservations of the user are released.
+     * The invoice waits for its payment, that is made through /api/payments.
+     * The pickup slots are sent in the query as `pickupSlots=1,2`, one for each store of the order
+     * that offers slots with room left.
+     * The active promotions are applied to the total, and the coupon sent in the query as `coupon=CODE`.
+     * The included taxes are stored on each line, and every store of the order gives it its next fiscal number.
+     * Retries sent with the same Idempotency-Key header get the first invoice back.
+     * @param products the cart lines
+     * @returns the invoice and the url of the sent email
+     */
     @POST
     @Path("/produce")
+    @Response<InvoiceViewInterface>(200, "Produce an invoice.")
+    @Response<CheckoutLineErrorInterface[]>(409, "Checkout rejected.")
+    @Response(409, "A request with the idempotency key is in progress.")
+    @Response(422, "The idempotency key was used with a different request.")
     @Action({ route: "/produce", method: HttpMethod.POST, filters: [ProductSaleArrayFilter, JWTAuthFilter], fromBody: true })
     async produceInvoice(products: ProductSaleInterface[]) {
         if (products.length === 0) throw new Error("No items in cart");
+        const { id } = this.userRepo.getAuth();
+        return await this.idempotency.run(id, this.httpContext.request, () => this.produce(products));
+    }
+
+    private async produce(products: ProductSaleInterface[]) {
         const { email: userEmail } = this.userRepo.getAuth();
-        const date = new Date();
-        const grandTotal = [...products].reduce((acc, c) => acc + c.price * c.discountPercentage * c.quantity, 0);
         const user = await this.userRepo.getById(userEmail);
-        const invoice = await this.invoiceRepo.insertOne({ userId: user.id, date: date, total: grandTotal });
-        const items = products.map(item => ({
-            invoiceId: invoice.insertId,
-            productId: item.id,
-            unitPrice: item.price,
-            quantity: item.quantity,
-            total: item.price * item.discountPercentage * item.quantity,
-        }));
-        await this.itemRepo.insertItem(items);
-        const invoiceView = await this.invoiceViewRepo.getById(invoice.insertId);
-        const urlInfo = await this.emailer.sendInvoice(invoiceView);
-        return { ...invoiceView, messageUrl: urlInfo };
+        const lines = this.mergeLines(products);
+        const ids = [...new Set(lines.map(line => line.id))];
+        const slotIds = this.getPickupSlotIds();
+
+        let invoiceId: number;
+        let alertIds: number[];
+        await this.unitOfWork.beginTransaction();
+        try {
+            await this.productDBRepo.lockForUpdate(ids);
+            const stored = await this.productRepo.getByIds(ids);
+            const variants = await this.variantRepo.getByIds(lines.filter(line => line.variantId).map(line => line.variantId));
+            const available = await this.reservationService.availableFor(user.id, stored);
+            const variantsAvailable = await this.reservationService.variantsAvailableFor(user.id, variants);
+            const errors = this.validateLines(lines, stored, variants, available, variantsAvailable);
+            if (errors.length > 0) throw new ApiError("Checkout rejected", errors, 409);
+
+            const storeIds = [...new Set(stored.map(product => product.storeId))];
+            await this.pickupSlotRepo.lockForUpdate(slotIds);
+            const pickups = this.assignPickups(storeIds, slotIds, await this.pickupSlotRepo.getUpcoming(storeIds));
+
+            const items = lines.map(line => {
+                const product = stored.find(p => p.id === line.id);
+                const price = variants.find(v => v.id === line.variantId)?.price ?? product.price;
+                return {
+                    productId: product.id,
+                    variantId: line.variantId ?? null,
+                    unitPrice: price,
+                    quantity: line.quantity,
+                    total: roundMoney(price * product.discountPercentage * line.quantity),
+                };
+            });
+            const promotionLines = items.map(item => ({ product: stored.find(p => p.id === item.productId), quantity: item.quantity, total: item.total }));
+            const quote = await this.promotionService.quote(promotionLines, this.getCoupon());
+            const pickupCode = await this.invoiceRepo.newPickupCode();
+            const invoice = await this.invoiceRepo.insertOne({
+                userId: user.id,
+                date: new Date(),
+                total: quote.total,
+                discount: roundMoney(quote.subtotal - quote.total),
+                status: "PENDING_PAYMENT",
+                pickupCode,
+            });
+            invoiceId = invoice.insertId;
+            for (const discount of quote.discounts) await this.invoiceDiscountRepo.insertOne({ invoiceId, ...discount });
+            await this.promotionService.redeem(quote.discounts);
+            await this.invoiceRepo.startHistory(invoiceId, "PENDING_PAYMENT", user.id);
+            await this.itemRepo.insertItem(this.addTaxes(items, stored, await this.taxRateRepo.getViews(true), quote).map(item => ({ invoiceId, ...item })));
+            for (const pickup of pickups) await this.invoicePickupRepo.insertOne({ invoiceId, ...pickup });
+
+            for (const item of items) {
+                const decremented = await this.productDBRepo.moveStock(item.productId, -item.quantity, "SALE", {
+                    userId: user.id,
+                    reference: `invoice:${invoiceId}`,
+                });
+                const variantDecremented = !item.variantId || (await this.variantRepo.moveStock(item.variantId, -item.quantity));
+                if (!decremented || !variantDecremented) {
+                    throw new ApiError("Checkout rejected", [{ productId: item.productId, variantId: item.variantId, reason: "INSUFFICIENT_STOCK" }], 409);
+                }
+            }
+            alertIds = await this.stockAlertService.check(ids);
+            // the sequences are locked in the same order by every checkout so they can't deadlock
+            for (const storeId of [...storeIds].sort((a, b) => a - b)) await this.invoiceNumberRepo.assign(invoiceId, storeId);
+            await this.cartRepo.clear(user.id);
+            await this.reservationService.release(user.id);
+            await this.unitOfWork.commitTransaction();
+        } catch (e) {
+            await this.unitOfWork.rollbackTransaction();
+            throw e;
+        }
+
+        await this.stockAlertService.notify(alertIds);
+        const invoiceView = await this.invoiceViewRepo.getById(invoiceId);
+        return { ...invoiceView, messageUrl: await this.sendInvoice(invoiceView) };
+    }
+
+    /**
+     * Emails the invoice to the customer. The invoice is already committed, so a failed email is recorded on it
+     * instead of failing the checkout, a retry would create another invoice.
+     * @returns the url of the sent email, false when it failed
+     */
+    private async sendInvoice(invoice: InvoiceViewInterface): Promise<string | false> {
+        try {
+            const url = await this.emailer.sendInvoice(invoice);
+            await this.invoiceRepo.update({ id: invoice.id, emailedAt: new Date(), emailError: null });
+            return url;
+        } catch (e) {
+            await this.invoiceRepo.update({ id: invoice.id, emailError: String(e.message ?? e).slice(0, 255) });
+            return false;
+        }
+    }
+
+    /**
+     * GET the invoices with lines of the manager store
+     * @returns the store invoices, newest first
+     */
+    @GET
+    @Path("/manager")
+    @Response<InvoiceViewInterface[]>(200, "Retrieve the invoices of the manager store.")
+    @Response(500, "Store not found.")
+    @Action({ route: "/manager", method: HttpMethod.GET, filters: [JWTAuthFilter, isManagerFilter] })
+    async getByManager() {
+        const { id } = this.userRepo.getAuth();
+        const store = await this.storeRepo.getByManager(id);
+        return await this.invoiceViewRepo.getByStore(store.id);
+    }
+
+    /**
+     * CHANGE the status of an invoice of the manager store.
+     * The status is the one of the whole order, so the store has to sell every line of it.
+     * Cancelled and expired orders put their units back in stock, refund their payment and reject the returns waiting for a review.
+     * The stock alerts of the restocked products are updated.
+     * The cash payment of the orders paid on pickup is collected when they are picked up.
+     * @param invoiceId
+     * @param change {status, note}
+     * @returns the updated invoice
+     */
+    @PUT
+    @Path("/:invoiceId/status")
+    @Response<InvoiceViewInterface>(200, "Change the status of an invoice.")
+    @Response(500, "Invalid status change.")
+    @Response(500, "Unauthorized Store")
+    @Response(500, "The order has lines of other stores")
+    @Action({ route: "/:invoiceId/status", method: HttpMethod.PUT, filters: [InvoiceStatusFilter, JWTAuthFilter, isManagerFilter], fromBody: true })
+    async changeStatus(change: InvoiceStatusChangeInterface, @PathParam("invoiceId") invoiceId: number) {
+        const { id: userId } = this.userRepo.getAuth();
+        const store = await this.storeRepo.getByManager(userId);
+        const storeIds = await this.invoiceRepo.getStoreIds(Number(invoiceId));
+        if (!storeIds.includes(store.id)) throw new Error("Unauthorized Store");
+        if (storeIds.length > 1) throw new Error("The order has lines of other stores");
+        let alertIds: number[] = [];
+        await this.unitOfWork.beginTransaction();
+        try {
+            const invoice = await this.invoiceRepo.getForUpdate(Number(invoiceId));
+            if (invoice.status === "PENDING_PAYMENT" && change.status === "READY_FOR_PICKUP" && !(await this.paymentService.isCashOnPickup(invoice.id))) {
+                throw new Error("The order is not paid");
+            }
+            if (change.status === "PICKED_UP") await this.paymentService.captureOnPickup(invoice.id);
+            await this.invoiceRepo.changeStatus(invoice.id, change.status, userId, change.note);
+            if (change.status === "CANCELLED" || change.status === "EXPIRED") {
+                await this.itemReturnRepo.rejectRequested(invoice.id, userId, "The order was closed");
+                const productIds = await this.productDBRepo.restockInvoice(invoice.id, { userId, reference: `invoice:${invoice.id}`, note: change.note });
+                alertIds = await this.stockAlertService.check(productIds);
+                await this.paymentService.refund(invoice.id);
+            }
+            await this.unitOfWork.commitTransaction();
+        } catch (e) {
+            await this.unitOfWork.rollbackTransaction();
+            throw e;
+        }
+        await this.stockAlertService.notify(alertIds);
+        return await this.invoiceViewRepo.getById(Number(invoiceId));
+    }
+
+    /**
+     * GET the status changes of an invoice.
+     * Only the invoice owner, the managers of its stores and the admins can see it
+     * @param invoiceId
+     * @returns the status changes, oldest first
+     */
+    @GET
+    @Path("/:invoiceId/history")
+    @Response<InvoiceStatusHistoryInterface[]>(200, "Retrieve the status history of an invoice.")
+    @Response(500, "Unauthorized")
+    @Action({ route: "/:invoiceId/history", method: HttpMethod.GET, filters: [JWTAuthFilter] })
+    async getHistory(@PathParam("invoiceId") invoiceId: number) {
+        await this.checkAccess(Number(invoiceId));
+        return await this.historyRepo.getByInvoice(Number(invoiceId));
+    }
+
+    /**
+     * DOWNLOAD an invoice as a PDF file, the same document attached to the checkout email.
+     * Only the invoice owner, the managers of its stores and the admins can download it
+     * @param invoiceId
+     */
+    @GET
+    @Path("/:invoiceId/pdf")
+    @Response<Buffer>(200, "Download the invoice as a PDF file.")
+    @Response(500, "Unauthorized")
+    @Action({ route: "/:invoiceId/pdf", method: HttpMethod.GET, filters: [JWTAuthFilter] })
+    async getPdf(@PathParam("invoiceId") invoiceId: number) {
+        await this.checkAccess(Number(invoiceId));
+        const pdf = await this.invoicePdf.render(await this.invoiceViewRepo.getById(Number(invoiceId)));
+        this.httpContext.response.type("application/pdf").attachment(`invoice-${invoiceId}.pdf`);
+        return pdf;
+    }
+
+    /**
+     * Checks that the logged user is the invoice owner, a manager of one of its stores or an admin
+     */
+    private async checkAccess(invoiceId: number) {
+        const { id: userId, rol } = this.userRepo.getAuth();
+        const invoice = await this.invoiceRepo.getById(invoiceId);
+        if (invoice.userId === userId || rol === "Admin") return;
+        const [store] = rol === "Manager" ? await this.storeRepo.find({ managerId: userId }) : [];
+        if (!store || !(await this.invoiceRepo.hasStoreLines(invoice.id, store.id))) throw new Error("Unauthorized");
+    }
+
+    /**
+     * Computes the tax included in each line, over the amount paid after the order discounts
+     */
+    private addTaxes<T extends { productId: number; total: number }>(
+        items: T[],
+        stored: ProductInterface[],
+        taxRates: TaxRateViewInterface[],
+        quote: PromotionQuoteInterface
+    ) {
+        const paidShare = quote.subtotal > 0 ? quote.total / quote.subtotal : 0;
+        return items.map(item => {
+            const taxRate =
+                findTaxRate(
+                    taxRates,
+                    stored.find(p => p.id === item.productId)
+                )?.rate ?? 0;
+            return { ...item, taxRate, taxAmount: includedTax(item.total * paidShare, taxRate) };
+        });
+    }
+
+    private getCoupon() {
+        const { coupon } = this.httpContext.request.query;
+        return coupon ? String(coupon) : undefined;
+    }
+
+    private getPickupSlotIds() {
+        const { pickupSlots } = this.httpContext.request.query;
+        if (!pickupSlots) return [];
+        const ids = String(pickupSlots).split(",").map(Number);
+        if (ids.some(id => !Number.isInteger(id))) throw new Error("Invalid pickup slots");
+        return ids;
+    }
+
+    /**
+     * Matches every store of the order with the slot chosen by the customer.
+     * Stores without slots with room left are picked up during opening hours.
+     * @param slots the upcoming slots of the stores
+     */
+    private assignPickups(storeIds: number[], slotIds: number[], slots: PickupSlotAvailabilityInterface[]) {
+        const chosen = slotIds.map(id => slots.find(slot => slot.id === id));
+        if (chosen.some(slot => !slot)) throw new Error("Invalid pickup slot");
+        if (chosen.some(slot => slot.booked >= slot.capacity)) throw new Error("Pickup slot is full");
+        return storeIds.map(storeId => {
+            const [slot, ...rest] = chosen.filter(s => s.storeId === storeId);
+            if (rest.length > 0) throw new Error("Choose only one pickup slot per store");
+            if (!slot && slots.some(s => s.storeId === storeId && s.booked < s.capacity)) throw new Error("Choose a pickup slot for every store");
+            return { storeId, pickupSlotId: slot?.id ?? null };
+        });
+    }
+
+    /**
+     * Joins the lines of the same product, adding up their quantities
+     */
+    private mergeLines(products: ProductSaleInterface[]) {
+        const lines: ProductSaleInterface[] = [];
+        for (const product of products) {
+            const line = lines.find(l => l.id === product.id && (l.variantId ?? null) === (product.variantId ?? null));
+            if (line) {
+                line.quantity += product.quantity;
+            } else {
+                lines.push({ ...product });
+            }
+        }
+        return lines;
+    }
+
+    /**
+     * Compares the cart lines against the stored products and variants.
+     * The stock available for the product is shared by the lines of its variants, the units held by other users are taken off both.
+     * @returns the rejected lines, empty if every line can be sold
+     */
+    private validateLines(
+        lines: ProductSaleInterface[],
+        stored: ProductInterface[],
+        variants: ProductVariant[],
+        available: Map<number, number>,
+        variantsAvailable: Map<number, number>
+    ) {
+        const errors: CheckoutLineErrorInterface[] = [];
+        for (const line of lines) {
+            const product = stored.find(p => p.id === line.id);
+            const variant = variants.find(v => v.id === line.variantId && v.productId === line.id);
+            if (!product || (line.variantId && !variant)) {
+                errors.push({ productId: line.id, variantId: line.variantId, reason: "NOT_FOUND" });
+                continue;
+            }
+            const quantity = lines.filter(l => l.id === product.id).reduce((total, l) => total + l.quantity, 0);
+            const current = {
+                variantId: line.variantId,
+                price: variant?.price ?? product.price,
+                discountPercentage: product.discountPercentage,
+                currentStock: variant?.currentStock ?? product.currentStock,
+                availableStock: Math.min(available.get(product.id), variant ? variantsAvailable.get(variant.id) : Infinity),
+            };
+            if (product.status !== 1 || variant?.status === 0) {
+                errors.push({ productId: line.id, reason: "DISABLED", ...current });
+            } else if (!variant && product.variants?.length) {
+                errors.push({ productId: line.id, reason: "VARIANT_REQUIRED", ...current });
+            } else if (current.price !== line.price || product.discountPercentage !== line.discountPercentage) {
+                errors.push({ productId: line.id, reason: "PRICE_CHANGED", ...current });
+            } else if (available.get(product.id) < quantity || current.currentStock < line.quantity || current.availableStock < line.quantity) {
+                errors.push({ productId: line.id, reason: "INSUFFICIENT_STOCK", ...current });
+            }
+        }
+        return errors;
     }
 }
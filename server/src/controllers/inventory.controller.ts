@@ -0,0 +1,162 @@
+import { Action, ApiController, Controller, HttpMethod } from "@miracledevs/paradigm-express-webapi";
+import { Path, PathParam, GET, POST } from "typescript-rest";
+import { Response, Tags } from "typescript-rest-swagger";
+import { JWTAuthFilter, isManagerFilter, authProductFilter } from "../filters/jwtAuth";
+import { StockTakeFilter, StockTransferFilter } from "../filters/inventory.filter";
+import { ProductDBRepository } from "../repositories/productDB.repository";
+import { ProductRepository } from "../repositories/product.repository";
+import { StockMovementRepository } from "../repositories/stockMovement.repository";
+import { ProductVariantRepository } from "../repositories/productVariant.repository";
+import { StoreRepository } from "../repositories/store.repository";
+import { UserRepository } from "../repositories/user.repository";
+import { StockAlertService } from "../inventory/stockAlert.service";
+import { UnitOfWork } from "../core/unitofwork/unitofwork";
+import { StockMismatchInterface, StockMovementViewInterface, StockTakeInterface, StockTransferInterface } from "../models/stockMovement";
+
+@Path("/api/inventory")
+@Tags("Inventory")
+@Controller({ route: "/api/inventory" })
+export class InventoryController extends ApiController {
+    constructor(
+        private readonly productDBRepo: ProductDBRepository,
+        private readonly productRepo: ProductRepository,
+        private readonly stockMovementRepo: StockMovementRepository,
+        private readonly variantRepo: ProductVariantRepository,
+        private readonly storeRepo: StoreRepository,
+        private readonly userRepo: UserRepository,
+        private readonly stockAlertService: StockAlertService,
+        private readonly unitOfWork: UnitOfWork
+    ) {
+        super();
+    }
+
+    /**
+     * GET the stock movements of a product of the manager store
+     * @param productId
+     * @returns the movements, newest first
+     */
+    @GET
+    @Path("/products/:productId/movements")
+    @Response<StockMovementViewInterface[]>(200, "Retrieve the stock movements of a product.")
+    @Response(500, "Unauthorized Store")
+    @Action({ route: "/products/:productId/movements", method: HttpMethod.GET, filters: [JWTAuthFilter, isManagerFilter, authProductFilter] })
+    async getMovements(@PathParam("productId") productId: number) {
+        return await this.stockMovementRepo.getByProduct(Number(productId));
+    }
+
+    /**
+     * RECORD the units counted of a product of the manager store.
+     * The difference with the current stock is recorded as a stock take.
+     * The products with variants are counted through their variants.
+     * @param productId
+     * @param stockTake {countedStock, note}
+     * @returns the movements of the product, newest first
+     */
+    @POST
+    @Path("/products/:productId/stock-take")
+    @Response<StockMovementViewInterface[]>(200, "Record a stock take.")
+    @Response(500, "Unauthorized Store")
+    @Response(500, "The stock of a product with variants is changed through its variants")
+    @Action({
+        route: "/products/:productId/stock-take",
+        method: HttpMethod.POST,
+        filters: [StockTakeFilter, JWTAuthFilter, isManagerFilter, authProductFilter],
+        fromBody: true,
+    })
+    async stockTake(stockTake: StockTakeInterface, @PathParam("productId") productId: number) {
+        const { id: userId } = this.userRepo.getAuth();
+        await this.checkWithoutVariants([Number(productId)]);
+        const source = { userId, note: stockTake.note };
+        let alertIds: number[];
+        await this.unitOfWork.beginTransaction();
+        try {
+            await this.productDBRepo.lockForUpdate([Number(productId)]);
+            const product = await this.productRepo.getById(Number(productId));
+            const difference = stockTake.countedStock - product.currentStock;
+            // a count without differences is recorded too, as the last time the stock was verified
+            if (difference === 0) await this.stockMovementRepo.record(product.id, 0, "STOCK_TAKE", source);
+            else await this.productDBRepo.moveStock(product.id, difference, "STOCK_TAKE", source);
+            alertIds = await this.stockAlertService.check([product.id]);
+            await this.unitOfWork.commitTransaction();
+        } catch (e) {
+            await this.unitOfWork.rollbackTransaction();
+            throw e;
+        }
+        await this.stockAlertService.notify(alertIds);
+        return await this.getMovements(productId);
+    }
+
+    /**
+     * TRANSFER units of a product of the manager store to the same product in another store of the manager,
+     * the products are the same when they have the same name and brand. The products with variants can't be transferred
+     * @param transfer {fromProductId, toProductId, quantity, note}
+     * @returns the movements of the transferred product, newest first
+     */
+    @POST
+    @Path("/transfers")
+    @Response<StockMovementViewInterface[]>(200, "Transfer stock between products.")
+    @Response(500, "Unauthorized Store")
+    @Response(500, "The products aren't the same item")
+    @Response(500, "Not enough stock")
+    @Response(500, "The stock of a product with variants is changed through its variants")
+    @Action({ route: "/transfers", method: HttpMethod.POST, filters: [StockTransferFilter, JWTAuthFilter, isManagerFilter], fromBody: true })
+    async transfer(transfer: StockTransferInterface) {
+        const { id: userId, email } = this.userRepo.getAuth();
+        for (const id of [transfer.fromProductId, transfer.toProductId]) {
+            if ((await this.productDBRepo.getManager(id)) !== email) throw new Error("Unauthorized Store");
+        }
+        const origin = await this.productRepo.getById(transfer.fromProductId);
+        const destination = await this.productRepo.getById(transfer.toProductId);
+        if (destination.status !== 1) throw new Error("Product is disabled");
+        if (origin.name.trim().toLowerCase() !== destination.name.trim().toLowerCase() || origin.brand !== destination.brand) {
+            throw new Error("The products aren't the same item");
+        }
+        await this.checkWithoutVariants([transfer.fromProductId, transfer.toProductId]);
+
+        let alertIds: number[];
+        await this.unitOfWork.beginTransaction();
+        try {
+            const ids = [transfer.fromProductId, transfer.toProductId];
+            await this.productDBRepo.lockForUpdate(ids);
+            const sent = await this.productDBRepo.moveStock(transfer.fromProductId, -transfer.quantity, "TRANSFER", {
+                userId,
+                reference: `product:${transfer.toProductId}`,
+                note: transfer.note,
+            });
+            if (!sent) throw new Error("Not enough stock");
+            await this.productDBRepo.moveStock(transfer.toProductId, transfer.quantity, "TRANSFER", {
+                userId,
+                reference: `product:${transfer.fromProductId}`,
+                note: transfer.note,
+            });
+            alertIds = await this.stockAlertService.check(ids);
+            await this.unitOfWork.commitTransaction();
+        } catch (e) {
+            await this.unitOfWork.rollbackTransaction();
+            throw e;
+        }
+        await this.stockAlertService.notify(alertIds);
+        return await this.stockMovementRepo.getByProduct(transfer.fromProductId);
+    }
+
+    /**
+     * GET the products of the manager store whose stock doesn't match the sum of their movements
+     * @returns the mismatched products, an empty array when the ledger is reconciled
+     */
+    @GET
+    @Path("/reconciliation")
+    @Response<StockMismatchInterface[]>(200, "Reconcile the stock ledger of the manager store.")
+    @Response(500, "Store not found")
+    @Action({ route: "/reconciliation", method: HttpMethod.GET, filters: [JWTAuthFilter, isManagerFilter] })
+    async reconcile() {
+        const { id } = this.userRepo.getAuth();
+        const store = await this.storeRepo.getByManager(id);
+        return await this.stockMovementRepo.getMismatches(store.id);
+    }
+
+    private async checkWithoutVariants(productIds: number[]) {
+        for (const productId of productIds) {
+            if (await this.variantRepo.hasVariants(productId)) throw new Error("The stock of a product with variants is changed through its variants");
+        }
+    }
+}
@@ -0,0 +1,103 @@
+import { Action, ApiController, Controller, HttpMethod } from "@miracledevs/paradigm-express-webapi";
+import { Path, PathParam, GET, POST } from "typescript-rest";
+import { Response, Tags } from "typescript-rest-swagger";
+import { JWTAuthFilter } from "../filters/jwtAuth";
+import { PaymentRequestFilter } from "../filters/payment.filter";
+import { PaymentRepository } from "../repositories/payment.repository";
+import { InvoiceRepository } from "../repositories/invoice.repository";
+import { UserRepository } from "../repositories/user.repository";
+import { PaymentService } from "../payments/payment.service";
+import { UnitOfWork } from "../core/unitofwork/unitofwork";
+import { Payment, PaymentInterface, PaymentRequestInterface, PaymentWebhookInterface } from "../models/payment";
+import { ApiError } from "../utils/apiError";
+import { IdempotencyService } from "../utils/idempotency";
+
+@Path("/api/payments")
+@Tags("Payments")
+@Controller({ route: "/api/payments" })
+export class PaymentController extends ApiController {
+    constructor(
+        private readonly paymentRepo: PaymentRepository,
+        private readonly invoiceRepo: InvoiceRepository,
+        private readonly userRepo: UserRepository,
+        private readonly paymentService: PaymentService,
+        private readonly idempotency: IdempotencyService,
+        private readonly unitOfWork: UnitOfWork
+    ) {
+        super();
+    }
+
+    /**
+     * GET the payments of an invoice of the logged user
+     * @param invoiceId
+     */
+    @GET
+    @Path("/:invoiceId")
+    @Response<PaymentInterface[]>(200, "Retrieve the payments of an invoice.")
+    @Response(500, "Unauthorized")
+    @Action({ route: "/:invoiceId", method: HttpMethod.GET, filters: [JWTAuthFilter] })
+    async get(@PathParam("invoiceId") invoiceId: number) {
+        const { id } = this.userRepo.getAuth();
+        const invoice = await this.invoiceRepo.getById(Number(invoiceId));
+        if (invoice.userId !== id) throw new Error("Unauthorized");
+        return await this.paymentRepo.find({ invoiceId: invoice.id });
+    }
+
+    /**
+     * PAY an invoice of the logged user.
+     * The invoice is paid once the provider confirms the payment, that can happen later through the webhook.
+     * Retries sent with the same Idempotency-Key header get the first payment back, a declined one too.
+     * @param invoiceId
+     * @param request {method, card}
+     * @returns the payment
+     */
+    @POST
+    @Path("/:invoiceId")
+    @Response<PaymentInterface>(200, "Pay an invoice.")
+    @Response<PaymentInterface>(500, "Payment declined.")
+    @Response(500, "The order has nothing left to pay")
+    @Response(409, "A request with the idempotency key is in progress.")
+    @Response(422, "The idempotency key was used with a different request.")
+    @Action({ route: "/:invoiceId", method: HttpMethod.POST, filters: [PaymentRequestFilter, JWTAuthFilter], fromBody: true })
+    async pay(request: PaymentRequestInterface, @PathParam("invoiceId") invoiceId: number) {
+        const { id } = this.userRepo.getAuth();
+        const payment = await this.idempotency.run(id, this.httpContext.request, async () => {
+            let result: Payment;
+            await this.unitOfWork.beginTransaction();
+            try {
+                const invoice = await this.invoiceRepo.getForUpdate(Number(invoiceId));
+                if (invoice.userId !== id) throw new Error("Unauthorized");
+                result = await this.paymentService.pay(invoice, request, id);
+                await this.unitOfWork.commitTransaction();
+            } catch (e) {
+                await this.unitOfWork.rollbackTransaction();
+                throw e;
+            }
+            return result;
+        });
+        if (payment.status === "DECLINED") throw new ApiError("Payment declined", payment);
+        return payment;
+    }
+
+    /**
+     * RECEIVE the confirmation of a payment from a provider
+     * @param provider the provider name
+     * @param body the provider notification
+     */
+    @POST
+    @Path("/webhook/:provider")
+    @Response<PaymentInterface>(200, "Apply a payment confirmation.")
+    @Response(500, "Invalid signature.")
+    @Action({ route: "/webhook/:provider", method: HttpMethod.POST, fromBody: true })
+    async webhook(body: PaymentWebhookInterface, @PathParam("provider") provider: string) {
+        await this.unitOfWork.beginTransaction();
+        try {
+            const payment = await this.paymentService.handleWebhook(provider, body);
+            await this.unitOfWork.commitTransaction();
+            return payment;
+        } catch (e) {
+            await this.unitOfWork.rollbackTransaction();
+            throw e;
+        }
+    }
+}
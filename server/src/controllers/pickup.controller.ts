@@ -0,0 +1,136 @@
+import { Action, ApiController, Controller, HttpMethod } from "@miracledevs/paradigm-express-webapi";
+import { Path, PathParam, GET, POST, DELETE } from "typescript-rest";
+import { Response, Tags } from "typescript-rest-swagger";
+import { JWTAuthFilter, isManagerFilter } from "../filters/jwtAuth";
+import { PickupCodeFilter, PickupSlotFilter } from "../filters/pickup.filter";
+import { PickupSlotRepository } from "../repositories/pickupSlot.repository";
+import { InvoicePickupRepository } from "../repositories/invoicePickup.repository";
+import { InvoiceRepository } from "../repositories/invoice.repository";
+import { InvoiceViewRepository } from "../repositories/invoiceView.repository";
+import { StoreRepository } from "../repositories/store.repository";
+import { UserRepository } from "../repositories/user.repository";
+import { PaymentService } from "../payments/payment.service";
+import { UnitOfWork } from "../core/unitofwork/unitofwork";
+import { PickupCodeInterface, PickupSlotAvailabilityInterface, PickupSlotInterface } from "../models/pickup";
+import { InvoiceViewInterface } from "../models/invoiceView";
+
+@Path("/api/pickup")
+@Tags("Pickup")
+@Controller({ route: "/api/pickup" })
+export class PickupController extends ApiController {
+    constructor(
+        private readonly pickupSlotRepo: PickupSlotRepository,
+        private readonly invoicePickupRepo: InvoicePickupRepository,
+        private readonly invoiceRepo: InvoiceRepository,
+        private readonly invoiceViewRepo: InvoiceViewRepository,
+        private readonly storeRepo: StoreRepository,
+        private readonly userRepo: UserRepository,
+        private readonly paymentService: PaymentService,
+        private readonly unitOfWork: UnitOfWork
+    ) {
+        super();
+    }
+
+    /**
+     * GET the upcoming pickup slots of a store
+     * @param storeId
+     * @returns the slots with the amount of booked orders
+     */
+    @GET
+    @Path("/store/:storeId")
+    @Response<PickupSlotAvailabilityInterface[]>(200, "Retrieve the upcoming pickup slots of a store.")
+    @Response(500, "Server error.")
+    @Action({ route: "/store/:storeId", method: HttpMethod.GET })
+    async getByStore(@PathParam("storeId") storeId: number) {
+        return await this.pickupSlotRepo.getUpcoming([Number(storeId)]);
+    }
+
+    /**
+     * GET the upcoming pickup slots of the manager store
+     * @returns the slots with the amount of booked orders
+     */
+    @GET
+    @Path("/manager")
+    @Response<PickupSlotAvailabilityInterface[]>(200, "Retrieve the upcoming pickup slots of the manager store.")
+    @Response(500, "Store not found.")
+    @Action({ route: "/manager", method: HttpMethod.GET, filters: [JWTAuthFilter, isManagerFilter] })
+    async getByManager() {
+        const { id } = this.userRepo.getAuth();
+        const store = await this.storeRepo.getByManager(id);
+        return await this.pickupSlotRepo.getUpcoming([store.id]);
+    }
+
+    /**
+     * CREATE a pickup slot for the manager store
+     * @param slot {startsAt, endsAt, capacity}
+     * @returns the created slot
+     */
+    @POST
+    @Path("/slots")
+    @Response<PickupSlotInterface>(200, "Create a pickup slot.")
+    @Response(500, "Store not found.")
+    @Action({ route: "/slots", method: HttpMethod.POST, filters: [PickupSlotFilter, JWTAuthFilter, isManagerFilter], fromBody: true })
+    async createSlot(slot: PickupSlotInterface) {
+        const { id } = this.userRepo.getAuth();
+        const store = await this.storeRepo.getByManager(id);
+        const newSlot = { storeId: store.id, startsAt: new Date(slot.startsAt), endsAt: new Date(slot.endsAt), capacity: slot.capacity };
+        const { insertId } = await this.pickupSlotRepo.insertOne(newSlot);
+        return await this.pickupSlotRepo.getById(insertId);
+    }
+
+    /**
+     * DELETE a pickup slot of the manager store, only if no order is booked in it
+     * @param slotId
+     */
+    @DELETE
+    @Path("/slots/:slotId")
+    @Response<void>(200, "Delete a pickup slot.")
+    @Response(500, "The slot has booked orders.")
+    @Action({ route: "/slots/:slotId", method: HttpMethod.DELETE, filters: [JWTAuthFilter, isManagerFilter] })
+    async deleteSlot(@PathParam("slotId") slotId: number) {
+        const { id } = this.userRepo.getAuth();
+        const store = await this.storeRepo.getByManager(id);
+        const slot = await this.pickupSlotRepo.getById(Number(slotId));
+        if (slot.storeId !== store.id) throw new Error("Unauthorized Store");
+        const booked = await this.invoicePickupRepo.find({ pickupSlotId: slot.id });
+        if (booked.length > 0) throw new Error("The slot has booked orders");
+        await this.pickupSlotRepo.delete({ id: slot.id });
+    }
+
+    /**
+     * VERIFY the pickup code shown by the customer and mark the store part of the order as collected.
+     * The order is picked up once every store has handed over its products,
+     * orders paid with cash on pickup are paid at that moment.
+     * @param body {code}
+     * @returns the updated invoice
+     */
+    @POST
+    @Path("/verify")
+    @Response<InvoiceViewInterface>(200, "Mark the order as collected.")
+    @Response(500, "Invalid pickup code.")
+    @Response(500, "Order is not ready for pickup.")
+    @Action({ route: "/verify", method: HttpMethod.POST, filters: [PickupCodeFilter, JWTAuthFilter, isManagerFilter], fromBody: true })
+    async verify(body: PickupCodeInterface) {
+        const { id: userId } = this.userRepo.getAuth();
+        const store = await this.storeRepo.getByManager(userId);
+        const [invoice] = await this.invoiceRepo.find({ pickupCode: body.code.trim().toUpperCase() });
+        if (!invoice) throw new Error("Invalid pickup code");
+        const [pickup] = await this.invoicePickupRepo.find({ invoiceId: invoice.id, storeId: store.id });
+        if (!pickup) throw new Error("Unauthorized Store");
+        if (invoice.status !== "READY_FOR_PICKUP") throw new Error("Order is not ready for pickup");
+
+        await this.unitOfWork.beginTransaction();
+        try {
+            if (!(await this.invoicePickupRepo.markPickedUp(invoice.id, store.id))) throw new Error("Order already picked up");
+            if ((await this.invoicePickupRepo.countPending(invoice.id)) === 0) {
+                const paid = await this.paymentService.captureOnPickup(invoice.id);
+                await this.invoiceRepo.changeStatus(invoice.id, "PICKED_UP", userId, paid ? "Pickup code verified, paid on pickup" : "Pickup code verified");
+            }
+            await this.unitOfWork.commitTransaction();
+        } catch (e) {
+            await this.unitOfWork.rollbackTransaction();
+            throw e;
+        }
+        return await this.invoiceViewRepo.getById(invoice.id);
+    }
+}
@@ -1,7 +1,14 @@
 import { Action, ApiController, Controller, HttpMethod } from "@miracledevs/paradigm-express-webapi";
-import { ProductInterface, ProductForCreationInterface } from "../models/product";
+import {
+    ProductInterface,
+    ProductForCreationInterface,
+    ProductListingFilterInterface,
+    ProductListingInterface,
+    ProductSearchResultInterface,
+    ProductSort,
+} from "../models/product";
 import { ProductRepository } from "../repositories/product.repository";
-import { ProductFilter, ProductForCreationFilter } from "../filters/product.filter";
+import { ProductFilter, ProductForCreationFilter, ProductListingFilter, ProductSearchFilter, ProductVariantFilter } from "../filters/product.filter";
 import { ProductDBRepository } from "../repositories/productDB.repository";
 import { Path, PathParam, GET, POST, DELETE, PUT } from "typescript-rest";
 import { Response, Tags } from "typescript-rest-swagger";
@@ -9,6 +16,16 @@ import { JWTAuthFilter, isManagerFilter, authProductFilter } from "../filters/jw
 import { StoreRepository } from "../repositories/store.repository";
 import { UnitOfWork } from "../core/unitofwork/unitofwork";
 import { UserRepository } from "../repositories/user.repository";
+import { StockAlertService } from "../inventory/stockAlert.service";
+import { ProductVariantRepository } from "../repositories/productVariant.repository";
+import { ProductVariantForCreationInterface, ProductVariantViewInterface } from "../models/productVariant";
+import { ImageService } from "../images/image.service";
+import { ImageUploadFilter } from "../filters/upload.filter";
+import { ProductHistoryService } from "../products/productHistory.service";
+import { ProductVersionRepository } from "../repositories/productVersion.repository";
+import { ProductCountCache } from "../products/productCount.cache";
+import { decodeCursor, encodeCursor } from "../products/productCursor";
+import { PriceHistoryPointInterface, ProductVersionDiffInterface, ProductVersionViewInterface } from "../models/productVersion";
 
 @Path("/api/product")
 @Tags("Products")
@@ -17,46 +34,110 @@ export class ProductController extends ApiController {
     constructor(
         private readonly productRepo: ProductRepository,
         private readonly productDBRepo: ProductDBRepository,
+        private readonly variantRepo: ProductVariantRepository,
         private readonly storeRepo: StoreRepository,
         private readonly userRepo: UserRepository,
+        private readonly stockAlertService: StockAlertService,
+        private readonly imageService: ImageService,
+        private readonly productHistoryService: ProductHistoryService,
+        private readonly productVersionRepo: ProductVersionRepository,
+        private readonly productCountCache: ProductCountCache,
         private readonly unitOfWork: UnitOfWork
     ) {
         super();
     }
 
     /**
-     * Retrieve products by category, size, limit or storeId
+     * Retrieve products by category, size, brand, price range or storeId
+     * The sizes, categories and brands take several values, repeated or separated by commas.
+     * The prices are on the price the products are sold at, the sort is one of price_asc, price_desc, discount, newest or name.
+     * The pages are continued with the `nextCursor` of the previous page, sent as `cursor` with the same filter and sort.
+     * The total is counted with `total=true`, it's kept for a minute.
+     * The first page has the facets, that count the products of each category, size, brand and price range for the filters sent
      * Example
-     * http:url/?category=Zapatos&size=Niños&limit=10&store=1
+     * http:url/?category=Zapatos,Remeras&size=Niños&brand=Nike&min_price=10&max_price=50&sort=price_asc&per_page=12&total=true
      */
     @GET
     @Path("/store/:storeId/q")
-    @Response<ProductInterface[]>(200, "Retrieve Products by storeId with filter of category, size.")
+    @Response<ProductListingInterface>(200, "Retrieve Products by storeId with filter of category, size, brand and price.")
     @Response(500, "Product not found.")
-    @Action({ route: "store/:storeId/q", method: HttpMethod.GET })
-    async getByFilter(@PathParam("storeId") storeId: number) {
+    @Response(500, "Invalid cursor")
+    @Action({ route: "store/:storeId/q", method: HttpMethod.GET, filters: [ProductListingFilter] })
+    async getByFilter(@PathParam("storeId") storeId: number): Promise<ProductListingInterface> {
         const {
-            page = 1,
+            cursor,
             per_page = 12,
+            total,
             size,
             category,
+            brand,
+            min_price,
+            max_price,
+            sort,
         }: {
-            page?: number;
+            cursor?: string;
             per_page?: number;
-            size?: string;
-            category?: string;
+            total?: string;
+            size?: string | string[];
+            category?: string | string[];
+            brand?: string | string[];
+            min_price?: string;
+            max_price?: string;
+            sort?: ProductSort;
         } = this.httpContext.request.query;
-        const totalItems: number = await this.productRepo.getCountFilteredProducts(storeId, size, category);
+        const filter: ProductListingFilterInterface = {
+            sizes: this.listParam(size),
+            categories: this.listParam(category),
+            brands: this.listParam(brand),
+            minPrice: min_price ? Number(min_price) : null,
+            maxPrice: max_price ? Number(max_price) : null,
+            sort,
+        };
+        const after = cursor ? decodeCursor(cursor, sort ?? "default") : null;
+        const { products, next } = await this.productRepo.getFilteredProducts(Number(storeId), per_page, filter, after);
+        const listing: ProductListingInterface = {
+            products,
+            pagination: {
+                perPage: Number(per_page),
+                nextCursor: next ? encodeCursor(next) : null,
+                hasNextPage: next !== null,
+            },
+        };
+        if (total === "true") {
+            const totalItems = await this.productCountCache.get(JSON.stringify([Number(storeId), { ...filter, sort: null }]), () =>
+                this.productRepo.getCountFilteredProducts(Number(storeId), filter)
+            );
+            listing.pagination.totalItems = totalItems;
+            listing.pagination.totalPages = Math.ceil(totalItems / per_page);
+        }
+        if (!after) listing.facets = await this.productRepo.getFacets(Number(storeId), filter);
+        return listing;
+    }
+
+    /**
+     * SEARCH the products of all the active stores by name, description, brand and categories, best matches first
+     * Example
+     * http:url/search?q=pantalon&page=1&per_page=12
+     */
+    @GET
+    @Path("/search")
+    @Response<ProductSearchResultInterface[]>(200, "Search the products of all the stores.")
+    @Response(500, "The search text is required")
+    @Response(500, "Invalid page, it must be greater than or equal to 1")
+    @Action({ route: "/search", method: HttpMethod.GET, filters: [ProductSearchFilter] })
+    async search() {
+        const { q, page = 1, per_page = 12 }: { q?: string; page?: number; per_page?: number } = this.httpContext.request.query;
+        const totalItems: number = await this.productRepo.getCountSearch(q);
         const totalPages = Math.ceil(totalItems / per_page);
-        const products = await this.productRepo.getFilteredProducts(storeId, page, per_page, size, category);
+        const products = await this.productRepo.search(q, page, per_page);
         return {
             products,
             pagination: {
-                page: page,
-                perPage: per_page,
+                page: Number(page),
+                perPage: Number(per_page),
                 totalPages: totalPages,
                 totalItems,
-                hasNextPage: page < totalPages,
+                hasNextPage: Number(page) < totalPages,
             },
         };
     }
@@ -79,6 +160,7 @@ export class ProductController extends ApiController {
 
     /**
      * CREATE a product on the database
+     * The image sent in `img_file` is stored as webp with its thumbnail, card and detail sizes
      * @param product
      * @returns {ResponseMessage}
      */
@@ -86,7 +168,10 @@ export class ProductController extends ApiController {
     @Path("/")
     @Response<ProductInterface>(201, "Insert a Product on the Database.")
     @Response(500, "Product insert failed.")
-    @Action({ route: "/", filters: [ProductForCreationFilter, JWTAuthFilter, isManagerFilter], fromBody: true, method: HttpMethod.POST })
+    @Response(500, "Invalid image")
+    @Response(500, "Invalid file type")
+    @Response(500, "The file is too large")
+    @Action({ route: "/", filters: [JWTAuthFilter, isManagerFilter, ImageUploadFilter, ProductForCreationFilter], fromBody: true, method: HttpMethod.POST })
     async post(product: ProductForCreationInterface) {
         //image handling
         const file = this.httpContext.request.file;
@@ -96,7 +181,7 @@ export class ProductController extends ApiController {
             ...product,
             categories: typeof product.categories === "string" ? product.categories.split(",") : product.categories,
             sizes: typeof product.sizes === "string" ? product.sizes.split(",") : product.sizes,
-            url_img: file ? `images/${file.originalname}` : "images/placeholder.jpg",
+            url_img: file ? await this.imageService.save(file.buffer) : "images/placeholder.jpg",
         } as ProductInterface;
 
         const { id: idManager } = this.userRepo.getAuth();
@@ -105,7 +190,7 @@ export class ProductController extends ApiController {
         const resultProducts = [] as ProductInterface[];
         this.unitOfWork.beginTransaction();
         try {
-            const result = await this.productDBRepo.insertProduct(productToCreate, id);
+            const result = await this.productDBRepo.insertProduct(productToCreate, id, idManager);
             const newProduct = await this.productRepo.getById(result.insertId);
             resultProducts.push(newProduct);
         } catch (e) {
@@ -128,10 +213,20 @@ export class ProductController extends ApiController {
     @Response(404, "Product not found.")
     @Action({ route: "/:productId", method: HttpMethod.DELETE, filters: [JWTAuthFilter, isManagerFilter, authProductFilter] })
     async delete(@PathParam("productId") productId: number) {
-        await this.productDBRepo.update({ id: productId, status: 0 });
+        const { id: userId } = this.userRepo.getAuth();
+        await this.unitOfWork.beginTransaction();
+        try {
+            await this.productDBRepo.disableProduct(Number(productId), userId);
+            await this.unitOfWork.commitTransaction();
+        } catch (e) {
+            await this.unitOfWork.rollbackTransaction();
+            throw e;
+        }
     }
     /**
      * UPDATE a product
+     * A change of the stock is recorded in the stock ledger as an adjustment,
+     * the store manager is alerted when the stock is left at or below the reorder point
      * @param product
      * @returns
      */
@@ -146,16 +241,188 @@ export class ProductController extends ApiController {
         method: HttpMethod.PUT,
     })
     async update(entity: ProductInterface) {
+        const { id: userId } = this.userRepo.getAuth();
+        let alertIds: number[];
         this.unitOfWork.beginTransaction();
         try {
-            await this.productDBRepo.updateProduct(entity);
+            await this.productDBRepo.updateProduct(entity, userId);
+            alertIds = await this.stockAlertService.check([entity.id]);
         } catch (e) {
             this.unitOfWork.rollbackTransaction();
             this.unitOfWork.commitTransaction();
             throw Error(e);
         }
         this.unitOfWork.commitTransaction();
+        await this.stockAlertService.notify(alertIds);
         const product = await this.productRepo.getById(entity.id);
         return product;
     }
+
+    /**
+     * GET the variants of a product
+     * @param productId
+     * @returns the variants, an empty array when the product is sold as it is
+     */
+    @GET
+    @Path("/:productId/variants")
+    @Response<ProductVariantViewInterface[]>(200, "Retrieve the variants of a product.")
+    @Response(500, "Product not found.")
+    @Action({ route: "/:productId/variants", method: HttpMethod.GET })
+    async getVariants(@PathParam("productId") productId: number) {
+        const product = await this.productRepo.getById(Number(productId));
+        return product.variants ?? [];
+    }
+
+    /**
+     * CREATE a variant of a product of the manager store.
+     * The stock of the product becomes the sum of the stock of its variants, the change is recorded as an adjustment.
+     * @param variant {size, color, sku, currentStock, price}
+     * @param productId
+     * @returns the product with its variants
+     */
+    @POST
+    @Path("/:productId/variants")
+    @Response<ProductInterface>(200, "Create a variant of a product.")
+    @Response(500, "The SKU is already in use")
+    @Response(500, "Unauthorized Store")
+    @Action({
+        route: "/:productId/variants",
+        method: HttpMethod.POST,
+        filters: [ProductVariantFilter, JWTAuthFilter, isManagerFilter, authProductFilter],
+        fromBody: true,
+    })
+    async postVariant(variant: ProductVariantForCreationInterface, @PathParam("productId") productId: number) {
+        const { id: userId } = this.userRepo.getAuth();
+        await this.checkSku(variant.sku);
+        return await this.changeVariants(Number(productId), () => this.productDBRepo.insertVariant(Number(productId), variant, userId));
+    }
+
+    /**
+     * UPDATE a variant of a product of the manager store.
+     * A change of its stock is recorded as an adjustment of the product.
+     * @param variant {size, color, sku, currentStock, price, status}
+     * @param productId
+     * @param variantId
+     * @returns the product with its variants
+     */
+    @PUT
+    @Path("/:productId/variants/:variantId")
+    @Response<ProductInterface>(200, "Update a variant of a product.")
+    @Response(500, "Variant not found")
+    @Response(500, "The SKU is already in use")
+    @Action({
+        route: "/:productId/variants/:variantId",
+        method: HttpMethod.PUT,
+        filters: [ProductVariantFilter, JWTAuthFilter, isManagerFilter, authProductFilter],
+        fromBody: true,
+    })
+    async putVariant(variant: ProductVariantForCreationInterface, @PathParam("productId") productId: number, @PathParam("variantId") variantId: number) {
+        const { id: userId } = this.userRepo.getAuth();
+        await this.checkSku(variant.sku, Number(variantId));
+        return await this.changeVariants(Number(productId), () => this.productDBRepo.updateVariant(Number(productId), Number(variantId), variant, userId));
+    }
+
+    /**
+     * GET the versions of a product, newest first, with the user that made each change.
+     * Only the manager of the product store and the admins can see them.
+     * @param productId
+     */
+    @GET
+    @Path("/:productId/versions")
+    @Response<ProductVersionViewInterface[]>(200, "Retrieve the versions of a product.")
+    @Response(500, "Unauthorized Store")
+    @Action({ route: "/:productId/versions", method: HttpMethod.GET, filters: [JWTAuthFilter] })
+    async getVersions(@PathParam("productId") productId: number) {
+        const { email } = this.userRepo.getAuth();
+        const user = await this.userRepo.getById(email);
+        if (user.rol !== "Admin" && (await this.productDBRepo.getManager(Number(productId))) !== email) throw new Error("Unauthorized Store");
+        return await this.productVersionRepo.getByProduct(Number(productId));
+    }
+
+    /**
+     * COMPARE two versions of a product of the manager store, sent in the query as `from=1&to=2`
+     * @param productId
+     * @returns the fields that changed with their values in each version
+     */
+    @GET
+    @Path("/:productId/versions/diff")
+    @Response<ProductVersionDiffInterface>(200, "Compare two versions of a product.")
+    @Response(500, "Version not found")
+    @Action({ route: "/:productId/versions/diff", method: HttpMethod.GET, filters: [JWTAuthFilter, isManagerFilter, authProductFilter] })
+    async diffVersions(@PathParam("productId") productId: number) {
+        const { from, to } = this.httpContext.request.query;
+        return await this.productHistoryService.diff(Number(productId), Number(from), Number(to));
+    }
+
+    /**
+     * REVERT a product of the manager store to one of its versions, the revert is recorded as a new version.
+     * The stock of the product isn't changed.
+     * @param productId
+     * @param version
+     * @returns the reverted product
+     */
+    @POST
+    @Path("/:productId/versions/:version/revert")
+    @Response<ProductInterface>(200, "Revert a product to one of its versions.")
+    @Response(500, "Version not found")
+    @Response(500, "The brand of the version doesn't exist anymore")
+    @Action({ route: "/:productId/versions/:version/revert", method: HttpMethod.POST, filters: [JWTAuthFilter, isManagerFilter, authProductFilter] })
+    async revertVersion(@PathParam("productId") productId: number, @PathParam("version") version: number) {
+        const { id: userId } = this.userRepo.getAuth();
+        await this.unitOfWork.beginTransaction();
+        try {
+            await this.productDBRepo.lockForUpdate([Number(productId)]);
+            await this.productHistoryService.revert(Number(productId), Number(version), userId);
+            await this.unitOfWork.commitTransaction();
+        } catch (e) {
+            await this.unitOfWork.rollbackTransaction();
+            throw e;
+        }
+        return await this.productRepo.getById(Number(productId));
+    }
+
+    /**
+     * GET the price history of a product in the last 90 days
+     * @param productId
+     * @returns a point for each change of the price or the discount, oldest first
+     */
+    @GET
+    @Path("/:productId/price-history")
+    @Response<PriceHistoryPointInterface[]>(200, "Retrieve the price history of a product.")
+    @Response(500, "Product not found")
+    @Action({ route: "/:productId/price-history", method: HttpMethod.GET })
+    async getPriceHistory(@PathParam("productId") productId: number) {
+        return await this.productHistoryService.priceHistory(Number(productId));
+    }
+
+    private listParam(value?: string | string[]) {
+        return (Array.isArray(value) ? value : [value ?? ""])
+            .flatMap(item => item.split(","))
+            .map(item => item.trim())
+            .filter(Boolean);
+    }
+
+    private async checkSku(sku: string, variantId?: number) {
+        const [used] = await this.variantRepo.find({ sku });
+        if (used && used.id !== variantId) throw new Error("The SKU is already in use");
+    }
+
+    /**
+     * Runs a change of the variants in a transaction that locks the product, and alerts the manager of its stock
+     */
+    private async changeVariants(productId: number, change: () => Promise<unknown>) {
+        let alertIds: number[];
+        await this.unitOfWork.beginTransaction();
+        try {
+            await this.productDBRepo.lockForUpdate([productId]);
+            await change();
+            alertIds = await this.stockAlertService.check([productId]);
+            await this.unitOfWork.commitTransaction();
+        } catch (e) {
+            await this.unitOfWork.rollbackTransaction();
+            throw e;
+        }
+        await this.stockAlertService.notify(alertIds);
+        return await this.productRepo.getById(productId);
+    }
 }
@@ -0,0 +1,165 @@
+import { Action, ApiController, Controller, HttpMethod } from "@miracledevs/paradigm-express-webapi";
+import { Path, PathParam, GET, POST, PUT, DELETE } from "typescript-rest";
+import { Response, Tags } from "typescript-rest-swagger";
+import { JWTAuthFilter } from "../filters/jwtAuth";
+import { PromotionFilter } from "../filters/promotion.filter";
+import { ProductSaleArrayFilter } from "../filters/product.filter";
+import { PromotionRepository } from "../repositories/promotion.repository";
+import { PromotionViewRepository } from "../repositories/promotionView.repository";
+import { ProductRepository } from "../repositories/product.repository";
+import { StoreRepository } from "../repositories/store.repository";
+import { UserRepository } from "../repositories/user.repository";
+import { PromotionService } from "../promotions/promotion.service";
+import { PromotionInterface, PromotionQuoteInterface, PromotionViewInterface } from "../models/promotion";
+import { ProductSaleInterface } from "../models/product";
+import { roundMoney } from "../utils/roundMoney";
+
+/**
+ * Admins manage the promotions of every store, managers the promotions of their store.
+ */
+@Path("/api/promotions")
+@Tags("Promotions")
+@Controller({ route: "/api/promotions" })
+export class PromotionController extends ApiController {
+    constructor(
+        private readonly promotionRepo: PromotionRepository,
+        private readonly promotionViewRepo: PromotionViewRepository,
+        private readonly productRepo: ProductRepository,
+        private readonly storeRepo: StoreRepository,
+        private readonly userRepo: UserRepository,
+        private readonly promotionService: PromotionService
+    ) {
+        super();
+    }
+
+    /**
+     * GET the promotions the logged admin or manager can manage
+     */
+    @GET
+    @Path("/")
+    @Response<PromotionViewInterface[]>(200, "Retrieve the promotions.")
+    @Response(500, "Unauthorized")
+    @Action({ route: "/", method: HttpMethod.GET, filters: [JWTAuthFilter] })
+    async get() {
+        const storeId = await this.getManagedStoreId();
+        if (storeId === null) return await this.promotionViewRepo.getAll();
+        return await this.promotionViewRepo.find({ storeId });
+    }
+
+    /**
+     * CREATE a promotion, the promotions of managers are limited to their store
+     * @param promotion the promotion rules
+     * @returns the created promotion
+     */
+    @POST
+    @Path("/")
+    @Response<PromotionViewInterface>(200, "Create a promotion.")
+    @Response(500, "Coupon code already in use.")
+    @Action({ route: "/", method: HttpMethod.POST, filters: [PromotionFilter, JWTAuthFilter], fromBody: true })
+    async create(promotion: PromotionInterface) {
+        const storeId = await this.getManagedStoreId();
+        const entity = this.toEntity(promotion, storeId);
+        await this.checkCode(entity.code);
+        const { insertId } = await this.promotionRepo.insertOne(entity);
+        return await this.promotionViewRepo.getById(insertId);
+    }
+
+    /**
+     * UPDATE the rules of a promotion
+     * @param promotionId
+     * @param promotion the promotion rules
+     * @returns the updated promotion
+     */
+    @PUT
+    @Path("/:promotionId")
+    @Response<PromotionViewInterface>(200, "Update a promotion.")
+    @Response(500, "Unauthorized Store")
+    @Action({ route: "/:promotionId", method: HttpMethod.PUT, filters: [PromotionFilter, JWTAuthFilter], fromBody: true })
+    async update(promotion: PromotionInterface, @PathParam("promotionId") promotionId: number) {
+        const storeId = await this.getManagedStoreId();
+        const current = await this.getManaged(Number(promotionId), storeId);
+        const entity = this.toEntity(promotion, storeId);
+        await this.checkCode(entity.code, current.id);
+        await this.promotionRepo.update({ ...entity, id: current.id });
+        return await this.promotionViewRepo.getById(current.id);
+    }
+
+    /**
+     * DISABLE a promotion, the orders that used it keep their discounts
+     * @param promotionId
+     */
+    @DELETE
+    @Path("/:promotionId")
+    @Response<PromotionViewInterface>(200, "Disable a promotion.")
+    @Response(500, "Unauthorized Store")
+    @Action({ route: "/:promotionId", method: HttpMethod.DELETE, filters: [JWTAuthFilter] })
+    async disable(@PathParam("promotionId") promotionId: number) {
+        const current = await this.getManaged(Number(promotionId), await this.getManagedStoreId());
+        await this.promotionRepo.update({ id: current.id, status: 0 });
+        return await this.promotionViewRepo.getById(current.id);
+    }
+
+    /**
+     * QUOTE the discounts of a cart, with the coupon sent in the query as `coupon=CODE`
+     * @param products the cart lines
+     * @returns the subtotal, the discounts and the total of the cart
+     */
+    @POST
+    @Path("/quote")
+    @Response<PromotionQuoteInterface>(200, "Quote the discounts of a cart.")
+    @Response(500, "Invalid coupon.")
+    @Action({ route: "/quote", method: HttpMethod.POST, filters: [ProductSaleArrayFilter, JWTAuthFilter], fromBody: true })
+    async quote(products: ProductSaleInterface[]) {
+        const stored = await this.productRepo.getByIds(products.map(product => product.id));
+        const lines = stored.map(product => {
+            const quantity = products.filter(p => p.id === product.id).reduce((acc, p) => acc + p.quantity, 0);
+            return { product, quantity, total: roundMoney(product.price * product.discountPercentage * quantity) };
+        });
+        const { coupon } = this.httpContext.request.query;
+        return await this.promotionService.quote(lines, coupon ? String(coupon) : undefined);
+    }
+
+    /**
+     * @returns the store of the logged manager, or null for admins
+     */
+    private async getManagedStoreId(): Promise<number | null> {
+        const { id, email } = this.userRepo.getAuth();
+        const user = await this.userRepo.getById(email);
+        if (user.rol === "Admin") return null;
+        if (user.rol !== "Manager") throw new Error("Unauthorized");
+        return (await this.storeRepo.getByManager(id)).id;
+    }
+
+    private async getManaged(promotionId: number, storeId: number | null) {
+        const promotion = await this.promotionRepo.getById(promotionId);
+        if (storeId !== null && promotion.storeId !== storeId) throw new Error("Unauthorized Store");
+        return promotion;
+    }
+
+    private async checkCode(code: string | null, promotionId?: number) {
+        if (code === null) return;
+        const [used] = await this.promotionRepo.find({ code });
+        if (used && used.id !== promotionId) throw new Error("Coupon code already in use");
+    }
+
+    /**
+     * Fills the optional rules, managers can't change the store of their promotions
+     */
+    private toEntity(promotion: PromotionInterface, managedStoreId: number | null): PromotionInterface {
+        return {
+            name: promotion.name,
+            code: promotion.code ? promotion.code.toUpperCase() : null,
+            type: promotion.type,
+            value: promotion.value ?? 0,
+            buyQuantity: promotion.buyQuantity ?? null,
+            getQuantity: promotion.getQuantity ?? null,
+            minimumTotal: promotion.minimumTotal ?? null,
+            storeId: managedStoreId ?? promotion.storeId ?? null,
+            categoryId: promotion.categoryId ?? null,
+            brandId: promotion.brandId ?? null,
+            usageLimit: promotion.usageLimit ?? null,
+            startsAt: promotion.startsAt ? new Date(promotion.startsAt) : null,
+            endsAt: promotion.endsAt ? new Date(promotion.endsAt) : null,
+        };
+    }
+}
@@ -0,0 +1,245 @@
+import { Action, ApiController, Controller, HttpMethod } from "@miracledevs/paradigm-express-webapi";
+import { Path, PathParam, GET, POST, PUT } from "typescript-rest";
+import { Response, Tags } from "typescript-rest-swagger";
+import { JWTAuthFilter, isManagerFilter } from "../filters/jwtAuth";
+import { PurchaseOrderFilter, PurchaseOrderReceiptFilter, PurchaseOrderSuggestionFilter } from "../filters/purchaseOrder.filter";
+import { PurchaseOrderRepository } from "../repositories/purchaseOrder.repository";
+import { PurchaseOrderViewRepository } from "../repositories/purchaseOrderView.repository";
+import { SupplierRepository } from "../repositories/supplier.repository";
+import { StoreRepository } from "../repositories/store.repository";
+import { UserRepository } from "../repositories/user.repository";
+import { PurchaseOrderService } from "../inventory/purchaseOrder.service";
+import { StockAlertService } from "../inventory/stockAlert.service";
+import { UnitOfWork } from "../core/unitofwork/unitofwork";
+import { Emailer } from "../utils/emailer";
+import {
+    PurchaseOrderForCreationInterface,
+    PurchaseOrderInterface,
+    PurchaseOrderLineInterface,
+    PurchaseOrderReceiptInterface,
+    PurchaseOrderStatus,
+    PurchaseOrderSuggestionInterface,
+    PurchaseOrderViewInterface,
+} from "../models/purchaseOrder";
+
+const statuses: PurchaseOrderStatus[] = ["DRAFT", "SENT", "PARTIALLY_RECEIVED", "RECEIVED"];
+
+/**
+ * Managers order stock to the suppliers of their store
+ */
+@Path("/api/purchase-orders")
+@Tags("Purchase Orders")
+@Controller({ route: "/api/purchase-orders" })
+export class PurchaseOrderController extends ApiController {
+    constructor(
+        private readonly purchaseOrderRepo: PurchaseOrderRepository,
+        private readonly purchaseOrderViewRepo: PurchaseOrderViewRepository,
+        private readonly supplierRepo: SupplierRepository,
+        private readonly storeRepo: StoreRepository,
+        private readonly userRepo: UserRepository,
+        private readonly purchaseOrderService: PurchaseOrderService,
+        private readonly stockAlertService: StockAlertService,
+        private readonly emailer: Emailer,
+        private readonly unitOfWork: UnitOfWork
+    ) {
+        super();
+    }
+
+    /**
+     * GET the purchase orders of the manager store, newest first.
+     * Filter them by status with ?status=DRAFT, SENT, PARTIALLY_RECEIVED or RECEIVED
+     */
+    @GET
+    @Path("/")
+    @Response<PurchaseOrderViewInterface[]>(200, "Retrieve the purchase orders of the manager store.")
+    @Response(500, "Invalid status")
+    @Action({ route: "/", method: HttpMethod.GET, filters: [JWTAuthFilter, isManagerFilter] })
+    async get() {
+        const status = this.httpContext.request.query.status as PurchaseOrderStatus | undefined;
+        if (status !== undefined && !statuses.includes(status)) throw new Error("Invalid status");
+        return await this.purchaseOrderViewRepo.getByStore(await this.getStoreId(), status);
+    }
+
+    /**
+     * GET a purchase order of the manager store
+     * @param purchaseOrderId
+     */
+    @GET
+    @Path("/:purchaseOrderId")
+    @Response<PurchaseOrderViewInterface>(200, "Retrieve a purchase order.")
+    @Response(500, "Unauthorized Store")
+    @Action({ route: "/:purchaseOrderId", method: HttpMethod.GET, filters: [JWTAuthFilter, isManagerFilter] })
+    async getById(@PathParam("purchaseOrderId") purchaseOrderId: number) {
+        const order = await this.purchaseOrderViewRepo.getById(Number(purchaseOrderId));
+        if (order.storeId !== (await this.getStoreId())) throw new Error("Unauthorized Store");
+        return order;
+    }
+
+    /**
+     * CREATE a draft purchase order for a supplier of the manager store
+     * @param order {supplierId, note, lines: [{productId, variantId, quantity, unitCost}]}
+     * @returns the created order
+     */
+    @POST
+    @Path("/")
+    @Response<PurchaseOrderViewInterface>(200, "Create a purchase order.")
+    @Response(500, "Supplier not found")
+    @Response(500, "Unauthorized Store")
+    @Action({ route: "/", method: HttpMethod.POST, filters: [PurchaseOrderFilter, JWTAuthFilter, isManagerFilter], fromBody: true })
+    async create(order: PurchaseOrderForCreationInterface) {
+        const { id: userId } = this.userRepo.getAuth();
+        const storeId = await this.getStoreId();
+        await this.getActiveSupplier(order.supplierId, storeId);
+        const lines = await this.purchaseOrderService.checkLines(storeId, order.lines);
+        return await this.insert({ storeId, supplierId: order.supplierId, note: order.note ?? null, userId }, lines);
+    }
+
+    /**
+     * SUGGEST a draft purchase order with the products of the manager store at or below their reorder point.
+     * Each product is ordered up to the target level, twice its reorder point when it isn't given,
+     * minus the units already ordered. The products with variants are left out.
+     * @param suggestion {supplierId, targetLevel}
+     * @returns the created order
+     */
+    @POST
+    @Path("/suggest")
+    @Response<PurchaseOrderViewInterface>(200, "Suggest a purchase order.")
+    @Response(500, "No products to reorder")
+    @Action({ route: "/suggest", method: HttpMethod.POST, filters: [PurchaseOrderSuggestionFilter, JWTAuthFilter, isManagerFilter], fromBody: true })
+    async suggest(suggestion: PurchaseOrderSuggestionInterface) {
+        const { id: userId } = this.userRepo.getAuth();
+        const storeId = await this.getStoreId();
+        await this.getActiveSupplier(suggestion.supplierId, storeId);
+        const lines = await this.purchaseOrderService.suggest(storeId, suggestion.targetLevel);
+        if (lines.length === 0) throw new Error("No products to reorder");
+        return await this.insert({ storeId, supplierId: suggestion.supplierId, note: null, userId }, lines);
+    }
+
+    /**
+     * UPDATE a draft purchase order, its lines are replaced with the given ones
+     * @param purchaseOrderId
+     * @param order {supplierId, note, lines: [{productId, variantId, quantity, unitCost}]}
+     * @returns the updated order
+     */
+    @PUT
+    @Path("/:purchaseOrderId")
+    @Response<PurchaseOrderViewInterface>(200, "Update a purchase order.")
+    @Response(500, "Only draft orders can be changed")
+    @Action({ route: "/:purchaseOrderId", method: HttpMethod.PUT, filters: [PurchaseOrderFilter, JWTAuthFilter, isManagerFilter], fromBody: true })
+    async update(order: PurchaseOrderForCreationInterface, @PathParam("purchaseOrderId") purchaseOrderId: number) {
+        const storeId = await this.getStoreId();
+        await this.getActiveSupplier(order.supplierId, storeId);
+        const lines = await this.purchaseOrderService.checkLines(storeId, order.lines);
+        await this.unitOfWork.beginTransaction();
+        try {
+            const current = await this.getManaged(Number(purchaseOrderId), storeId);
+            if (current.status !== "DRAFT") throw new Error("Only draft orders can be changed");
+            await this.purchaseOrderRepo.update({ id: current.id, supplierId: order.supplierId, note: order.note ?? null });
+            await this.purchaseOrderService.saveLines(current.id, lines);
+            await this.unitOfWork.commitTransaction();
+        } catch (e) {
+            await this.unitOfWork.rollbackTransaction();
+            throw e;
+        }
+        return await this.purchaseOrderViewRepo.getById(Number(purchaseOrderId));
+    }
+
+    /**
+     * SEND a draft purchase order to the supplier email, the order can't be changed afterwards
+     * @param purchaseOrderId
+     * @returns the sent order
+     */
+    @POST
+    @Path("/:purchaseOrderId/send")
+    @Response<PurchaseOrderViewInterface>(200, "Send a purchase order.")
+    @Response(500, "Only draft orders can be sent")
+    @Response(500, "Supplier is disabled")
+    @Action({ route: "/:purchaseOrderId/send", method: HttpMethod.POST, filters: [JWTAuthFilter, isManagerFilter] })
+    async send(@PathParam("purchaseOrderId") purchaseOrderId: number) {
+        const storeId = await this.getStoreId();
+        await this.unitOfWork.beginTransaction();
+        try {
+            const current = await this.getManaged(Number(purchaseOrderId), storeId);
+            if (current.status !== "DRAFT") throw new Error("Only draft orders can be sent");
+            await this.getActiveSupplier(current.supplierId, storeId);
+            await this.purchaseOrderRepo.update({ id: current.id, status: "SENT", sentAt: new Date() });
+            // the order stays a draft when the email can't be sent
+            await this.emailer.sendPurchaseOrder(await this.purchaseOrderViewRepo.getById(current.id));
+            await this.unitOfWork.commitTransaction();
+        } catch (e) {
+            await this.unitOfWork.rollbackTransaction();
+            throw e;
+        }
+        return await this.purchaseOrderViewRepo.getById(Number(purchaseOrderId));
+    }
+
+    /**
+     * RECEIVE units of a sent purchase order, they are put in stock and recorded as a PURCHASE.
+     * Every pending unit is received when the lines aren't given.
+     * @param purchaseOrderId
+     * @param receipt {lines: [{lineId, quantity}]}
+     * @returns the received order
+     */
+    @POST
+    @Path("/:purchaseOrderId/receive")
+    @Response<PurchaseOrderViewInterface>(200, "Receive a purchase order.")
+    @Response(500, "Only sent orders can be received")
+    @Response(500, "More units than ordered")
+    @Action({
+        route: "/:purchaseOrderId/receive",
+        method: HttpMethod.POST,
+        filters: [PurchaseOrderReceiptFilter, JWTAuthFilter, isManagerFilter],
+        fromBody: true,
+    })
+    async receive(receipt: PurchaseOrderReceiptInterface, @PathParam("purchaseOrderId") purchaseOrderId: number) {
+        const { id: userId } = this.userRepo.getAuth();
+        const storeId = await this.getStoreId();
+        let alertIds: number[];
+        await this.unitOfWork.beginTransaction();
+        try {
+            const current = await this.getManaged(Number(purchaseOrderId), storeId);
+            if (current.status !== "SENT" && current.status !== "PARTIALLY_RECEIVED") throw new Error("Only sent orders can be received");
+            alertIds = await this.purchaseOrderService.receive(current, receipt, userId);
+            await this.unitOfWork.commitTransaction();
+        } catch (e) {
+            await this.unitOfWork.rollbackTransaction();
+            throw e;
+        }
+        await this.stockAlertService.notify(alertIds);
+        return await this.purchaseOrderViewRepo.getById(Number(purchaseOrderId));
+    }
+
+    private async getStoreId() {
+        const { id } = this.userRepo.getAuth();
+        return (await this.storeRepo.getByManager(id)).id;
+    }
+
+    private async getActiveSupplier(supplierId: number, storeId: number) {
+        const supplier = await this.supplierRepo.getByStore(supplierId, storeId);
+        if (supplier.status !== 1) throw new Error("Supplier is disabled");
+        return supplier;
+    }
+
+    /**
+     * Retrieve an order of the store and lock it until the transaction ends
+     */
+    private async getManaged(purchaseOrderId: number, storeId: number) {
+        const order = await this.purchaseOrderRepo.getForUpdate(purchaseOrderId);
+        if (order.storeId !== storeId) throw new Error("Unauthorized Store");
+        return order;
+    }
+
+    private async insert(order: PurchaseOrderInterface, lines: PurchaseOrderLineInterface[]) {
+        await this.unitOfWork.beginTransaction();
+        let purchaseOrderId: number;
+        try {
+            ({ insertId: purchaseOrderId } = await this.purchaseOrderRepo.insertOne(order));
+            await this.purchaseOrderService.saveLines(purchaseOrderId, lines);
+            await this.unitOfWork.commitTransaction();
+        } catch (e) {
+            await this.unitOfWork.rollbackTransaction();
+            throw e;
+        }
+        return await this.purchaseOrderViewRepo.getById(purchaseOrderId);
+    }
+}
@@ -0,0 +1,178 @@
+import { Action, ApiController, Controller, HttpMethod } from "@miracledevs/paradigm-express-webapi";
+import { Path, PathParam, GET, POST, PUT } from "typescript-rest";
+import { Response, Tags } from "typescript-rest-swagger";
+import { JWTAuthFilter, isManagerFilter } from "../filters/jwtAuth";
+import { ItemReturnRequestFilter, ItemReturnReviewFilter } from "../filters/itemReturn.filter";
+import { ItemReturnRepository } from "../repositories/itemReturn.repository";
+import { ItemReturnViewRepository } from "../repositories/itemReturnView.repository";
+import { CreditNoteRepository } from "../repositories/creditNote.repository";
+import { ItemRepository } from "../repositories/item.repository";
+import { InvoiceRepository } from "../repositories/invoice.repository";
+import { ProductDBRepository } from "../repositories/productDB.repository";
+import { ProductVariantRepository } from "../repositories/productVariant.repository";
+import { StoreRepository } from "../repositories/store.repository";
+import { UserRepository } from "../repositories/user.repository";
+import { PaymentService } from "../payments/payment.service";
+import { StockAlertService } from "../inventory/stockAlert.service";
+import { UnitOfWork } from "../core/unitofwork/unitofwork";
+import { ItemReturnRequestInterface, ItemReturnReviewInterface, ItemReturnType, ItemReturnViewInterface } from "../models/itemReturn";
+import { InvoiceStatus } from "../models/invoice";
+import { roundMoney } from "../utils/roundMoney";
+import { IdempotencyService } from "../utils/idempotency";
+
+/**
+ * Orders that weren't picked up yet can be cancelled, picked up orders can be returned
+ */
+const returnTypes: Partial<Record<InvoiceStatus, ItemReturnType>> = {
+    PENDING_PAYMENT: "CANCELLATION",
+    PAID: "CANCELLATION",
+    READY_FOR_PICKUP: "CANCELLATION",
+    PICKED_UP: "RETURN",
+};
+
+const closedStatuses: InvoiceStatus[] = ["CANCELLED", "EXPIRED"];
+
+@Path("/api/returns")
+@Tags("Returns")
+@Controller({ route: "/api/returns" })
+export class ReturnController extends ApiController {
+    constructor(
+        private readonly itemReturnRepo: ItemReturnRepository,
+        private readonly itemReturnViewRepo: ItemReturnViewRepository,
+        private readonly creditNoteRepo: CreditNoteRepository,
+        private readonly itemRepo: ItemRepository,
+        private readonly invoiceRepo: InvoiceRepository,
+        private readonly productDBRepo: ProductDBRepository,
+        private readonly variantRepo: ProductVariantRepository,
+        private readonly storeRepo: StoreRepository,
+        private readonly userRepo: UserRepository,
+        private readonly paymentService: PaymentService,
+        private readonly stockAlertService: StockAlertService,
+        private readonly idempotency: IdempotencyService,
+        private readonly unitOfWork: UnitOfWork
+    ) {
+        super();
+    }
+
+    /**
+     * GET the returns and cancellations requested by the logged user
+     */
+    @GET
+    @Path("/")
+    @Response<ItemReturnViewInterface[]>(200, "Retrieve the returns of the user.")
+    @Response(500, "Server error.")
+    @Action({ route: "/", method: HttpMethod.GET, filters: [JWTAuthFilter] })
+    async get() {
+        const { id } = this.userRepo.getAuth();
+        return await this.itemReturnViewRepo.find({ userId: id });
+    }
+
+    /**
+     * REQUEST the return or cancellation of units of an invoice line.
+     * Retries sent with the same Idempotency-Key header get the first request back.
+     * @param request {itemId, quantity, reason}
+     * @returns the created request
+     */
+    @POST
+    @Path("/")
+    @Response<ItemReturnViewInterface>(200, "Request a return.")
+    @Response(500, "Not enough units to return.")
+    @Response(409, "A request with the idempotency key is in progress.")
+    @Response(422, "The idempotency key was used with a different request.")
+    @Action({ route: "/", method: HttpMethod.POST, filters: [ItemReturnRequestFilter, JWTAuthFilter], fromBody: true })
+    async request(request: ItemReturnRequestInterface) {
+        const { id: userId } = this.userRepo.getAuth();
+        return await this.idempotency.run(userId, this.httpContext.request, async () => {
+            const item = await this.itemRepo.getById(request.itemId);
+            const invoice = await this.invoiceRepo.getById(item.invoiceId);
+            if (invoice.userId !== userId) throw new Error("Unauthorized");
+            const type = returnTypes[invoice.status];
+            if (!type) throw new Error("The order can't be returned");
+            const requested = await this.itemReturnRepo.getRequestedQuantity(item.id);
+            if (item.quantity - item.returnedQuantity - requested < request.quantity) throw new Error("Not enough units to return");
+
+            const { insertId } = await this.itemReturnRepo.insertOne({
+                itemId: item.id,
+                type,
+                quantity: request.quantity,
+                reason: request.reason ?? null,
+                userId,
+            });
+            return await this.itemReturnViewRepo.getById(insertId);
+        });
+    }
+
+    /**
+     * GET the returns and cancellations of the manager store
+     */
+    @GET
+    @Path("/manager")
+    @Response<ItemReturnViewInterface[]>(200, "Retrieve the returns of the manager store.")
+    @Response(500, "Store not found.")
+    @Action({ route: "/manager", method: HttpMethod.GET, filters: [JWTAuthFilter, isManagerFilter] })
+    async getByManager() {
+        const { id } = this.userRepo.getAuth();
+        const store = await this.storeRepo.getByManager(id);
+        return await this.itemReturnViewRepo.find({ storeId: store.id });
+    }
+
+    /**
+     * APPROVE or REJECT a return of the manager store.
+     * Approved returns put the units back in stock, update the stock alert of the product, produce a credit note and refund its amount,
+     * the order is cancelled once every line of it is cancelled.
+     * @param returnId
+     * @param review {status, note}
+     * @returns the reviewed return
+     */
+    @PUT
+    @Path("/:returnId/review")
+    @Response<ItemReturnViewInterface>(200, "Review a return.")
+    @Response(500, "Return already reviewed.")
+    @Response(500, "The order was closed")
+    @Response(500, "Unauthorized Store")
+    @Action({ route: "/:returnId/review", method: HttpMethod.PUT, filters: [ItemReturnReviewFilter, JWTAuthFilter, isManagerFilter], fromBody: true })
+    async review(review: ItemReturnReviewInterface, @PathParam("returnId") returnId: number) {
+        const { id: userId } = this.userRepo.getAuth();
+        const store = await this.storeRepo.getByManager(userId);
+        const returnView = await this.itemReturnViewRepo.getById(Number(returnId));
+        if (returnView.storeId !== store.id) throw new Error("Unauthorized Store");
+
+        let alertIds: number[] = [];
+        await this.unitOfWork.beginTransaction();
+        try {
+            const itemReturn = await this.itemReturnRepo.getForUpdate(returnView.id);
+            if (itemReturn.status !== "REQUESTED") throw new Error("Return already reviewed");
+            if (review.status === "APPROVED") {
+                const item = await this.itemRepo.getById(itemReturn.itemId);
+                const invoice = await this.invoiceRepo.getForUpdate(item.invoiceId);
+                // the units of closed orders were already put back in stock
+                if (closedStatuses.includes(invoice.status)) throw new Error("The order was closed");
+                if (!(await this.itemRepo.addReturned(item.id, itemReturn.quantity))) throw new Error("Not enough units to return");
+                await this.productDBRepo.moveStock(item.productId, itemReturn.quantity, "RETURN", { userId, reference: `return:${itemReturn.id}` });
+                if (item.variantId) await this.variantRepo.moveStock(item.variantId, itemReturn.quantity);
+                alertIds = await this.stockAlertService.check([item.productId]);
+                // the order discounts are shared by its lines in proportion to their totals
+                const paidShare = invoice.discount ? invoice.total / (invoice.total + invoice.discount) : 1;
+                const total = roundMoney(((item.total * itemReturn.quantity) / item.quantity) * paidShare);
+                await this.creditNoteRepo.insertOne({ invoiceId: item.invoiceId, itemReturnId: itemReturn.id, date: new Date(), total });
+                await this.paymentService.refund(item.invoiceId, total);
+                if (itemReturn.type === "CANCELLATION" && (await this.itemRepo.isFullyReturned(item.invoiceId))) {
+                    await this.invoiceRepo.changeStatus(item.invoiceId, "CANCELLED", userId, "Every line was cancelled");
+                }
+            }
+            await this.itemReturnRepo.update({
+                id: itemReturn.id,
+                status: review.status,
+                reviewerId: userId,
+                reviewNote: review.note ?? null,
+                reviewedAt: new Date(),
+            });
+            await this.unitOfWork.commitTransaction();
+        } catch (e) {
+            await this.unitOfWork.rollbackTransaction();
+            throw e;
+        }
+        await this.stockAlertService.notify(alertIds);
+        return await this.itemReturnViewRepo.getById(returnView.id);
+    }
+}
@@ -8,6 +8,8 @@ import { Response, Tags } from "typescript-rest-swagger";
 import { JWTAuthFilter, isAdminFilter, isManagerFilter } from "../filters/jwtAuth";
 import { StoreFilter } from "../filters/store.filter";
 import { UserRepository } from "../repositories/user.repository";
+import { StockAlertViewRepository } from "../repositories/stockAlertView.repository";
+import { StockAlertStatus, StockAlertViewInterface } from "../models/stockAlert";
 
 type Colors = {
     primary: ColorInterface;
@@ -28,7 +30,8 @@ export class StoreController extends ApiController {
         private readonly storeRepo: StoreRepository,
         private readonly productRepo: ProductRepository,
         private readonly storeColorRepo: StoreColorRepository,
-        private readonly userRepo: UserRepository
+        private readonly userRepo: UserRepository,
+        private readonly stockAlertViewRepo: StockAlertViewRepository
     ) {
         super();
     }
@@ -185,4 +188,25 @@ export class StoreController extends ApiController {
         store.products = products;
         return store;
     }
+
+    /**
+     * GET the stock alerts of the manager store, open alerts below the minimum first.
+     * Filter them by status with ?status=OPEN or ?status=RESOLVED
+     * @param managerId
+     * @returns the stock alerts
+     */
+    @GET
+    @Path("/manager/:managerId/alerts")
+    @Response<StockAlertViewInterface[]>(200, "Retrieve the stock alerts of the manager store")
+    @Response(500, "Unauthorized")
+    @Response(500, "Invalid status")
+    @Action({ route: "/manager/:managerId/alerts", method: HttpMethod.GET, filters: [JWTAuthFilter, isManagerFilter] })
+    async getAlerts(@PathParam("managerId") managerId: number) {
+        const { id } = this.userRepo.getAuth();
+        if (id !== Number(managerId)) throw new Error("Unauthorized");
+        const status = this.httpContext.request.query.status as StockAlertStatus | undefined;
+        if (status !== undefined && status !== "OPEN" && status !== "RESOLVED") throw new Error("Invalid status");
+        const store = await this.storeRepo.getByManager(id);
+        return await this.stockAlertViewRepo.getByStore(store.id, status);
+    }
 }
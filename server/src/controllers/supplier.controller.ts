@@ -0,0 +1,98 @@
+import { Action, ApiController, Controller, HttpMethod } from "@miracledevs/paradigm-express-webapi";
+import { Path, PathParam, GET, POST, PUT, DELETE } from "typescript-rest";
+import { Response, Tags } from "typescript-rest-swagger";
+import { JWTAuthFilter, isManagerFilter } from "../filters/jwtAuth";
+import { SupplierFilter } from "../filters/supplier.filter";
+import { SupplierRepository } from "../repositories/supplier.repository";
+import { StoreRepository } from "../repositories/store.repository";
+import { UserRepository } from "../repositories/user.repository";
+import { SupplierInterface } from "../models/supplier";
+
+/**
+ * Managers manage the suppliers of their store
+ */
+@Path("/api/suppliers")
+@Tags("Suppliers")
+@Controller({ route: "/api/suppliers" })
+export class SupplierController extends ApiController {
+    constructor(private readonly supplierRepo: SupplierRepository, private readonly storeRepo: StoreRepository, private readonly userRepo: UserRepository) {
+        super();
+    }
+
+    /**
+     * GET the suppliers of the manager store
+     */
+    @GET
+    @Path("/")
+    @Response<SupplierInterface[]>(200, "Retrieve the suppliers of the manager store.")
+    @Response(500, "Store not found.")
+    @Action({ route: "/", method: HttpMethod.GET, filters: [JWTAuthFilter, isManagerFilter] })
+    async get() {
+        return await this.supplierRepo.find({ storeId: await this.getStoreId() });
+    }
+
+    /**
+     * CREATE a supplier of the manager store
+     * @param supplier {name, email, phone}
+     * @returns the created supplier
+     */
+    @POST
+    @Path("/")
+    @Response<SupplierInterface>(200, "Create a supplier.")
+    @Response(500, "Store not found.")
+    @Action({ route: "/", method: HttpMethod.POST, filters: [SupplierFilter, JWTAuthFilter, isManagerFilter], fromBody: true })
+    async create(supplier: SupplierInterface) {
+        const storeId = await this.getStoreId();
+        const { insertId } = await this.supplierRepo.insertOne({
+            storeId,
+            name: supplier.name,
+            email: supplier.email,
+            phone: supplier.phone ?? null,
+            status: supplier.status ?? 1,
+        });
+        return await this.supplierRepo.getById(insertId);
+    }
+
+    /**
+     * UPDATE a supplier of the manager store
+     * @param supplierId
+     * @param supplier {name, email, phone, status}
+     * @returns the updated supplier
+     */
+    @PUT
+    @Path("/:supplierId")
+    @Response<SupplierInterface>(200, "Update a supplier.")
+    @Response(500, "Supplier not found")
+    @Action({ route: "/:supplierId", method: HttpMethod.PUT, filters: [SupplierFilter, JWTAuthFilter, isManagerFilter], fromBody: true })
+    async update(supplier: SupplierInterface, @PathParam("supplierId") supplierId: number) {
+        const current = await this.supplierRepo.getByStore(Number(supplierId), await this.getStoreId());
+        await this.supplierRepo.update({
+            id: current.id,
+            name: supplier.name,
+            email: supplier.email,
+            phone: supplier.phone ?? null,
+            status: supplier.status ?? current.status,
+        });
+        return await this.supplierRepo.getById(current.id);
+    }
+
+    /**
+     * DISABLE a supplier, its orders are kept but no new orders can be sent to it
+     * @param supplierId
+     */
+    @DELETE
+    @Path("/:supplierId")
+    @Response<SupplierInterface>(200, "Disable a supplier.")
+    @Response(500, "Supplier not found")
+    @Action({ route: "/:supplierId", method: HttpMethod.DELETE, filters: [JWTAuthFilter, isManagerFilter] })
+    async disable(@PathParam("supplierId") supplierId: number) {
+        const current = await this.supplierRepo.getByStore(Number(supplierId), await this.getStoreId());
+        await this.supplierRepo.update({ id: current.id, status: 0 });
+        return await this.supplierRepo.getById(current.id);
+    }
+
+    private async getStoreId() {
+        const { id } = this.userRepo.getAuth();
+        return (await this.storeRepo.getByManager(id)).id;
+    }
+}
@@ -0,0 +1,83 @@
+import { Action, ApiController, Controller, HttpMethod } from "@miracledevs/paradigm-express-webapi";
+import { Path, PathParam, GET, POST, PUT, DELETE } from "typescript-rest";
+import { Response, Tags } from "typescript-rest-swagger";
+import { JWTAuthFilter, isAdminFilter } from "../filters/jwtAuth";
+import { TaxRateFilter } from "../filters/tax.filter";
+import { TaxRateRepository } from "../repositories/taxRate.repository";
+import { TaxRateInterface, TaxRateViewInterface } from "../models/tax";
+
+@Path("/api/taxes")
+@Tags("Taxes")
+@Controller({ route: "/api/taxes" })
+export class TaxController extends ApiController {
+    constructor(private readonly taxRateRepo: TaxRateRepository) {
+        super();
+    }
+
+    /**
+     * GET every tax rate
+     */
+    @GET
+    @Path("/")
+    @Response<TaxRateViewInterface[]>(200, "Retrieve the tax rates.")
+    @Response(500, "Unauthorized")
+    @Action({ route: "/", method: HttpMethod.GET, filters: [JWTAuthFilter, isAdminFilter] })
+    async get() {
+        return await this.taxRateRepo.getViews();
+    }
+
+    /**
+     * CREATE a tax rate for every product, the products of a store or the products of a category
+     * @param taxRate {name, rate, storeId, categoryId}
+     * @returns the tax rates
+     */
+    @POST
+    @Path("/")
+    @Response<TaxRateViewInterface[]>(200, "Create a tax rate.")
+    @Response(500, "Unauthorized")
+    @Action({ route: "/", method: HttpMethod.POST, filters: [TaxRateFilter, JWTAuthFilter, isAdminFilter], fromBody: true })
+    async create(taxRate: TaxRateInterface) {
+        await this.taxRateRepo.insertOne(this.toEntity(taxRate));
+        return await this.get();
+    }
+
+    /**
+     * UPDATE a tax rate, the invoices already produced keep their taxes
+     * @param taxRateId
+     * @param taxRate {name, rate, storeId, categoryId}
+     * @returns the tax rates
+     */
+    @PUT
+    @Path("/:taxRateId")
+    @Response<TaxRateViewInterface[]>(200, "Update a tax rate.")
+    @Response(500, "TaxRate not found")
+    @Action({ route: "/:taxRateId", method: HttpMethod.PUT, filters: [TaxRateFilter, JWTAuthFilter, isAdminFilter], fromBody: true })
+    async update(taxRate: TaxRateInterface, @PathParam("taxRateId") taxRateId: number) {
+        await this.taxRateRepo.update({ ...this.toEntity(taxRate), id: Number(taxRateId) });
+        return await this.get();
+    }
+
+    /**
+     * DISABLE a tax rate
+     * @param taxRateId
+     * @returns the tax rates
+     */
+    @DELETE
+    @Path("/:taxRateId")
+    @Response<TaxRateViewInterface[]>(200, "Disable a tax rate.")
+    @Response(500, "TaxRate not found")
+    @Action({ route: "/:taxRateId", method: HttpMethod.DELETE, filters: [JWTAuthFilter, isAdminFilter] })
+    async disable(@PathParam("taxRateId") taxRateId: number) {
+        await this.taxRateRepo.update({ id: Number(taxRateId), status: 0 });
+        return await this.get();
+    }
+
+    private toEntity(taxRate: TaxRateInterface): TaxRateInterface {
+        return {
+            name: taxRate.name,
+            rate: taxRate.rate,
+            storeId: taxRate.storeId ?? null,
+            categoryId: taxRate.categoryId ?? null,
+        };
+    }
+}
@@ -1,4 +1,5 @@
 import { AuthorizationInterceptor } from "@miracledevs/paradigm-web-fetch/interceptors/authorization.interceptor";
+import { AddHeaderInterceptor } from "@miracledevs/paradigm-web-fetch/interceptors/add-header.interceptor";
 import { ContentTypeInterceptor } from "@miracledevs/paradigm-web-fetch/interceptors/content-type.interceptor";
 import { HttpClient, QueryString } from "@miracledevs/paradigm-web-fetch/http-client";
 import { HttpRequest } from "@miracledevs/paradigm-web-fetch/http-request";
@@ -36,6 +37,10 @@ export class ApiClient {
         this.httpClient.registerInterceptor(new AuthorizationInterceptor(token));
     }
 
+    setHeader(header: string, value: string): void {
+        this.httpClient.registerInterceptor(new AddHeaderInterceptor(header, value));
+    }
+
     async get<T>(url: string, queryString?: QueryString): Promise<TResult<T>> {
         //return (await (await this.httpClient.get(`${this.baseUrl}/${url}`, queryString)).json()) as TResult;
         const response = await this.httpClient.get(`${this.baseUrl}/${url}`, queryString);
@@ -46,6 +51,15 @@ export class ApiClient {
         return dataR;
     }
 
+    async download(url: string, queryString?: QueryString): Promise<TResult<Buffer>> {
+        const response = await this.httpClient.get(`${this.baseUrl}/${url}`, queryString);
+        const dataR = {} as TResult<Buffer>;
+        dataR.data = Buffer.from(await response.arrayBuffer());
+        dataR.headers = response.headers;
+        dataR.status = response.status;
+        return dataR;
+    }
+
     async post<T>(url: string, queryString?: QueryString, body?: BodyInit): Promise<TResult<T>> {
         //return (await (await this.httpClient.post(`${this.baseUrl}/${url}`, queryString, body)).json()) as TResult;
         const response = await this.httpClient.post(`${this.baseUrl}/${url}`, queryString, body);
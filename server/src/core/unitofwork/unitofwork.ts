@@ -19,4 +19,15 @@ export class UnitOfWork {
     async commitTransaction(): Promise<void> {
         await this._connection.connection.commit();
     }
+
+    /**
+     * Marks a point of the ongoing transaction to undo the changes made after it
+     */
+    async savepoint(name: string): Promise<void> {
+        await this._connection.connection.query(`SAVEPOINT \`${name}\``);
+    }
+
+    async rollbackToSavepoint(name: string): Promise<void> {
+        await this._connection.connection.query(`ROLLBACK TO SAVEPOINT \`${name}\``);
+    }
 }
@@ -0,0 +1,25 @@
+import { Injectable, DependencyLifeTime } from "@miracledevs/paradigm-web-di";
+import { IFilter, HttpContext } from "@miracledevs/paradigm-express-webapi";
+import { brandMergeSchema, brandSchema } from "../models/schemas/brand.schema";
+
+/**
+ * Validate a brand of type {@link BrandInterface}
+ */
+@Injectable({ lifeTime: DependencyLifeTime.Scoped })
+export class BrandFilter implements IFilter {
+    async beforeExecute(httpContext: HttpContext): Promise<void> {
+        const { error } = brandSchema.validate(httpContext.request.body);
+        if (error) throw new Error(error.details[0].message);
+    }
+}
+
+/**
+ * Validate a merge of type {@link BrandMergeInterface}
+ */
+@Injectable({ lifeTime: DependencyLifeTime.Scoped })
+export class BrandMergeFilter implements IFilter {
+    async beforeExecute(httpContext: HttpContext): Promise<void> {
+        const { error } = brandMergeSchema.validate(httpContext.request.body);
+        if (error) throw new Error(error.details[0].message);
+    }
+}
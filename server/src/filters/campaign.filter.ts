@@ -0,0 +1,14 @@
+import { Injectable, DependencyLifeTime } from "@miracledevs/paradigm-web-di";
+import { IFilter, HttpContext } from "@miracledevs/paradigm-express-webapi";
+import { campaignSchema } from "../models/schemas/campaign.schema";
+
+/**
+ * Validate a campaign of type {@link CampaignForCreationInterface}
+ */
+@Injectable({ lifeTime: DependencyLifeTime.Scoped })
+export class CampaignFilter implements IFilter {
+    async beforeExecute(httpContext: HttpContext): Promise<void> {
+        const { error } = campaignSchema.validate(httpContext.request.body);
+        if (error) throw new Error(error.details[0].message);
+    }
+}
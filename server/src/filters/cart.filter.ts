@@ -0,0 +1,25 @@
+import { Injectable, DependencyLifeTime } from "@miracledevs/paradigm-web-di";
+import { IFilter, HttpContext } from "@miracledevs/paradigm-express-webapi";
+import { cartLineSchema, cartLineArray } from "../models/schemas/cart.schema";
+
+/**
+ * Validate a cart line of type {@link CartLineInterface}
+ */
+@Injectable({ lifeTime: DependencyLifeTime.Scoped })
+export class CartLineFilter implements IFilter {
+    async beforeExecute(httpContext: HttpContext): Promise<void> {
+        const { error } = cartLineSchema.validate(httpContext.request.body);
+        if (error) throw new Error(error.details[0].message);
+    }
+}
+
+/**
+ * Validate an array of cart lines of type {@link CartLineInterface}
+ */
+@Injectable({ lifeTime: DependencyLifeTime.Scoped })
+export class CartLineArrayFilter implements IFilter {
+    async beforeExecute(httpContext: HttpContext): Promise<void> {
+        const { error } = cartLineArray.validate(httpContext.request.body);
+        if (error) throw new Error(error.details[0].message);
+    }
+}
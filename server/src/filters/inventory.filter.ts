@@ -0,0 +1,25 @@
+import { Injectable, DependencyLifeTime } from "@miracledevs/paradigm-web-di";
+import { IFilter, HttpContext } from "@miracledevs/paradigm-express-webapi";
+import { stockTakeSchema, stockTransferSchema } from "../models/schemas/inventory.schema";
+
+/**
+ * Validate a stock take of type {@link StockTakeInterface}
+ */
+@Injectable({ lifeTime: DependencyLifeTime.Scoped })
+export class StockTakeFilter implements IFilter {
+    async beforeExecute(httpContext: HttpContext): Promise<void> {
+        const { error } = stockTakeSchema.validate(httpContext.request.body);
+        if (error) throw new Error(error.details[0].message);
+    }
+}
+
+/**
+ * Validate a stock transfer of type {@link StockTransferInterface}
+ */
+@Injectable({ lifeTime: DependencyLifeTime.Scoped })
+export class StockTransferFilter implements IFilter {
+    async beforeExecute(httpContext: HttpContext): Promise<void> {
+        const { error } = stockTransferSchema.validate(httpContext.request.body);
+        if (error) throw new Error(error.details[0].message);
+    }
+}
@@ -0,0 +1,14 @@
+import { Injectable, DependencyLifeTime } from "@miracledevs/paradigm-web-di";
+import { IFilter, HttpContext } from "@miracledevs/paradigm-express-webapi";
+import { invoiceStatusSchema } from "../models/schemas/invoice.schema";
+
+/**
+ * Validate a status change of type {@link InvoiceStatusChangeInterface}
+ */
+@Injectable({ lifeTime: DependencyLifeTime.Scoped })
+export class InvoiceStatusFilter implements IFilter {
+    async beforeExecute(httpContext: HttpContext): Promise<void> {
+        const { error } = invoiceStatusSchema.validate(httpContext.request.body);
+        if (error) throw new Error(error.details[0].message);
+    }
+}
@@ -0,0 +1,25 @@
+import { Injectable, DependencyLifeTime } from "@miracledevs/paradigm-web-di";
+import { IFilter, HttpContext } from "@miracledevs/paradigm-express-webapi";
+import { itemReturnRequestSchema, itemReturnReviewSchema } from "../models/schemas/itemReturn.schema";
+
+/**
+ * Validate a return request of type {@link ItemReturnRequestInterface}
+ */
+@Injectable({ lifeTime: DependencyLifeTime.Scoped })
+export class ItemReturnRequestFilter implements IFilter {
+    async beforeExecute(httpContext: HttpContext): Promise<void> {
+        const { error } = itemReturnRequestSchema.validate(httpContext.request.body);
+        if (error) throw new Error(error.details[0].message);
+    }
+}
+
+/**
+ * Validate a return review of type {@link ItemReturnReviewInterface}
+ */
+@Injectable({ lifeTime: DependencyLifeTime.Scoped })
+export class ItemReturnReviewFilter implements IFilter {
+    async beforeExecute(httpContext: HttpContext): Promise<void> {
+        const { error } = itemReturnReviewSchema.validate(httpContext.request.body);
+        if (error) throw new Error(error.details[0].message);
+    }
+}
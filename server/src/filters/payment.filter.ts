@@ -0,0 +1,14 @@
+import { Injectable, DependencyLifeTime } from "@miracledevs/paradigm-web-di";
+import { IFilter, HttpContext } from "@miracledevs/paradigm-express-webapi";
+import { paymentRequestSchema } from "../models/schemas/payment.schema";
+
+/**
+ * Validate a payment request of type {@link PaymentRequestInterface}
+ */
+@Injectable({ lifeTime: DependencyLifeTime.Scoped })
+export class PaymentRequestFilter implements IFilter {
+    async beforeExecute(httpContext: HttpContext): Promise<void> {
+        const { error } = paymentRequestSchema.validate(httpContext.request.body);
+        if (error) throw new Error(error.details[0].message);
+    }
+}
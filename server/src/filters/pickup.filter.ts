@@ -0,0 +1,25 @@
+import { Injectable, DependencyLifeTime } from "@miracledevs/paradigm-web-di";
+import { IFilter, HttpContext } from "@miracledevs/paradigm-express-webapi";
+import { pickupSlotSchema, pickupCodeSchema } from "../models/schemas/pickup.schema";
+
+/**
+ * Validate a pickup slot of type {@link PickupSlotInterface}
+ */
+@Injectable({ lifeTime: DependencyLifeTime.Scoped })
+export class PickupSlotFilter implements IFilter {
+    async beforeExecute(httpContext: HttpContext): Promise<void> {
+        const { error } = pickupSlotSchema.validate(httpContext.request.body);
+        if (error) throw new Error(error.details[0].message);
+    }
+}
+
+/**
+ * Validate a pickup code of type {@link PickupCodeInterface}
+ */
+@Injectable({ lifeTime: DependencyLifeTime.Scoped })
+export class PickupCodeFilter implements IFilter {
+    async beforeExecute(httpContext: HttpContext): Promise<void> {
+        const { error } = pickupCodeSchema.validate(httpContext.request.body);
+        if (error) throw new Error(error.details[0].message);
+    }
+}
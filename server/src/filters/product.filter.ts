@@ -1,6 +1,14 @@
 import { Injectable, DependencyLifeTime } from "@miracledevs/paradigm-web-di";
 import { IFilter, HttpContext } from "@miracledevs/paradigm-express-webapi";
-import { productSchema, productArray, productSaleArray, productForCreation } from "../models/schemas/product.schema";
+import {
+    productSchema,
+    productArray,
+    productSaleArray,
+    productForCreation,
+    productVariantSchema,
+    productListingQuery,
+    productSearchQuery,
+} from "../models/schemas/product.schema";
 
 /**
  * Validate product of type {@link ProductInterface}
@@ -45,3 +53,36 @@ export class ProductForCreationFilter implements IFilter {
         if (error) throw new Error(error.details[0].message);
     }
 }
+
+/**
+ * Validate a variant of type {@link ProductVariantForCreationInterface}
+ */
+@Injectable({ lifeTime: DependencyLifeTime.Scoped })
+export class ProductVariantFilter implements IFilter {
+    async beforeExecute(httpContext: HttpContext): Promise<void> {
+        const { error } = productVariantSchema.validate(httpContext.request.body);
+        if (error) throw new Error(error.details[0].message);
+    }
+}
+
+/**
+ * Validate the query of a product listing, see {@link ProductListingFilterInterface}
+ */
+@Injectable({ lifeTime: DependencyLifeTime.Scoped })
+export class ProductListingFilter implements IFilter {
+    async beforeExecute(httpContext: HttpContext): Promise<void> {
+        const { error } = productListingQuery.validate(httpContext.request.query);
+        if (error) throw new Error(error.details[0].message);
+    }
+}
+
+/**
+ * Validate the query of a product search, the text in `q` and its page
+ */
+@Injectable({ lifeTime: DependencyLifeTime.Scoped })
+export class ProductSearchFilter implements IFilter {
+    async beforeExecute(httpContext: HttpContext): Promise<void> {
+        const { error } = productSearchQuery.validate(httpContext.request.query);
+        if (error) throw new Error(error.details[0].message);
+    }
+}
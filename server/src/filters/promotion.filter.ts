@@ -0,0 +1,14 @@
+import { Injectable, DependencyLifeTime } from "@miracledevs/paradigm-web-di";
+import { IFilter, HttpContext } from "@miracledevs/paradigm-express-webapi";
+import { promotionSchema } from "../models/schemas/promotion.schema";
+
+/**
+ * Validate a promotion of type {@link PromotionInterface}
+ */
+@Injectable({ lifeTime: DependencyLifeTime.Scoped })
+export class PromotionFilter implements IFilter {
+    async beforeExecute(httpContext: HttpContext): Promise<void> {
+        const { error } = promotionSchema.validate(httpContext.request.body);
+        if (error) throw new Error(error.details[0].message);
+    }
+}
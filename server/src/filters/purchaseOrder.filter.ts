@@ -0,0 +1,36 @@
+import { Injectable, DependencyLifeTime } from "@miracledevs/paradigm-web-di";
+import { IFilter, HttpContext } from "@miracledevs/paradigm-express-webapi";
+import { purchaseOrderReceiptSchema, purchaseOrderSchema, purchaseOrderSuggestionSchema } from "../models/schemas/purchaseOrder.schema";
+
+/**
+ * Validate a purchase order of type {@link PurchaseOrderForCreationInterface}
+ */
+@Injectable({ lifeTime: DependencyLifeTime.Scoped })
+export class PurchaseOrderFilter implements IFilter {
+    async beforeExecute(httpContext: HttpContext): Promise<void> {
+        const { error } = purchaseOrderSchema.validate(httpContext.request.body);
+        if (error) throw new Error(error.details[0].message);
+    }
+}
+
+/**
+ * Validate the options of a suggested order of type {@link PurchaseOrderSuggestionInterface}
+ */
+@Injectable({ lifeTime: DependencyLifeTime.Scoped })
+export class PurchaseOrderSuggestionFilter implements IFilter {
+    async beforeExecute(httpContext: HttpContext): Promise<void> {
+        const { error } = purchaseOrderSuggestionSchema.validate(httpContext.request.body);
+        if (error) throw new Error(error.details[0].message);
+    }
+}
+
+/**
+ * Validate the received units of type {@link PurchaseOrderReceiptInterface}
+ */
+@Injectable({ lifeTime: DependencyLifeTime.Scoped })
+export class PurchaseOrderReceiptFilter implements IFilter {
+    async beforeExecute(httpContext: HttpContext): Promise<void> {
+        const { error } = purchaseOrderReceiptSchema.validate(httpContext.request.body);
+        if (error) throw new Error(error.details[0].message);
+    }
+}
@@ -2,6 +2,7 @@ import { Injectable, DependencyLifeTime } from "@miracledevs/paradigm-web-di";
 import { IFilter, HttpContext } from "@miracledevs/paradigm-express-webapi";
 import { Response } from "express";
 import { ResponseInterface } from "../models/response";
+import { ApiError } from "../utils/apiError";
 
 @Injectable({ lifeTime: DependencyLifeTime.Scoped })
 export class ResponseFilter implements IFilter {
@@ -9,6 +10,8 @@ export class ResponseFilter implements IFilter {
         const send = httpContext.response.send;
         httpContext.response.send = data => {
             httpContext.response.send = send;
+            // files are sent as they are, the action sets their content type
+            if (Buffer.isBuffer(data)) return send.call(httpContext.response, data) as Response;
             const response: ResponseInterface<typeof data> = {
                 message: undefined,
                 data: data,
@@ -19,9 +22,10 @@ export class ResponseFilter implements IFilter {
     }
 
     async onError(httpContext: HttpContext, _: undefined, error: Error): Promise<void> {
-        httpContext.response.status(500).send({
+        const { data, status } = error instanceof ApiError ? error : { data: undefined, status: 500 };
+        httpContext.response.status(status).send({
             message: error.message,
-            data: undefined,
+            data: data,
             error: true,
         });
     }
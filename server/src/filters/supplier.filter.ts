@@ -0,0 +1,14 @@
+import { Injectable, DependencyLifeTime } from "@miracledevs/paradigm-web-di";
+import { IFilter, HttpContext } from "@miracledevs/paradigm-express-webapi";
+import { supplierSchema } from "../models/schemas/supplier.schema";
+
+/**
+ * Validate a supplier of type {@link SupplierInterface}
+ */
+@Injectable({ lifeTime: DependencyLifeTime.Scoped })
+export class SupplierFilter implements IFilter {
+    async beforeExecute(httpContext: HttpContext): Promise<void> {
+        const { error } = supplierSchema.validate(httpContext.request.body);
+        if (error) throw new Error(error.details[0].message);
+    }
+}
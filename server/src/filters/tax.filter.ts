@@ -0,0 +1,14 @@
+import { Injectable, DependencyLifeTime } from "@miracledevs/paradigm-web-di";
+import { IFilter, HttpContext } from "@miracledevs/paradigm-express-webapi";
+import { taxRateSchema } from "../models/schemas/tax.schema";
+
+/**
+ * Validate a tax rate of type {@link TaxRateInterface}
+ */
+@Injectable({ lifeTime: DependencyLifeTime.Scoped })
+export class TaxRateFilter implements IFilter {
+    async beforeExecute(httpContext: HttpContext): Promise<void> {
+        const { error } = taxRateSchema.validate(httpContext.request.body);
+        if (error) throw new Error(error.details[0].message);
+    }
+}
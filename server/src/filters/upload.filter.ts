@@ -0,0 +1,67 @@
+import multer, { MulterError } from "multer";
+import { RequestHandler } from "express";
+import { Injectable, DependencyLifeTime } from "@miracledevs/paradigm-web-di";
+import { IFilter, HttpContext } from "@miracledevs/paradigm-express-webapi";
+import { FileType, isTextFile, sniffFileType } from "../utils/fileType";
+import { maxImageSize } from "../images/image.service";
+
+const megabyte = 1024 * 1024;
+const maxCsvSize = 5 * megabyte;
+const maxZipSize = 50 * megabyte;
+const imageTypes: FileType[] = ["jpeg", "png", "gif", "webp", "avif"];
+
+const multerErrors: Partial<Record<MulterError["code"], string>> = {
+    LIMIT_FILE_SIZE: "The file is too large",
+    LIMIT_FILE_COUNT: "Too many files",
+    LIMIT_UNEXPECTED_FILE: "Unexpected file",
+};
+
+/**
+ * Runs multer on the request, the files are kept in memory until the action stores them
+ */
+function receive(handler: RequestHandler, httpContext: HttpContext): Promise<void> {
+    return new Promise((resolve, reject) =>
+        handler(httpContext.request, httpContext.response, error => {
+            if (!error) return resolve();
+            // multer stops reading on errors, the rest of the body is discarded so the connection can be reused
+            httpContext.request.resume();
+            if (error instanceof MulterError) reject(new Error(multerErrors[error.code] ?? error.message));
+            else reject(error);
+        })
+    );
+}
+
+const imageUpload = multer({ storage: multer.memoryStorage(), limits: { fileSize: maxImageSize, files: 1 } }).single("img_file");
+
+const catalogUpload = multer({ storage: multer.memoryStorage(), limits: { fileSize: maxZipSize, files: 2 } }).fields([
+    { name: "csv_file", maxCount: 1 },
+    { name: "images_zip", maxCount: 1 },
+]);
+
+/**
+ * Receive the product image sent in `img_file` as multipart form data
+ */
+@Injectable({ lifeTime: DependencyLifeTime.Scoped })
+export class ImageUploadFilter implements IFilter {
+    async beforeExecute(httpContext: HttpContext): Promise<void> {
+        await receive(imageUpload, httpContext);
+        const file = httpContext.request.file;
+        if (file && !imageTypes.includes(sniffFileType(file.buffer))) throw new Error("Invalid file type");
+    }
+}
+
+/**
+ * Receive the catalog CSV sent in `csv_file` and the zipped images sent in `images_zip`, as multipart form data
+ */
+@Injectable({ lifeTime: DependencyLifeTime.Scoped })
+export class CatalogUploadFilter implements IFilter {
+    async beforeExecute(httpContext: HttpContext): Promise<void> {
+        await receive(catalogUpload, httpContext);
+        const files = (httpContext.request.files ?? {}) as Record<string, Express.Multer.File[]>;
+        const [csv] = files.csv_file ?? [];
+        const [zip] = files.images_zip ?? [];
+        if (csv?.size > maxCsvSize) throw new Error("The file is too large");
+        if (csv && !isTextFile(csv.buffer)) throw new Error("Invalid file type");
+        if (zip && sniffFileType(zip.buffer) !== "zip") throw new Error("Invalid file type");
+    }
+}
@@ -0,0 +1,151 @@
+import crypto from "crypto";
+import path from "path";
+import sharp from "sharp";
+import { DependencyLifeTime, Injectable } from "@miracledevs/paradigm-web-di";
+import { StorageService } from "../storage/storage.service";
+import { FileStorage } from "../storage/fileStorage";
+import { LocalFileStorage } from "../storage/local.storage";
+import { ProductDBRepository } from "../repositories/productDB.repository";
+import { BrandRepository } from "../repositories/brand.repository";
+import { ProductVersionRepository } from "../repositories/productVersion.repository";
+import { Job } from "../jobs/jobScheduler";
+
+/**
+ * The generated sizes of the images, by their width in pixels
+ */
+export const imageSizes = {
+    thumbnail: 160,
+    card: 400,
+    detail: 1000,
+};
+
+export type ImageSize = keyof typeof imageSizes;
+
+export const isImageSize = (size: string): size is ImageSize => Object.keys(imageSizes).includes(size);
+
+const acceptedFormats = ["jpeg", "png", "webp", "gif", "avif", "heif"];
+/**
+ * The largest image file accepted, in bytes
+ */
+export const maxImageSize = 5 * 1024 * 1024;
+const maxDimension = 6000;
+const originalWidth = 2000;
+const orphanGracePeriod = 24 * 60 * 60 * 1000;
+/**
+ * The images of the seed data, they are tracked in the repository and never uploaded to the storage
+ */
+const seedFolder = "public";
+/**
+ * The keys of the images stored by the service, named by their hash, and of their sizes
+ */
+const storedKey = new RegExp(`^((${Object.keys(imageSizes).join("|")})/)?[0-9a-f]{32}\\.webp$`);
+
+/**
+ * Stores the uploaded images as webp, named by the hash of their content, and their generated sizes in a folder per size.
+ * The images of the seed data are read from the seed folder when the storage doesn't have them.
+ */
+@Injectable({ lifeTime: DependencyLifeTime.Singleton })
+export class ImageService {
+    private readonly storage: FileStorage;
+    private readonly seedImages = new LocalFileStorage(seedFolder);
+    private readonly generating = new Map<string, Promise<Buffer>>();
+
+    constructor(storageService: StorageService) {
+        this.storage = storageService.storage;
+    }
+
+    /**
+     * The name the image is stored with, the same image always gets the same name
+     */
+    fileName(image: Buffer): string {
+        return `${crypto.createHash("sha256").update(image).digest("hex").slice(0, 32)}.webp`;
+    }
+
+    /**
+     * Checks the file is an image in an accepted format and size
+     */
+    async validate(image: Buffer): Promise<void> {
+        let metadata: sharp.Metadata;
+        try {
+            metadata = await sharp(image).metadata();
+        } catch {
+            throw new Error("Invalid image");
+        }
+        if (!acceptedFormats.includes(metadata.format)) throw new Error("Invalid image format");
+        if (metadata.width > maxDimension || metadata.height > maxDimension) throw new Error("The image is too large");
+    }
+
+    /**
+     * Validates the image and stores it as webp with every generated size
+     * @returns the url_img of the image
+     */
+    async save(image: Buffer): Promise<string> {
+        await this.validate(image);
+        const file = this.fileName(image);
+        const original = await sharp(image).rotate().resize({ width: originalWidth, withoutEnlargement: true }).webp().toBuffer();
+        await this.storage.put(file, original, "image/webp");
+        for (const size of Object.keys(imageSizes) as ImageSize[]) await this.generate(size, file, original);
+        return `images/${file}`;
+    }
+
+    /**
+     * Reads the stored image, or the seed image with that name
+     */
+    async original(file: string): Promise<Buffer> {
+        const name = path.basename(file);
+        const image = (await this.storage.get(name)) ?? (await this.seedImages.get(name));
+        if (!image) throw new Error("Image not found");
+        return image;
+    }
+
+    /**
+     * Reads a size of the image, the size is generated from the stored image when it is missing
+     */
+    async resized(size: ImageSize, file: string): Promise<Buffer> {
+        const name = path.basename(file);
+        return (await this.storage.get(`${size}/${name}`)) ?? (await this.generate(size, name, await this.original(name)));
+    }
+
+    /**
+     * Writes a size of the image, a size requested while it is being written waits for it
+     */
+    private async generate(size: ImageSize, file: string, original: Buffer): Promise<Buffer> {
+        const key = `${size}/${file}`;
+        if (!this.generating.has(key)) {
+            const generation = (async () => {
+                const resized = await sharp(original).resize({ width: imageSizes[size], withoutEnlargement: true }).webp().toBuffer();
+                await this.storage.put(key, resized, "image/webp");
+                return resized;
+            })();
+            this.generating.set(key, generation);
+            generation.finally(() => this.generating.delete(key)).catch(() => undefined);
+        }
+        return await this.generating.get(key);
+    }
+}
+
+/**
+ * Deletes the stored images no product, version of a product nor brand logo uses, with their sizes.
+ * Only the images stored by the {@link ImageService} are deleted, the other files of the storage are kept.
+ * The recent files are kept, the image of a product is stored before the product is saved.
+ */
+@Injectable({ lifeTime: DependencyLifeTime.Scoped })
+export class CleanOrphanedImagesJob implements Job {
+    constructor(
+        private readonly productDBRepo: ProductDBRepository,
+        private readonly productVersionRepo: ProductVersionRepository,
+        private readonly brandRepo: BrandRepository,
+        private readonly storageService: StorageService
+    ) {}
+
+    async run(): Promise<void> {
+        const { storage } = this.storageService;
+        const urls = [...(await this.productDBRepo.getImageUrls()), ...(await this.productVersionRepo.getImageUrls()), ...(await this.brandRepo.getLogoUrls())];
+        const used = new Set(urls.map(url => path.basename(url)));
+        const cutoff = Date.now() - orphanGracePeriod;
+        for (const file of await storage.list()) {
+            if (!storedKey.test(file.key) || used.has(path.basename(file.key))) continue;
+            if (file.modifiedAt.getTime() < cutoff) await storage.delete(file.key);
+        }
+    }
+}
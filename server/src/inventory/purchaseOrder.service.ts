@@ -0,0 +1,105 @@
+import { DependencyLifeTime, Injectable } from "@miracledevs/paradigm-web-di";
+import { ProductRepository } from "../repositories/product.repository";
+import { ProductDBRepository } from "../repositories/productDB.repository";
+import { ProductVariantRepository } from "../repositories/productVariant.repository";
+import { PurchaseOrderRepository } from "../repositories/purchaseOrder.repository";
+import { PurchaseOrderLineRepository } from "../repositories/purchaseOrderLine.repository";
+import { StockAlertService, stockAlertLevel } from "./stockAlert.service";
+import { ProductInterface } from "../models/product";
+import { PurchaseOrderInterface, PurchaseOrderLineInterface, PurchaseOrderReceiptInterface } from "../models/purchaseOrder";
+
+/**
+ * The units to order of a product at or below its reorder point, the units already ordered are discounted
+ * @param targetLevel the stock to reach, twice the reorder point when it isn't given
+ * @returns 0 when the product doesn't need to be ordered
+ */
+export function suggestedQuantity(product: Pick<ProductInterface, "currentStock" | "reorderPoint" | "minimum">, onOrder: number, targetLevel?: number): number {
+    if (!stockAlertLevel(product)) return 0;
+    const target = targetLevel ?? product.reorderPoint * 2;
+    return Math.max(target - product.currentStock - onOrder, 0);
+}
+
+/**
+ * Fills the purchase orders of the stores and puts their units in stock once they are received
+ */
+@Injectable({ lifeTime: DependencyLifeTime.Scoped })
+export class PurchaseOrderService {
+    constructor(
+        private readonly productRepo: ProductRepository,
+        private readonly productDBRepo: ProductDBRepository,
+        private readonly variantRepo: ProductVariantRepository,
+        private readonly purchaseOrderRepo: PurchaseOrderRepository,
+        private readonly lineRepo: PurchaseOrderLineRepository,
+        private readonly stockAlertService: StockAlertService
+    ) {}
+
+    /**
+     * Proposes the lines to order of the active products of the store at or below their reorder point.
+     * The products with variants are left out, they are ordered by variant.
+     */
+    async suggest(storeId: number, targetLevel?: number): Promise<PurchaseOrderLineInterface[]> {
+        const products = (await this.productRepo.find({ storeId, status: 1 })).filter(product => !product.variants?.length);
+        const onOrder = await this.lineRepo.getOnOrder(products.map(product => product.id));
+        return products
+            .map(product => ({ productId: product.id, quantity: suggestedQuantity(product, onOrder.get(product.id) ?? 0, targetLevel) }))
+            .filter(line => line.quantity > 0);
+    }
+
+    /**
+     * Checks the lines are products of the store, with a variant of the product when it has variants.
+     * The lines of the same product and variant are added up.
+     */
+    async checkLines(storeId: number, lines: PurchaseOrderLineInterface[]): Promise<PurchaseOrderLineInterface[]> {
+        const products = await this.productRepo.getByIds([...new Set(lines.map(line => line.productId))]);
+        const variants = await this.variantRepo.getByIds(lines.filter(line => line.variantId).map(line => line.variantId));
+        const checked: PurchaseOrderLineInterface[] = [];
+        for (const line of lines) {
+            const product = products.find(p => p.id === line.productId);
+            if (!product || product.storeId !== storeId) throw new Error("Unauthorized Store");
+            const variantId = line.variantId ?? null;
+            if (variantId && !variants.some(v => v.id === variantId && v.productId === product.id)) throw new Error("Variant not found");
+            if (!variantId && product.variants?.length) throw new Error("Choose a variant of the product");
+            const same = checked.find(c => c.productId === line.productId && c.variantId === variantId);
+            if (same) same.quantity += line.quantity;
+            else checked.push({ productId: line.productId, variantId, quantity: line.quantity, unitCost: line.unitCost ?? null });
+        }
+        return checked;
+    }
+
+    /**
+     * Replaces the lines of an order
+     */
+    async saveLines(purchaseOrderId: number, lines: PurchaseOrderLineInterface[]): Promise<void> {
+        await this.lineRepo.deleteByOrder(purchaseOrderId);
+        for (const line of lines) await this.lineRepo.insertOne({ ...line, purchaseOrderId });
+    }
+
+    /**
+     * Puts the received units in stock and records them as a PURCHASE, it runs in the transaction that locked the order.
+     * The order is RECEIVED once every unit arrived.
+     * @param userId the user that receives the units
+     * @returns the ids of the stock alerts to notify once the transaction is committed
+     */
+    async receive(order: PurchaseOrderInterface, receipt: PurchaseOrderReceiptInterface, userId: number): Promise<number[]> {
+        const lines = await this.lineRepo.find({ purchaseOrderId: order.id });
+        const received =
+            receipt.lines ??
+            lines.filter(line => line.receivedQuantity < line.quantity).map(line => ({ lineId: line.id, quantity: line.quantity - line.receivedQuantity }));
+        const productIds = [...new Set(lines.map(line => line.productId))];
+        await this.productDBRepo.lockForUpdate(productIds);
+        for (const { lineId, quantity } of received) {
+            const line = lines.find(l => l.id === lineId);
+            if (!line) throw new Error("Line not found");
+            if (!(await this.lineRepo.addReceived(line.id, quantity))) throw new Error("More units than ordered");
+            await this.productDBRepo.moveStock(line.productId, quantity, "PURCHASE", { userId, reference: `purchase-order:${order.id}` });
+            if (line.variantId) await this.variantRepo.moveStock(line.variantId, quantity);
+        }
+        const complete = await this.lineRepo.isFullyReceived(order.id);
+        await this.purchaseOrderRepo.update({
+            id: order.id,
+            status: complete ? "RECEIVED" : "PARTIALLY_RECEIVED",
+            receivedAt: complete ? new Date() : null,
+        });
+        return await this.stockAlertService.check(productIds);
+    }
+}
@@ -0,0 +1,73 @@
+import { DependencyLifeTime, Injectable } from "@miracledevs/paradigm-web-di";
+import { StockAlertRepository } from "../repositories/stockAlert.repository";
+import { StockAlertViewRepository } from "../repositories/stockAlertView.repository";
+import { ProductRepository } from "../repositories/product.repository";
+import { StockAlertLevel } from "../models/stockAlert";
+import { ProductInterface } from "../models/product";
+import { Emailer } from "../utils/emailer";
+
+/**
+ * The alert level of the product stock
+ * @returns null when the stock is above the reorder point
+ */
+export function stockAlertLevel(product: Pick<ProductInterface, "currentStock" | "reorderPoint" | "minimum">): StockAlertLevel | null {
+    if (product.currentStock < product.minimum) return "MINIMUM";
+    if (product.currentStock <= product.reorderPoint) return "REORDER";
+    return null;
+}
+
+/**
+ * Keeps the stock alerts of the products up to date and emails them to the store managers
+ */
+@Injectable({ lifeTime: DependencyLifeTime.Scoped })
+export class StockAlertService {
+    constructor(
+        private readonly alertRepo: StockAlertRepository,
+        private readonly alertViewRepo: StockAlertViewRepository,
+        private readonly productRepo: ProductRepository,
+        private readonly emailer: Emailer
+    ) {}
+
+    /**
+     * Opens an alert for the products at or below their reorder point, escalates the ones that fell below
+     * their minimum and resolves the ones that were restocked. It runs in the transaction that changes the stock.
+     * @returns the ids of the opened and escalated alerts, to notify once the transaction is committed
+     */
+    async check(productIds: number[]): Promise<number[]> {
+        const products = await this.productRepo.getByIds(productIds);
+        const open = await this.alertRepo.getOpen(productIds);
+        const notify: number[] = [];
+        for (const product of products) {
+            const level = stockAlertLevel(product);
+            const alert = open.find(a => a.productId === product.id);
+            if (!alert && level) {
+                const { insertId } = await this.alertRepo.insertOne({ productId: product.id, storeId: product.storeId, level, stock: product.currentStock });
+                notify.push(insertId);
+            } else if (alert && !level) {
+                await this.alertRepo.update({ id: alert.id, stock: product.currentStock, status: "RESOLVED", resolvedAt: new Date() });
+            } else if (alert && level === "MINIMUM" && alert.level === "REORDER") {
+                await this.alertRepo.update({ id: alert.id, level, stock: product.currentStock, escalatedAt: new Date() });
+                notify.push(alert.id);
+            } else if (alert) {
+                await this.alertRepo.update({ id: alert.id, stock: product.currentStock });
+            }
+        }
+        return notify;
+    }
+
+    /**
+     * Emails the alerts to the managers of their stores, a failed email doesn't undo the operation that raised the alert,
+     * it's recorded on the alert instead
+     */
+    async notify(alertIds: number[]): Promise<void> {
+        for (const alert of await this.alertViewRepo.getByIds(alertIds)) {
+            if (!alert.managerEmail) continue;
+            try {
+                await this.emailer.sendStockAlert(alert);
+                await this.alertRepo.update({ id: alert.id, notifiedAt: new Date(), notificationError: null });
+            } catch (e) {
+                await this.alertRepo.update({ id: alert.id, notificationError: String(e.message ?? e).slice(0, 255) });
+            }
+        }
+    }
+}
@@ -0,0 +1,104 @@
+import { DependencyLifeTime, Injectable } from "@miracledevs/paradigm-web-di";
+import { StockReservationRepository } from "../repositories/stockReservation.repository";
+import { ProductDBRepository } from "../repositories/productDB.repository";
+import { ProductRepository } from "../repositories/product.repository";
+import { ProductVariantRepository } from "../repositories/productVariant.repository";
+import { ProductInterface } from "../models/product";
+import { ProductVariant } from "../models/productVariant";
+import { Job } from "../jobs/jobScheduler";
+
+export const reservationMinutes = Number(process.env.SHOPPY__RESERVATION_MINUTES ?? 15);
+
+/**
+ * Holds the units in the carts so other customers can't buy them while the checkout is completed.
+ * Each cart line is held on its own, the units of a variant count for the variant and for its product.
+ * The holds last `SHOPPY__RESERVATION_MINUTES` since the last change of the cart line,
+ * the expired ones stop counting right away and are deleted by the ReleaseReservationsJob.
+ */
+@Injectable({ lifeTime: DependencyLifeTime.Scoped })
+export class StockReservationService {
+    constructor(
+        private readonly reservationRepo: StockReservationRepository,
+        private readonly productDBRepo: ProductDBRepository,
+        private readonly productRepo: ProductRepository,
+        private readonly variantRepo: ProductVariantRepository
+    ) {}
+
+    /**
+     * The stock each user can buy, the stock of the products minus the units held by the other users
+     * @returns the available units by product id
+     */
+    async availableFor(userId: number, products: Pick<ProductInterface, "id" | "currentStock">[]): Promise<Map<number, number>> {
+        const held = await this.reservationRepo.getHeldByOthers(
+            userId,
+            products.map(product => product.id)
+        );
+        return new Map(products.map(product => [product.id, product.currentStock - (held.get(product.id) ?? 0)]));
+    }
+
+    /**
+     * The stock of each variant the user can buy, the stock of the variants minus the units held by the other users
+     * @returns the available units by variant id
+     */
+    async variantsAvailableFor(userId: number, variants: Pick<ProductVariant, "id" | "currentStock">[]): Promise<Map<number, number>> {
+        const held = await this.reservationRepo.getVariantsHeldByOthers(
+            userId,
+            variants.map(variant => variant.id)
+        );
+        return new Map(variants.map(variant => [variant.id, variant.currentStock - (held.get(variant.id) ?? 0)]));
+    }
+
+    /**
+     * Holds the units of a cart line for the user, it runs in a transaction.
+     * The units of the other lines of the product held by the user count for the stock of the product.
+     * @param quantity the total units of the line, not the ones added
+     */
+    async reserve(userId: number, productId: number, variantId: number | null, quantity: number): Promise<void> {
+        await this.productDBRepo.lockForUpdate([productId]);
+        const product = await this.productRepo.getById(productId);
+        if (product.status !== 1) throw new Error("Product is disabled");
+        await this.hold(userId, productId, variantId, quantity);
+        const available = await this.availableFor(userId, [product]);
+        const held = await this.reservationRepo.getHeldBy(userId, [productId]);
+        if (available.get(productId) < held.get(productId)) throw new Error("Not enough stock");
+        if (variantId) {
+            const variant = await this.variantRepo.getById(variantId);
+            const variantAvailable = await this.variantsAvailableFor(userId, [variant]);
+            if (variantAvailable.get(variantId) < quantity) throw new Error("Not enough stock");
+        }
+    }
+
+    /**
+     * Holds the units of a cart line for the user without checking the stock, it runs in a transaction
+     * that already locked the product and checked its available stock
+     */
+    async hold(userId: number, productId: number, variantId: number | null, quantity: number): Promise<void> {
+        await this.reservationRepo.hold(userId, productId, variantId, quantity, reservationMinutes);
+    }
+
+    /**
+     * Releases the holds of the user, only the ones of the products when they are given
+     */
+    async release(userId: number, productIds?: number[]): Promise<void> {
+        await this.reservationRepo.release(userId, productIds);
+    }
+
+    /**
+     * Releases the hold of a cart line of the user, the other lines of the product are still held
+     */
+    async releaseLine(userId: number, productId: number, variantId: number | null): Promise<void> {
+        await this.reservationRepo.releaseLine(userId, productId, variantId);
+    }
+}
+
+/**
+ * Deletes the expired stock reservations
+ */
+@Injectable({ lifeTime: DependencyLifeTime.Scoped })
+export class ReleaseReservationsJob implements Job {
+    constructor(private readonly reservationRepo: StockReservationRepository) {}
+
+    async run(): Promise<void> {
+        await this.reservationRepo.deleteExpired();
+    }
+}
@@ -0,0 +1,50 @@
+import { DependencyContainer, DependencyLifeTime, Injectable, ObjectType } from "@miracledevs/paradigm-web-di";
+import { Logger } from "@miracledevs/paradigm-express-webapi";
+import { MySqlConnector } from "../core/mysql/mysql.connector";
+import { MySqlConnection } from "../core/mysql/mysql.connection";
+
+/**
+ * A task that runs periodically in the background, outside of any request
+ */
+export interface Job {
+    run(): Promise<void>;
+}
+
+/**
+ * Runs the background jobs.
+ * Each run resolves the job in its own scope with a connection from the pool, the same way the requests do,
+ * so the jobs can use the scoped repositories. A run is skipped while the previous one is still going.
+ */
+@Injectable({ lifeTime: DependencyLifeTime.Singleton })
+export class JobScheduler {
+    private readonly running = new Set<ObjectType<Job>>();
+
+    constructor(private readonly dependencyContainer: DependencyContainer, private readonly mysqlConnector: MySqlConnector, private readonly logger: Logger) {}
+
+    /**
+     * Runs the job every given minutes, the timers don't keep the process alive
+     */
+    schedule(jobType: ObjectType<Job>, minutes: number): void {
+        setInterval(() => this.run(jobType), minutes * 60 * 1000).unref();
+    }
+
+    /**
+     * Runs the job once, its errors are written to the server log with the name of the job,
+     * the next run is still scheduled
+     */
+    async run(jobType: ObjectType<Job>): Promise<void> {
+        if (this.running.has(jobType)) return;
+        this.running.add(jobType);
+        const injector = this.dependencyContainer.createScopedInjector("job");
+        const connection = injector.resolve(MySqlConnection);
+        try {
+            await this.mysqlConnector.createScopedConnection(connection);
+            await injector.resolve(jobType).run();
+        } catch (e) {
+            this.logger.error(`The job ${jobType.name} failed: ${e.stack ?? e}`);
+        } finally {
+            this.mysqlConnector.releaseConnection(connection);
+            this.running.delete(jobType);
+        }
+    }
+}
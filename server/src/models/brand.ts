@@ -0,0 +1,53 @@
+import { DependencyLifeTime, Injectable } from "@miracledevs/paradigm-web-di";
+import { Brand } from "./product.addons";
+import { StoreProductInterface } from "./product";
+
+export interface BrandInterface {
+    /**@IsInt */
+    id?: number;
+    name: string;
+    /**
+     * The logo uploaded for the brand, null when it has none
+     */
+    url_logo?: string | null;
+}
+
+/**
+ * A brand with the number of products that use it
+ */
+export interface BrandViewInterface extends BrandInterface {
+    /**@IsInt */
+    products: number;
+}
+
+/**
+ * The brand the products of another brand are moved to, the other brand is deleted
+ */
+export interface BrandMergeInterface {
+    /**@IsInt */
+    targetId: number;
+}
+
+/**
+ * A page of the active products of a brand, from every active store
+ */
+export interface BrandProductsInterface {
+    brand: BrandInterface;
+    products: StoreProductInterface[];
+    pagination: {
+        /**@IsInt */
+        page: number;
+        /**@IsInt */
+        perPage: number;
+        /**@IsInt */
+        totalPages: number;
+        /**@IsInt */
+        totalItems: number;
+        hasNextPage: boolean;
+    };
+}
+
+@Injectable({ lifeTime: DependencyLifeTime.Transient })
+export class BrandView extends Brand implements BrandViewInterface {
+    products = 0;
+}
@@ -0,0 +1,77 @@
+import { DependencyLifeTime, Injectable } from "@miracledevs/paradigm-web-di";
+
+/**
+ * A sale of a store between two dates, on a list of products or on every product of a category or brand.
+ * While the campaign runs its discount replaces the discount of the products when it's better.
+ */
+export interface CampaignInterface {
+    /**@IsInt */
+    id?: number;
+    /**@IsInt */
+    storeId?: number;
+    name: string;
+    /**
+     * The price multiplier of the products, 0.8 sells them 20% off
+     */
+    discountPercentage: number;
+    /**@IsInt */
+    categoryId?: number | null;
+    /**@IsInt */
+    brandId?: number | null;
+    startsAt: Date;
+    endsAt: Date;
+    /**@IsInt */
+    status?: number;
+    createdAt?: Date;
+}
+
+export interface CampaignForCreationInterface extends CampaignInterface {
+    /**
+     * The products of the campaign, when it isn't on a category or brand
+     */
+    productIds?: number[] | null;
+}
+
+export interface CampaignViewInterface extends CampaignForCreationInterface {
+    store: string;
+    category: string | null;
+    brand: string | null;
+}
+
+export interface CampaignProductInterface {
+    /**@IsInt */
+    id?: number;
+    /**@IsInt */
+    campaignId: number;
+    /**@IsInt */
+    productId: number;
+}
+
+@Injectable({ lifeTime: DependencyLifeTime.Transient })
+export class Campaign implements CampaignInterface {
+    id? = 0;
+    storeId? = 0;
+    name = "";
+    discountPercentage = 1;
+    categoryId?: number | null = null;
+    brandId?: number | null = null;
+    startsAt: Date = undefined;
+    endsAt: Date = undefined;
+    status? = 1;
+    createdAt?: Date = undefined;
+}
+
+@Injectable({ lifeTime: DependencyLifeTime.Transient })
+export class CampaignView extends Campaign implements CampaignViewInterface {
+    store = "";
+    category: string | null = null;
+    brand: string | null = null;
+    productIds: number[] | null = null;
+}
+
+@Injectable({ lifeTime: DependencyLifeTime.Transient })
+export class CampaignProduct implements CampaignProductInterface {
+    id? = 0;
+    campaignId = 0;
+    productId = 0;
+}
@@ -0,0 +1,35 @@
+import { DependencyLifeTime, Injectable } from "@miracledevs/paradigm-web-di";
+
+export interface CartInterface {
+    /**@IsInt */
+    id?: number;
+    /**@IsInt */
+    userId: number;
+    /**@IsInt */
+    productId: number;
+    /**@IsInt */
+    variantId?: number | null;
+    /**@IsInt */
+    quantity: number;
+}
+
+export interface CartLineInterface {
+    /**@IsInt */
+    productId: number;
+    /**
+     * The chosen variant, required for the products with variants
+     * @IsInt
+     */
+    variantId?: number | null;
+    /**@IsInt */
+    quantity: number;
+}
+
+@Injectable({ lifeTime: DependencyLifeTime.Transient })
+export class Cart implements CartInterface {
+    id? = 0;
+    userId = 0;
+    productId = 0;
+    variantId?: number | null = null;
+    quantity = 0;
+}
@@ -7,10 +7,27 @@ export interface CartViewInterface {
     userId: number;
     /**@IsInt */
     productId: number;
+    /**@IsInt */
+    variantId: number | null;
+    sku: string | null;
+    size: string | null;
+    color: string | null;
     name: string;
-    description: number;
+    description: string;
     price: number;
     discountPercentage: number;
+    /**@IsInt */
+    currentStock: number;
+    /**
+     * The stock the user can buy, the units held in the carts of other users are left out
+     * @IsInt
+     */
+    availableStock: number;
+    /**
+     * When the units of the line stop being held, null once the reservation expired
+     */
+    reservedUntil: Date | null;
+    /**@IsInt */
     storeId: number;
     url_img: string;
     brand: string;
@@ -19,6 +36,8 @@ export interface CartViewInterface {
     /**@IsInt */
     quantity: number;
     total: number;
+    /**@IsInt */
+    status: number;
 }
 
 @Injectable({ lifeTime: DependencyLifeTime.Transient })
@@ -26,10 +45,17 @@ export class CartView implements CartViewInterface {
     id = 0;
     userId = 0;
     productId = 0;
+    variantId: number | null = null;
+    sku: string | null = null;
+    size: string | null = null;
+    color: string | null = null;
     name = "";
-    description = 0;
+    description = "";
     price = 0;
     discountPercentage = 0;
+    currentStock = 0;
+    availableStock = 0;
+    reservedUntil: Date | null = null;
     storeId = 0;
     url_img = "";
     brand = "";
@@ -37,4 +63,5 @@ export class CartView implements CartViewInterface {
     sizes: string[] = [];
     quantity = 0;
     total = 0;
+    status = 1;
 }
@@ -0,0 +1,32 @@
+/**
+ * What the import did with a row of the CSV, rejected rows don't change the catalog
+ */
+export type CatalogImportAction = "CREATED" | "UPDATED" | "REJECTED";
+
+export interface CatalogImportRowInterface {
+    /**
+     * The line of the row in the CSV, the header is line 1
+     * @IsInt
+     */
+    line: number;
+    /** @IsInt */
+    productId: number | null;
+    name: string;
+    action: CatalogImportAction;
+    error?: string;
+    image?: string;
+}
+
+/**
+ * The result of an import, a dry run reports what the import would do without saving it
+ */
+export interface CatalogImportReportInterface {
+    dryRun: boolean;
+    /** @IsInt */
+    created: number;
+    /** @IsInt */
+    updated: number;
+    /** @IsInt */
+    rejected: number;
+    rows: CatalogImportRowInterface[];
+}
@@ -0,0 +1,21 @@
+export type CheckoutLineErrorReason = "NOT_FOUND" | "DISABLED" | "VARIANT_REQUIRED" | "PRICE_CHANGED" | "INSUFFICIENT_STOCK";
+
+/**
+ * Describes why a cart line was rejected during checkout,
+ * along with the current values so the client can refresh its cart.
+ * The available stock leaves out the units held in the carts of other users.
+ * The values of the lines of variants are the ones of the variant.
+ */
+export interface CheckoutLineErrorInterface {
+    /**@IsInt */
+    productId: number;
+    /**@IsInt */
+    variantId?: number | null;
+    reason: CheckoutLineErrorReason;
+    price?: number;
+    discountPercentage?: number;
+    /**@IsInt */
+    currentStock?: number;
+    /**@IsInt */
+    availableStock?: number;
+}
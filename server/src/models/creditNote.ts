@@ -0,0 +1,21 @@
+import { DependencyLifeTime, Injectable } from "@miracledevs/paradigm-web-di";
+
+export interface CreditNoteInterface {
+    /**@IsInt */
+    id?: number;
+    /**@IsInt */
+    invoiceId: number;
+    /**@IsInt */
+    itemReturnId: number;
+    date: Date;
+    total: number;
+}
+
+@Injectable({ lifeTime: DependencyLifeTime.Transient })
+export class CreditNote implements CreditNoteInterface {
+    id? = 0;
+    invoiceId = 0;
+    itemReturnId = 0;
+    date: Date = undefined;
+    total = 0;
+}
@@ -0,0 +1,26 @@
+import { DependencyLifeTime, Injectable } from "@miracledevs/paradigm-web-di";
+
+/**
+ * A request made with an Idempotency-Key header.
+ * The response is empty while the request is being processed.
+ */
+export interface IdempotencyKeyInterface {
+    /**@IsInt */
+    id?: number;
+    /**@IsInt */
+    userId: number;
+    idempotencyKey: string;
+    requestHash: string;
+    response?: unknown;
+    createdAt?: Date;
+}
+
+@Injectable({ lifeTime: DependencyLifeTime.Transient })
+export class IdempotencyKey implements IdempotencyKeyInterface {
+    id? = 0;
+    userId = 0;
+    idempotencyKey = "";
+    requestHash = "";
+    response?: unknown = null;
+    createdAt?: Date = undefined;
+}
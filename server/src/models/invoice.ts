@@ -1,12 +1,40 @@
 import { DependencyLifeTime, Injectable } from "@miracledevs/paradigm-web-di";
 
+export type InvoiceStatus = "PENDING_PAYMENT" | "PAID" | "READY_FOR_PICKUP" | "PICKED_UP" | "CANCELLED" | "EXPIRED";
+
+/**
+ * The statuses an invoice can move to from each status.
+ * Orders paid with cash on pickup are prepared before they are paid, their payment is collected when they are picked up
+ * so they never go through PAID.
+ * Picked up, cancelled and expired invoices can't change anymore.
+ */
+export const invoiceTransitions: Record<InvoiceStatus, InvoiceStatus[]> = {
+    PENDING_PAYMENT: ["PAID", "READY_FOR_PICKUP", "CANCELLED", "EXPIRED"],
+    PAID: ["READY_FOR_PICKUP", "PICKED_UP", "CANCELLED"],
+    READY_FOR_PICKUP: ["PICKED_UP", "CANCELLED", "EXPIRED"],
+    PICKED_UP: [],
+    CANCELLED: [],
+    EXPIRED: [],
+};
+
 export interface InvoiceInterface {
     /**@IsInt */
     id?: number;
     date: Date;
     total: number;
+    discount?: number;
     /**@IsInt */
     userId: number;
+    status?: InvoiceStatus;
+    pickupCode?: string | null;
+    /**
+     * When the invoice was emailed to the customer
+     */
+    emailedAt?: Date | null;
+    /**
+     * Why the invoice email failed, null when it was sent
+     */
+    emailError?: string | null;
 }
 
 @Injectable({ lifeTime: DependencyLifeTime.Transient })
@@ -14,5 +42,10 @@ export class Invoice implements InvoiceInterface {
     id? = 0;
     date: Date = undefined;
     total = 0;
+    discount? = 0;
     userId = 0;
+    status?: InvoiceStatus = "PENDING_PAYMENT";
+    pickupCode?: string | null = null;
+    emailedAt?: Date | null = null;
+    emailError?: string | null = null;
 }
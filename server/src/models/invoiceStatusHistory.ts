@@ -0,0 +1,31 @@
+import { DependencyLifeTime, Injectable } from "@miracledevs/paradigm-web-di";
+import { InvoiceStatus } from "./invoice";
+
+export interface InvoiceStatusHistoryInterface {
+    /**@IsInt */
+    id?: number;
+    /**@IsInt */
+    invoiceId: number;
+    fromStatus: InvoiceStatus | null;
+    toStatus: InvoiceStatus;
+    /**@IsInt */
+    userId: number | null;
+    note?: string;
+    createdAt?: Date;
+}
+
+export interface InvoiceStatusChangeInterface {
+    status: InvoiceStatus;
+    note?: string;
+}
+
+@Injectable({ lifeTime: DependencyLifeTime.Transient })
+export class InvoiceStatusHistory implements InvoiceStatusHistoryInterface {
+    id? = 0;
+    invoiceId = 0;
+    fromStatus: InvoiceStatus | null = null;
+    toStatus: InvoiceStatus = "PENDING_PAYMENT";
+    userId: number | null = null;
+    note? = "";
+    createdAt?: Date = undefined;
+}
@@ -1,10 +1,18 @@
 import { DependencyLifeTime, Injectable } from "@miracledevs/paradigm-web-di";
+import { InvoiceStatus } from "./invoice";
+import { ItemReturnType } from "./itemReturn";
+import { PaymentMethod } from "./payment";
 
 export interface InvoiceViewInterface {
     /**@IsInt */
     id?: number;
     date: Date;
     total: number;
+    discount: number;
+    tax: number;
+    status: InvoiceStatus;
+    pickupCode: string | null;
+    paymentMethod: PaymentMethod | null;
     name: string;
     lastName: string;
     email: string;
@@ -12,12 +20,53 @@ export interface InvoiceViewInterface {
     /**@IsInt */
     idDocumentNumber: number;
     products: {
+        /**@IsInt */
+        itemId: number;
         name: string;
+        /**@IsInt */
+        variantId: number | null;
+        sku: string | null;
+        size: string | null;
+        color: string | null;
         store: string;
         price: number;
         /**@IsInt */
         quantity: number;
         total: number;
+        /**@IsInt */
+        returned: number;
+        taxRate: number;
+        tax: number;
+    }[];
+    pickups: {
+        /**@IsInt */
+        storeId: number;
+        store: string;
+        startsAt: Date | null;
+        endsAt: Date | null;
+        pickedUpAt: Date | null;
+    }[];
+    creditNotes: {
+        /**@IsInt */
+        id: number;
+        date: Date;
+        total: number;
+        product: string;
+        /**@IsInt */
+        quantity: number;
+        type: ItemReturnType;
+    }[];
+    discounts: {
+        code: string | null;
+        description: string;
+        amount: number;
+    }[];
+    numbers: {
+        /**@IsInt */
+        storeId: number;
+        store: string;
+        /**@IsInt */
+        number: number;
     }[];
 }
 
@@ -26,6 +75,11 @@ export class InvoiceView implements InvoiceViewInterface {
     id? = 0;
     date: Date = undefined;
     total = 0;
+    discount = 0;
+    tax = 0;
+    status: InvoiceStatus = "PENDING_PAYMENT";
+    pickupCode: string | null = null;
+    paymentMethod: PaymentMethod | null = null;
     userId = 0;
     name = "";
     lastName = "";
@@ -34,11 +88,52 @@ export class InvoiceView implements InvoiceViewInterface {
     idDocumentNumber = 0;
     products = [
         {
+            itemId: 0,
             name: "",
+            variantId: null as number | null,
+            sku: null as string | null,
+            size: null as string | null,
+            color: null as string | null,
             store: "",
             price: 0,
             quantity: 0,
             total: 0,
+            returned: 0,
+            taxRate: 0,
+            tax: 0,
+        },
+    ];
+    pickups = [
+        {
+            storeId: 0,
+            store: "",
+            startsAt: null as Date | null,
+            endsAt: null as Date | null,
+            pickedUpAt: null as Date | null,
+        },
+    ];
+    creditNotes = [
+        {
+            id: 0,
+            date: undefined as Date,
+            total: 0,
+            product: "",
+            quantity: 0,
+            type: "RETURN" as ItemReturnType,
+        },
+    ];
+    discounts = [
+        {
+            code: null as string | null,
+            description: "",
+            amount: 0,
+        },
+    ];
+    numbers = [
+        {
+            storeId: 0,
+            store: "",
+            number: 0,
         },
     ];
 }
@@ -10,7 +10,13 @@ export interface ItemInterface {
     /**@IsInt */
     productId: number;
     /**@IsInt */
+    variantId?: number | null;
+    /**@IsInt */
     invoiceId: number;
+    /**@IsInt */
+    returnedQuantity?: number;
+    taxRate?: number;
+    taxAmount?: number;
 }
 
 @Injectable({ lifeTime: DependencyLifeTime.Transient })
@@ -20,5 +26,9 @@ export class Item implements ItemInterface {
     total = 0;
     unitPrice = 0;
     productId = 0;
+    variantId?: number | null = null;
     invoiceId = 0;
+    returnedQuantity? = 0;
+    taxRate? = 0;
+    taxAmount? = 0;
 }
@@ -0,0 +1,79 @@
+import { DependencyLifeTime, Injectable } from "@miracledevs/paradigm-web-di";
+
+/**
+ * Lines of orders that weren't picked up yet are cancelled, the rest are returned
+ */
+export type ItemReturnType = "RETURN" | "CANCELLATION";
+export type ItemReturnStatus = "REQUESTED" | "APPROVED" | "REJECTED";
+
+export interface ItemReturnInterface {
+    /**@IsInt */
+    id?: number;
+    /**@IsInt */
+    itemId: number;
+    type: ItemReturnType;
+    /**@IsInt */
+    quantity: number;
+    reason?: string | null;
+    status?: ItemReturnStatus;
+    /**@IsInt */
+    userId: number;
+    /**@IsInt */
+    reviewerId?: number | null;
+    reviewNote?: string | null;
+    createdAt?: Date;
+    reviewedAt?: Date | null;
+}
+
+export interface ItemReturnRequestInterface {
+    /**@IsInt */
+    itemId: number;
+    /**@IsInt */
+    quantity: number;
+    reason?: string;
+}
+
+export interface ItemReturnReviewInterface {
+    status: "APPROVED" | "REJECTED";
+    note?: string;
+}
+
+export interface ItemReturnViewInterface extends ItemReturnInterface {
+    /**@IsInt */
+    invoiceId: number;
+    /**@IsInt */
+    productId: number;
+    product: string;
+    /**@IsInt */
+    storeId: number;
+    store: string;
+    /**@IsInt */
+    creditNoteId: number | null;
+    creditTotal: number | null;
+}
+
+@Injectable({ lifeTime: DependencyLifeTime.Transient })
+export class ItemReturn implements ItemReturnInterface {
+    id? = 0;
+    itemId = 0;
+    type: ItemReturnType = "RETURN";
+    quantity = 0;
+    reason?: string | null = null;
+    status?: ItemReturnStatus = "REQUESTED";
+    userId = 0;
+    reviewerId?: number | null = null;
+    reviewNote?: string | null = null;
+    createdAt?: Date = undefined;
+    reviewedAt?: Date | null = null;
+}
+
+@Injectable({ lifeTime: DependencyLifeTime.Transient })
+export class ItemReturnView extends ItemReturn implements ItemReturnViewInterface {
+    invoiceId = 0;
+    productId = 0;
+    product = "";
+    storeId = 0;
+    store = "";
+    creditNoteId: number | null = null;
+    creditTotal: number | null = null;
+}
@@ -0,0 +1,53 @@
+import { DependencyLifeTime, Injectable } from "@miracledevs/paradigm-web-di";
+
+export type PaymentMethod = "CARD" | "CASH_ON_PICKUP";
+
+/**
+ * PENDING payments wait for the provider confirmation, or for the customer to pay at the store.
+ * Card payments are captured as soon as they are authorized.
+ */
+export type PaymentStatus = "PENDING" | "AUTHORIZED" | "CAPTURED" | "DECLINED" | "REFUNDED";
+
+export interface PaymentInterface {
+    /**@IsInt */
+    id?: number;
+    /**@IsInt */
+    invoiceId: number;
+    method: PaymentMethod;
+    provider: string;
+    reference: string;
+    amount: number;
+    refundedAmount?: number;
+    status: PaymentStatus;
+    createdAt?: Date;
+    updatedAt?: Date;
+}
+
+export interface PaymentRequestInterface {
+    method: PaymentMethod;
+    card?: {
+        number: string;
+        expiry: string;
+        cvv: string;
+    };
+}
+
+export interface PaymentWebhookInterface {
+    reference: string;
+    status: PaymentStatus;
+    signature: string;
+}
+
+@Injectable({ lifeTime: DependencyLifeTime.Transient })
+export class Payment implements PaymentInterface {
+    id? = 0;
+    invoiceId = 0;
+    method: PaymentMethod = "CARD";
+    provider = "";
+    reference = "";
+    amount = 0;
+    refundedAmount? = 0;
+    status: PaymentStatus = "PENDING";
+    createdAt?: Date = undefined;
+    updatedAt?: Date = undefined;
+}
@@ -0,0 +1,56 @@
+import { DependencyLifeTime, Injectable } from "@miracledevs/paradigm-web-di";
+
+export interface PickupSlotInterface {
+    /**@IsInt */
+    id?: number;
+    /**@IsInt */
+    storeId: number;
+    startsAt: Date;
+    endsAt: Date;
+    /**@IsInt */
+    capacity: number;
+}
+
+export interface PickupSlotAvailabilityInterface extends PickupSlotInterface {
+    /**@IsInt */
+    booked: number;
+}
+
+export interface InvoicePickupInterface {
+    /**@IsInt */
+    id?: number;
+    /**@IsInt */
+    invoiceId: number;
+    /**@IsInt */
+    storeId: number;
+    /**@IsInt */
+    pickupSlotId: number | null;
+    pickedUpAt?: Date | null;
+}
+
+export interface PickupCodeInterface {
+    code: string;
+}
+
+@Injectable({ lifeTime: DependencyLifeTime.Transient })
+export class PickupSlot implements PickupSlotInterface {
+    id? = 0;
+    storeId = 0;
+    startsAt: Date = undefined;
+    endsAt: Date = undefined;
+    capacity = 0;
+}
+
+@Injectable({ lifeTime: DependencyLifeTime.Transient })
+export class PickupSlotAvailability extends PickupSlot implements PickupSlotAvailabilityInterface {
+    booked = 0;
+}
+
+@Injectable({ lifeTime: DependencyLifeTime.Transient })
+export class InvoicePickup implements InvoicePickupInterface {
+    id? = 0;
+    invoiceId = 0;
+    storeId = 0;
+    pickupSlotId: number | null = null;
+    pickedUpAt?: Date | null = null;
+}
@@ -5,6 +5,7 @@ export class Brand {
     /** @IsInt */
     id? = 0;
     name = "";
+    url_logo?: string | null = null;
 }
 
 @Injectable({ lifeTime: DependencyLifeTime.Transient })
@@ -1,4 +1,5 @@
 import { DependencyLifeTime, Injectable } from "@miracledevs/paradigm-web-di";
+import { ProductVariantViewInterface } from "./productVariant";
 
 export interface ProductInterface {
     /** @IsInt */
@@ -6,17 +7,47 @@ export interface ProductInterface {
     name: string;
     description: string;
     price: number;
+    /**
+     * The discount the product is sold with, the best of its own discount and the running campaigns
+     */
     discountPercentage: number;
+    /**
+     * The discount set on the product, without the campaigns
+     */
+    regularDiscountPercentage?: number;
+    /**
+     * The campaign that sets the discount, null when the product is sold with its own discount
+     * @IsInt
+     */
+    campaignId?: number | null;
+    /**
+     * When the campaign that sets the discount ends
+     */
+    campaignEndsAt?: Date | null;
     /** @IsInt */
     currentStock: number;
     /** @IsInt */
     reorderPoint: number;
     /** @IsInt */
     minimum: number;
+    /**
+     * Units held in the carts until their reservation expires
+     * @IsInt
+     */
+    reservedStock?: number;
+    /**
+     * The current stock minus the reserved units
+     * @IsInt
+     */
+    availableStock?: number;
     /** @IsInt */
     storeId?: number;
     categories: string[];
     sizes: string[];
+    /**
+     * The variants the product is sold as, null when the product is sold as it is
+     */
+    variants?: ProductVariantViewInterface[] | null;
     brand: string;
     url_img: string;
     /** @IsInt */
@@ -46,6 +77,105 @@ export interface ProductForCreationInterface {
 export interface ProductSaleInterface extends ProductInterface {
     quantity: number;
     total?: number;
+    /**
+     * The variant chosen by the customer, required for the products with variants
+     * @IsInt
+     */
+    variantId?: number | null;
+}
+
+/**
+ * A product with the name of the store that sells it
+ */
+export interface StoreProductInterface extends ProductInterface {
+    store: string;
+}
+
+/**
+ * A product found by the search, with the store that sells it
+ */
+export interface ProductSearchResultInterface extends StoreProductInterface {
+    /**
+     * How well the product matches the search, the best results have the highest relevance
+     */
+    relevance: number;
+}
+
+/**
+ * The orders of the listings, the biggest discount first for "discount" and the last created products first for "newest"
+ */
+export type ProductSort = "price_asc" | "price_desc" | "discount" | "newest" | "name";
+
+/**
+ * The options of a listing. The products match any of the values of a list and all the lists,
+ * the price range is on the price the products are sold at.
+ */
+export interface ProductListingFilterInterface {
+    sizes: string[];
+    categories: string[];
+    brands: string[];
+    minPrice?: number | null;
+    maxPrice?: number | null;
+    sort?: ProductSort | null;
+}
+
+/**
+ * Where a page of a listing ends: the value of the sort and the id of its last product.
+ * It's sent to the clients encoded, so they can't build one, and only continues the listing of its sort.
+ */
+export interface ProductCursorInterface {
+    sort: ProductSort | "default";
+    value: string | number | null;
+    /** @IsInt */
+    id: number;
+}
+
+export interface FacetCountInterface {
+    value: string;
+    /** @IsInt */
+    count: number;
+}
+
+/**
+ * The products of a price range, from its min up to its max, without a max for the last range
+ */
+export interface PriceFacetCountInterface {
+    min: number;
+    max: number | null;
+    /** @IsInt */
+    count: number;
+}
+
+/**
+ * How many products each option of the filters would return. Each facet counts with the other filters applied,
+ * so the options of the filter that is set keep their counts.
+ */
+export interface ProductFacetsInterface {
+    categories: FacetCountInterface[];
+    sizes: FacetCountInterface[];
+    brands: FacetCountInterface[];
+    prices: PriceFacetCountInterface[];
+}
+
+/**
+ * A page of a listing. The total is only counted when it's asked for, the facets are only sent with the first page.
+ */
+export interface ProductListingInterface {
+    products: ProductInterface[];
+    pagination: {
+        /** @IsInt */
+        perPage: number;
+        /**
+         * The cursor of the next page, null on the last page
+         */
+        nextCursor: string | null;
+        hasNextPage: boolean;
+        /** @IsInt */
+        totalItems?: number;
+        /** @IsInt */
+        totalPages?: number;
+    };
+    facets?: ProductFacetsInterface;
 }
 
 @Injectable({ lifeTime: DependencyLifeTime.Transient })
@@ -55,17 +185,33 @@ export class Product implements ProductInterface {
     description = "";
     price = 0;
     discountPercentage = 0;
+    regularDiscountPercentage? = 0;
+    campaignId?: number | null = null;
+    campaignEndsAt?: Date | null = null;
     currentStock = 0;
     reorderPoint = 0;
     minimum = 0;
+    reservedStock? = 0;
+    availableStock? = 0;
     storeId? = 0;
     categories: string[] = [];
     sizes: string[] = [];
+    variants?: ProductVariantViewInterface[] | null = null;
     brand = "";
     url_img = "";
     status? = 1;
 }
 
+@Injectable({ lifeTime: DependencyLifeTime.Transient })
+export class StoreProduct extends Product implements StoreProductInterface {
+    store = "";
+}
+
+@Injectable({ lifeTime: DependencyLifeTime.Transient })
+export class ProductSearchResult extends StoreProduct implements ProductSearchResultInterface {
+    relevance = 0;
+}
+
 @Injectable({ lifeTime: DependencyLifeTime.Transient })
 export class ProductSale implements ProductInterface {
     id? = 0;
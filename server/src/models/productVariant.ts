@@ -0,0 +1,61 @@
+import { DependencyLifeTime, Injectable } from "@miracledevs/paradigm-web-di";
+
+/**
+ * A version of a product that is sold on its own, like a size or a color, with its own SKU and stock.
+ * The stock of a product with variants is the sum of the stock of its variants,
+ * the price of the product applies to the variants without a price of their own.
+ */
+export interface ProductVariantInterface {
+    /**@IsInt */
+    id?: number;
+    /**@IsInt */
+    productId: number;
+    /**@IsInt */
+    sizeId: number | null;
+    color: string | null;
+    sku: string;
+    /**@IsInt */
+    currentStock: number;
+    price: number | null;
+    /**@IsInt */
+    status?: number;
+}
+
+export interface ProductVariantViewInterface {
+    /**@IsInt */
+    id: number;
+    sku: string;
+    size: string | null;
+    color: string | null;
+    price: number | null;
+    /**@IsInt */
+    currentStock: number;
+    /**@IsInt */
+    status: number;
+}
+
+/**
+ * The variant as the managers create and update it, the size is given by its name
+ */
+export interface ProductVariantForCreationInterface {
+    size?: string | null;
+    color?: string | null;
+    sku: string;
+    /**@IsInt */
+    currentStock: number;
+    price?: number | null;
+    /**@IsInt */
+    status?: number;
+}
+
+@Injectable({ lifeTime: DependencyLifeTime.Transient })
+export class ProductVariant implements ProductVariantInterface {
+    id? = 0;
+    productId = 0;
+    sizeId: number | null = null;
+    color: string | null = null;
+    sku = "";
+    currentStock = 0;
+    price: number | null = null;
+    status? = 1;
+}
@@ -0,0 +1,108 @@
+import { DependencyLifeTime, Injectable } from "@miracledevs/paradigm-web-di";
+
+/**
+ * CREATE is the product as it was created, UPDATE an edit of the product, DISABLE its removal from the store,
+ * REVERT an edit that brought back the fields of an older version.
+ */
+export type ProductVersionAction = "CREATE" | "UPDATE" | "DISABLE" | "REVERT";
+
+/**
+ * A snapshot of the fields of a product after a change, the versions of a product are numbered from 1.
+ * The stock isn't part of the snapshot, its changes are kept in the stock ledger.
+ */
+export interface ProductVersionInterface {
+    /**@IsInt */
+    id?: number;
+    /**@IsInt */
+    productId: number;
+    /**@IsInt */
+    version: number;
+    action: ProductVersionAction;
+    name: string;
+    description: string;
+    price: number;
+    discountPercentage: number;
+    /**@IsInt */
+    reorderPoint: number;
+    /**@IsInt */
+    minimum: number;
+    brand: string;
+    /**
+     * The brand of the product, null when the brand was deleted or merged into another one
+     * @IsInt
+     */
+    brandId: number | null;
+    categories: string[];
+    sizes: string[];
+    url_img: string;
+    /**@IsInt */
+    status: number;
+    /**
+     * The version brought back by a REVERT
+     * @IsInt
+     */
+    revertedVersion: number | null;
+    /**@IsInt */
+    userId: number | null;
+    createdAt?: Date;
+}
+
+export interface ProductVersionViewInterface extends ProductVersionInterface {
+    user: string | null;
+}
+
+export interface ProductVersionChangeInterface {
+    field: string;
+    from: unknown;
+    to: unknown;
+}
+
+export interface ProductVersionDiffInterface {
+    /**@IsInt */
+    productId: number;
+    /**@IsInt */
+    from: number;
+    /**@IsInt */
+    to: number;
+    changes: ProductVersionChangeInterface[];
+}
+
+/**
+ * The price of a product from a date, until the next point of its history
+ */
+export interface PriceHistoryPointInterface {
+    /**@IsInt */
+    version: number;
+    price: number;
+    discountPercentage: number;
+    finalPrice: number;
+    date: Date;
+}
+
+@Injectable({ lifeTime: DependencyLifeTime.Transient })
+export class ProductVersion implements ProductVersionInterface {
+    id? = 0;
+    productId = 0;
+    version = 0;
+    action: ProductVersionAction = "UPDATE";
+    name = "";
+    description = "";
+    price = 0;
+    discountPercentage = 1;
+    reorderPoint = 0;
+    minimum = 0;
+    brand = "";
+    brandId: number | null = null;
+    categories: string[] = [];
+    sizes: string[] = [];
+    url_img = "";
+    status = 1;
+    revertedVersion: number | null = null;
+    userId: number | null = null;
+    createdAt?: Date = undefined;
+}
+
+@Injectable({ lifeTime: DependencyLifeTime.Transient })
+export class ProductVersionView extends ProductVersion implements ProductVersionViewInterface {
+    user: string | null = null;
+}
@@ -0,0 +1,108 @@
+import { DependencyLifeTime, Injectable } from "@miracledevs/paradigm-web-di";
+
+/**
+ * PERCENTAGE takes the value as a percentage off, FIXED_AMOUNT as an amount off,
+ * BUY_X_GET_Y gives getQuantity units for free every buyQuantity + getQuantity units of a product.
+ */
+export type PromotionType = "PERCENTAGE" | "FIXED_AMOUNT" | "BUY_X_GET_Y";
+
+/**
+ * Promotions without a code are applied to every order they match, the ones with a code only when the coupon is used.
+ * The store, category and brand limit the products the promotion applies to.
+ */
+export interface PromotionInterface {
+    /**@IsInt */
+    id?: number;
+    name: string;
+    code: string | null;
+    type: PromotionType;
+    value: number;
+    /**@IsInt */
+    buyQuantity: number | null;
+    /**@IsInt */
+    getQuantity: number | null;
+    minimumTotal: number | null;
+    /**@IsInt */
+    storeId: number | null;
+    /**@IsInt */
+    categoryId: number | null;
+    /**@IsInt */
+    brandId: number | null;
+    /**@IsInt */
+    usageLimit: number | null;
+    /**@IsInt */
+    usageCount?: number;
+    startsAt: Date | null;
+    endsAt: Date | null;
+    /**@IsInt */
+    status?: number;
+}
+
+export interface PromotionViewInterface extends PromotionInterface {
+    store: string | null;
+    category: string | null;
+    brand: string | null;
+}
+
+export interface AppliedDiscountInterface {
+    /**@IsInt */
+    promotionId: number;
+    code: string | null;
+    description: string;
+    amount: number;
+}
+
+export interface InvoiceDiscountInterface {
+    /**@IsInt */
+    id?: number;
+    /**@IsInt */
+    invoiceId: number;
+    /**@IsInt */
+    promotionId: number | null;
+    code: string | null;
+    description: string;
+    amount: number;
+}
+
+export interface PromotionQuoteInterface {
+    subtotal: number;
+    discounts: AppliedDiscountInterface[];
+    total: number;
+}
+
+@Injectable({ lifeTime: DependencyLifeTime.Transient })
+export class Promotion implements PromotionInterface {
+    id? = 0;
+    name = "";
+    code: string | null = null;
+    type: PromotionType = "PERCENTAGE";
+    value = 0;
+    buyQuantity: number | null = null;
+    getQuantity: number | null = null;
+    minimumTotal: number | null = null;
+    storeId: number | null = null;
+    categoryId: number | null = null;
+    brandId: number | null = null;
+    usageLimit: number | null = null;
+    usageCount? = 0;
+    startsAt: Date | null = null;
+    endsAt: Date | null = null;
+    status? = 1;
+}
+
+@Injectable({ lifeTime: DependencyLifeTime.Transient })
+export class PromotionView extends Promotion implements PromotionViewInterface {
+    store: string | null = null;
+    category: string | null = null;
+    brand: string | null = null;
+}
+
+@Injectable({ lifeTime: DependencyLifeTime.Transient })
+export class InvoiceDiscount implements InvoiceDiscountInterface {
+    id? = 0;
+    invoiceId = 0;
+    promotionId: number | null = null;
+    code: string | null = null;
+    description = "";
+    amount = 0;
+}
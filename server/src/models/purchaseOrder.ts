@@ -0,0 +1,145 @@
+import { DependencyLifeTime, Injectable } from "@miracledevs/paradigm-web-di";
+
+/**
+ * Orders are edited while they are a DRAFT, once SENT to the supplier their units are received,
+ * in one or more deliveries, until every line is RECEIVED.
+ */
+export type PurchaseOrderStatus = "DRAFT" | "SENT" | "PARTIALLY_RECEIVED" | "RECEIVED";
+
+export interface PurchaseOrderInterface {
+    /**@IsInt */
+    id?: number;
+    /**@IsInt */
+    storeId: number;
+    /**@IsInt */
+    supplierId: number;
+    status?: PurchaseOrderStatus;
+    note?: string | null;
+    /**@IsInt */
+    userId: number | null;
+    createdAt?: Date;
+    sentAt?: Date | null;
+    receivedAt?: Date | null;
+}
+
+/**
+ * The units of a product ordered to the supplier, the products with variants are ordered by variant
+ */
+export interface PurchaseOrderLineInterface {
+    /**@IsInt */
+    id?: number;
+    /**@IsInt */
+    purchaseOrderId?: number;
+    /**@IsInt */
+    productId: number;
+    /**@IsInt */
+    variantId?: number | null;
+    /**@IsInt */
+    quantity: number;
+    /**@IsInt */
+    receivedQuantity?: number;
+    unitCost?: number | null;
+}
+
+/**
+ * The order as the managers create and update it
+ */
+export interface PurchaseOrderForCreationInterface {
+    /**@IsInt */
+    supplierId: number;
+    note?: string | null;
+    lines: PurchaseOrderLineInterface[];
+}
+
+/**
+ * The options of a suggested order, the products are ordered up to the target level,
+ * twice their reorder point when it isn't given
+ */
+export interface PurchaseOrderSuggestionInterface {
+    /**@IsInt */
+    supplierId: number;
+    /**@IsInt */
+    targetLevel?: number;
+}
+
+/**
+ * The units received of each line, every pending unit is received when the lines aren't given
+ */
+export interface PurchaseOrderReceiptInterface {
+    lines?: {
+        /**@IsInt */
+        lineId: number;
+        /**@IsInt */
+        quantity: number;
+    }[];
+}
+
+export interface PurchaseOrderViewInterface extends PurchaseOrderInterface {
+    store: string;
+    supplier: string;
+    supplierEmail: string;
+    total: number;
+    lines: {
+        /**@IsInt */
+        id: number;
+        /**@IsInt */
+        productId: number;
+        name: string;
+        /**@IsInt */
+        variantId: number | null;
+        sku: string | null;
+        size: string | null;
+        color: string | null;
+        /**@IsInt */
+        quantity: number;
+        /**@IsInt */
+        receivedQuantity: number;
+        unitCost: number | null;
+    }[];
+}
+
+@Injectable({ lifeTime: DependencyLifeTime.Transient })
+export class PurchaseOrder implements PurchaseOrderInterface {
+    id? = 0;
+    storeId = 0;
+    supplierId = 0;
+    status?: PurchaseOrderStatus = "DRAFT";
+    note?: string | null = null;
+    userId: number | null = null;
+    createdAt?: Date = undefined;
+    sentAt?: Date | null = null;
+    receivedAt?: Date | null = null;
+}
+
+@Injectable({ lifeTime: DependencyLifeTime.Transient })
+export class PurchaseOrderLine implements PurchaseOrderLineInterface {
+    id? = 0;
+    purchaseOrderId? = 0;
+    productId = 0;
+    variantId?: number | null = null;
+    quantity = 0;
+    receivedQuantity? = 0;
+    unitCost?: number | null = null;
+}
+
+@Injectable({ lifeTime: DependencyLifeTime.Transient })
+export class PurchaseOrderView extends PurchaseOrder implements PurchaseOrderViewInterface {
+    store = "";
+    supplier = "";
+    supplierEmail = "";
+    total = 0;
+    lines = [
+        {
+            id: 0,
+            productId: 0,
+            name: "",
+            variantId: null as number | null,
+            sku: null as string | null,
+            size: null as string | null,
+            color: null as string | null,
+            quantity: 0,
+            receivedQuantity: 0,
+            unitCost: null as number | null,
+        },
+    ];
+}
@@ -0,0 +1,13 @@
+import Joi from "joi";
+
+export const brandSchema = Joi.object({
+    name: Joi.string().trim().max(255).required().messages({
+        "any.required": "name is a required field",
+    }),
+});
+
+export const brandMergeSchema = Joi.object({
+    targetId: Joi.number().integer().min(1).required().messages({
+        "any.required": "targetId is a required field",
+    }),
+});
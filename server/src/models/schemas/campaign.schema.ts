@@ -0,0 +1,28 @@
+import Joi from "joi";
+
+export const campaignSchema = Joi.object({
+    name: Joi.string().trim().max(255).required().messages({
+        "any.required": "name is a required field",
+    }),
+    discountPercentage: Joi.number().greater(0).less(1).required().messages({
+        "number.greater": "Invalid discount percentage, it must be greater than 0",
+        "number.less": "Invalid discount percentage, it must be less than 1",
+        "any.required": "Discount percentage is a required field",
+    }),
+    productIds: Joi.array().items(Joi.number().integer().min(1)).min(1).unique().optional(),
+    categoryId: Joi.number().integer().min(1).optional(),
+    brandId: Joi.number().integer().min(1).optional(),
+    startsAt: Joi.date().required().messages({
+        "any.required": "startsAt is a required field",
+    }),
+    endsAt: Joi.date().greater(Joi.ref("startsAt")).required().messages({
+        "date.greater": "The campaign must end after it starts",
+        "any.required": "endsAt is a required field",
+    }),
+    status: Joi.number().valid(0, 1).optional(),
+})
+    .xor("productIds", "categoryId", "brandId")
+    .messages({
+        "object.missing": "The campaign must have products, a category or a brand",
+        "object.xor": "The campaign must have only one of products, a category or a brand",
+    });
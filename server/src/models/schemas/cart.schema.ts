@@ -0,0 +1,14 @@
+import Joi from "joi";
+
+export const cartLineSchema = Joi.object({
+    productId: Joi.number().integer().required().messages({
+        "any.required": "productId is a required field",
+    }),
+    variantId: Joi.number().integer().allow(null).optional(),
+    quantity: Joi.number().integer().min(1).required().messages({
+        "number.min": "Invalid quantity, it must be greater than 0",
+        "any.required": "quantity is a required field",
+    }),
+});
+
+export const cartLineArray = Joi.array().items(cartLineSchema);
@@ -0,0 +1,24 @@
+import Joi from "joi";
+
+export const stockTakeSchema = Joi.object({
+    countedStock: Joi.number().integer().min(0).required().messages({
+        "number.min": "Invalid counted stock, it must be greater than or equal to 0",
+        "any.required": "countedStock is a required field",
+    }),
+    note: Joi.string().trim().max(255).optional(),
+});
+
+export const stockTransferSchema = Joi.object({
+    fromProductId: Joi.number().integer().min(1).required().messages({
+        "any.required": "fromProductId is a required field",
+    }),
+    toProductId: Joi.number().integer().min(1).required().invalid(Joi.ref("fromProductId")).messages({
+        "any.invalid": "The products of a transfer must be different",
+        "any.required": "toProductId is a required field",
+    }),
+    quantity: Joi.number().integer().min(1).required().messages({
+        "number.min": "Invalid quantity, it must be greater than 0",
+        "any.required": "quantity is a required field",
+    }),
+    note: Joi.string().trim().max(255).optional(),
+});
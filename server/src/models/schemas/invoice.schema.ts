@@ -0,0 +1,9 @@
+import Joi from "joi";
+
+export const invoiceStatusSchema = Joi.object({
+    status: Joi.string().valid("PENDING_PAYMENT", "PAID", "READY_FOR_PICKUP", "PICKED_UP", "CANCELLED", "EXPIRED").required().messages({
+        "any.only": "Invalid status",
+        "any.required": "status is a required field",
+    }),
+    note: Joi.string().max(255).optional(),
+});
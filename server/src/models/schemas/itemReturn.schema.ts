@@ -0,0 +1,20 @@
+import Joi from "joi";
+
+export const itemReturnRequestSchema = Joi.object({
+    itemId: Joi.number().integer().required().messages({
+        "any.required": "itemId is a required field",
+    }),
+    quantity: Joi.number().integer().min(1).required().messages({
+        "number.min": "Invalid quantity, it must be greater than 0",
+        "any.required": "quantity is a required field",
+    }),
+    reason: Joi.string().max(255).optional(),
+});
+
+export const itemReturnReviewSchema = Joi.object({
+    status: Joi.string().valid("APPROVED", "REJECTED").required().messages({
+        "any.only": "Invalid status",
+        "any.required": "status is a required field",
+    }),
+    note: Joi.string().max(255).optional(),
+});
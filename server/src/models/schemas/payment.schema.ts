@@ -0,0 +1,28 @@
+import Joi from "joi";
+
+export const paymentRequestSchema = Joi.object({
+    method: Joi.string().valid("CARD", "CASH_ON_PICKUP").required().messages({
+        "any.only": "Invalid payment method",
+        "any.required": "method is a required field",
+    }),
+    card: Joi.when("method", {
+        is: "CARD",
+        then: Joi.object({
+            number: Joi.string()
+                .pattern(/^[0-9]{12,19}$/)
+                .required()
+                .messages({ "string.pattern.base": "Invalid card number" }),
+            expiry: Joi.string()
+                .pattern(/^[0-9]{4}-[0-9]{2}$/)
+                .required()
+                .messages({ "string.pattern.base": "Invalid card expiry" }),
+            cvv: Joi.string()
+                .pattern(/^[0-9]{3,4}$/)
+                .required()
+                .messages({ "string.pattern.base": "Invalid card cvv" }),
+        })
+            .required()
+            .messages({ "any.required": "card is a required field" }),
+        otherwise: Joi.forbidden(),
+    }),
+});
@@ -0,0 +1,23 @@
+import Joi from "joi";
+
+export const pickupSlotSchema = Joi.object({
+    startsAt: Joi.date().greater("now").required().messages({
+        "date.greater": "The slot must start in the future",
+        "any.required": "startsAt is a required field",
+    }),
+    endsAt: Joi.date().greater(Joi.ref("startsAt")).required().messages({
+        "date.greater": "The slot must end after it starts",
+        "any.required": "endsAt is a required field",
+    }),
+    capacity: Joi.number().integer().min(1).required().messages({
+        "number.min": "Invalid capacity, it must be greater than 0",
+        "any.required": "capacity is a required field",
+    }),
+});
+
+export const pickupCodeSchema = Joi.object({
+    code: Joi.string().trim().length(6).required().messages({
+        "string.length": "Invalid pickup code",
+        "any.required": "code is a required field",
+    }),
+});
@@ -44,11 +44,22 @@ export const productSchema = Joi.object({
     url_img: Joi.string().optional(),
     storeId: Joi.number().optional(),
     status: Joi.number().optional(),
+    reservedStock: Joi.number().optional(),
+    availableStock: Joi.number().optional(),
+    regularDiscountPercentage: Joi.number().optional(),
+    campaignId: Joi.number().allow(null).optional(),
+    campaignEndsAt: Joi.date().allow(null).optional(),
+    variants: Joi.array().items(Joi.object().unknown()).allow(null).optional(),
 });
 
 const productSaleSchema = productSchema.keys({
     quantity: Joi.number().required(),
     total: Joi.number().optional(),
+    reservedUntil: Joi.date().allow(null).optional(),
+    variantId: Joi.number().integer().allow(null).optional(),
+    sku: Joi.string().allow(null).optional(),
+    size: Joi.string().allow(null).optional(),
+    color: Joi.string().allow(null).optional(),
 });
 
 export const productSaleArray = Joi.array().items(productSaleSchema);
@@ -101,3 +112,53 @@ export const productForCreation = Joi.object({
     storeId: Joi.number().optional(),
     status: Joi.number().optional(),
 });
+
+export const productVariantSchema = Joi.object({
+    size: Joi.string().trim().max(50).allow(null).optional(),
+    color: Joi.string().trim().max(50).allow(null).optional(),
+    sku: Joi.string().trim().min(1).max(64).required().messages({
+        "any.required": "sku is a required field",
+    }),
+    currentStock: Joi.number().integer().min(0).required().messages({
+        "number.min": "Invalid current stock, it must be greater than or equal to 0",
+        "any.required": "currentStock is a required field",
+    }),
+    price: Joi.number().positive().allow(null).optional().messages({
+        "number.positive": "Invalid price, it must be positive number",
+    }),
+    status: Joi.number().valid(0, 1).optional(),
+});
+
+const listValue = Joi.alternatives().try(Joi.string(), Joi.array().items(Joi.string()));
+
+export const productListingQuery = Joi.object({
+    cursor: Joi.string().optional(),
+    total: Joi.boolean().optional(),
+    per_page: Joi.number().integer().min(1).max(100).optional(),
+    size: listValue.optional(),
+    category: listValue.optional(),
+    brand: listValue.optional(),
+    min_price: Joi.number().min(0).optional().messages({
+        "number.min": "Invalid min_price, it must be greater than or equal to 0",
+    }),
+    max_price: Joi.number()
+        .min(0)
+        .when("min_price", { is: Joi.exist(), then: Joi.number().min(Joi.ref("min_price")) })
+        .optional()
+        .messages({
+            "number.min": "Invalid max_price, it must be greater than or equal to 0 and to min_price",
+        }),
+    sort: Joi.string().valid("price_asc", "price_desc", "discount", "newest", "name").optional(),
+}).unknown();
+
+export const productSearchQuery = Joi.object({
+    q: Joi.string().trim().required().messages({
+        "any.required": "The search text is required",
+        "string.empty": "The search text is required",
+        "string.base": "Invalid q, it must be a text",
+    }),
+    page: Joi.number().integer().min(1).optional().messages({
+        "number.min": "Invalid page, it must be greater than or equal to 1",
+    }),
+    per_page: Joi.number().integer().min(1).max(100).optional(),
+}).unknown();
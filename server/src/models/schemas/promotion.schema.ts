@@ -0,0 +1,53 @@
+import Joi from "joi";
+
+const id = Joi.number().integer().min(1).allow(null);
+
+export const promotionSchema = Joi.object({
+    name: Joi.string().trim().max(255).required().messages({
+        "any.required": "name is a required field",
+    }),
+    code: Joi.string()
+        .pattern(/^[A-Za-z0-9_-]{3,50}$/)
+        .allow(null)
+        .messages({ "string.pattern.base": "Invalid coupon code" }),
+    type: Joi.string().valid("PERCENTAGE", "FIXED_AMOUNT", "BUY_X_GET_Y").required().messages({
+        "any.only": "Invalid promotion type",
+        "any.required": "type is a required field",
+    }),
+    value: Joi.when("type", {
+        switch: [
+            { is: "PERCENTAGE", then: Joi.number().greater(0).max(100).required() },
+            { is: "FIXED_AMOUNT", then: Joi.number().greater(0).required() },
+        ],
+        otherwise: Joi.number().valid(0),
+    }).messages({
+        "number.greater": "Invalid value, it must be greater than 0",
+        "number.max": "Invalid value, a percentage can't be greater than 100",
+        "any.required": "value is a required field",
+    }),
+    buyQuantity: Joi.when("type", {
+        is: "BUY_X_GET_Y",
+        then: Joi.number().integer().min(1).required(),
+        otherwise: Joi.valid(null),
+    }).messages({ "any.required": "buyQuantity is a required field" }),
+    getQuantity: Joi.when("type", {
+        is: "BUY_X_GET_Y",
+        then: Joi.number().integer().min(1).required(),
+        otherwise: Joi.valid(null),
+    }).messages({ "any.required": "getQuantity is a required field" }),
+    minimumTotal: Joi.number().min(0).allow(null),
+    storeId: id,
+    categoryId: id,
+    brandId: id,
+    usageLimit: Joi.number().integer().min(1).allow(null).messages({
+        "number.min": "Invalid usage limit, it must be greater than 0",
+    }),
+    startsAt: Joi.date().allow(null),
+    endsAt: Joi.when("startsAt", {
+        is: Joi.date().required(),
+        then: Joi.date().greater(Joi.ref("startsAt")),
+        otherwise: Joi.date(),
+    })
+        .allow(null)
+        .messages({ "date.greater": "The promotion must end after it starts" }),
+});
@@ -0,0 +1,47 @@
+import Joi from "joi";
+
+const supplierId = Joi.number().integer().min(1).required().messages({
+    "any.required": "supplierId is a required field",
+});
+
+const quantity = Joi.number().integer().min(1).required().messages({
+    "number.min": "Invalid quantity, it must be greater than 0",
+    "any.required": "quantity is a required field",
+});
+
+export const purchaseOrderLineSchema = Joi.object({
+    productId: Joi.number().integer().min(1).required().messages({
+        "any.required": "productId is a required field",
+    }),
+    variantId: Joi.number().integer().min(1).allow(null).optional(),
+    quantity,
+    unitCost: Joi.number().min(0).allow(null).optional(),
+});
+
+export const purchaseOrderSchema = Joi.object({
+    supplierId,
+    note: Joi.string().trim().max(255).allow(null).optional(),
+    lines: Joi.array().items(purchaseOrderLineSchema).min(1).required().messages({
+        "array.min": "The order must have at least one line",
+        "any.required": "lines is a required field",
+    }),
+});
+
+export const purchaseOrderSuggestionSchema = Joi.object({
+    supplierId,
+    targetLevel: Joi.number().integer().min(1).optional(),
+});
+
+export const purchaseOrderReceiptSchema = Joi.object({
+    lines: Joi.array()
+        .items(
+            Joi.object({
+                lineId: Joi.number().integer().min(1).required().messages({
+                    "any.required": "lineId is a required field",
+                }),
+                quantity,
+            })
+        )
+        .min(1)
+        .optional(),
+});
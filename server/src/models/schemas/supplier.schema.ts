@@ -0,0 +1,13 @@
+import Joi from "joi";
+
+export const supplierSchema = Joi.object({
+    name: Joi.string().trim().max(255).required().messages({
+        "any.required": "name is a required field",
+    }),
+    email: Joi.string().email().max(255).required().messages({
+        "string.email": "Invalid email",
+        "any.required": "email is a required field",
+    }),
+    phone: Joi.string().trim().max(50).allow(null).optional(),
+    status: Joi.number().valid(0, 1).optional(),
+});
@@ -0,0 +1,14 @@
+import Joi from "joi";
+
+export const taxRateSchema = Joi.object({
+    name: Joi.string().trim().max(255).required().messages({
+        "any.required": "name is a required field",
+    }),
+    rate: Joi.number().min(0).max(100).required().messages({
+        "number.min": "Invalid rate, it must be between 0 and 100",
+        "number.max": "Invalid rate, it must be between 0 and 100",
+        "any.required": "rate is a required field",
+    }),
+    storeId: Joi.number().integer().min(1).allow(null),
+    categoryId: Joi.number().integer().min(1).allow(null),
+});
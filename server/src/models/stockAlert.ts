@@ -0,0 +1,74 @@
+import { DependencyLifeTime, Injectable } from "@miracledevs/paradigm-web-di";
+
+/**
+ * REORDER when the stock is at or below the reorder point of the product,
+ * MINIMUM when it fell below the minimum, which escalates an open REORDER alert.
+ */
+export type StockAlertLevel = "REORDER" | "MINIMUM";
+
+export type StockAlertStatus = "OPEN" | "RESOLVED";
+
+/**
+ * A product running out of stock. Each product has at most one open alert,
+ * it's resolved once the stock goes back above the reorder point.
+ */
+export interface StockAlertInterface {
+    /**@IsInt */
+    id?: number;
+    /**@IsInt */
+    productId: number;
+    /**@IsInt */
+    storeId: number;
+    level: StockAlertLevel;
+    /**@IsInt */
+    stock: number;
+    status?: StockAlertStatus;
+    createdAt?: Date;
+    escalatedAt?: Date | null;
+    resolvedAt?: Date | null;
+    /**
+     * When the manager was last emailed about the alert
+     */
+    notifiedAt?: Date | null;
+    /**
+     * Why the last email about the alert failed, null when it was sent
+     */
+    notificationError?: string | null;
+}
+
+export interface StockAlertViewInterface extends StockAlertInterface {
+    product: string;
+    store: string;
+    managerEmail: string | null;
+    /**@IsInt */
+    currentStock: number;
+    /**@IsInt */
+    reorderPoint: number;
+    /**@IsInt */
+    minimum: number;
+}
+
+@Injectable({ lifeTime: DependencyLifeTime.Transient })
+export class StockAlert implements StockAlertInterface {
+    id? = 0;
+    productId = 0;
+    storeId = 0;
+    level: StockAlertLevel = "REORDER";
+    stock = 0;
+    status?: StockAlertStatus = "OPEN";
+    createdAt?: Date = undefined;
+    escalatedAt?: Date | null = null;
+    resolvedAt?: Date | null = null;
+    notifiedAt?: Date | null = null;
+    notificationError?: string | null = null;
+}
+
+@Injectable({ lifeTime: DependencyLifeTime.Transient })
+export class StockAlertView extends StockAlert implements StockAlertViewInterface {
+    product = "";
+    store = "";
+    managerEmail: string | null = null;
+    currentStock = 0;
+    reorderPoint = 0;
+    minimum = 0;
+}
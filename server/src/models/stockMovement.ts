@@ -0,0 +1,90 @@
+import { DependencyLifeTime, Injectable } from "@miracledevs/paradigm-web-di";
+
+/**
+ * INITIAL is the stock a product is created with, SALE and RETURN the units sold and put back by orders,
+ * ADJUSTMENT a manual edit of the stock, STOCK_TAKE the difference found counting the units,
+ * TRANSFER the units moved between the products of two stores, PURCHASE the units received from a supplier.
+ */
+export type StockMovementReason = "INITIAL" | "SALE" | "RETURN" | "ADJUSTMENT" | "STOCK_TAKE" | "TRANSFER" | "PURCHASE";
+
+/**
+ * An entry of the stock ledger, the ledger is append-only and the sum of the quantities
+ * of a product has to match its current stock.
+ */
+export interface StockMovementInterface {
+    /**@IsInt */
+    id?: number;
+    /**@IsInt */
+    productId: number;
+    /**@IsInt */
+    quantity: number;
+    /**@IsInt */
+    balance: number;
+    reason: StockMovementReason;
+    /**@IsInt */
+    userId: number | null;
+    reference: string | null;
+    note: string | null;
+    createdAt?: Date;
+}
+
+export interface StockMovementViewInterface extends StockMovementInterface {
+    user: string | null;
+}
+
+/**
+ * Who moved the stock and the document that moved it, like invoice:12, return:3 or purchase-order:5
+ */
+export interface StockMovementSourceInterface {
+    /**@IsInt */
+    userId: number | null;
+    reference?: string | null;
+    note?: string | null;
+}
+
+export interface StockTakeInterface {
+    /**@IsInt */
+    countedStock: number;
+    note?: string;
+}
+
+export interface StockTransferInterface {
+    /**@IsInt */
+    fromProductId: number;
+    /**@IsInt */
+    toProductId: number;
+    /**@IsInt */
+    quantity: number;
+    note?: string;
+}
+
+/**
+ * A product whose stock doesn't match the sum of its movements
+ */
+export interface StockMismatchInterface {
+    /**@IsInt */
+    productId: number;
+    name: string;
+    /**@IsInt */
+    currentStock: number;
+    /**@IsInt */
+    ledgerStock: number;
+}
+
+@Injectable({ lifeTime: DependencyLifeTime.Transient })
+export class StockMovement implements StockMovementInterface {
+    id? = 0;
+    productId = 0;
+    quantity = 0;
+    balance = 0;
+    reason: StockMovementReason = "ADJUSTMENT";
+    userId: number | null = null;
+    reference: string | null = null;
+    note: string | null = null;
+    createdAt?: Date = undefined;
+}
+
+@Injectable({ lifeTime: DependencyLifeTime.Transient })
+export class StockMovementView extends StockMovement implements StockMovementViewInterface {
+    user: string | null = null;
+}
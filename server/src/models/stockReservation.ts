@@ -0,0 +1,31 @@
+import { DependencyLifeTime, Injectable } from "@miracledevs/paradigm-web-di";
+
+/**
+ * Units of a product, or of one of its variants, held for the cart of a user until they expire.
+ * Each user holds at most one reservation per cart line, with the quantity of the line.
+ */
+export interface StockReservationInterface {
+    /**@IsInt */
+    id?: number;
+    /**@IsInt */
+    userId: number;
+    /**@IsInt */
+    productId: number;
+    /**@IsInt */
+    variantId?: number | null;
+    /**@IsInt */
+    quantity: number;
+    expiresAt: Date;
+    createdAt?: Date;
+}
+
+@Injectable({ lifeTime: DependencyLifeTime.Transient })
+export class StockReservation implements StockReservationInterface {
+    id? = 0;
+    userId = 0;
+    productId = 0;
+    variantId?: number | null = null;
+    quantity = 0;
+    expiresAt = new Date();
+    createdAt? = new Date();
+}
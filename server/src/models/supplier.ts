@@ -0,0 +1,28 @@
+import { DependencyLifeTime, Injectable } from "@miracledevs/paradigm-web-di";
+
+/**
+ * A supplier of a store, the purchase orders of the store are sent to its email
+ */
+export interface SupplierInterface {
+    /**@IsInt */
+    id?: number;
+    /**@IsInt */
+    storeId?: number;
+    name: string;
+    email: string;
+    phone?: string | null;
+    /**@IsInt */
+    status?: number;
+    createdAt?: Date;
+}
+
+@Injectable({ lifeTime: DependencyLifeTime.Transient })
+export class Supplier implements SupplierInterface {
+    id? = 0;
+    storeId? = 0;
+    name = "";
+    email = "";
+    phone?: string | null = null;
+    status? = 1;
+    createdAt?: Date = undefined;
+}
@@ -0,0 +1,60 @@
+import { DependencyLifeTime, Injectable } from "@miracledevs/paradigm-web-di";
+
+/**
+ * A tax rate, as a percentage included in the prices.
+ * The most specific rate applies to each product: the one of its store and category,
+ * then the one of its category, the one of its store and the rate without store nor category.
+ */
+export interface TaxRateInterface {
+    /**@IsInt */
+    id?: number;
+    name: string;
+    rate: number;
+    /**@IsInt */
+    storeId: number | null;
+    /**@IsInt */
+    categoryId: number | null;
+    /**@IsInt */
+    status?: number;
+}
+
+export interface TaxRateViewInterface extends TaxRateInterface {
+    category: string | null;
+}
+
+/**
+ * The fiscal number of the part of an invoice sold by a store
+ */
+export interface InvoiceNumberInterface {
+    /**@IsInt */
+    id?: number;
+    /**@IsInt */
+    invoiceId: number;
+    /**@IsInt */
+    storeId: number;
+    /**@IsInt */
+    number: number;
+}
+
+@Injectable({ lifeTime: DependencyLifeTime.Transient })
+export class TaxRate implements TaxRateInterface {
+    id? = 0;
+    name = "";
+    rate = 0;
+    storeId: number | null = null;
+    categoryId: number | null = null;
+    status? = 1;
+}
+
+@Injectable({ lifeTime: DependencyLifeTime.Transient })
+export class TaxRateView extends TaxRate implements TaxRateViewInterface {
+    category: string | null = null;
+}
+
+@Injectable({ lifeTime: DependencyLifeTime.Transient })
+export class InvoiceNumber implements InvoiceNumberInterface {
+    id? = 0;
+    invoiceId = 0;
+    storeId = 0;
+    number = 0;
+}
@@ -0,0 +1,28 @@
+import { DependencyLifeTime, Injectable } from "@miracledevs/paradigm-web-di";
+import { PaymentProvider, ProviderEvent, ProviderResult } from "./payment.provider";
+import { Guid } from "../utils/createGuid";
+
+/**
+ * The customer pays at the store when picking up the order,
+ * the payment is captured when the manager verifies the pickup code.
+ */
+@Injectable({ lifeTime: DependencyLifeTime.Singleton })
+export class CashOnPickupProvider implements PaymentProvider {
+    readonly name = "cash";
+
+    async authorize(): Promise<ProviderResult> {
+        return { reference: `cash_${Guid.new().value}`, status: "PENDING" };
+    }
+
+    async capture(reference: string): Promise<ProviderResult> {
+        return { reference, status: "CAPTURED" };
+    }
+
+    async refund(reference: string): Promise<ProviderResult> {
+        return { reference, status: "REFUNDED" };
+    }
+
+    parseWebhook(): ProviderEvent {
+        throw new Error("Cash payments don't have webhooks");
+    }
+}
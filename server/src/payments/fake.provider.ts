@@ -0,0 +1,81 @@
+import { DependencyLifeTime, Injectable } from "@miracledevs/paradigm-web-di";
+import { Logger } from "@miracledevs/paradigm-express-webapi";
+import { createHmac, timingSafeEqual } from "crypto";
+import { PaymentProvider, ProviderEvent, ProviderResult } from "./payment.provider";
+import { PaymentRequestInterface, PaymentWebhookInterface } from "../models/payment";
+import { ApiClient } from "../core/http/api.client";
+import { ResponseInterface } from "../models/response";
+import { Guid } from "../utils/createGuid";
+
+const webhookAttempts = 5;
+
+/**
+ * A provider that runs locally, the card number decides the outcome:
+ * - ending in 0002 the payment is declined
+ * - ending in 0044 the payment is confirmed later through the webhook
+ * - any other number is approved
+ * The webhooks that fail are sent again, waiting longer after each attempt, like the real providers do.
+ */
+@Injectable({ lifeTime: DependencyLifeTime.Singleton })
+export class FakePaymentProvider implements PaymentProvider {
+    readonly name = "fake";
+    private readonly secret = process.env.SHOPPY__PAYMENTS_SECRET || "fake-secret";
+    private readonly delay = Number(process.env.SHOPPY__PAYMENTS_DELAY || 3000);
+
+    constructor(private readonly logger: Logger) {}
+
+    async authorize(_: number, request: PaymentRequestInterface): Promise<ProviderResult> {
+        const reference = `fake_${Guid.new().value}`;
+        const number = request.card?.number ?? "";
+        if (number.endsWith("0002")) return { reference, status: "DECLINED" };
+        if (number.endsWith("0044")) {
+            setTimeout(() => this.sendWebhook({ reference, status: "CAPTURED" }), this.delay);
+            return { reference, status: "PENDING" };
+        }
+        return { reference, status: "AUTHORIZED" };
+    }
+
+    async capture(reference: string): Promise<ProviderResult> {
+        return { reference, status: "CAPTURED" };
+    }
+
+    async refund(reference: string): Promise<ProviderResult> {
+        return { reference, status: "REFUNDED" };
+    }
+
+    parseWebhook(body: unknown): ProviderEvent {
+        const { reference, status, signature } = body as PaymentWebhookInterface;
+        const expected = Buffer.from(this.sign(reference, status));
+        const received = Buffer.from(String(signature));
+        if (expected.length !== received.length || !timingSafeEqual(expected, received)) throw new Error("Invalid signature");
+        return { reference, status };
+    }
+
+    sign(reference: string, status: string) {
+        return createHmac("sha256", this.secret).update(`${reference}:${status}`).digest("hex");
+    }
+
+    /**
+     * Sends the event to the webhook until it's accepted, the payment stays pending if every attempt fails
+     */
+    private async sendWebhook(event: ProviderEvent, attempt = 1) {
+        let failure: string;
+        try {
+            const api = new ApiClient(`${process.env.BASE_URL}/api/payments/webhook`);
+            const response = await api.post<ResponseInterface<unknown>>(
+                this.name,
+                null,
+                JSON.stringify({ ...event, signature: this.sign(event.reference, event.status) })
+            );
+            if (response.status === 200) return;
+            failure = response.data?.message ?? `status ${response.status}`;
+        } catch (e) {
+            failure = e.message;
+        }
+        if (attempt < webhookAttempts) {
+            setTimeout(() => this.sendWebhook(event, attempt + 1), this.delay * 2 ** attempt);
+        } else {
+            this.logger.error(`The ${event.status} webhook of the payment ${event.reference} failed ${attempt} times: ${failure}`);
+        }
+    }
+}
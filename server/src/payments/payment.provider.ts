@@ -0,0 +1,40 @@
+import { PaymentRequestInterface, PaymentStatus } from "../models/payment";
+
+export interface ProviderResult {
+    /**
+     * The id of the operation on the provider side
+     */
+    reference: string;
+    status: PaymentStatus;
+}
+
+export interface ProviderEvent {
+    reference: string;
+    status: PaymentStatus;
+}
+
+/**
+ * The operations every payment provider has to support.
+ * Amounts are in the store currency, rounded to cents.
+ */
+export interface PaymentProvider {
+    readonly name: string;
+
+    /**
+     * Reserves the amount, it can be confirmed right away or later through a webhook
+     */
+    authorize(amount: number, request: PaymentRequestInterface): Promise<ProviderResult>;
+
+    /**
+     * Collects an authorized amount
+     */
+    capture(reference: string, amount: number): Promise<ProviderResult>;
+
+    refund(reference: string, amount: number): Promise<ProviderResult>;
+
+    /**
+     * Checks that the webhook was sent by the provider and reads the new status of the payment
+     * @throws if the webhook can't be trusted
+     */
+    parseWebhook(body: unknown): ProviderEvent;
+}
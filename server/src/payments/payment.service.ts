@@ -0,0 +1,127 @@
+import { DependencyLifeTime, Injectable } from "@miracledevs/paradigm-web-di";
+import { PaymentProvider } from "./payment.provider";
+import { FakePaymentProvider } from "./fake.provider";
+import { CashOnPickupProvider } from "./cash.provider";
+import { PaymentRepository } from "../repositories/payment.repository";
+import { InvoiceRepository } from "../repositories/invoice.repository";
+import { CreditNoteRepository } from "../repositories/creditNote.repository";
+import { Invoice } from "../models/invoice";
+import { Payment, PaymentMethod, PaymentRequestInterface } from "../models/payment";
+import { roundMoney } from "../utils/roundMoney";
+
+/**
+ * Runs the payments of the invoices through the providers and keeps the invoice status in sync.
+ * Every method has to run inside a transaction.
+ */
+@Injectable({ lifeTime: DependencyLifeTime.Scoped })
+export class PaymentService {
+    private readonly providers: PaymentProvider[];
+
+    constructor(
+        private readonly paymentRepo: PaymentRepository,
+        private readonly invoiceRepo: InvoiceRepository,
+        private readonly creditNoteRepo: CreditNoteRepository,
+        fakeProvider: FakePaymentProvider,
+        private readonly cashProvider: CashOnPickupProvider
+    ) {
+        this.providers = [fakeProvider, cashProvider];
+    }
+
+    /**
+     * Pays an unpaid invoice. Card payments are captured right away when the provider approves them,
+     * cash payments stay pending until the order is picked up.
+     * The lines cancelled before the payment aren't charged, the total of their credit notes is taken off.
+     * @param userId the user paying
+     */
+    async pay(invoice: Invoice, request: PaymentRequestInterface, userId: number): Promise<Payment> {
+        if (invoice.status !== "PENDING_PAYMENT") throw new Error("The order is not waiting for a payment");
+        if (await this.paymentRepo.getLast(invoice.id, ["PENDING", "AUTHORIZED", "CAPTURED"])) throw new Error("The order already has a payment");
+        const amount = roundMoney(invoice.total - (await this.creditNoteRepo.getTotal(invoice.id)));
+        if (amount <= 0) throw new Error("The order has nothing left to pay");
+
+        const provider = this.getProviderFor(request.method);
+        let result = await provider.authorize(amount, request);
+        if (result.status === "AUTHORIZED" && request.method === "CARD") result = await provider.capture(result.reference, amount);
+
+        const payment = {
+            invoiceId: invoice.id,
+            method: request.method,
+            provider: provider.name,
+            reference: result.reference,
+            amount,
+            status: result.status,
+        };
+        const { insertId } = await this.paymentRepo.insertOne(payment);
+        if (result.status === "CAPTURED") await this.invoiceRepo.changeStatus(invoice.id, "PAID", userId, "Payment confirmed");
+        return { ...payment, id: insertId };
+    }
+
+    /**
+     * Applies the confirmation sent by a provider to a pending payment.
+     * Payments confirmed after the order was cancelled are refunded.
+     */
+    async handleWebhook(providerName: string, body: unknown): Promise<Payment> {
+        const event = this.getProvider(providerName).parseWebhook(body);
+        const payment = await this.paymentRepo.getForUpdate(event.reference);
+        if (payment.status !== "PENDING") return payment;
+
+        await this.paymentRepo.update({ id: payment.id, status: event.status });
+        if (event.status === "CAPTURED") {
+            const invoice = await this.invoiceRepo.getById(payment.invoiceId);
+            if (invoice.status === "PENDING_PAYMENT") {
+                await this.invoiceRepo.changeStatus(invoice.id, "PAID", null, "Payment confirmed");
+            } else {
+                await this.refund(invoice.id);
+            }
+        }
+        return { ...payment, status: event.status };
+    }
+
+    /**
+     * Checks if the order is paid at the store
+     */
+    async isCashOnPickup(invoiceId: number): Promise<boolean> {
+        const payment = await this.paymentRepo.getLast(invoiceId, ["PENDING"]);
+        return payment?.method === "CASH_ON_PICKUP";
+    }
+
+    /**
+     * Collects the pending cash payment of the order, if it has one. The order stays in its status,
+     * the captured payment is the record of it being paid.
+     * @returns true when a cash payment was collected
+     */
+    async captureOnPickup(invoiceId: number): Promise<boolean> {
+        const payment = await this.paymentRepo.getLast(invoiceId, ["PENDING"]);
+        if (payment?.method !== "CASH_ON_PICKUP") return false;
+        const result = await this.cashProvider.capture(payment.reference);
+        await this.paymentRepo.update({ id: payment.id, status: result.status });
+        return result.status === "CAPTURED";
+    }
+
+    /**
+     * Gives back part of the captured payment of the invoice
+     * @param amount the amount to give back, everything left if it's not given
+     */
+    async refund(invoiceId: number, amount?: number): Promise<void> {
+        const payment = await this.paymentRepo.getLast(invoiceId, ["CAPTURED"]);
+        if (!payment) return;
+        const refundable = roundMoney(payment.amount - payment.refundedAmount);
+        const toRefund = Math.min(amount ?? refundable, refundable);
+        if (toRefund <= 0) return;
+
+        await this.getProvider(payment.provider).refund(payment.reference, toRefund);
+        const refundedAmount = roundMoney(payment.refundedAmount + toRefund);
+        await this.paymentRepo.update({ id: payment.id, refundedAmount, status: refundedAmount >= payment.amount ? "REFUNDED" : "CAPTURED" });
+    }
+
+    private getProviderFor(method: PaymentMethod) {
+        if (method === "CASH_ON_PICKUP") return this.cashProvider;
+        return this.getProvider(process.env.SHOPPY__PAYMENTS_PROVIDER || "fake");
+    }
+
+    private getProvider(name: string) {
+        const provider = this.providers.find(p => p.name === name);
+        if (!provider) throw new Error("Unknown payment provider");
+        return provider;
+    }
+}
@@ -0,0 +1,28 @@
+import { DependencyLifeTime, Injectable } from "@miracledevs/paradigm-web-di";
+
+const countLifetime = 60 * 1000;
+
+/**
+ * Keeps the totals of the product listings for a minute, so the pages of a listing don't count its products again.
+ * A cached total can be behind the products changed in that minute.
+ */
+@Injectable({ lifeTime: DependencyLifeTime.Singleton })
+export class ProductCountCache {
+    private readonly counts = new Map<string, { count: number; expiresAt: number }>();
+
+    /**
+     * The cached total of the listing, counted again when it's missing or expired
+     * @param key identifies the listing, the same store and filter give the same key
+     */
+    async get(key: string, count: () => Promise<number>): Promise<number> {
+        const now = Date.now();
+        const cached = this.counts.get(key);
+        if (cached && cached.expiresAt > now) return cached.count;
+        for (const [cachedKey, { expiresAt }] of this.counts) {
+            if (expiresAt <= now) this.counts.delete(cachedKey);
+        }
+        const total = await count();
+        this.counts.set(key, { count: total, expiresAt: now + countLifetime });
+        return total;
+    }
+}
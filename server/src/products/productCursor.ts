@@ -0,0 +1,26 @@
+import { ProductCursorInterface } from "../models/product";
+
+/**
+ * The cursor as the opaque text the clients send back to get the next page
+ */
+export function encodeCursor(cursor: ProductCursorInterface): string {
+    return Buffer.from(JSON.stringify([cursor.sort, cursor.value, cursor.id])).toString("base64url");
+}
+
+/**
+ * Reads a cursor sent by a client, it must come from a listing with the same sort
+ * @param sort the sort of the listing the cursor continues
+ */
+export function decodeCursor(text: string, sort: ProductCursorInterface["sort"]): ProductCursorInterface {
+    let cursor: unknown;
+    try {
+        cursor = JSON.parse(Buffer.from(text, "base64url").toString());
+    } catch {
+        throw new Error("Invalid cursor");
+    }
+    if (!Array.isArray(cursor) || cursor.length !== 3) throw new Error("Invalid cursor");
+    const [cursorSort, value, id] = cursor;
+    const validValue = value === null || typeof value === "string" || typeof value === "number";
+    if (cursorSort !== sort || !validValue || !Number.isInteger(id)) throw new Error("Invalid cursor");
+    return { sort, value, id };
+}
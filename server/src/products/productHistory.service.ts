@@ -0,0 +1,94 @@
+import { DependencyLifeTime, Injectable } from "@miracledevs/paradigm-web-di";
+import { ProductVersionRepository } from "../repositories/productVersion.repository";
+import { ProductDBRepository } from "../repositories/productDB.repository";
+import { BrandRepository } from "../repositories/brand.repository";
+import { PriceHistoryPointInterface, ProductVersion, ProductVersionDiffInterface } from "../models/productVersion";
+import { ProductInterface } from "../models/product";
+import { roundMoney } from "../utils/roundMoney";
+
+/**
+ * The fields of a version that are compared and brought back by a revert
+ */
+const versionFields = [
+    "name",
+    "description",
+    "price",
+    "discountPercentage",
+    "reorderPoint",
+    "minimum",
+    "brand",
+    "categories",
+    "sizes",
+    "url_img",
+    "status",
+] as const;
+
+const priceHistoryDays = 90;
+
+const listOf = (values: string[] | null) => (values ?? []).filter(Boolean);
+
+/**
+ * Compares, reverts and reads the prices of the versions of the products
+ */
+@Injectable({ lifeTime: DependencyLifeTime.Scoped })
+export class ProductHistoryService {
+    constructor(
+        private readonly productVersionRepo: ProductVersionRepository,
+        private readonly productDBRepo: ProductDBRepository,
+        private readonly brandRepo: BrandRepository
+    ) {}
+
+    /**
+     * The fields that changed from a version of the product to another
+     */
+    async diff(productId: number, from: number, to: number): Promise<ProductVersionDiffInterface> {
+        const fromVersion = this.normalize(await this.productVersionRepo.getVersion(productId, from));
+        const toVersion = this.normalize(await this.productVersionRepo.getVersion(productId, to));
+        const changes = versionFields
+            .filter(field => JSON.stringify(fromVersion[field]) !== JSON.stringify(toVersion[field]))
+            .map(field => ({ field, from: fromVersion[field], to: toVersion[field] }));
+        return { productId, from, to, changes };
+    }
+
+    /**
+     * Brings back the fields of a version of the product, as a new version. The stock isn't changed.
+     * The brand is brought back by its id, with its current name, a brand deleted or merged since then can't be brought back.
+     * It runs in the transaction of the caller.
+     */
+    async revert(productId: number, version: number, userId: number): Promise<void> {
+        const productVersion = this.normalize(await this.productVersionRepo.getVersion(productId, version));
+        const [brand] = productVersion.brandId ? await this.brandRepo.find({ id: productVersion.brandId }) : [];
+        if (!brand) throw new Error("The brand of the version doesn't exist anymore");
+        const product = { id: productId } as ProductInterface;
+        for (const field of versionFields) Object.assign(product, { [field]: productVersion[field] });
+        product.brand = brand.name;
+        await this.productDBRepo.updateProduct(product, userId, version);
+    }
+
+    /**
+     * The prices of the product in the last 90 days, a point for each change of its price or discount.
+     * The first point is the price the product had 90 days ago, or when it was created.
+     */
+    async priceHistory(productId: number): Promise<PriceHistoryPointInterface[]> {
+        const since = new Date(Date.now() - priceHistoryDays * 24 * 60 * 60 * 1000);
+        const versions = await this.productVersionRepo.getSince(productId, since);
+        if (versions.length === 0) throw new Error("Product not found");
+        const points: PriceHistoryPointInterface[] = [];
+        for (const version of versions) {
+            const last = points[points.length - 1];
+            if (last && last.price === version.price && last.discountPercentage === version.discountPercentage) continue;
+            points.push({
+                version: version.version,
+                price: version.price,
+                discountPercentage: version.discountPercentage,
+                finalPrice: roundMoney(version.price * version.discountPercentage),
+                date: version.createdAt < since ? since : version.createdAt,
+            });
+        }
+        return points;
+    }
+
+    private normalize(version: ProductVersion): ProductVersion {
+        return { ...version, categories: listOf(version.categories), sizes: listOf(version.sizes) };
+    }
+}
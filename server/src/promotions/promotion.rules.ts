@@ -0,0 +1,51 @@
+import { ProductInterface } from "../models/product";
+import { AppliedDiscountInterface, PromotionViewInterface } from "../models/promotion";
+import { roundMoney } from "../utils/roundMoney";
+
+/**
+ * A line of an order, with the product as it is stored
+ */
+export interface PromotionLine {
+    product: ProductInterface;
+    quantity: number;
+    total: number;
+}
+
+function matches(promotion: PromotionViewInterface, { product }: PromotionLine) {
+    if (promotion.storeId !== null && promotion.storeId !== product.storeId) return false;
+    if (promotion.brand !== null && promotion.brand !== product.brand) return false;
+    if (promotion.category !== null && !(product.categories ?? []).includes(promotion.category)) return false;
+    return true;
+}
+
+/**
+ * Computes the discount of a promotion over the lines it applies to
+ * @returns 0 when no line matches or the lines don't reach the minimum total
+ */
+export function promotionDiscount(promotion: PromotionViewInterface, lines: PromotionLine[]): number {
+    const eligible = lines.filter(line => matches(promotion, line));
+    const eligibleTotal = roundMoney(eligible.reduce((acc, line) => acc + line.total, 0));
+    if (eligible.length === 0 || eligibleTotal < (promotion.minimumTotal ?? 0)) return 0;
+
+    if (promotion.type === "PERCENTAGE") return roundMoney((eligibleTotal * promotion.value) / 100);
+    if (promotion.type === "FIXED_AMOUNT") return Math.min(promotion.value, eligibleTotal);
+    // BUY_X_GET_Y, the free units are taken from each line on its own
+    const group = promotion.buyQuantity + promotion.getQuantity;
+    const free = (line: PromotionLine) => Math.floor(line.quantity / group) * promotion.getQuantity;
+    return roundMoney(eligible.reduce((acc, line) => acc + (free(line) * line.total) / line.quantity, 0));
+}
+
+/**
+ * Applies the promotions in order, the discounts never add up to more than the order subtotal
+ */
+export function applyPromotions(promotions: PromotionViewInterface[], lines: PromotionLine[]): AppliedDiscountInterface[] {
+    let left = roundMoney(lines.reduce((acc, line) => acc + line.total, 0));
+    const discounts: AppliedDiscountInterface[] = [];
+    for (const promotion of promotions) {
+        const amount = Math.min(promotionDiscount(promotion, lines), left);
+        if (amount <= 0) continue;
+        left = roundMoney(left - amount);
+        discounts.push({ promotionId: promotion.id, code: promotion.code, description: promotion.name, amount });
+    }
+    return discounts;
+}
@@ -0,0 +1,39 @@
+import { DependencyLifeTime, Injectable } from "@miracledevs/paradigm-web-di";
+import { PromotionRepository } from "../repositories/promotion.repository";
+import { PromotionViewRepository } from "../repositories/promotionView.repository";
+import { AppliedDiscountInterface, PromotionQuoteInterface } from "../models/promotion";
+import { PromotionLine, applyPromotions } from "./promotion.rules";
+import { roundMoney } from "../utils/roundMoney";
+
+/**
+ * Prices the orders with the active promotions and the coupon of the customer
+ */
+@Injectable({ lifeTime: DependencyLifeTime.Scoped })
+export class PromotionService {
+    constructor(private readonly promotionRepo: PromotionRepository, private readonly promotionViewRepo: PromotionViewRepository) {}
+
+    /**
+     * Computes the discounts of the order.
+     * The coupon has to be valid and apply to the order, otherwise the order is rejected.
+     */
+    async quote(lines: PromotionLine[], coupon?: string): Promise<PromotionQuoteInterface> {
+        const code = coupon?.toUpperCase();
+        const promotions = await this.promotionViewRepo.getActive(code);
+        if (code && !promotions.some(promotion => promotion.code === code)) throw new Error("Invalid coupon");
+
+        const discounts = applyPromotions(promotions, lines);
+        if (code && !discounts.some(discount => discount.code === code)) throw new Error("The coupon doesn't apply to the order");
+        const subtotal = roundMoney(lines.reduce((acc, line) => acc + line.total, 0));
+        const total = roundMoney(subtotal - discounts.reduce((acc, discount) => acc + discount.amount, 0));
+        return { subtotal, discounts, total };
+    }
+
+    /**
+     * Counts a use of every applied promotion, it has to run in the transaction that stores the order
+     */
+    async redeem(discounts: AppliedDiscountInterface[]): Promise<void> {
+        for (const discount of discounts) {
+            if (!(await this.promotionRepo.redeem(discount.promotionId))) throw new Error("The promotion reached its usage limit");
+        }
+    }
+}
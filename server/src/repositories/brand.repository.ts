@@ -1,11 +1,66 @@
 import { Brand } from "../models/product.addons";
+import { BrandView } from "../models/brand";
 import { MySqlConnection } from "../core/mysql/mysql.connection";
 import { DependencyContainer, DependencyLifeTime, Injectable } from "@miracledevs/paradigm-web-di";
 import { EditRepositoryBase } from "../core/repositories/edit.repository";
+import { ProductVersionRepository } from "./productVersion.repository";
+import { RowDataPacket } from "mysql2";
+
+const viewQuery = `
+    SELECT b.*, COUNT(p.id) AS products
+    FROM brand b
+    LEFT JOIN product p ON p.brandId = b.id AND p.status = 1`;
 
 @Injectable({ lifeTime: DependencyLifeTime.Scoped })
 export class BrandRepository extends EditRepositoryBase<Brand> {
-    constructor(dependecyContainer: DependencyContainer, connection: MySqlConnection) {
+    constructor(dependecyContainer: DependencyContainer, connection: MySqlConnection, private productVersionRepo: ProductVersionRepository) {
         super(dependecyContainer, connection, Brand, "brand");
     }
+
+    /**
+     * Retrieve the brands by name with the number of active products of each one
+     */
+    async getViews(): Promise<BrandView[]> {
+        const [rows] = await this.connection.connection.query<RowDataPacket[]>(`${viewQuery} GROUP BY b.id ORDER BY b.name`);
+        return this.map(rows, BrandView);
+    }
+
+    async getView(brandId: number): Promise<BrandView | undefined> {
+        const [rows] = await this.connection.connection.query<RowDataPacket[]>(`${viewQuery} WHERE b.id = ? GROUP BY b.id`, [brandId]);
+        return this.map(rows, BrandView)[0];
+    }
+
+    /**
+     * Whether a product, the disabled ones too, a promotion or a campaign uses the brand
+     */
+    async isInUse(brandId: number): Promise<boolean> {
+        const [rows] = await this.connection.connection.query<RowDataPacket[]>(
+            `SELECT EXISTS (SELECT 1 FROM product WHERE brandId = ?)
+                OR EXISTS (SELECT 1 FROM promotion WHERE brandId = ?)
+                OR EXISTS (SELECT 1 FROM campaign WHERE brandId = ?) AS inUse`,
+            [brandId, brandId, brandId]
+        );
+        return !!rows[0].inUse;
+    }
+
+    async getLogoUrls(): Promise<string[]> {
+        const [rows] = await this.connection.connection.query<RowDataPacket[]>(
+            `SELECT DISTINCT url_logo FROM \`${this.tableName}\` WHERE url_logo IS NOT NULL`
+        );
+        return rows.map(row => row.url_logo);
+    }
+
+    /**
+     * Moves the products, promotions and campaigns of a brand to another one and deletes it.
+     * Each product moved gets a new version with its new brand.
+     * @param userId the user that merges the brands
+     */
+    async merge(sourceId: number, targetId: number, userId: number): Promise<void> {
+        const [products] = await this.connection.connection.query<RowDataPacket[]>("SELECT id FROM product WHERE brandId = ?", [sourceId]);
+        for (const table of ["product", "promotion", "campaign"]) {
+            await this.connection.connection.query(`UPDATE \`${table}\` SET brandId = ? WHERE brandId = ?`, [targetId, sourceId]);
+        }
+        for (const { id } of products) await this.productVersionRepo.record(id, "UPDATE", userId);
+        await this.delete({ id: sourceId });
+    }
 }
@@ -0,0 +1,20 @@
+import { Campaign } from "../models/campaign";
+import { MySqlConnection } from "../core/mysql/mysql.connection";
+import { DependencyContainer, DependencyLifeTime, Injectable } from "@miracledevs/paradigm-web-di";
+import { EditRepositoryBase } from "../core/repositories/edit.repository";
+
+@Injectable({ lifeTime: DependencyLifeTime.Scoped })
+export class CampaignRepository extends EditRepositoryBase<Campaign> {
+    constructor(dependecyContainer: DependencyContainer, connection: MySqlConnection) {
+        super(dependecyContainer, connection, Campaign, "campaign");
+    }
+
+    /**
+     * Retrieve a campaign of the store
+     */
+    async getByStore(id: number, storeId: number): Promise<Campaign> {
+        const [campaign] = await this.find({ id, storeId });
+        if (!campaign) throw new Error("Campaign not found");
+        return campaign;
+    }
+}
@@ -0,0 +1,20 @@
+import { CampaignProduct } from "../models/campaign";
+import { MySqlConnection } from "../core/mysql/mysql.connection";
+import { DependencyContainer, DependencyLifeTime, Injectable } from "@miracledevs/paradigm-web-di";
+import { EditRepositoryBase } from "../core/repositories/edit.repository";
+import { ResultSetHeader } from "mysql2";
+
+@Injectable({ lifeTime: DependencyLifeTime.Scoped })
+export class CampaignProductRepository extends EditRepositoryBase<CampaignProduct> {
+    constructor(dependecyContainer: DependencyContainer, connection: MySqlConnection) {
+        super(dependecyContainer, connection, CampaignProduct, "campaignProduct");
+    }
+
+    /**
+     * Replaces the products of the campaign
+     */
+    async setProducts(campaignId: number, productIds: number[]): Promise<void> {
+        await this.connection.connection.query<ResultSetHeader>(`DELETE FROM \`${this.tableName}\` WHERE campaignId = ?`, [campaignId]);
+        for (const productId of productIds) await this.insertOne({ campaignId, productId });
+    }
+}
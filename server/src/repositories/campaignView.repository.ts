@@ -0,0 +1,11 @@
+import { CampaignView } from "../models/campaign";
+import { MySqlConnection } from "../core/mysql/mysql.connection";
+import { DependencyContainer, DependencyLifeTime, Injectable } from "@miracledevs/paradigm-web-di";
+import { EditRepositoryBase } from "../core/repositories/edit.repository";
+
+@Injectable({ lifeTime: DependencyLifeTime.Scoped })
+export class CampaignViewRepository extends EditRepositoryBase<CampaignView> {
+    constructor(dependecyContainer: DependencyContainer, connection: MySqlConnection) {
+        super(dependecyContainer, connection, CampaignView, "campaign_view");
+    }
+}
@@ -0,0 +1,38 @@
+import { Cart } from "../models/cart";
+import { MySqlConnection } from "../core/mysql/mysql.connection";
+import { DependencyContainer, DependencyLifeTime, Injectable } from "@miracledevs/paradigm-web-di";
+import { EditRepositoryBase } from "../core/repositories/edit.repository";
+import { ResultSetHeader } from "mysql2";
+
+@Injectable({ lifeTime: DependencyLifeTime.Scoped })
+export class CartRepository extends EditRepositoryBase<Cart> {
+    constructor(dependecyContainer: DependencyContainer, connection: MySqlConnection) {
+        super(dependecyContainer, connection, Cart, "cart");
+    }
+
+    /**
+     * Sets the quantity of a product, or of one of its variants, in the user cart, adding the line if it doesn't exist
+     */
+    async setQuantity(userId: number, productId: number, variantId: number | null, quantity: number): Promise<void> {
+        await this.connection.connection.query<ResultSetHeader>(
+            `INSERT INTO \`${this.tableName}\` (userId, productId, variantId, quantity) VALUES (?, ?, ?, ?)
+            ON DUPLICATE KEY UPDATE quantity = VALUES(quantity)`,
+            [userId, productId, variantId, quantity]
+        );
+    }
+
+    /**
+     * Removes a line of the user cart
+     */
+    async removeLine(userId: number, productId: number, variantId: number | null): Promise<void> {
+        await this.connection.connection.query<ResultSetHeader>(`DELETE FROM \`${this.tableName}\` WHERE userId = ? AND productId = ? AND variantId <=> ?`, [
+            userId,
+            productId,
+            variantId,
+        ]);
+    }
+
+    async clear(userId: number): Promise<void> {
+        await this.connection.connection.query<ResultSetHeader>(`DELETE FROM \`${this.tableName}\` WHERE userId = ?`, [userId]);
+    }
+}
@@ -0,0 +1,23 @@
+import { CreditNote } from "../models/creditNote";
+import { MySqlConnection } from "../core/mysql/mysql.connection";
+import { DependencyContainer, DependencyLifeTime, Injectable } from "@miracledevs/paradigm-web-di";
+import { EditRepositoryBase } from "../core/repositories/edit.repository";
+import { RowDataPacket } from "mysql2";
+
+@Injectable({ lifeTime: DependencyLifeTime.Scoped })
+export class CreditNoteRepository extends EditRepositoryBase<CreditNote> {
+    constructor(dependecyContainer: DependencyContainer, connection: MySqlConnection) {
+        super(dependecyContainer, connection, CreditNote, "creditNote");
+    }
+
+    /**
+     * The amount credited on the invoice by its approved returns and cancellations
+     */
+    async getTotal(invoiceId: number): Promise<number> {
+        const [rows] = await this.connection.connection.query<RowDataPacket[]>(
+            `SELECT COALESCE(SUM(total), 0) AS total FROM \`${this.tableName}\` WHERE invoiceId = ?`,
+            [invoiceId]
+        );
+        return Number(rows[0].total);
+    }
+}
@@ -0,0 +1,40 @@
+import { IdempotencyKey } from "../models/idempotencyKey";
+import { MySqlConnection } from "../core/mysql/mysql.connection";
+import { DependencyContainer, DependencyLifeTime, Injectable } from "@miracledevs/paradigm-web-di";
+import { EditRepositoryBase } from "../core/repositories/edit.repository";
+import { ResultSetHeader } from "mysql2";
+
+@Injectable({ lifeTime: DependencyLifeTime.Scoped })
+export class IdempotencyKeyRepository extends EditRepositoryBase<IdempotencyKey> {
+    constructor(dependecyContainer: DependencyContainer, connection: MySqlConnection) {
+        super(dependecyContainer, connection, IdempotencyKey, "idempotencyKey");
+    }
+
+    /**
+     * Registers the key for the user.
+     * @returns the id of the new key, or undefined if the user already used the key
+     */
+    async claim(userId: number, idempotencyKey: string, requestHash: string): Promise<number | undefined> {
+        try {
+            const [result] = await this.connection.connection.query<ResultSetHeader>(
+                `INSERT INTO \`${this.tableName}\` (userId, idempotencyKey, requestHash) VALUES (?, ?, ?)`,
+                [userId, idempotencyKey, requestHash]
+            );
+            return result.insertId;
+        } catch (e) {
+            if ((e as { code?: string }).code === "ER_DUP_ENTRY") return undefined;
+            throw e;
+        }
+    }
+
+    async saveResponse(id: number, response: unknown): Promise<void> {
+        await this.connection.connection.query<ResultSetHeader>(`UPDATE \`${this.tableName}\` SET response = ? WHERE id = ?`, [JSON.stringify(response), id]);
+    }
+
+    /**
+     * Removes the keys older than the replay window, so they can be used again
+     */
+    async deleteExpired(hours: number): Promise<void> {
+        await this.connection.connection.query<ResultSetHeader>(`DELETE FROM \`${this.tableName}\` WHERE createdAt < NOW() - INTERVAL ? HOUR`, [hours]);
+    }
+}
@@ -1,11 +1,77 @@
-import { Invoice } from "../models/invoice";
+import { Invoice, InvoiceStatus, invoiceTransitions } from "../models/invoice";
 import { MySqlConnection } from "../core/mysql/mysql.connection";
 import { DependencyContainer, DependencyLifeTime, Injectable } from "@miracledevs/paradigm-web-di";
 import { EditRepositoryBase } from "../core/repositories/edit.repository";
+import { InvoiceStatusHistoryRepository } from "./invoiceStatusHistory.repository";
+import { RowDataPacket } from "mysql2";
+import { createPickupCode } from "../utils/pickupCode";
 
 @Injectable({ lifeTime: DependencyLifeTime.Scoped })
 export class InvoiceRepository extends EditRepositoryBase<Invoice> {
-    constructor(dependecyContainer: DependencyContainer, connection: MySqlConnection) {
+    constructor(dependecyContainer: DependencyContainer, connection: MySqlConnection, private historyRepo: InvoiceStatusHistoryRepository) {
         super(dependecyContainer, connection, Invoice, "invoice");
     }
+
+    /**
+     * Records the first status of a new invoice
+     */
+    async startHistory(invoiceId: number, status: InvoiceStatus, userId: number): Promise<void> {
+        await this.historyRepo.insertOne({ invoiceId, fromStatus: null, toStatus: status, userId });
+    }
+
+    /**
+     * Retrieve the invoice and lock it until the transaction ends
+     */
+    async getForUpdate(invoiceId: number): Promise<Invoice> {
+        const [rows] = await this.connection.connection.query<RowDataPacket[]>(`SELECT * FROM \`${this.tableName}\` WHERE id = ? FOR UPDATE`, [invoiceId]);
+        const [invoice] = this.map(rows, this.entityType);
+        if (!invoice) throw new Error("Invoice not found");
+        return invoice;
+    }
+
+    /**
+     * Moves the invoice to a new status and records the change.
+     * It has to run inside a transaction, the invoice row stays locked until it ends.
+     * @param userId the user making the change, null for changes made by the system
+     */
+    async changeStatus(invoiceId: number, status: InvoiceStatus, userId: number | null, note?: string): Promise<Invoice> {
+        const invoice = await this.getForUpdate(invoiceId);
+        if (!invoiceTransitions[invoice.status].includes(status)) throw new Error(`Invalid status change from ${invoice.status} to ${status}`);
+        await this.update({ id: invoiceId, status });
+        await this.historyRepo.insertOne({ invoiceId, fromStatus: invoice.status, toStatus: status, userId, note: note ?? null });
+        return { ...invoice, status };
+    }
+
+    /**
+     * Creates a pickup code that no other invoice is using
+     */
+    async newPickupCode(): Promise<string> {
+        let code: string;
+        do {
+            code = createPickupCode();
+        } while ((await this.find({ pickupCode: code })).length > 0);
+        return code;
+    }
+
+    /**
+     * Retrieve the stores that sell the products of the invoice lines
+     */
+    async getStoreIds(invoiceId: number): Promise<number[]> {
+        const [rows] = await this.connection.connection.query<RowDataPacket[]>(
+            "SELECT DISTINCT p.storeId FROM item i JOIN product p ON p.id = i.productId WHERE i.invoiceId = ?",
+            [invoiceId]
+        );
+        return rows.map(row => row.storeId);
+    }
+
+    /**
+     * Checks if the invoice has lines of products sold by the store
+     */
+    async hasStoreLines(invoiceId: number, storeId: number): Promise<boolean> {
+        const [rows] = await this.connection.connection.query<RowDataPacket[]>(
+            "SELECT 1 FROM item i JOIN product p ON p.id = i.productId WHERE i.invoiceId = ? AND p.storeId = ? LIMIT 1",
+            [invoiceId, storeId]
+        );
+        return rows.length > 0;
+    }
 }
@@ -0,0 +1,11 @@
+import { InvoiceDiscount } from "../models/promotion";
+import { MySqlConnection } from "../core/mysql/mysql.connection";
+import { DependencyContainer, DependencyLifeTime, Injectable } from "@miracledevs/paradigm-web-di";
+import { EditRepositoryBase } from "../core/repositories/edit.repository";
+
+@Injectable({ lifeTime: DependencyLifeTime.Scoped })
+export class InvoiceDiscountRepository extends EditRepositoryBase<InvoiceDiscount> {
+    constructor(dependecyContainer: DependencyContainer, connection: MySqlConnection) {
+        super(dependecyContainer, connection, InvoiceDiscount, "invoiceDiscount");
+    }
+}
@@ -0,0 +1,29 @@
+import { InvoiceNumber } from "../models/tax";
+import { MySqlConnection } from "../core/mysql/mysql.connection";
+import { DependencyContainer, DependencyLifeTime, Injectable } from "@miracledevs/paradigm-web-di";
+import { EditRepositoryBase } from "../core/repositories/edit.repository";
+import { RowDataPacket } from "mysql2";
+
+@Injectable({ lifeTime: DependencyLifeTime.Scoped })
+export class InvoiceNumberRepository extends EditRepositoryBase<InvoiceNumber> {
+    constructor(dependecyContainer: DependencyContainer, connection: MySqlConnection) {
+        super(dependecyContainer, connection, InvoiceNumber, "invoiceNumber");
+    }
+
+    /**
+     * Gives the invoice the next fiscal number of the store.
+     * The sequence row stays locked until the transaction ends, so concurrent checkouts wait for each other
+     * and a rolled back checkout doesn't leave a gap.
+     * @returns the assigned number
+     */
+    async assign(invoiceId: number, storeId: number): Promise<number> {
+        await this.connection.connection.query(
+            `INSERT INTO invoiceSequence (storeId, lastNumber) VALUES (?, LAST_INSERT_ID(1))
+            ON DUPLICATE KEY UPDATE lastNumber = LAST_INSERT_ID(lastNumber + 1)`,
+            [storeId]
+        );
+        const [[{ number }]] = await this.connection.connection.query<RowDataPacket[]>("SELECT LAST_INSERT_ID() AS number");
+        await this.insertOne({ invoiceId, storeId, number });
+        return number;
+    }
+}
@@ -0,0 +1,35 @@
+import { InvoicePickup } from "../models/pickup";
+import { MySqlConnection } from "../core/mysql/mysql.connection";
+import { DependencyContainer, DependencyLifeTime, Injectable } from "@miracledevs/paradigm-web-di";
+import { EditRepositoryBase } from "../core/repositories/edit.repository";
+import { ResultSetHeader, RowDataPacket } from "mysql2";
+
+@Injectable({ lifeTime: DependencyLifeTime.Scoped })
+export class InvoicePickupRepository extends EditRepositoryBase<InvoicePickup> {
+    constructor(dependecyContainer: DependencyContainer, connection: MySqlConnection) {
+        super(dependecyContainer, connection, InvoicePickup, "invoicePickup");
+    }
+
+    /**
+     * Marks the store part of the order as collected
+     * @returns false if it was already collected
+     */
+    async markPickedUp(invoiceId: number, storeId: number): Promise<boolean> {
+        const [result] = await this.connection.connection.query<ResultSetHeader>(
+            `UPDATE \`${this.tableName}\` SET pickedUpAt = NOW() WHERE invoiceId = ? AND storeId = ? AND pickedUpAt IS NULL`,
+            [invoiceId, storeId]
+        );
+        return result.affectedRows === 1;
+    }
+
+    /**
+     * Counts the stores that still have to hand over their part of the order
+     */
+    async countPending(invoiceId: number): Promise<number> {
+        const [rows] = await this.connection.connection.query<RowDataPacket[]>(
+            `SELECT COUNT(*) AS pending FROM \`${this.tableName}\` WHERE invoiceId = ? AND pickedUpAt IS NULL`,
+            [invoiceId]
+        );
+        return Number(rows[0].pending);
+    }
+}
@@ -0,0 +1,20 @@
+import { InvoiceStatusHistory } from "../models/invoiceStatusHistory";
+import { MySqlConnection } from "../core/mysql/mysql.connection";
+import { DependencyContainer, DependencyLifeTime, Injectable } from "@miracledevs/paradigm-web-di";
+import { EditRepositoryBase } from "../core/repositories/edit.repository";
+import { RowDataPacket } from "mysql2";
+
+@Injectable({ lifeTime: DependencyLifeTime.Scoped })
+export class InvoiceStatusHistoryRepository extends EditRepositoryBase<InvoiceStatusHistory> {
+    constructor(dependecyContainer: DependencyContainer, connection: MySqlConnection) {
+        super(dependecyContainer, connection, InvoiceStatusHistory, "invoiceStatusHistory");
+    }
+
+    async getByInvoice(invoiceId: number): Promise<InvoiceStatusHistory[]> {
+        const [rows] = await this.connection.connection.query<RowDataPacket[]>(
+            `SELECT * FROM \`${this.tableName}\` WHERE invoiceId = ? ORDER BY createdAt, id`,
+            [invoiceId]
+        );
+        return this.map(rows, this.entityType);
+    }
+}
@@ -2,10 +2,22 @@ import { InvoiceView } from "../models/invoiceView";
 import { MySqlConnection } from "../core/mysql/mysql.connection";
 import { DependencyContainer, DependencyLifeTime, Injectable } from "@miracledevs/paradigm-web-di";
 import { EditRepositoryBase } from "../core/repositories/edit.repository";
+import { RowDataPacket } from "mysql2";
 
 @Injectable({ lifeTime: DependencyLifeTime.Scoped })
 export class InvoiceViewRepository extends EditRepositoryBase<InvoiceView> {
     constructor(dependecyContainer: DependencyContainer, connection: MySqlConnection) {
         super(dependecyContainer, connection, InvoiceView, "invoice_view");
     }
+
+    /**
+     * Retrieve the invoices with lines of products sold by the store
+     */
+    async getByStore(storeId: number): Promise<InvoiceView[]> {
+        const [rows] = await this.connection.connection.query<RowDataPacket[]>(
+            `SELECT * FROM \`${this.tableName}\` WHERE id IN (SELECT i.invoiceId FROM item i JOIN product p ON p.id = i.productId WHERE p.storeId = ?) ORDER BY id DESC`,
+            [storeId]
+        );
+        return this.map(rows, this.entityType);
+    }
 }
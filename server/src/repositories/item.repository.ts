@@ -3,7 +3,7 @@ import { Item } from "../models/item";
 import { MySqlConnection } from "../core/mysql/mysql.connection";
 import { DependencyContainer, DependencyLifeTime, Injectable } from "@miracledevs/paradigm-web-di";
 import { EditRepositoryBase } from "../core/repositories/edit.repository";
-import { format } from "mysql2";
+import { ResultSetHeader, RowDataPacket, format } from "mysql2";
 
 @Injectable({ lifeTime: DependencyLifeTime.Scoped })
 export class ItemRepository extends EditRepositoryBase<Item> {
@@ -17,4 +17,27 @@ export class ItemRepository extends EditRepositoryBase<Item> {
         const [rows] = await this.connection.connection.execute(query);
         return rows;
     }
+
+    /**
+     * Adds up the returned units of the line, without going over the sold quantity
+     * @returns false if the line doesn't have that many units left to return
+     */
+    async addReturned(id: number, quantity: number): Promise<boolean> {
+        const [result] = await this.connection.connection.query<ResultSetHeader>(
+            `UPDATE \`${this.tableName}\` SET returnedQuantity = returnedQuantity + ? WHERE id = ? AND quantity - returnedQuantity >= ?`,
+            [quantity, id, quantity]
+        );
+        return result.affectedRows === 1;
+    }
+
+    /**
+     * Checks if every unit of the invoice was returned or cancelled
+     */
+    async isFullyReturned(invoiceId: number): Promise<boolean> {
+        const [rows] = await this.connection.connection.query<RowDataPacket[]>(
+            `SELECT 1 FROM \`${this.tableName}\` WHERE invoiceId = ? AND returnedQuantity < quantity LIMIT 1`,
+            [invoiceId]
+        );
+        return rows.length === 0;
+    }
 }
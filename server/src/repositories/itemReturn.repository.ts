@@ -0,0 +1,46 @@
+import { ItemReturn } from "../models/itemReturn";
+import { MySqlConnection } from "../core/mysql/mysql.connection";
+import { DependencyContainer, DependencyLifeTime, Injectable } from "@miracledevs/paradigm-web-di";
+import { EditRepositoryBase } from "../core/repositories/edit.repository";
+import { RowDataPacket } from "mysql2";
+
+@Injectable({ lifeTime: DependencyLifeTime.Scoped })
+export class ItemReturnRepository extends EditRepositoryBase<ItemReturn> {
+    constructor(dependecyContainer: DependencyContainer, connection: MySqlConnection) {
+        super(dependecyContainer, connection, ItemReturn, "itemReturn");
+    }
+
+    /**
+     * Retrieve the return and lock it until the transaction ends, so it can't be reviewed twice
+     */
+    async getForUpdate(id: number): Promise<ItemReturn> {
+        const [rows] = await this.connection.connection.query<RowDataPacket[]>(`SELECT * FROM \`${this.tableName}\` WHERE id = ? FOR UPDATE`, [id]);
+        const [itemReturn] = this.map(rows, this.entityType);
+        if (!itemReturn) throw new Error("Return not found");
+        return itemReturn;
+    }
+
+    /**
+     * Adds up the units of the line waiting for a review
+     */
+    async getRequestedQuantity(itemId: number): Promise<number> {
+        const [rows] = await this.connection.connection.query<RowDataPacket[]>(
+            `SELECT COALESCE(SUM(quantity), 0) AS requested FROM \`${this.tableName}\` WHERE itemId = ? AND status = 'REQUESTED'`,
+            [itemId]
+        );
+        return Number(rows[0].requested);
+    }
+
+    /**
+     * Rejects the requests of the invoice waiting for a review, its units were already put back in stock
+     * @param reviewerId the user that closed the invoice
+     */
+    async rejectRequested(invoiceId: number, reviewerId: number, note: string): Promise<void> {
+        await this.connection.connection.query(
+            `UPDATE \`${this.tableName}\` r JOIN item i ON i.id = r.itemId
+            SET r.status = 'REJECTED', r.reviewerId = ?, r.reviewNote = ?, r.reviewedAt = NOW()
+            WHERE i.invoiceId = ? AND r.status = 'REQUESTED'`,
+            [reviewerId, note, invoiceId]
+        );
+    }
+}
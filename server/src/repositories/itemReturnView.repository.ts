@@ -0,0 +1,11 @@
+import { ItemReturnView } from "../models/itemReturn";
+import { MySqlConnection } from "../core/mysql/mysql.connection";
+import { DependencyContainer, DependencyLifeTime, Injectable } from "@miracledevs/paradigm-web-di";
+import { EditRepositoryBase } from "../core/repositories/edit.repository";
+
+@Injectable({ lifeTime: DependencyLifeTime.Scoped })
+export class ItemReturnViewRepository extends EditRepositoryBase<ItemReturnView> {
+    constructor(dependecyContainer: DependencyContainer, connection: MySqlConnection) {
+        super(dependecyContainer, connection, ItemReturnView, "item_return_view");
+    }
+}
@@ -0,0 +1,36 @@
+import { Payment, PaymentStatus } from "../models/payment";
+import { MySqlConnection } from "../core/mysql/mysql.connection";
+import { DependencyContainer, DependencyLifeTime, Injectable } from "@miracledevs/paradigm-web-di";
+import { EditRepositoryBase } from "../core/repositories/edit.repository";
+import { RowDataPacket } from "mysql2";
+
+@Injectable({ lifeTime: DependencyLifeTime.Scoped })
+export class PaymentRepository extends EditRepositoryBase<Payment> {
+    constructor(dependecyContainer: DependencyContainer, connection: MySqlConnection) {
+        super(dependecyContainer, connection, Payment, "payment");
+    }
+
+    /**
+     * Retrieve the payment with the provider reference and lock it until the transaction ends,
+     * so a webhook delivered twice is only applied once
+     */
+    async getForUpdate(reference: string): Promise<Payment> {
+        const [rows] = await this.connection.connection.query<RowDataPacket[]>(`SELECT * FROM \`${this.tableName}\` WHERE reference = ? FOR UPDATE`, [
+            reference,
+        ]);
+        const [payment] = this.map(rows, this.entityType);
+        if (!payment) throw new Error("Payment not found");
+        return payment;
+    }
+
+    /**
+     * Retrieve the last payment of the invoice in one of the statuses
+     */
+    async getLast(invoiceId: number, statuses: PaymentStatus[]): Promise<Payment | undefined> {
+        const [rows] = await this.connection.connection.query<RowDataPacket[]>(
+            `SELECT * FROM \`${this.tableName}\` WHERE invoiceId = ? AND status IN (?) ORDER BY id DESC LIMIT 1 FOR UPDATE`,
+            [invoiceId, statuses]
+        );
+        return this.map(rows, this.entityType)[0];
+    }
+}
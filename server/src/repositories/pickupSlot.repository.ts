@@ -0,0 +1,39 @@
+import { PickupSlot, PickupSlotAvailability } from "../models/pickup";
+import { MySqlConnection } from "../core/mysql/mysql.connection";
+import { DependencyContainer, DependencyLifeTime, Injectable } from "@miracledevs/paradigm-web-di";
+import { EditRepositoryBase } from "../core/repositories/edit.repository";
+import { RowDataPacket } from "mysql2";
+
+@Injectable({ lifeTime: DependencyLifeTime.Scoped })
+export class PickupSlotRepository extends EditRepositoryBase<PickupSlot> {
+    constructor(dependecyContainer: DependencyContainer, connection: MySqlConnection) {
+        super(dependecyContainer, connection, PickupSlot, "pickupSlot");
+    }
+
+    /**
+     * Retrieve the slots that haven't started yet along with how many orders are booked in each one.
+     * Cancelled and expired orders don't take up room.
+     * @param storeIds the stores to look for, every store if empty
+     */
+    async getUpcoming(storeIds: number[] = []): Promise<PickupSlotAvailability[]> {
+        const [rows] = await this.connection.connection.query<RowDataPacket[]>(
+            `SELECT ps.*, COUNT(inv.id) AS booked
+            FROM \`${this.tableName}\` ps
+            LEFT JOIN invoicePickup ip ON ip.pickupSlotId = ps.id
+            LEFT JOIN invoice inv ON inv.id = ip.invoiceId AND inv.status NOT IN ('CANCELLED', 'EXPIRED')
+            WHERE ps.startsAt > NOW() ${storeIds.length > 0 ? "AND ps.storeId IN (?)" : ""}
+            GROUP BY ps.id
+            ORDER BY ps.startsAt, ps.id`,
+            [storeIds]
+        );
+        return this.map(rows, PickupSlotAvailability);
+    }
+
+    /**
+     * Locks the slots until the transaction ends, so two checkouts can't take the last place of a slot
+     */
+    async lockForUpdate(ids: number[]): Promise<void> {
+        if (ids.length === 0) return;
+        await this.connection.connection.query(`SELECT id FROM \`${this.tableName}\` WHERE id IN (?) ORDER BY id FOR UPDATE`, [ids]);
+    }
+}
@@ -1,75 +1,122 @@
-import { Product, ProductInterface } from "../models/product";
+import {
+    FacetCountInterface,
+    PriceFacetCountInterface,
+    Product,
+    ProductFacetsInterface,
+    ProductCursorInterface,
+    ProductListingFilterInterface,
+    ProductSearchResult,
+    ProductSort,
+    StoreProduct,
+} from "../models/product";
 import { MySqlConnection } from "../core/mysql/mysql.connection";
 import { DependencyContainer, DependencyLifeTime, Injectable } from "@miracledevs/paradigm-web-di";
 import { EditRepositoryBase } from "../core/repositories/edit.repository";
 import { RowDataPacket, format } from "mysql2";
 
-@Injectable({ lifeTime: DependencyLifeTime.Scoped })
-export class ProductRepository extends EditRepositoryBase<Product> {
-    constructor(dependecyContainer: DependencyContainer, connection: MySqlConnection) {
-        super(dependecyContainer, connection, Product, "product_view");
-    }
+/**
+ * The relevance of a product for the words of a search. The name weighs the most, then the brand and the categories,
+ * then the description. The columns are accent insensitive so "pantalon" matches "Pantalón".
+ */
+const relevanceQuery = `
+    MATCH(P.name) AGAINST (? IN BOOLEAN MODE) * 3
+    + COALESCE(MATCH(B.name) AGAINST (? IN BOOLEAN MODE), 0) * 2
+    + COALESCE((
+        SELECT MAX(MATCH(C.name) AGAINST (? IN BOOLEAN MODE))
+        FROM ProductCategory AS PC
+        JOIN Category AS C ON C.id = PC.categoryId
+        WHERE PC.productId = P.id
+    ), 0) * 2
+    + COALESCE(MATCH(P.description) AGAINST (? IN BOOLEAN MODE), 0)`;
 
-    async getFilteredProducts(storeId: number, page: number, per_page: number, size?: string, category?: string): Promise<ProductInterface[]> {
-        const queryConditions: string[] = [];
-        const params: (number | string)[] = [];
+const searchFrom = `
+    FROM Product AS P
+    JOIN Store AS S ON S.id = P.storeId AND S.status = 1
+    LEFT JOIN Brand AS B ON B.id = P.brandId
+    WHERE P.status = 1`;
 
-        if (size) {
-            queryConditions.push("JSON_SEARCH(sizes, 'one', ?) IS NOT NULL");
-            params.push(size);
-        }
+const brandFrom = `
+    FROM product_view AS pv
+    JOIN Product AS P ON P.id = pv.id
+    JOIN Store AS S ON S.id = pv.storeId AND S.status = 1
+    WHERE P.brandId = ? AND pv.status = 1`;
 
-        if (category) {
-            queryConditions.push("JSON_SEARCH(categories, 'one', ?) IS NOT NULL");
-            params.push(category);
-        }
+/**
+ * Turns the text of a search into a boolean mode query where each word also matches the words it starts
+ */
+const searchTerms = (text: string) =>
+    text
+        .split(/\s+/)
+        .map(word => word.replace(/[+\-<>()~*"@]/g, ""))
+        .filter(Boolean)
+        .map(word => `${word}*`)
+        .join(" ");
 
-        if (storeId) {
-            queryConditions.push("storeId = ?");
-            params.push(storeId);
-        }
+/**
+ * The bounds of the price ranges counted by the facets, on the price the products are sold at
+ */
+const priceBuckets = [0, 25, 50, 100, 200];
 
-        let query = "";
-        if (queryConditions.length > 0) {
-            query = " WHERE " + queryConditions.join(" AND ");
-            query += " AND status=1";
-        }
+const finalPrice = "ROUND(price * discountPercentage, 2)";
 
-        if (page && per_page) {
-            const offset = (Number(page) - 1) * Number(per_page);
-            query += " LIMIT ?, ?";
-            params.push(offset, Number(per_page));
-        }
+/**
+ * The value each sort orders by and its direction. The id breaks the ties, so every product has a single place in the
+ * order and a page starts right after the last product of the previous one. The sorts without a value order by the id.
+ */
+const sortOrders: Record<ProductSort | "default", { value: string | null; descending: boolean }> = {
+    price_asc: { value: finalPrice, descending: false },
+    price_desc: { value: finalPrice, descending: true },
+    discount: { value: "discountPercentage", descending: false },
+    newest: { value: null, descending: true },
+    name: { value: "name", descending: false },
+    default: { value: null, descending: false },
+};
 
-        const [rows] = await this.connection.connection.query<RowDataPacket[]>("SELECT * FROM product_view " + query, params);
-        return this.map(rows, this.entityType);
+@Injectable({ lifeTime: DependencyLifeTime.Scoped })
+export class ProductRepository extends EditRepositoryBase<Product> {
+    constructor(dependecyContainer: DependencyContainer, connection: MySqlConnection) {
+        super(dependecyContainer, connection, Product, "product_view");
     }
 
-    async getCountFilteredProducts(storeId: number, size?: string, category?: string): Promise<number> {
-        const queryConditions: string[] = [];
-        const params: (number | string)[] = [];
-
-        if (size) {
-            queryConditions.push("JSON_SEARCH(sizes, 'one', ?) IS NOT NULL");
-            params.push(size);
-        }
-
-        if (category) {
-            queryConditions.push("JSON_SEARCH(categories, 'one', ?) IS NOT NULL");
-            params.push(category);
-        }
-
-        if (storeId) {
-            queryConditions.push("storeId = ?");
-            params.push(storeId);
-        }
-
-        let query = "";
-        if (queryConditions.length > 0) {
-            query = " WHERE " + queryConditions.join(" AND ");
+    /**
+     * Retrieve a page of the active products of the store that match the filter, the page starts after the cursor.
+     * The next cursor is null on the last page.
+     */
+    async getFilteredProducts(
+        storeId: number,
+        per_page: number,
+        filter: ProductListingFilterInterface,
+        cursor: ProductCursorInterface | null
+    ): Promise<{ products: Product[]; next: ProductCursorInterface | null }> {
+        const sort: ProductCursorInterface["sort"] = filter.sort ?? "default";
+        const { value, descending } = sortOrders[sort];
+        const { query, params } = this.listingConditions(storeId, filter);
+        const direction = descending ? "DESC" : "ASC";
+        const queryConditions = [query];
+        if (cursor && value) {
+            queryConditions.push(`(${value} ${descending ? "<" : ">"} ? OR (${value} = ? AND id > ?))`);
+            params.push(cursor.value, cursor.value, cursor.id);
+        } else if (cursor) {
+            queryConditions.push(`id ${descending ? "<" : ">"} ?`);
+            params.push(cursor.id);
         }
+        const order = value ? `${value} ${direction}, id` : `id ${direction}`;
+        const [rows] = await this.connection.connection.query<RowDataPacket[]>(
+            `SELECT *, ${value ?? "NULL"} AS sortValue FROM \`${this.tableName}\` WHERE ${queryConditions.join(" AND ")} ORDER BY ${order} LIMIT ?`,
+            [...params, Number(per_page) + 1]
+        );
+        const page = rows.slice(0, Number(per_page));
+        const last = page[page.length - 1];
+        const next = rows.length > page.length ? { sort, value: last.sortValue, id: last.id } : null;
+        return { products: this.map(page, this.entityType), next };
+    }
 
-        const [rows] = await this.connection.connection.query<RowDataPacket[]>("SELECT COUNT(*) as total_products FROM product_view " + query, params);
+    async getCountFilteredProducts(storeId: number, filter: ProductListingFilterInterface): Promise<number> {
+        const { query, params } = this.listingConditions(storeId, filter);
+        const [rows] = await this.connection.connection.query<RowDataPacket[]>(
+            `SELECT COUNT(*) as total_products FROM \`${this.tableName}\` WHERE ${query}`,
+            params
+        );
         return rows[0].total_products;
     }
 
@@ -80,6 +127,12 @@ export class ProductRepository extends EditRepositoryBase<Product> {
         return this.map(rows, this.entityType);
     }
 
+    async getByIds(ids: number[]): Promise<Product[]> {
+        if (ids.length === 0) return [];
+        const [rows] = await this.connection.connection.query<RowDataPacket[]>(`SELECT * FROM \`${this.tableName}\` WHERE id IN (?)`, [ids]);
+        return this.map(rows, this.entityType);
+    }
+
     async getByManagerId(managerId: number) {
         const [rows] = await this.connection.connection.query(
             `SELECT * FROM \`${this.tableName}\` as pv JOIN store ON storeId = store.id WHERE managerId = ?`,
@@ -87,4 +140,124 @@ export class ProductRepository extends EditRepositoryBase<Product> {
         );
         return this.map(rows, this.entityType);
     }
+
+    /**
+     * Searches the name, description, brand and categories of the active products of the active stores, best matches first
+     */
+    async search(text: string, page: number, per_page: number): Promise<ProductSearchResult[]> {
+        const terms = searchTerms(text);
+        if (!terms) return [];
+        const [rows] = await this.connection.connection.query<RowDataPacket[]>(
+            `SELECT pv.*, R.store, R.relevance
+            FROM (
+                SELECT P.id, S.name AS store, ${relevanceQuery} AS relevance
+                ${searchFrom}
+                HAVING relevance > 0
+                ORDER BY relevance DESC, P.id
+                LIMIT ?, ?
+            ) AS R
+            JOIN \`${this.tableName}\` AS pv ON pv.id = R.id
+            ORDER BY R.relevance DESC, pv.id`,
+            [terms, terms, terms, terms, (Number(page) - 1) * Number(per_page), Number(per_page)]
+        );
+        return this.map(rows, ProductSearchResult);
+    }
+
+    async getCountSearch(text: string): Promise<number> {
+        const terms = searchTerms(text);
+        if (!terms) return 0;
+        const [rows] = await this.connection.connection.query<RowDataPacket[]>(
+            `SELECT COUNT(*) AS total_products
+            FROM (SELECT ${relevanceQuery} AS relevance ${searchFrom} HAVING relevance > 0) AS R`,
+            [terms, terms, terms, terms]
+        );
+        return rows[0].total_products;
+    }
+
+    /**
+     * Retrieve the active products of the brand from the active stores, grouped by store
+     */
+    async getByBrand(brandId: number, page: number, per_page: number): Promise<StoreProduct[]> {
+        const [rows] = await this.connection.connection.query<RowDataPacket[]>(
+            `SELECT pv.*, S.name AS store
+            ${brandFrom}
+            ORDER BY S.name, S.id, pv.name, pv.id
+            LIMIT ?, ?`,
+            [brandId, (Number(page) - 1) * Number(per_page), Number(per_page)]
+        );
+        return this.map(rows, StoreProduct);
+    }
+
+    async getCountByBrand(brandId: number): Promise<number> {
+        const [rows] = await this.connection.connection.query<RowDataPacket[]>(`SELECT COUNT(*) AS total_products ${brandFrom}`, [brandId]);
+        return rows[0].total_products;
+    }
+
+    /**
+     * Counts the active products of the store that match the filter for each category, size, brand and price range.
+     * Each facet ignores its own part of the filter.
+     */
+    async getFacets(storeId: number, filter: ProductListingFilterInterface): Promise<ProductFacetsInterface> {
+        const categories = await this.countByJsonValue("categories", this.listingConditions(storeId, { ...filter, categories: [] }));
+        const sizes = await this.countByJsonValue("sizes", this.listingConditions(storeId, { ...filter, sizes: [] }));
+        const byBrand = this.listingConditions(storeId, { ...filter, brands: [] });
+        const [brandRows] = await this.connection.connection.query<RowDataPacket[]>(
+            `SELECT brand AS value, COUNT(*) AS count FROM \`${this.tableName}\` WHERE ${byBrand.query} GROUP BY brand ORDER BY brand`,
+            byBrand.params
+        );
+        const byPrice = this.listingConditions(storeId, { ...filter, minPrice: null, maxPrice: null });
+        const [priceRows] = await this.connection.connection.query<RowDataPacket[]>(
+            `SELECT INTERVAL(${finalPrice}, ?) AS bucket, COUNT(*) AS count
+            FROM \`${this.tableName}\` WHERE ${byPrice.query} GROUP BY bucket`,
+            [priceBuckets.slice(1), ...byPrice.params]
+        );
+        const prices: PriceFacetCountInterface[] = priceBuckets.map((min, i) => ({
+            min,
+            max: priceBuckets[i + 1] ?? null,
+            count: Number(priceRows.find(row => row.bucket === i)?.count ?? 0),
+        }));
+        return { categories, sizes, brands: brandRows.map(row => ({ value: row.value, count: Number(row.count) })), prices };
+    }
+
+    private listingConditions(storeId: number, filter: ProductListingFilterInterface) {
+        const queryConditions = ["storeId = ?", "status = 1"];
+        const params: (number | string | string[] | null)[] = [storeId];
+        if (filter.sizes.length > 0) {
+            queryConditions.push("JSON_OVERLAPS(sizes, CAST(? AS JSON))");
+            params.push(JSON.stringify(filter.sizes));
+        }
+        if (filter.categories.length > 0) {
+            queryConditions.push("JSON_OVERLAPS(categories, CAST(? AS JSON))");
+            params.push(JSON.stringify(filter.categories));
+        }
+        if (filter.brands.length > 0) {
+            queryConditions.push("brand IN (?)");
+            params.push(filter.brands);
+        }
+        if (filter.minPrice != null) {
+            queryConditions.push(`${finalPrice} >= ?`);
+            params.push(filter.minPrice);
+        }
+        if (filter.maxPrice != null) {
+            queryConditions.push(`${finalPrice} <= ?`);
+            params.push(filter.maxPrice);
+        }
+        return { query: queryConditions.join(" AND "), params };
+    }
+
+    private async countByJsonValue(
+        column: "categories" | "sizes",
+        conditions: { query: string; params: (number | string | string[] | null)[] }
+    ): Promise<FacetCountInterface[]> {
+        const [rows] = await this.connection.connection.query<RowDataPacket[]>(
+            `SELECT jt.value, COUNT(DISTINCT pv.id) AS count
+            FROM \`${this.tableName}\` AS pv
+            CROSS JOIN JSON_TABLE(pv.${column}, '$[*]' COLUMNS (value VARCHAR(255) PATH '$')) AS jt
+            WHERE jt.value IS NOT NULL AND ${conditions.query}
+            GROUP BY jt.value
+            ORDER BY jt.value`,
+            conditions.params
+        );
+        return rows.map(row => ({ value: row.value, count: Number(row.count) }));
+    }
 }
@@ -8,8 +8,13 @@ import { SizeRepository } from "../repositories/size.repository";
 import { ProductCategoryRepository } from "../repositories/productCategory.repository";
 import { ProductSizeRepository } from "../repositories/productSize.repository";
 import { InsertionResult } from "../core/repositories/commands/db.command";
-import { RowDataPacket } from "mysql2/promise";
+import { ResultSetHeader, RowDataPacket } from "mysql2/promise";
 import { ProductRepository } from "./product.repository";
+import { StockMovementRepository } from "./stockMovement.repository";
+import { StockMovementReason, StockMovementSourceInterface } from "../models/stockMovement";
+import { ProductVariantRepository } from "./productVariant.repository";
+import { ProductVariantForCreationInterface } from "../models/productVariant";
+import { ProductVersionRepository } from "./productVersion.repository";
 
 @Injectable({ lifeTime: DependencyLifeTime.Scoped })
 export class ProductDBRepository extends EditRepositoryBase<ProductDB> {
@@ -21,17 +26,31 @@ export class ProductDBRepository extends EditRepositoryBase<ProductDB> {
         private categoryRepo: CategoryRepository,
         private sizeRepo: SizeRepository,
         private productCategoryRepo: ProductCategoryRepository,
-        private productSizeRepo: ProductSizeRepository
+        private productSizeRepo: ProductSizeRepository,
+        private stockMovementRepo: StockMovementRepository,
+        private variantRepo: ProductVariantRepository,
+        private productVersionRepo: ProductVersionRepository
     ) {
         super(dependecyContainer, connection, ProductDB, "product");
     }
 
-    async insertProduct(product: Product, id: number): Promise<InsertionResult<number>> {
+    /**
+     * Inserts a product of the store, its stock is the INITIAL movement of the ledger and the product its first version
+     * @param userId the user that creates the product
+     */
+    async insertProduct(product: Product, id: number, userId: number): Promise<InsertionResult<number>> {
         const { categories, sizes, brand, ...rest } = product;
+        //the reserved units and the variants are computed by the view
+        delete rest.reservedStock;
+        delete rest.availableStock;
+        delete rest.variants;
+        delete rest.regularDiscountPercentage;
+        delete rest.campaignId;
+        delete rest.campaignEndsAt;
 
         let brandId;
         const [brandName] = await this.brandRepo.find({ name: brand });
-        brandId = brandName.id;
+        brandId = brandName?.id;
         if (!brandId) {
             const insertedBrand = await this.brandRepo.insertOne({ name: brand });
             brandId = insertedBrand.insertId;
@@ -44,6 +63,7 @@ export class ProductDBRepository extends EditRepositoryBase<ProductDB> {
         });
 
         if (!result.insertId) throw new Error("Product creation failed");
+        await this.stockMovementRepo.record(result.insertId, rest.currentStock, "INITIAL", { userId });
 
         for (const category of categories) {
             const [categoryResponse] = await this.categoryRepo.find({ name: category });
@@ -77,15 +97,34 @@ export class ProductDBRepository extends EditRepositoryBase<ProductDB> {
             }
         }
 
+        await this.productVersionRepo.record(result.insertId, "CREATE", userId);
         return result;
     }
 
-    async updateProduct(entity: ProductInterface) {
-        const { categories, sizes, brand, ...rest } = entity;
+    /**
+     * Updates a product, a change of its stock is recorded as an ADJUSTMENT and the product as a new version.
+     * The stock of the products with variants can only be changed through their variants.
+     * @param userId the user that edits the product
+     * @param revertedVersion the version the product is reverted to, when the update brings back an older version
+     */
+    async updateProduct(entity: ProductInterface, userId: number, revertedVersion: number | null = null) {
+        const { categories, sizes, brand, currentStock, ...rest } = entity;
+        await this.lockForUpdate([entity.id]);
         const product = await this.productRepo.getById(entity.id);
         if (!product) throw new Error("Product not found");
         //prevent changing product store
         delete rest.storeId;
+        delete rest.reservedStock;
+        delete rest.availableStock;
+        delete rest.variants;
+        //the campaigns don't change the discount set on the product
+        delete rest.regularDiscountPercentage;
+        delete rest.campaignId;
+        delete rest.campaignEndsAt;
+        if (currentStock !== undefined && currentStock !== product.currentStock) {
+            if (await this.variantRepo.hasVariants(entity.id)) throw new Error("The stock of a product with variants is changed through its variants");
+            await this.moveStock(entity.id, currentStock - product.currentStock, "ADJUSTMENT", { userId });
+        }
 
         //update brand
         const [brandToUpdate] = await this.brandRepo.find({ name: brand });
@@ -98,7 +137,8 @@ export class ProductDBRepository extends EditRepositoryBase<ProductDB> {
 
         //update categories
         //if categories from entity are the same as in the database then dont update
-        if (entity.categories.length !== product.categories.length || entity.categories.some((val, index) => val !== product.categories[index])) {
+        const categoriesInDB = product.categories ?? [];
+        if (entity.categories.length !== categoriesInDB.length || entity.categories.some((val, index) => val !== categoriesInDB[index])) {
             await this.productCategoryRepo.delete({ productId: entity.id });
             for (const category of categories) {
                 const [categoryResponse] = await this.categoryRepo.find({ name: category });
@@ -137,6 +177,117 @@ export class ProductDBRepository extends EditRepositoryBase<ProductDB> {
                 }
             }
         }
+
+        const action = revertedVersion ? "REVERT" : entity.status === 0 && product.status !== 0 ? "DISABLE" : "UPDATE";
+        await this.productVersionRepo.record(entity.id, action, userId, revertedVersion);
+    }
+
+    /**
+     * Disables a product, it's kept for the orders that have it but isn't sold anymore
+     * @param userId the user that disables the product
+     */
+    async disableProduct(id: number, userId: number) {
+        await this.update({ id, status: 0 });
+        await this.productVersionRepo.record(id, "DISABLE", userId);
+    }
+
+    /**
+     * Locks the product rows until the ongoing transaction ends.
+     * Rows are locked in id order so concurrent checkouts can't deadlock each other.
+     */
+    async lockForUpdate(ids: number[]): Promise<void> {
+        if (ids.length === 0) return;
+        await this.connection.connection.query("SELECT id FROM product WHERE id IN (?) ORDER BY id FOR UPDATE", [ids]);
+    }
+
+    /**
+     * Adds the quantity to the product stock, or subtracts it when negative, and records the movement in the ledger.
+     * The stock can't be left below zero.
+     * @returns false if the product doesn't have enough stock
+     */
+    async moveStock(id: number, quantity: number, reason: StockMovementReason, source: StockMovementSourceInterface): Promise<boolean> {
+        const [result] = await this.connection.connection.query<ResultSetHeader>(
+            "UPDATE product SET currentStock = currentStock + ? WHERE id = ? AND currentStock + ? >= 0",
+            [quantity, id, quantity]
+        );
+        if (result.affectedRows !== 1) return false;
+        await this.stockMovementRepo.record(id, quantity, reason, source);
+        return true;
+    }
+
+    /**
+     * Puts back in stock the units of the invoice that weren't returned yet.
+     * The items of the variants of a product are added up, so each product gets a single movement.
+     * @returns the ids of the restocked products
+     */
+    async restockInvoice(invoiceId: number, source: StockMovementSourceInterface): Promise<number[]> {
+        const [rows] = await this.connection.connection.query<RowDataPacket[]>(
+            `SELECT productId, SUM(quantity - returnedQuantity) AS quantity
+            FROM item
+            WHERE invoiceId = ? AND quantity > returnedQuantity
+            GROUP BY productId`,
+            [invoiceId]
+        );
+        for (const { productId, quantity } of rows) await this.moveStock(productId, Number(quantity), "RETURN", source);
+        await this.variantRepo.restockInvoice(invoiceId);
+        return rows.map(row => row.productId);
+    }
+
+    /**
+     * Inserts a variant of a product, it runs in a transaction that locked the product.
+     * The first variant replaces the stock of the product with its own.
+     * @param userId the user that creates the variant
+     * @returns the id of the variant
+     */
+    async insertVariant(productId: number, variant: ProductVariantForCreationInterface, userId: number): Promise<number> {
+        const { size, ...rest } = variant;
+        const result = await this.variantRepo.insertOne({ color: null, price: null, ...rest, productId, sizeId: await this.linkSize(productId, size) });
+        await this.syncVariantStock(productId, { userId, reference: `variant:${result.insertId}` });
+        return result.insertId;
+    }
+
+    /**
+     * Updates a variant of a product, it runs in a transaction that locked the product.
+     * A change of its stock is recorded as an ADJUSTMENT of the product.
+     * @param userId the user that edits the variant
+     */
+    async updateVariant(productId: number, variantId: number, variant: ProductVariantForCreationInterface, userId: number): Promise<void> {
+        const [stored] = await this.variantRepo.find({ id: variantId, productId });
+        if (!stored) throw new Error("Variant not found");
+        const { size, ...rest } = variant;
+        await this.variantRepo.update({ ...rest, id: variantId, sizeId: await this.linkSize(productId, size) });
+        await this.syncVariantStock(productId, { userId, reference: `variant:${variantId}` });
+    }
+
+    /**
+     * Leaves the product stock as the sum of the stock of its variants
+     */
+    private async syncVariantStock(productId: number, source: StockMovementSourceInterface) {
+        const product = await this.productRepo.getById(productId);
+        const difference = (await this.variantRepo.getStock(productId)) - product.currentStock;
+        if (difference !== 0) await this.moveStock(productId, difference, "ADJUSTMENT", source);
+    }
+
+    /**
+     * Adds the size to the sizes of the product, so the product is found by the size of its variants.
+     * The size is created when it doesn't exist.
+     * @returns the id of the size
+     */
+    private async linkSize(productId: number, name?: string | null): Promise<number | null> {
+        if (!name) return null;
+        const [size] = await this.sizeRepo.find({ name });
+        const sizeId = size ? size.id : (await this.sizeRepo.insertOne({ name })).insertId;
+        const [link] = await this.productSizeRepo.find({ productId, sizeId });
+        if (!link) await this.productSizeRepo.insertOne({ productId, sizeId });
+        return sizeId;
+    }
+
+    /**
+     * The images the products are using, disabled products included
+     */
+    async getImageUrls(): Promise<string[]> {
+        const [rows] = await this.connection.connection.query<RowDataPacket[]>("SELECT DISTINCT url_img FROM product WHERE url_img IS NOT NULL");
+        return rows.map(row => row.url_img);
     }
 
     async getManager(idProduct: number): Promise<string> {
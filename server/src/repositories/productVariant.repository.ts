@@ -0,0 +1,60 @@
+import { ProductVariant } from "../models/productVariant";
+import { MySqlConnection } from "../core/mysql/mysql.connection";
+import { DependencyContainer, DependencyLifeTime, Injectable } from "@miracledevs/paradigm-web-di";
+import { EditRepositoryBase } from "../core/repositories/edit.repository";
+import { ResultSetHeader, RowDataPacket } from "mysql2";
+
+@Injectable({ lifeTime: DependencyLifeTime.Scoped })
+export class ProductVariantRepository extends EditRepositoryBase<ProductVariant> {
+    constructor(dependecyContainer: DependencyContainer, connection: MySqlConnection) {
+        super(dependecyContainer, connection, ProductVariant, "productVariant");
+    }
+
+    async getByIds(ids: number[]): Promise<ProductVariant[]> {
+        if (ids.length === 0) return [];
+        const [rows] = await this.connection.connection.query<RowDataPacket[]>(`SELECT * FROM \`${this.tableName}\` WHERE id IN (?)`, [ids]);
+        return this.map(rows, this.entityType);
+    }
+
+    /**
+     * Checks if the stock of the product is kept by its variants
+     */
+    async hasVariants(productId: number): Promise<boolean> {
+        const [rows] = await this.connection.connection.query<RowDataPacket[]>(`SELECT 1 FROM \`${this.tableName}\` WHERE productId = ? LIMIT 1`, [productId]);
+        return rows.length > 0;
+    }
+
+    /**
+     * Retrieve the sum of the stock of the product variants
+     */
+    async getStock(productId: number): Promise<number> {
+        const [rows] = await this.connection.connection.query<RowDataPacket[]>(
+            `SELECT COALESCE(SUM(currentStock), 0) AS stock FROM \`${this.tableName}\` WHERE productId = ?`,
+            [productId]
+        );
+        return Number(rows[0].stock);
+    }
+
+    /**
+     * Adds the quantity to the variant stock, or subtracts it when negative.
+     * The stock can't be left below zero, the stock of the product is moved apart.
+     * @returns false if the variant doesn't have enough stock
+     */
+    async moveStock(id: number, quantity: number): Promise<boolean> {
+        const [result] = await this.connection.connection.query<ResultSetHeader>(
+            `UPDATE \`${this.tableName}\` SET currentStock = currentStock + ? WHERE id = ? AND currentStock + ? >= 0`,
+            [quantity, id, quantity]
+        );
+        return result.affectedRows === 1;
+    }
+
+    /**
+     * Puts back in the variants stock the units of the invoice that weren't returned yet
+     */
+    async restockInvoice(invoiceId: number): Promise<void> {
+        await this.connection.connection.query(
+            `UPDATE \`${this.tableName}\` v JOIN item i ON i.variantId = v.id SET v.currentStock = v.currentStock + i.quantity - i.returnedQuantity WHERE i.invoiceId = ?`,
+            [invoiceId]
+        );
+    }
+}
@@ -0,0 +1,79 @@
+import { ProductVersion, ProductVersionAction, ProductVersionView } from "../models/productVersion";
+import { MySqlConnection } from "../core/mysql/mysql.connection";
+import { DependencyContainer, DependencyLifeTime, Injectable } from "@miracledevs/paradigm-web-di";
+import { EditRepositoryBase } from "../core/repositories/edit.repository";
+import { RowDataPacket } from "mysql2";
+
+/**
+ * The product history. Versions are only appended, after the product is changed in the same transaction,
+ * so each version is a snapshot of the product as the change left it.
+ */
+@Injectable({ lifeTime: DependencyLifeTime.Scoped })
+export class ProductVersionRepository extends EditRepositoryBase<ProductVersion> {
+    constructor(dependecyContainer: DependencyContainer, connection: MySqlConnection) {
+        super(dependecyContainer, connection, ProductVersion, "productVersion");
+    }
+
+    /**
+     * Records the product as it is now as its next version
+     * @param revertedVersion the version brought back by a REVERT
+     */
+    async record(productId: number, action: ProductVersionAction, userId: number | null, revertedVersion: number | null = null): Promise<void> {
+        await this.connection.connection.query(
+            `INSERT INTO \`${this.tableName}\`
+                (productId, version, action, name, description, price, discountPercentage, reorderPoint, minimum, brand, brandId, categories, sizes, url_img, status, revertedVersion, userId)
+            SELECT pv.id, (SELECT COALESCE(MAX(v.version), 0) + 1 FROM \`${this.tableName}\` v WHERE v.productId = pv.id), ?,
+                pv.name, pv.description, pv.price, COALESCE(pv.regularDiscountPercentage, 1), pv.reorderPoint, pv.minimum, pv.brand, p.brandId, pv.categories, pv.sizes, pv.url_img, pv.status, ?, ?
+            FROM product_view pv
+            INNER JOIN product p ON p.id = pv.id
+            WHERE pv.id = ?`,
+            [action, revertedVersion, userId, productId]
+        );
+    }
+
+    /**
+     * Retrieve the versions of a product with the email of the user that made them, newest first
+     */
+    async getByProduct(productId: number): Promise<ProductVersionView[]> {
+        const [rows] = await this.connection.connection.query<RowDataPacket[]>(
+            `SELECT v.*, u.email AS user
+            FROM \`${this.tableName}\` v
+            LEFT JOIN user u ON u.id = v.userId
+            WHERE v.productId = ?
+            ORDER BY v.version DESC`,
+            [productId]
+        );
+        return this.map(rows, ProductVersionView);
+    }
+
+    /**
+     * Retrieve a version of a product
+     */
+    async getVersion(productId: number, version: number): Promise<ProductVersion> {
+        const [productVersion] = await this.find({ productId, version });
+        if (!productVersion) throw new Error("Version not found");
+        return productVersion;
+    }
+
+    /**
+     * Retrieve the versions of a product made since the date, and the version it had at that date
+     */
+    async getSince(productId: number, since: Date): Promise<ProductVersion[]> {
+        const [rows] = await this.connection.connection.query<RowDataPacket[]>(
+            `SELECT * FROM \`${this.tableName}\`
+            WHERE productId = ?
+            AND version >= COALESCE((SELECT MAX(version) FROM \`${this.tableName}\` WHERE productId = ? AND createdAt <= ?), 1)
+            ORDER BY version`,
+            [productId, productId, since]
+        );
+        return this.map(rows, this.entityType);
+    }
+
+    /**
+     * The images of every version, a revert brings them back
+     */
+    async getImageUrls(): Promise<string[]> {
+        const [rows] = await this.connection.connection.query<RowDataPacket[]>(`SELECT DISTINCT url_img FROM \`${this.tableName}\` WHERE url_img IS NOT NULL`);
+        return rows.map(row => row.url_img);
+    }
+}
@@ -0,0 +1,24 @@
+import { Promotion } from "../models/promotion";
+import { MySqlConnection } from "../core/mysql/mysql.connection";
+import { DependencyContainer, DependencyLifeTime, Injectable } from "@miracledevs/paradigm-web-di";
+import { EditRepositoryBase } from "../core/repositories/edit.repository";
+import { ResultSetHeader } from "mysql2";
+
+@Injectable({ lifeTime: DependencyLifeTime.Scoped })
+export class PromotionRepository extends EditRepositoryBase<Promotion> {
+    constructor(dependecyContainer: DependencyContainer, connection: MySqlConnection) {
+        super(dependecyContainer, connection, Promotion, "promotion");
+    }
+
+    /**
+     * Counts a use of the promotion
+     * @returns false if the promotion reached its usage limit
+     */
+    async redeem(id: number): Promise<boolean> {
+        const [result] = await this.connection.connection.query<ResultSetHeader>(
+            `UPDATE \`${this.tableName}\` SET usageCount = usageCount + 1 WHERE id = ? AND (usageLimit IS NULL OR usageCount < usageLimit)`,
+            [id]
+        );
+        return result.affectedRows > 0;
+    }
+}
@@ -0,0 +1,30 @@
+import { PromotionView } from "../models/promotion";
+import { MySqlConnection } from "../core/mysql/mysql.connection";
+import { DependencyContainer, DependencyLifeTime, Injectable } from "@miracledevs/paradigm-web-di";
+import { EditRepositoryBase } from "../core/repositories/edit.repository";
+import { RowDataPacket } from "mysql2";
+
+@Injectable({ lifeTime: DependencyLifeTime.Scoped })
+export class PromotionViewRepository extends EditRepositoryBase<PromotionView> {
+    constructor(dependecyContainer: DependencyContainer, connection: MySqlConnection) {
+        super(dependecyContainer, connection, PromotionView, "promotion_view");
+    }
+
+    /**
+     * Retrieve the enabled promotions that are valid now and didn't reach their usage limit.
+     * Promotions with a code are only included when the code is given.
+     */
+    async getActive(code?: string): Promise<PromotionView[]> {
+        const [rows] = await this.connection.connection.query<RowDataPacket[]>(
+            `SELECT * FROM \`${this.tableName}\`
+            WHERE status = 1
+            AND (startsAt IS NULL OR startsAt <= NOW())
+            AND (endsAt IS NULL OR endsAt > NOW())
+            AND (usageLimit IS NULL OR usageCount < usageLimit)
+            AND (code IS NULL OR code = ?)
+            ORDER BY id`,
+            [code ?? null]
+        );
+        return this.map(rows, this.entityType);
+    }
+}
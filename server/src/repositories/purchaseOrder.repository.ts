@@ -0,0 +1,22 @@
+import { PurchaseOrder } from "../models/purchaseOrder";
+import { MySqlConnection } from "../core/mysql/mysql.connection";
+import { DependencyContainer, DependencyLifeTime, Injectable } from "@miracledevs/paradigm-web-di";
+import { EditRepositoryBase } from "../core/repositories/edit.repository";
+import { RowDataPacket } from "mysql2";
+
+@Injectable({ lifeTime: DependencyLifeTime.Scoped })
+export class PurchaseOrderRepository extends EditRepositoryBase<PurchaseOrder> {
+    constructor(dependecyContainer: DependencyContainer, connection: MySqlConnection) {
+        super(dependecyContainer, connection, PurchaseOrder, "purchaseOrder");
+    }
+
+    /**
+     * Retrieve the order and lock it until the transaction ends, so its status can't change twice
+     */
+    async getForUpdate(id: number): Promise<PurchaseOrder> {
+        const [rows] = await this.connection.connection.query<RowDataPacket[]>(`SELECT * FROM \`${this.tableName}\` WHERE id = ? FOR UPDATE`, [id]);
+        const [purchaseOrder] = this.map(rows, this.entityType);
+        if (!purchaseOrder) throw new Error("Purchase order not found");
+        return purchaseOrder;
+    }
+}
@@ -0,0 +1,58 @@
+import { PurchaseOrderLine } from "../models/purchaseOrder";
+import { MySqlConnection } from "../core/mysql/mysql.connection";
+import { DependencyContainer, DependencyLifeTime, Injectable } from "@miracledevs/paradigm-web-di";
+import { EditRepositoryBase } from "../core/repositories/edit.repository";
+import { ResultSetHeader, RowDataPacket } from "mysql2";
+
+@Injectable({ lifeTime: DependencyLifeTime.Scoped })
+export class PurchaseOrderLineRepository extends EditRepositoryBase<PurchaseOrderLine> {
+    constructor(dependecyContainer: DependencyContainer, connection: MySqlConnection) {
+        super(dependecyContainer, connection, PurchaseOrderLine, "purchaseOrderLine");
+    }
+
+    async deleteByOrder(purchaseOrderId: number): Promise<void> {
+        await this.connection.connection.query(`DELETE FROM \`${this.tableName}\` WHERE purchaseOrderId = ?`, [purchaseOrderId]);
+    }
+
+    /**
+     * Adds the units to the received units of the line, it can't receive more units than the ordered ones
+     * @returns false if the line doesn't have that many units pending
+     */
+    async addReceived(id: number, quantity: number): Promise<boolean> {
+        const [result] = await this.connection.connection.query<ResultSetHeader>(
+            `UPDATE \`${this.tableName}\` SET receivedQuantity = receivedQuantity + ? WHERE id = ? AND receivedQuantity + ? <= quantity`,
+            [quantity, id, quantity]
+        );
+        return result.affectedRows === 1;
+    }
+
+    /**
+     * Checks if every unit of the order was received
+     */
+    async isFullyReceived(purchaseOrderId: number): Promise<boolean> {
+        const [rows] = await this.connection.connection.query<RowDataPacket[]>(
+            `SELECT 1 FROM \`${this.tableName}\` WHERE purchaseOrderId = ? AND receivedQuantity < quantity LIMIT 1`,
+            [purchaseOrderId]
+        );
+        return rows.length === 0;
+    }
+
+    /**
+     * Adds up the units of the products ordered and not received yet, drafts included
+     * @returns the units by product id
+     */
+    async getOnOrder(productIds: number[]): Promise<Map<number, number>> {
+        const onOrder = new Map<number, number>();
+        if (productIds.length === 0) return onOrder;
+        const [rows] = await this.connection.connection.query<RowDataPacket[]>(
+            `SELECT l.productId, SUM(l.quantity - l.receivedQuantity) AS pending
+            FROM \`${this.tableName}\` l
+            JOIN purchaseOrder po ON po.id = l.purchaseOrderId
+            WHERE l.productId IN (?) AND po.status <> 'RECEIVED'
+            GROUP BY l.productId`,
+            [productIds]
+        );
+        rows.forEach(row => onOrder.set(row.productId, Number(row.pending)));
+        return onOrder;
+    }
+}
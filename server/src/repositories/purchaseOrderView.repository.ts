@@ -0,0 +1,26 @@
+import { PurchaseOrderStatus, PurchaseOrderView } from "../models/purchaseOrder";
+import { MySqlConnection } from "../core/mysql/mysql.connection";
+import { DependencyContainer, DependencyLifeTime, Injectable } from "@miracledevs/paradigm-web-di";
+import { EditRepositoryBase } from "../core/repositories/edit.repository";
+import { RowDataPacket } from "mysql2";
+
+@Injectable({ lifeTime: DependencyLifeTime.Scoped })
+export class PurchaseOrderViewRepository extends EditRepositoryBase<PurchaseOrderView> {
+    constructor(dependecyContainer: DependencyContainer, connection: MySqlConnection) {
+        super(dependecyContainer, connection, PurchaseOrderView, "purchase_order_view");
+    }
+
+    /**
+     * Retrieve the orders of a store, newest first
+     * @param status only the orders with this status
+     */
+    async getByStore(storeId: number, status?: PurchaseOrderStatus): Promise<PurchaseOrderView[]> {
+        const [rows] = await this.connection.connection.query<RowDataPacket[]>(
+            `SELECT * FROM \`${this.tableName}\`
+            WHERE storeId = ? ${status ? "AND status = ?" : ""}
+            ORDER BY createdAt DESC, id DESC`,
+            status ? [storeId, status] : [storeId]
+        );
+        return this.map(rows, this.entityType);
+    }
+}
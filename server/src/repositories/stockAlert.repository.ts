@@ -0,0 +1,24 @@
+import { StockAlert } from "../models/stockAlert";
+import { MySqlConnection } from "../core/mysql/mysql.connection";
+import { DependencyContainer, DependencyLifeTime, Injectable } from "@miracledevs/paradigm-web-di";
+import { EditRepositoryBase } from "../core/repositories/edit.repository";
+import { RowDataPacket } from "mysql2";
+
+@Injectable({ lifeTime: DependencyLifeTime.Scoped })
+export class StockAlertRepository extends EditRepositoryBase<StockAlert> {
+    constructor(dependecyContainer: DependencyContainer, connection: MySqlConnection) {
+        super(dependecyContainer, connection, StockAlert, "stockAlert");
+    }
+
+    /**
+     * Retrieve the open alerts of the products
+     */
+    async getOpen(productIds: number[]): Promise<StockAlert[]> {
+        if (productIds.length === 0) return [];
+        const [rows] = await this.connection.connection.query<RowDataPacket[]>(
+            `SELECT * FROM \`${this.tableName}\` WHERE productId IN (?) AND status = 'OPEN'`,
+            [productIds]
+        );
+        return this.map(rows, this.entityType);
+    }
+}
@@ -0,0 +1,32 @@
+import { StockAlertStatus, StockAlertView } from "../models/stockAlert";
+import { MySqlConnection } from "../core/mysql/mysql.connection";
+import { DependencyContainer, DependencyLifeTime, Injectable } from "@miracledevs/paradigm-web-di";
+import { EditRepositoryBase } from "../core/repositories/edit.repository";
+import { RowDataPacket } from "mysql2";
+
+@Injectable({ lifeTime: DependencyLifeTime.Scoped })
+export class StockAlertViewRepository extends EditRepositoryBase<StockAlertView> {
+    constructor(dependecyContainer: DependencyContainer, connection: MySqlConnection) {
+        super(dependecyContainer, connection, StockAlertView, "stock_alert_view");
+    }
+
+    /**
+     * Retrieve the alerts of a store, the ones below the minimum first and then the newest
+     * @param status only the alerts with this status
+     */
+    async getByStore(storeId: number, status?: StockAlertStatus): Promise<StockAlertView[]> {
+        const [rows] = await this.connection.connection.query<RowDataPacket[]>(
+            `SELECT * FROM \`${this.tableName}\`
+            WHERE storeId = ? ${status ? "AND status = ?" : ""}
+            ORDER BY status = 'OPEN' DESC, level = 'MINIMUM' DESC, createdAt DESC, id DESC`,
+            status ? [storeId, status] : [storeId]
+        );
+        return this.map(rows, this.entityType);
+    }
+
+    async getByIds(ids: number[]): Promise<StockAlertView[]> {
+        if (ids.length === 0) return [];
+        const [rows] = await this.connection.connection.query<RowDataPacket[]>(`SELECT * FROM \`${this.tableName}\` WHERE id IN (?)`, [ids]);
+        return this.map(rows, this.entityType);
+    }
+}
@@ -0,0 +1,56 @@
+import { StockMismatchInterface, StockMovement, StockMovementReason, StockMovementSourceInterface, StockMovementView } from "../models/stockMovement";
+import { MySqlConnection } from "../core/mysql/mysql.connection";
+import { DependencyContainer, DependencyLifeTime, Injectable } from "@miracledevs/paradigm-web-di";
+import { EditRepositoryBase } from "../core/repositories/edit.repository";
+import { RowDataPacket } from "mysql2";
+
+/**
+ * The stock ledger. Movements are only appended, after the product stock is changed in the same transaction,
+ * so the balance of each movement is the stock the product was left with.
+ */
+@Injectable({ lifeTime: DependencyLifeTime.Scoped })
+export class StockMovementRepository extends EditRepositoryBase<StockMovement> {
+    constructor(dependecyContainer: DependencyContainer, connection: MySqlConnection) {
+        super(dependecyContainer, connection, StockMovement, "stockMovement");
+    }
+
+    async record(productId: number, quantity: number, reason: StockMovementReason, source: StockMovementSourceInterface): Promise<void> {
+        await this.connection.connection.query(
+            `INSERT INTO \`${this.tableName}\` (productId, quantity, balance, reason, userId, reference, note)
+            SELECT id, ?, currentStock, ?, ?, ?, ? FROM product WHERE id = ?`,
+            [quantity, reason, source.userId, source.reference ?? null, source.note ?? null, productId]
+        );
+    }
+
+    /**
+     * Retrieve the movements of a product with the email of the user that made them, newest first
+     */
+    async getByProduct(productId: number): Promise<StockMovementView[]> {
+        const [rows] = await this.connection.connection.query<RowDataPacket[]>(
+            `SELECT sm.*, u.email AS user
+            FROM \`${this.tableName}\` sm
+            LEFT JOIN user u ON u.id = sm.userId
+            WHERE sm.productId = ?
+            ORDER BY sm.id DESC`,
+            [productId]
+        );
+        return this.map(rows, StockMovementView);
+    }
+
+    /**
+     * Retrieve the products of a store whose stock doesn't match the sum of their movements
+     */
+    async getMismatches(storeId: number): Promise<StockMismatchInterface[]> {
+        const [rows] = await this.connection.connection.query<RowDataPacket[]>(
+            `SELECT p.id AS productId, p.name, p.currentStock, CAST(COALESCE(SUM(sm.quantity), 0) AS SIGNED) AS ledgerStock
+            FROM product p
+            LEFT JOIN \`${this.tableName}\` sm ON sm.productId = p.id
+            WHERE p.storeId = ?
+            GROUP BY p.id, p.name, p.currentStock
+            HAVING ledgerStock <> p.currentStock
+            ORDER BY p.id`,
+            [storeId]
+        );
+        return rows as StockMismatchInterface[];
+    }
+}
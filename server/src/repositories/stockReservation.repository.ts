@@ -0,0 +1,89 @@
+import { StockReservation } from "../models/stockReservation";
+import { MySqlConnection } from "../core/mysql/mysql.connection";
+import { DependencyContainer, DependencyLifeTime, Injectable } from "@miracledevs/paradigm-web-di";
+import { EditRepositoryBase } from "../core/repositories/edit.repository";
+import { ResultSetHeader, RowDataPacket } from "mysql2";
+
+@Injectable({ lifeTime: DependencyLifeTime.Scoped })
+export class StockReservationRepository extends EditRepositoryBase<StockReservation> {
+    constructor(dependecyContainer: DependencyContainer, connection: MySqlConnection) {
+        super(dependecyContainer, connection, StockReservation, "stockReservation");
+    }
+
+    /**
+     * Holds units of a product, or of one of its variants, for the user, replacing the quantity and the expiration of the previous hold of the line
+     */
+    async hold(userId: number, productId: number, variantId: number | null, quantity: number, minutes: number): Promise<void> {
+        await this.connection.connection.query(
+            `INSERT INTO \`${this.tableName}\` (userId, productId, variantId, quantity, expiresAt) VALUES (?, ?, ?, ?, DATE_ADD(NOW(), INTERVAL ? MINUTE))
+            ON DUPLICATE KEY UPDATE quantity = VALUES(quantity), expiresAt = VALUES(expiresAt)`,
+            [userId, productId, variantId, quantity, minutes]
+        );
+    }
+
+    /**
+     * Releases the holds of the user, only the ones of the products when they are given
+     */
+    async release(userId: number, productIds?: number[]): Promise<void> {
+        if (productIds?.length === 0) return;
+        const products = productIds ? " AND productId IN (?)" : "";
+        await this.connection.connection.query<ResultSetHeader>(`DELETE FROM \`${this.tableName}\` WHERE userId = ?${products}`, [userId, productIds]);
+    }
+
+    /**
+     * Releases the hold of a cart line of the user
+     */
+    async releaseLine(userId: number, productId: number, variantId: number | null): Promise<void> {
+        await this.connection.connection.query<ResultSetHeader>(`DELETE FROM \`${this.tableName}\` WHERE userId = ? AND productId = ? AND variantId <=> ?`, [
+            userId,
+            productId,
+            variantId,
+        ]);
+    }
+
+    /**
+     * Retrieve the units of each product held by the user, adding up the lines of its variants
+     * @returns the held units by product id, products without holds are left out
+     */
+    async getHeldBy(userId: number, productIds: number[]): Promise<Map<number, number>> {
+        return await this.getHeld("productId", productIds, userId, false);
+    }
+
+    /**
+     * Retrieve the units of each product held by the other users
+     * @returns the held units by product id, products without holds are left out
+     */
+    async getHeldByOthers(userId: number, productIds: number[]): Promise<Map<number, number>> {
+        return await this.getHeld("productId", productIds, userId, true);
+    }
+
+    /**
+     * Retrieve the units of each variant held by the other users
+     * @returns the held units by variant id, variants without holds are left out
+     */
+    async getVariantsHeldByOthers(userId: number, variantIds: number[]): Promise<Map<number, number>> {
+        return await this.getHeld("variantId", variantIds, userId, true);
+    }
+
+    private async getHeld(column: "productId" | "variantId", ids: number[], userId: number, others: boolean): Promise<Map<number, number>> {
+        const held = new Map<number, number>();
+        if (ids.length === 0) return held;
+        const [rows] = await this.connection.connection.query<RowDataPacket[]>(
+            `SELECT ${column} AS id, SUM(quantity) AS quantity FROM \`${this.tableName}\`
+            WHERE ${column} IN (?) AND userId ${others ? "<>" : "="} ? AND expiresAt > NOW()
+            GROUP BY ${column}`,
+            [ids, userId]
+        );
+        rows.forEach(row => held.set(row.id, Number(row.quantity)));
+        return held;
+    }
+
+    /**
+     * Deletes the expired holds
+     * @returns the number of released holds
+     */
+    async deleteExpired(): Promise<number> {
+        const [result] = await this.connection.connection.query<ResultSetHeader>(`DELETE FROM \`${this.tableName}\` WHERE expiresAt <= NOW()`);
+        return result.affectedRows;
+    }
+}
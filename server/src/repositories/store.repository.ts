@@ -22,6 +22,15 @@ export class StoreRepository extends EditRepositoryBase<Store> {
         return rows;
     }
 
+    /**
+     * Retrieve the store run by the manager
+     */
+    async getByManager(managerId: number): Promise<Store> {
+        const [store] = await this.find({ managerId });
+        if (!store) throw new Error("Store not found");
+        return store;
+    }
+
     async getCategoriesAndSizesById(storeId: number) {
         const categoryQuery = `SELECT DISTINCT Category.name AS category
         FROM Product
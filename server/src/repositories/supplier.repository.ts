@@ -0,0 +1,20 @@
+import { Supplier } from "../models/supplier";
+import { MySqlConnection } from "../core/mysql/mysql.connection";
+import { DependencyContainer, DependencyLifeTime, Injectable } from "@miracledevs/paradigm-web-di";
+import { EditRepositoryBase } from "../core/repositories/edit.repository";
+
+@Injectable({ lifeTime: DependencyLifeTime.Scoped })
+export class SupplierRepository extends EditRepositoryBase<Supplier> {
+    constructor(dependecyContainer: DependencyContainer, connection: MySqlConnection) {
+        super(dependecyContainer, connection, Supplier, "supplier");
+    }
+
+    /**
+     * Retrieve a supplier of the store
+     */
+    async getByStore(id: number, storeId: number): Promise<Supplier> {
+        const [supplier] = await this.find({ id, storeId });
+        if (!supplier) throw new Error("Supplier not found");
+        return supplier;
+    }
+}
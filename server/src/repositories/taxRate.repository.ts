@@ -0,0 +1,27 @@
+import { TaxRate, TaxRateView } from "../models/tax";
+import { MySqlConnection } from "../core/mysql/mysql.connection";
+import { DependencyContainer, DependencyLifeTime, Injectable } from "@miracledevs/paradigm-web-di";
+import { EditRepositoryBase } from "../core/repositories/edit.repository";
+import { RowDataPacket } from "mysql2";
+
+@Injectable({ lifeTime: DependencyLifeTime.Scoped })
+export class TaxRateRepository extends EditRepositoryBase<TaxRate> {
+    constructor(dependecyContainer: DependencyContainer, connection: MySqlConnection) {
+        super(dependecyContainer, connection, TaxRate, "taxRate");
+    }
+
+    /**
+     * Retrieve the tax rates with the name of their category
+     * @param onlyEnabled leave out the disabled rates
+     */
+    async getViews(onlyEnabled = false): Promise<TaxRateView[]> {
+        const [rows] = await this.connection.connection.query<RowDataPacket[]>(
+            `SELECT tr.*, c.name AS category
+            FROM \`${this.tableName}\` tr
+            LEFT JOIN category c ON c.id = tr.categoryId
+            ${onlyEnabled ? "WHERE tr.status = 1" : ""}
+            ORDER BY tr.id`
+        );
+        return this.map(rows, TaxRateView);
+    }
+}
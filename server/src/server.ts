@@ -11,19 +11,23 @@ import { UserController } from "./controllers/user.controller";
 import { StoreController } from "./controllers/store.controller";
 import cookieParser from "cookie-parser";
 import { CheckoutController } from "./controllers/checkout.controller";
+import { CartController } from "./controllers/cart.controller";
+import { PickupController } from "./controllers/pickup.controller";
+import { ReturnController } from "./controllers/return.controller";
+import { PaymentController } from "./controllers/payment.controller";
+import { PromotionController } from "./controllers/promotion.controller";
+import { TaxController } from "./controllers/tax.controller";
+import { InventoryController } from "./controllers/inventory.controller";
+import { SupplierController } from "./controllers/supplier.controller";
+import { CampaignController } from "./controllers/campaign.controller";
+import { PurchaseOrderController } from "./controllers/purchaseOrder.controller";
+import { CatalogController } from "./controllers/catalog.controller";
+import { BrandController } from "./controllers/brand.controller";
 import path from "path";
 import { ResponseFilter } from "./filters/response.filter";
-import multer from "multer";
-const storage = multer.diskStorage({
-    destination: function (req, file, callback) {
-        callback(null, "public/");
-    },
-    filename: function (req, file, callback) {
-        callback(null, file.originalname);
-    },
-});
-
-const upload = multer({ storage: storage }).single("img_file");
+import { JobScheduler } from "./jobs/jobScheduler";
+import { ReleaseReservationsJob } from "./inventory/stockReservation.service";
+import { CleanOrphanedImagesJob, ImageService, isImageSize } from "./images/image.service";
 /**
  * Represents the api server application.
  * It contains the main DI container, the router and express application.
@@ -36,6 +40,7 @@ export class Server extends ApiServer {
         this.logger.debug("Configuring application...");
         const configuration = this.configurationBuilder.build(Configuration);
         const port = configuration.port || process.env.PORT || 4000;
+        const images = this.dependencyContainer.resolve(ImageService);
 
         this.expressApplication
             .set("etag", false)
@@ -45,13 +50,45 @@ export class Server extends ApiServer {
             .use(express.urlencoded({ extended: true }))
             .use(express.json())
             .use(cookieParser())
-            .use(upload)
-            .use("/images", express.static("./public"))
+            .get("/images/:size/:file", (req, res) => {
+                if (!isImageSize(req.params.size)) return res.sendStatus(404);
+                images
+                    .resized(req.params.size, req.params.file)
+                    .then(image => res.type("image/webp").send(image))
+                    .catch(() => res.sendStatus(404));
+            })
+            .get("/images/:file", (req, res) => {
+                images
+                    .original(req.params.file)
+                    .then(image => res.type(path.extname(req.params.file) || "image/webp").send(image))
+                    .catch(() => res.sendStatus(404));
+            })
             .use(express.static(path.join(__dirname, "../../client/dist")))
             .get("/", (req, res) => res.sendFile(path.join(__dirname, "../../client/dist/index.html")))
             .listen(port, () => this.logger.debug(`Listening on: http://localhost:${port}`));
-        this.registerControllers([HealthController, ProductController, UserController, StoreController, CheckoutController]);
+        this.registerControllers([
+            HealthController,
+            ProductController,
+            UserController,
+            StoreController,
+            CheckoutController,
+            CartController,
+            PickupController,
+            ReturnController,
+            PaymentController,
+            PromotionController,
+            TaxController,
+            InventoryController,
+            SupplierController,
+            CampaignController,
+            PurchaseOrderController,
+            CatalogController,
+            BrandController,
+        ]);
         this.routing.ignoreClosedResponseOnFilters();
         this.routing.registerGlobalFilters([MySqlConnectionFilter, ResponseFilter]);
+        const jobScheduler = this.dependencyContainer.resolve(JobScheduler);
+        jobScheduler.schedule(ReleaseReservationsJob, 1);
+        jobScheduler.schedule(CleanOrphanedImagesJob, 24 * 60);
     }
 }
@@ -0,0 +1,36 @@
+export interface StoredFile {
+    /**
+     * The path of the file in the storage, folders are separated by a slash
+     */
+    key: string;
+    size: number;
+    modifiedAt: Date;
+}
+
+/**
+ * The operations every storage driver has to support
+ */
+export interface FileStorage {
+    readonly name: string;
+
+    /**
+     * Writes the file, a file with the same key is replaced
+     */
+    put(key: string, data: Buffer, contentType: string): Promise<void>;
+
+    /**
+     * Reads the file
+     * @returns null when the file doesn't exist
+     */
+    get(key: string): Promise<Buffer | null>;
+
+    /**
+     * Deletes the file, missing files are ignored
+     */
+    delete(key: string): Promise<void>;
+
+    /**
+     * Lists every file, the ones of the subfolders included
+     */
+    list(): Promise<StoredFile[]>;
+}
@@ -0,0 +1,58 @@
+import fs from "fs/promises";
+import path from "path";
+import { FileStorage, StoredFile } from "./fileStorage";
+
+/**
+ * Stores the files in a folder of the server disk
+ */
+export class LocalFileStorage implements FileStorage {
+    readonly name = "local";
+
+    constructor(private readonly folder: string) {}
+
+    async put(key: string, data: Buffer): Promise<void> {
+        const file = this.resolve(key);
+        await fs.mkdir(path.dirname(file), { recursive: true });
+        await fs.writeFile(file, data);
+    }
+
+    async get(key: string): Promise<Buffer | null> {
+        try {
+            return await fs.readFile(this.resolve(key));
+        } catch (e) {
+            if (e.code === "ENOENT" || e.code === "EISDIR") return null;
+            throw e;
+        }
+    }
+
+    async delete(key: string): Promise<void> {
+        await fs.rm(this.resolve(key), { force: true });
+    }
+
+    async list(): Promise<StoredFile[]> {
+        const root = path.resolve(this.folder);
+        const files: StoredFile[] = [];
+        const read = async (folder: string) => {
+            for (const entry of await fs.readdir(folder, { withFileTypes: true })) {
+                const file = path.join(folder, entry.name);
+                if (entry.isDirectory()) await read(file);
+                else if (entry.isFile()) {
+                    const { size, mtime } = await fs.stat(file);
+                    files.push({ key: path.relative(root, file).split(path.sep).join("/"), size, modifiedAt: mtime });
+                }
+            }
+        };
+        await read(root);
+        return files;
+    }
+
+    /**
+     * The path of the file on disk, keys can't point outside of the folder
+     */
+    private resolve(key: string): string {
+        const root = path.resolve(this.folder);
+        const file = path.resolve(root, key);
+        if (!file.startsWith(root + path.sep)) throw new Error("Invalid file key");
+        return file;
+    }
+}
@@ -0,0 +1,53 @@
+import { DeleteObjectCommand, GetObjectCommand, ListObjectsV2Command, NoSuchKey, PutObjectCommand, S3Client } from "@aws-sdk/client-s3";
+import { StorageConfiguration } from "../configuration/storage.configuration";
+import { FileStorage, StoredFile } from "./fileStorage";
+
+/**
+ * Stores the files in a bucket of an S3 compatible service, like AWS S3 or MinIO
+ */
+export class S3FileStorage implements FileStorage {
+    readonly name = "s3";
+    private readonly client: S3Client;
+    private readonly bucket: string;
+
+    constructor(configuration: StorageConfiguration) {
+        if (!configuration.bucket) throw new Error("The S3 bucket is not configured");
+        this.bucket = configuration.bucket;
+        this.client = new S3Client({
+            endpoint: configuration.endpoint,
+            region: configuration.region,
+            // the services other than AWS don't have a subdomain per bucket
+            forcePathStyle: !!configuration.endpoint,
+            credentials: configuration.accessKeyId ? { accessKeyId: configuration.accessKeyId, secretAccessKey: configuration.secretAccessKey } : undefined,
+        });
+    }
+
+    async put(key: string, data: Buffer, contentType: string): Promise<void> {
+        await this.client.send(new PutObjectCommand({ Bucket: this.bucket, Key: key, Body: data, ContentType: contentType }));
+    }
+
+    async get(key: string): Promise<Buffer | null> {
+        try {
+            const object = await this.client.send(new GetObjectCommand({ Bucket: this.bucket, Key: key }));
+            return Buffer.from(await object.Body.transformToByteArray());
+        } catch (e) {
+            if (e instanceof NoSuchKey) return null;
+            throw e;
+        }
+    }
+
+    async delete(key: string): Promise<void> {
+        await this.client.send(new DeleteObjectCommand({ Bucket: this.bucket, Key: key }));
+    }
+
+    async list(): Promise<StoredFile[]> {
+        const files: StoredFile[] = [];
+        let token: string | undefined;
+        do {
+            const page = await this.client.send(new ListObjectsV2Command({ Bucket: this.bucket, ContinuationToken: token }));
+            for (const object of page.Contents ?? []) files.push({ key: object.Key, size: object.Size, modifiedAt: object.LastModified });
+            token = page.IsTruncated ? page.NextContinuationToken : undefined;
+        } while (token);
+        return files;
+    }
+}
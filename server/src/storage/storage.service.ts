@@ -0,0 +1,21 @@
+import { ConfigurationBuilder } from "@miracledevs/paradigm-express-webapi";
+import { DependencyLifeTime, Injectable } from "@miracledevs/paradigm-web-di";
+import { Configuration } from "../configuration/configuration";
+import { FileStorage } from "./fileStorage";
+import { LocalFileStorage } from "./local.storage";
+import { S3FileStorage } from "./s3.storage";
+
+/**
+ * Gives access to the storage of the uploaded files, with the driver chosen in the configuration
+ */
+@Injectable({ lifeTime: DependencyLifeTime.Singleton })
+export class StorageService {
+    readonly storage: FileStorage;
+
+    constructor(configurationBuilder: ConfigurationBuilder) {
+        const { storage } = configurationBuilder.build(Configuration);
+        if (storage.driver === "s3") this.storage = new S3FileStorage(storage);
+        else if (storage.driver === "local") this.storage = new LocalFileStorage(storage.folder);
+        else throw new Error(`Unknown storage driver ${storage.driver}`);
+    }
+}
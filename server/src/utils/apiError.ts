@@ -0,0 +1,16 @@
+/**
+ * An error that carries a payload for the client besides its message.
+ * The {@link ResponseFilter} sends the payload as the response data.
+ */
+export class ApiError<T = unknown> extends Error {
+    /**
+     * Creates a new instance of type @see ApiError
+     * @param message The error message.
+     * @param data The payload sent to the client.
+     * @param status The http status code of the response.
+     */
+    constructor(message: string, public readonly data?: T, public readonly status = 500) {
+        super(message);
+        this.name = "ApiError";
+    }
+}
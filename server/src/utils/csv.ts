@@ -0,0 +1,47 @@
+export type CsvValue = string | number | null | undefined;
+
+/**
+ * Parses a CSV document, fields with commas, quotes or line breaks are enclosed in double quotes
+ * @returns the rows with their fields, blank lines are skipped
+ */
+export function parseCsv(text: string): string[][] {
+    const rows: string[][] = [];
+    let row: string[] = [];
+    let field = "";
+    let quoted = false;
+    const input = text.replace(/^\uFEFF/, "");
+    for (let i = 0; i < input.length; i++) {
+        const char = input[i];
+        if (quoted) {
+            if (char === "\"" && input[i + 1] === "\"") {
+                field += "\"";
+                i++;
+            } else if (char === "\"") quoted = false;
+            else field += char;
+        } else if (char === "\"") quoted = true;
+        else if (char === ",") {
+            row.push(field);
+            field = "";
+        } else if (char === "\n" || char === "\r") {
+            if (char === "\r" && input[i + 1] === "\n") i++;
+            row.push(field);
+            if (row.some(value => value !== "")) rows.push(row);
+            row = [];
+            field = "";
+        } else field += char;
+    }
+    row.push(field);
+    if (row.some(value => value !== "")) rows.push(row);
+    return rows;
+}
+
+/**
+ * Writes the rows as a CSV document, null and undefined values are left empty
+ */
+export function toCsv(rows: CsvValue[][]): string {
+    const escape = (value: CsvValue) => {
+        const text = value === null || value === undefined ? "" : String(value);
+        return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, "\"\"")}"` : text;
+    };
+    return rows.map(row => row.map(escape).join(",")).join("\r\n") + "\r\n";
+}
@@ -3,12 +3,20 @@ import nodemailer from "nodemailer";
 import { InvoiceViewInterface } from "../models/invoiceView";
 import { DependencyLifeTime, Injectable } from "@miracledevs/paradigm-web-di";
 import SMTPTransport from "nodemailer/lib/smtp-transport";
+import { pickupQrPayload } from "./pickupCode";
+import { roundMoney } from "./roundMoney";
+import { formatInvoiceNumber, taxesByRate } from "./taxes";
+import { lineName } from "./lineName";
+import { InvoicePdf } from "./invoicePdf";
+import { StockAlertViewInterface } from "../models/stockAlert";
+import { PurchaseOrderViewInterface } from "../models/purchaseOrder";
 
 type TMessage = {
     from: string;
     to: string;
     subject: string;
     html: string;
+    attachments?: { filename: string; content: Buffer; contentType: string }[];
 };
 
 interface IEmailerService {
@@ -37,11 +45,45 @@ class NodeService implements IEmailerService {
 
 @Injectable({ lifeTime: DependencyLifeTime.Transient })
 export class Emailer {
-    constructor(private readonly EmailerService: NodeService) {}
+    constructor(private readonly EmailerService: NodeService, private readonly invoicePdf: InvoicePdf) {}
 
     private odd(number: number) {
         return number % 2 === 0 ? "background-color:silver;padding-right:5px;" : "background-color:white;padding-right:5px;";
     }
+
+    private pickupSection(invoice: InvoiceViewInterface) {
+        const slot = (pickup: InvoiceViewInterface["pickups"][number]) =>
+            pickup.startsAt ? `${new Date(pickup.startsAt).toLocaleString()} - ${new Date(pickup.endsAt).toLocaleTimeString()}` : "Store opening hours";
+        return `
+                <b>PICKUP</b>
+                <p>Pickup code: <b style="font-size: 24px; letter-spacing: 4px;">${invoice.pickupCode}</b></p>
+                <p>QR: ${pickupQrPayload(invoice.id, invoice.pickupCode)}</p>
+                <ul>
+                    ${(invoice.pickups ?? []).map(pickup => `<li>${pickup.store}: ${slot(pickup)}</li>`).join("")}
+                </ul>`;
+    }
+
+    private discountSection(invoice: InvoiceViewInterface) {
+        return `
+                <p>Subtotal: ${roundMoney(invoice.total + invoice.discount)}</p>
+                <b>DISCOUNTS</b>
+                <ul>
+                    ${invoice.discounts
+                        .map(discount => `<li>${discount.description}${discount.code ? ` (${discount.code})` : ""}: -${discount.amount}</li>`)
+                        .join("")}
+                </ul>`;
+    }
+
+    private taxSection(invoice: InvoiceViewInterface) {
+        return `
+                <p>Taxes included:</p>
+                <ul>
+                    ${taxesByRate(invoice.products)
+                        .map(({ rate, tax }) => `<li>${rate}%: ${tax}</li>`)
+                        .join("")}
+                </ul>`;
+    }
+
     async sendInvoice(invoice: InvoiceViewInterface) {
         const html = `
             <div style="display: block; background-color: white; max-width: 600px;">
@@ -49,7 +91,11 @@ export class Emailer {
                     <h1 style="margin:5px; font-size: 36px;">INVOICE</h1>
                     <h1 style="margin:5px; font-size: 36px;"><span style="margin-right: auto;">Shoppy</span></h1>
                 </header>
-                <p>Purchase Order: ${invoice.id}</p>
+                ${
+                    invoice.numbers?.length
+                        ? invoice.numbers.map(number => `<p>Invoice ${formatInvoiceNumber(number.storeId, number.number)} - ${number.store}</p>`).join("")
+                        : `<p>Order: ${invoice.id}</p>`
+                }
                 <p>Date : ${invoice.date.toDateString()}</p>
                 <b>BILL TO</b>
                 <p>Name: ${invoice.name + " " + invoice.lastName}</p>
@@ -81,7 +127,7 @@ export class Emailer {
                             const num = this.odd(i);
                             return `
                                 <tr>
-                                    <td style=${num}>${product.name}</td>
+                                    <td style=${num}>${lineName(product)}</td>
                                     <td style=${num}>${product.store}</td>
                                     <td style=${num}>${product.price}</td>
                                     <td style=${num}>${product.quantity}</td>
@@ -91,7 +137,10 @@ export class Emailer {
                         .join("")}
                     </tbody>
                 </table>
+                ${invoice.discounts?.length ? this.discountSection(invoice) : ""}
                 <h2>Grand Total: ${invoice.total}</h2>
+                ${invoice.tax ? this.taxSection(invoice) : ""}
+                ${invoice.pickupCode ? this.pickupSection(invoice) : ""}
             </div>`;
 
         const message = {
@@ -99,6 +148,82 @@ export class Emailer {
             to: invoice.email,
             subject: "Invoice",
             html: html,
+            attachments: [{ filename: `invoice-${invoice.id}.pdf`, content: await this.invoicePdf.render(invoice), contentType: "application/pdf" }],
+        };
+
+        return await this.EmailerService.send(message);
+    }
+
+    async sendStockAlert(alert: StockAlertViewInterface) {
+        const title = alert.level === "MINIMUM" ? "Stock below minimum" : "Low stock";
+        const html = `
+            <div style="display: block; background-color: white; max-width: 600px;">
+                <h1 style="margin:5px; font-size: 28px;">${title}</h1>
+                <p>Store: ${alert.store}</p>
+                <p>Product: ${alert.product} (#${alert.productId})</p>
+                <p>Current stock: <b>${alert.stock}</b></p>
+                <p>Reorder point: ${alert.reorderPoint}</p>
+                <p>Minimum: ${alert.minimum}</p>
+            </div>`;
+
+        const message = {
+            from: "shoppy@email.com",
+            to: alert.managerEmail,
+            subject: `${title}: ${alert.product}`,
+            html: html,
+        };
+
+        return await this.EmailerService.send(message);
+    }
+
+    async sendPurchaseOrder(order: PurchaseOrderViewInterface) {
+        const html = `
+            <div style="display: block; background-color: white; max-width: 600px;">
+                <h1 style="margin:5px; font-size: 28px;">PURCHASE ORDER</h1>
+                <p>Purchase Order: ${order.id}</p>
+                <p>Store: ${order.store}</p>
+                <p>Supplier: ${order.supplier}</p>
+                ${order.note ? `<p>${order.note}</p>` : ""}
+                <table style="width: 100%; text-align: left;">
+                    <thead>
+                        <tr>
+                            <th>
+                                <b>product</b>
+                            </th>
+                            <th>
+                                <b>sku</b>
+                            </th>
+                            <th>
+                                <b>quantity</b>
+                            </th>
+                            <th>
+                                <b>unit cost</b>
+                            </th>
+                        </tr>
+                    </thead>
+                    <tbody>
+                    ${order.lines
+                        .map((line, i) => {
+                            const num = this.odd(i);
+                            return `
+                                <tr>
+                                    <td style=${num}>${lineName(line)}</td>
+                                    <td style=${num}>${line.sku ?? "-"}</td>
+                                    <td style=${num}>${line.quantity}</td>
+                                    <td style=${num}>${line.unitCost ?? "-"}</td>
+                                </tr>`;
+                        })
+                        .join("")}
+                    </tbody>
+                </table>
+                ${order.total ? `<h2>Total: ${order.total}</h2>` : ""}
+            </div>`;
+
+        const message = {
+            from: "shoppy@email.com",
+            to: order.supplierEmail,
+            subject: `Purchase order ${order.id} - ${order.store}`,
+            html: html,
         };
 
         return await this.EmailerService.send(message);
@@ -0,0 +1,29 @@
+export type FileType = "jpeg" | "png" | "gif" | "webp" | "avif" | "zip";
+
+const signatures: { type: FileType; offset: number; bytes: string }[] = [
+    { type: "jpeg", offset: 0, bytes: "ffd8ff" },
+    { type: "png", offset: 0, bytes: "89504e470d0a1a0a" },
+    { type: "gif", offset: 0, bytes: "474946383761" },
+    { type: "gif", offset: 0, bytes: "474946383961" },
+    { type: "avif", offset: 4, bytes: "6674797061766966" },
+    { type: "avif", offset: 4, bytes: "6674797061766973" },
+    { type: "zip", offset: 0, bytes: "504b0304" },
+    { type: "zip", offset: 0, bytes: "504b0506" },
+];
+
+/**
+ * Finds the type of a file by its first bytes, the name and the content type sent with it can't be trusted
+ * @returns null when the type is unknown
+ */
+export function sniffFileType(data: Buffer): FileType | null {
+    if (data.toString("latin1", 0, 4) === "RIFF" && data.toString("latin1", 8, 12) === "WEBP") return "webp";
+    const signature = signatures.find(({ offset, bytes }) => data.toString("hex", offset, offset + bytes.length / 2) === bytes);
+    return signature?.type ?? null;
+}
+
+/**
+ * Checks the file looks like text, binary files have null bytes or a known signature
+ */
+export function isTextFile(data: Buffer): boolean {
+    return sniffFileType(data) === null && !data.includes(0);
+}
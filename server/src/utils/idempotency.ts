@@ -0,0 +1,50 @@
+import { DependencyLifeTime, Injectable } from "@miracledevs/paradigm-web-di";
+import { Request } from "express";
+import { createHash } from "crypto";
+import { IdempotencyKeyRepository } from "../repositories/idempotencyKey.repository";
+import { ApiError } from "./apiError";
+
+const replayHours = Number(process.env.SHOPPY__IDEMPOTENCY_HOURS ?? 24);
+
+/**
+ * Makes the mutating actions safe to retry.
+ * When the request has an `Idempotency-Key` header, the result of the first request with that key is stored
+ * and returned again for the repeats made within the replay window, without running the action again.
+ * Failed requests don't keep the key, so they can be retried with it.
+ */
+@Injectable({ lifeTime: DependencyLifeTime.Scoped })
+export class IdempotencyService {
+    constructor(private readonly idempotencyKeyRepo: IdempotencyKeyRepository) {}
+
+    /**
+     * Runs the action once for each idempotency key of the user.
+     * Has to be called outside of a transaction, the key is claimed before the action runs.
+     */
+    async run<T>(userId: number, request: Request, action: () => Promise<T>): Promise<T> {
+        const key = request.header("Idempotency-Key");
+        if (key === undefined) return await action();
+        if (!key || key.length > 64) throw new ApiError("Invalid idempotency key", undefined, 400);
+
+        const requestHash = createHash("sha256")
+            .update(`${request.method} ${request.originalUrl} ${JSON.stringify(request.body ?? null)}`)
+            .digest("hex");
+        await this.idempotencyKeyRepo.deleteExpired(replayHours);
+        const id = await this.idempotencyKeyRepo.claim(userId, key, requestHash);
+        if (id === undefined) {
+            const [previous] = await this.idempotencyKeyRepo.find({ userId, idempotencyKey: key });
+            if (!previous) throw new ApiError("A request with this idempotency key is in progress", undefined, 409);
+            if (previous.requestHash !== requestHash) throw new ApiError("The idempotency key was used with a different request", undefined, 422);
+            if (previous.response === null) throw new ApiError("A request with this idempotency key is in progress", undefined, 409);
+            return previous.response as T;
+        }
+
+        try {
+            const result = await action();
+            await this.idempotencyKeyRepo.saveResponse(id, result ?? {});
+            return result;
+        } catch (e) {
+            await this.idempotencyKeyRepo.delete({ id });
+            throw e;
+        }
+    }
+}
@@ -0,0 +1,119 @@
+import PDFDocument from "pdfkit";
+import { DependencyLifeTime, Injectable } from "@miracledevs/paradigm-web-di";
+import { InvoiceViewInterface } from "../models/invoiceView";
+import { pickupQrPayload } from "./pickupCode";
+import { roundMoney } from "./roundMoney";
+import { formatInvoiceNumber, taxesByRate } from "./taxes";
+import { lineName } from "./lineName";
+
+const columns = [
+    { title: "name", x: 50, width: 170 },
+    { title: "store", x: 225, width: 120 },
+    { title: "price", x: 350, width: 60 },
+    { title: "quantity", x: 415, width: 60 },
+    { title: "total", x: 480, width: 65 },
+];
+
+/**
+ * Renders the invoices as PDF documents, the same document is downloaded by the customers and attached to the checkout email
+ */
+@Injectable({ lifeTime: DependencyLifeTime.Transient })
+export class InvoicePdf {
+    /**
+     * Renders an invoice
+     * @returns the PDF file contents
+     */
+    render(invoice: InvoiceViewInterface): Promise<Buffer> {
+        const doc = new PDFDocument({ size: "A4", margin: 50, info: { Title: `Invoice ${invoice.id}`, Author: "Shoppy" } });
+        const chunks: Buffer[] = [];
+        const done = new Promise<Buffer>((resolve, reject) => {
+            doc.on("data", chunk => chunks.push(chunk));
+            doc.on("end", () => resolve(Buffer.concat(chunks)));
+            doc.on("error", reject);
+        });
+
+        this.header(doc, invoice);
+        this.lines(doc, invoice);
+        this.totals(doc, invoice);
+        if (invoice.pickupCode) this.pickup(doc, invoice);
+        doc.end();
+
+        return done;
+    }
+
+    private header(doc: PDFKit.PDFDocument, invoice: InvoiceViewInterface) {
+        const y = doc.y;
+        doc.font("Helvetica-Bold").fontSize(28).text("INVOICE", 50, y);
+        doc.text("Shoppy", 50, y, { align: "right" });
+        doc.moveDown();
+        doc.font("Helvetica").fontSize(11);
+        if (invoice.numbers?.length) {
+            invoice.numbers.forEach(number => doc.text(`Invoice ${formatInvoiceNumber(number.storeId, number.number)} - ${number.store}`));
+        } else {
+            doc.text(`Order: ${invoice.id}`);
+        }
+        doc.text(`Date: ${new Date(invoice.date).toDateString()}`);
+        doc.text(`Status: ${invoice.status}`);
+        doc.moveDown();
+        doc.font("Helvetica-Bold").text("BILL TO");
+        doc.font("Helvetica").text(`Name: ${invoice.name} ${invoice.lastName}`);
+        doc.text(`Email: ${invoice.email}`);
+        doc.text(`${invoice.idDocumentType}: ${invoice.idDocumentNumber}`);
+        doc.moveDown();
+    }
+
+    private lines(doc: PDFKit.PDFDocument, invoice: InvoiceViewInterface) {
+        this.row(
+            doc.font("Helvetica-Bold"),
+            columns.map(column => column.title)
+        );
+        doc.font("Helvetica");
+        invoice.products.forEach((product, i) => {
+            if (doc.y > doc.page.height - doc.page.margins.bottom - 20) doc.addPage();
+            const y = doc.y;
+            if (i % 2 === 0)
+                doc.rect(50, y - 2, 495, 16)
+                    .fill("silver")
+                    .fillColor("black");
+            this.row(doc, [lineName(product), product.store, product.price, product.quantity, product.total]);
+        });
+        doc.moveDown();
+    }
+
+    private row(doc: PDFKit.PDFDocument, values: (string | number)[]) {
+        const y = doc.y;
+        values.forEach((value, i) => doc.text(String(value), columns[i].x, y, { width: columns[i].width, height: 12, ellipsis: true }));
+        doc.x = 50;
+        doc.y = y + 16;
+    }
+
+    private totals(doc: PDFKit.PDFDocument, invoice: InvoiceViewInterface) {
+        if (invoice.discounts?.length) {
+            doc.text(`Subtotal: ${roundMoney(invoice.total + invoice.discount)}`);
+            doc.font("Helvetica-Bold").text("DISCOUNTS").font("Helvetica");
+            invoice.discounts.forEach(discount => doc.text(`${discount.description}${discount.code ? ` (${discount.code})` : ""}: -${discount.amount}`));
+            doc.moveDown();
+        }
+        doc.font("Helvetica-Bold").fontSize(16).text(`Grand Total: ${invoice.total}`);
+        doc.font("Helvetica").fontSize(11);
+        if (invoice.tax) {
+            doc.text("Taxes included:");
+            taxesByRate(invoice.products).forEach(({ rate, tax }) => doc.text(`${rate}%: ${tax}`));
+        }
+        doc.moveDown();
+    }
+
+    private pickup(doc: PDFKit.PDFDocument, invoice: InvoiceViewInterface) {
+        doc.font("Helvetica-Bold").text("PICKUP");
+        doc.font("Helvetica").text("Pickup code: ", { continued: true }).font("Helvetica-Bold").fontSize(18).text(invoice.pickupCode);
+        doc.font("Helvetica")
+            .fontSize(11)
+            .text(`QR: ${pickupQrPayload(invoice.id, invoice.pickupCode)}`);
+        (invoice.pickups ?? []).forEach(pickup => {
+            const slot = pickup.startsAt
+                ? `${new Date(pickup.startsAt).toLocaleString()} - ${new Date(pickup.endsAt).toLocaleTimeString()}`
+                : "Store opening hours";
+            doc.text(`${pickup.store}: ${slot}`);
+        });
+    }
+}
@@ -0,0 +1,7 @@
+/**
+ * The name of a sold line, with the size and color of its variant when it has one
+ */
+export function lineName(line: { name: string; size?: string | null; color?: string | null }): string {
+    const variant = [line.size, line.color].filter(Boolean).join(" / ");
+    return variant ? `${line.name} (${variant})` : line.name;
+}
@@ -0,0 +1,20 @@
+import { randomInt } from "crypto";
+
+// Letters and digits that can't be mistaken for each other when read aloud or printed
+const alphabet = "ABCDEFGHJKLMNPQRSTUVWXYZ23456789";
+
+/**
+ * Creates a random pickup code of 6 characters
+ */
+export function createPickupCode(): string {
+    let code = "";
+    for (let i = 0; i < 6; i++) code += alphabet[randomInt(alphabet.length)];
+    return code;
+}
+
+/**
+ * The content of the QR the customer shows at the store
+ */
+export function pickupQrPayload(invoiceId: number, code: string): string {
+    return `shoppy:pickup?order=${invoiceId}&code=${code}`;
+}
@@ -0,0 +1,45 @@
+import { ProductInterface } from "../models/product";
+import { InvoiceViewInterface } from "../models/invoiceView";
+import { TaxRateViewInterface } from "../models/tax";
+import { roundMoney } from "./roundMoney";
+
+function specificity(taxRate: TaxRateViewInterface) {
+    return (taxRate.categoryId !== null ? 2 : 0) + (taxRate.storeId !== null ? 1 : 0);
+}
+
+/**
+ * Finds the most specific enabled rate for the product
+ * @returns undefined when no rate applies to the product
+ */
+export function findTaxRate(taxRates: TaxRateViewInterface[], product: ProductInterface): TaxRateViewInterface | undefined {
+    return taxRates
+        .filter(taxRate => taxRate.storeId === null || taxRate.storeId === product.storeId)
+        .filter(taxRate => taxRate.category === null || (product.categories ?? []).includes(taxRate.category))
+        .sort((a, b) => specificity(b) - specificity(a) || a.id - b.id)[0];
+}
+
+/**
+ * The tax included in an amount
+ * @param rate the tax rate as a percentage
+ */
+export function includedTax(amount: number, rate: number): number {
+    return roundMoney(amount - amount / (1 + rate / 100));
+}
+
+/**
+ * Formats a fiscal number as the store point of sale and the number, like 0003-00000042
+ */
+export function formatInvoiceNumber(storeId: number, number: number): string {
+    return `${String(storeId).padStart(4, "0")}-${String(number).padStart(8, "0")}`;
+}
+
+/**
+ * Adds up the tax included in the invoice lines by rate, skipping untaxed lines
+ */
+export function taxesByRate(products: InvoiceViewInterface["products"]): { rate: number; tax: number }[] {
+    const rates = [...new Set(products.map(product => product.taxRate))].filter(rate => rate > 0);
+    return rates.map(rate => ({
+        rate,
+        tax: roundMoney(products.filter(product => product.taxRate === rate).reduce((acc, product) => acc + product.tax, 0)),
+    }));
+}
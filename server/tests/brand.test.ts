@@ -0,0 +1,221 @@
+import { ApiClient } from "../src/core/http/api.client";
+import { ResponseInterface } from "../src/models/response";
+import { BrandProductsInterface, BrandViewInterface } from "../src/models/brand";
+import { ProductVersionViewInterface } from "../src/models/productVersion";
+import { ResultSetHeader, RowDataPacket } from "mysql2/promise";
+import { UserInterface } from "../src/models/user";
+import { createPool } from "./db.setup";
+import sharp from "sharp";
+import fs from "fs/promises";
+import path from "path";
+import bcrypt from "bcrypt";
+import jwt from "jsonwebtoken";
+import dotenv from "dotenv";
+dotenv.config();
+
+/*****************
+SETUP
+*****************/
+
+const api = new ApiClient(process.env.BASE_URL + "/api/brand");
+const customerApi = new ApiClient(process.env.BASE_URL + "/api/brand");
+const pool = createPool();
+
+const admin: UserInterface = {
+    email: "testbrandadmin@example.com",
+    password: "test1234",
+    name: "Test",
+    lastName: "Admin",
+    idDocumentType: "DNI",
+    idDocumentNumber: 11118642,
+    rol: "Admin",
+};
+
+const customer: UserInterface = {
+    email: "testbrandcustomer@example.com",
+    password: "test1234",
+    name: "Test",
+    lastName: "Customer",
+    idDocumentType: "DNI",
+    idDocumentNumber: 11118643,
+};
+
+let token: string;
+let storeIds: number[] = [];
+let closedStoreId: number;
+const brandIds: number[] = [];
+const productIds: number[] = [];
+let uploaded: string;
+
+const insertProduct = async (storeId: number, name: string, brandId: number) => {
+    const [result] = await pool.query<ResultSetHeader>("INSERT INTO product SET ?", [
+        { name, description: "Producto de la marca", price: 10, currentStock: 5, reorderPoint: 1, minimum: 1, storeId, brandId },
+    ]);
+    productIds.push(result.insertId);
+};
+
+const createBrand = async (name: string) => {
+    const response = await api.post<ResponseInterface<BrandViewInterface>>("", null, JSON.stringify({ name }));
+    if (response.data.data?.id) brandIds.push(response.data.data.id);
+    return response;
+};
+
+beforeAll(async () => {
+    try {
+        admin.password = await bcrypt.hash("test1234", 10);
+        const [adminInsert] = await pool.query<ResultSetHeader>("INSERT INTO user SET ?", [admin]);
+        admin.id = adminInsert.insertId;
+        customer.password = await bcrypt.hash("test1234", 10);
+        const [customerInsert] = await pool.query<ResultSetHeader>("INSERT INTO user SET ?", [customer]);
+        customer.id = customerInsert.insertId;
+        for (const name of ["tienda marcas norte", "tienda marcas sur"]) {
+            const [storeInsert] = await pool.query<ResultSetHeader>("INSERT INTO store SET ?", [{ name, apiUrl: "test@test.com" }]);
+            storeIds.push(storeInsert.insertId);
+        }
+        const [closedInsert] = await pool.query<ResultSetHeader>("INSERT INTO store SET ?", [
+            { name: "tienda marcas cerrada", apiUrl: "test@test.com", status: 0 },
+        ]);
+        closedStoreId = closedInsert.insertId;
+
+        token = jwt.sign({ ...admin }, process.env.SHOPPY__ACCESS_TOKEN, { expiresIn: "1d" });
+        api.authorize(token);
+        customerApi.authorize(jwt.sign({ ...customer }, process.env.SHOPPY__ACCESS_TOKEN, { expiresIn: "1d" }));
+    } catch (err) {
+        console.error(err);
+    }
+});
+
+afterAll(async () => {
+    try {
+        storeIds = [...storeIds, closedStoreId];
+        await pool.query("DELETE FROM product WHERE storeId IN (?)", [storeIds]);
+        await pool.query("DELETE FROM store WHERE id IN (?)", [storeIds]);
+        if (brandIds.length) await pool.query("DELETE FROM brand WHERE id IN (?)", [brandIds]);
+        await pool.query("DELETE FROM user WHERE id IN (?)", [[admin.id, customer.id]]);
+        if (uploaded) for (const folder of ["", "thumbnail", "card", "detail"]) await fs.rm(path.join("public", folder, uploaded), { force: true });
+    } catch (err) {
+        console.error(err);
+    } finally {
+        pool.end();
+    }
+});
+
+/*****************
+TESTS
+******************/
+
+describe("POST /api/brand", () => {
+    it("should create a brand", async () => {
+        const response = await createBrand("Marca test Levis");
+        expect(response.data.message).toBe(undefined);
+        expect(response.data.data).toMatchObject({ name: "Marca test Levis", url_logo: null, products: 0 });
+    });
+    it("should not create a brand with the name of another one", async () => {
+        const response = await createBrand("marca TEST levis");
+        expect(response.status).toBe(500);
+        expect(response.data.message).toBe("The brand already exists");
+    });
+    it("should only let the admins create brands", async () => {
+        const response = await customerApi.post<ResponseInterface<BrandViewInterface>>("", null, JSON.stringify({ name: "Marca test cliente" }));
+        expect(response.status).toBe(500);
+        expect(response.data.message).toBe("Unauthorized");
+    });
+});
+
+describe("GET /api/brand/:brandId", () => {
+    beforeAll(async () => {
+        await insertProduct(storeIds[0], "Jean marca norte", brandIds[0]);
+        await insertProduct(storeIds[1], "Jean marca sur", brandIds[0]);
+        await insertProduct(closedStoreId, "Jean marca cerrada", brandIds[0]);
+    });
+
+    it("should list the products of the brand from every active store", async () => {
+        const response = await api.get<ResponseInterface<BrandProductsInterface>>(`${brandIds[0]}`);
+        expect(response.data.message).toBe(undefined);
+        const { brand, products, pagination } = response.data.data;
+        expect(brand).toMatchObject({ id: brandIds[0], products: 3 });
+        expect(products.map(product => [product.name, product.store])).toEqual([
+            ["Jean marca norte", "tienda marcas norte"],
+            ["Jean marca sur", "tienda marcas sur"],
+        ]);
+        expect(pagination).toMatchObject({ totalItems: 2, totalPages: 1, hasNextPage: false });
+    });
+    it("should not find a missing brand", async () => {
+        const response = await api.get<ResponseInterface<BrandProductsInterface>>("0");
+        expect(response.status).toBe(500);
+        expect(response.data.message).toBe("Brand not found");
+    });
+});
+
+describe("PUT /api/brand/:brandId/logo", () => {
+    it("should store the logo as webp", async () => {
+        const image = await sharp({ create: { width: 300, height: 100, channels: 3, background: "#993366" } })
+            .png()
+            .toBuffer();
+        const form = new FormData();
+        form.append("img_file", new Blob([image]), "logo.png");
+        const response = await fetch(`${process.env.BASE_URL}/api/brand/${brandIds[0]}/logo`, { method: "PUT", headers: { "x-auth": token }, body: form });
+        const body = (await response.json()) as ResponseInterface<BrandViewInterface>;
+        expect(body.message).toBe(undefined);
+        expect(body.data.url_logo).toMatch(/^images\/[0-9a-f]{32}\.webp$/);
+        uploaded = path.basename(body.data.url_logo);
+    });
+});
+
+describe("POST /api/brand/:brandId/merge", () => {
+    it("should move the products to the other brand and delete the merged one", async () => {
+        const duplicate = await createBrand("Marca test Levi");
+        await insertProduct(storeIds[0], "Remera marca duplicada", duplicate.data.data.id);
+        const response = await api.post<ResponseInterface<BrandViewInterface>>(
+            `${duplicate.data.data.id}/merge`,
+            null,
+            JSON.stringify({ targetId: brandIds[0] })
+        );
+        expect(response.data.message).toBe(undefined);
+        expect(response.data.data).toMatchObject({ id: brandIds[0], products: 4 });
+        const [brands] = await pool.query<RowDataPacket[]>("SELECT id FROM brand WHERE id = ?", [duplicate.data.data.id]);
+        expect(brands).toHaveLength(0);
+        const [versions] = await pool.query<RowDataPacket[]>("SELECT * FROM productVersion WHERE productId = ? ORDER BY version", [
+            productIds[productIds.length - 1],
+        ]);
+        expect((versions as ProductVersionViewInterface[]).map(version => [version.action, version.brand])).toEqual([["UPDATE", "Marca test Levis"]]);
+    });
+    it("should not merge a missing brand", async () => {
+        const response = await api.post<ResponseInterface<BrandViewInterface>>("0/merge", null, JSON.stringify({ targetId: brandIds[0] }));
+        expect(response.status).toBe(500);
+        expect(response.data.message).toBe("Brand not found");
+    });
+    it("should not merge a brand into itself", async () => {
+        const response = await api.post<ResponseInterface<BrandViewInterface>>(`${brandIds[0]}/merge`, null, JSON.stringify({ targetId: brandIds[0] }));
+        expect(response.status).toBe(500);
+        expect(response.data.message).toBe("A brand can't be merged into itself");
+    });
+});
+
+describe("DELETE /api/brand/:brandId", () => {
+    it("should not delete a brand with products", async () => {
+        const response = await api.delete<ResponseInterface<BrandViewInterface[]>>(`${brandIds[0]}`);
+        expect(response.status).toBe(500);
+        expect(response.data.message).toBe("The brand is in use, merge it into another brand");
+    });
+    it("should not delete a brand with promotions", async () => {
+        const created = await createBrand("Marca test promocionada");
+        await pool.query("INSERT INTO promotion SET ?", [{ name: "Promo marca test", type: "PERCENTAGE", value: 10, brandId: created.data.data.id }]);
+        const response = await api.delete<ResponseInterface<BrandViewInterface[]>>(`${created.data.data.id}`);
+        expect(response.status).toBe(500);
+        expect(response.data.message).toBe("The brand is in use, merge it into another brand");
+        const [promotions] = await pool.query<RowDataPacket[]>("SELECT id FROM promotion WHERE brandId = ?", [created.data.data.id]);
+        expect(promotions).toHaveLength(1);
+    });
+    it("should not delete a missing brand", async () => {
+        const response = await api.delete<ResponseInterface<BrandViewInterface[]>>("0");
+        expect(response.status).toBe(500);
+        expect(response.data.message).toBe("Brand not found");
+    });
+    it("should delete a brand without products", async () => {
+        const created = await createBrand("Marca test vacia");
+        const response = await api.delete<ResponseInterface<BrandViewInterface[]>>(`${created.data.data.id}`);
+        expect(response.data.message).toBe(undefined);
+        expect(response.data.data.map(brand => brand.id)).not.toContain(created.data.data.id);
+    });
+});
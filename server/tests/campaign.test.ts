@@ -0,0 +1,162 @@
+import { ApiClient } from "../src/core/http/api.client";
+import { ResponseInterface } from "../src/models/response";
+import { CampaignViewInterface } from "../src/models/campaign";
+import { ProductInterface } from "../src/models/product";
+import { ResultSetHeader } from "mysql2/promise";
+import { UserInterface } from "../src/models/user";
+import { createPool } from "./db.setup";
+import bcrypt from "bcrypt";
+import jwt from "jsonwebtoken";
+import dotenv from "dotenv";
+dotenv.config();
+
+/*****************
+SETUP
+*****************/
+
+const api = new ApiClient(process.env.BASE_URL + "/api/campaigns");
+const products = new ApiClient(process.env.BASE_URL + "/api/product");
+const pool = createPool();
+
+const manager: UserInterface = {
+    email: "testcampaignmanager@example.com",
+    password: "test1234",
+    name: "Test",
+    lastName: "Manager",
+    idDocumentType: "DNI",
+    idDocumentNumber: 11117431,
+    rol: "Manager",
+};
+
+const hour = 60 * 60 * 1000;
+
+let storeId: number;
+let brandId: number;
+let regularId: number;
+let discountedId: number;
+let runningId: number;
+
+const getProduct = async (id: number) => (await products.get<ResponseInterface<ProductInterface>>(`${id}`)).data.data;
+
+beforeAll(async () => {
+    try {
+        manager.password = await bcrypt.hash("test1234", 10);
+        const [managerInsert] = await pool.query<ResultSetHeader>("INSERT INTO user SET ?", [manager]);
+        manager.id = managerInsert.insertId;
+        const [storeInsert] = await pool.query<ResultSetHeader>("INSERT INTO store SET ?", [
+            { name: "tienda campañas", managerId: manager.id, apiUrl: "test@test.com" },
+        ]);
+        storeId = storeInsert.insertId;
+        const [brandInsert] = await pool.query<ResultSetHeader>("INSERT INTO brand SET ?", [{ name: "Marca campaña test" }]);
+        brandId = brandInsert.insertId;
+        const product = { description: "Remera de algodón", price: 100, currentStock: 10, reorderPoint: 1, minimum: 1, storeId, brandId: 1 };
+        const [regularInsert] = await pool.query<ResultSetHeader>("INSERT INTO product SET ?", [{ ...product, name: "Remera campaña" }]);
+        regularId = regularInsert.insertId;
+        const [discountedInsert] = await pool.query<ResultSetHeader>("INSERT INTO product SET ?", [
+            { ...product, name: "Remera liquidación", discountPercentage: 0.5, brandId },
+        ]);
+        discountedId = discountedInsert.insertId;
+        api.authorize(jwt.sign({ ...manager }, process.env.SHOPPY__ACCESS_TOKEN, { expiresIn: "1d" }));
+    } catch (err) {
+        console.error(err);
+    }
+});
+
+afterAll(async () => {
+    try {
+        await pool.query("DELETE FROM product WHERE storeId = ?", [storeId]);
+        await pool.query("DELETE FROM store WHERE id = ?", [storeId]);
+        await pool.query("DELETE FROM brand WHERE id = ?", [brandId]);
+        await pool.query("DELETE FROM user WHERE id = ?", [manager.id]);
+    } catch (err) {
+        console.error(err);
+    } finally {
+        pool.end();
+    }
+});
+
+/*****************
+TESTS
+******************/
+
+describe("POST /api/campaigns", () => {
+    it("should sell the products with the discount of a running campaign", async () => {
+        const campaign = {
+            name: "Hot sale",
+            discountPercentage: 0.8,
+            productIds: [regularId, discountedId],
+            startsAt: new Date(Date.now() - hour),
+            endsAt: new Date(Date.now() + hour),
+        };
+        const response = await api.post<ResponseInterface<CampaignViewInterface>>("", null, JSON.stringify(campaign));
+        expect(response.data.message).toBe(undefined);
+        expect(response.data.data).toMatchObject({ storeId, discountPercentage: 0.8, status: 1 });
+        expect(response.data.data.productIds.sort()).toEqual([regularId, discountedId].sort());
+        runningId = response.data.data.id;
+
+        const regular = await getProduct(regularId);
+        expect(regular).toMatchObject({ discountPercentage: 0.8, regularDiscountPercentage: 1, campaignId: runningId });
+        expect(new Date(regular.campaignEndsAt).getTime()).toBeGreaterThan(Date.now());
+    });
+    it("should keep the discount of the product when it's better", async () => {
+        const product = await getProduct(discountedId);
+        expect(product).toMatchObject({ discountPercentage: 0.5, regularDiscountPercentage: 0.5, campaignId: null, campaignEndsAt: null });
+    });
+    it("should not change the prices before the campaign starts", async () => {
+        const campaign = {
+            name: "Liquidación de marca",
+            discountPercentage: 0.3,
+            brandId,
+            startsAt: new Date(Date.now() + hour),
+            endsAt: new Date(Date.now() + 2 * hour),
+        };
+        const response = await api.post<ResponseInterface<CampaignViewInterface>>("", null, JSON.stringify(campaign));
+        expect(response.data.message).toBe(undefined);
+        expect(response.data.data).toMatchObject({ brandId, productIds: null });
+        expect((await getProduct(discountedId)).discountPercentage).toBe(0.5);
+    });
+    it("should list the campaign end in the products of the store", async () => {
+        const response = await products.get<ResponseInterface<{ products: ProductInterface[] }>>(`store/${storeId}/q`);
+        const regular = response.data.data.products.find(product => product.id === regularId);
+        expect(regular).toMatchObject({ discountPercentage: 0.8, campaignId: runningId });
+        expect(regular.campaignEndsAt).not.toBe(null);
+    });
+    it("should require products, a category or a brand", async () => {
+        const campaign = { name: "Vacía", discountPercentage: 0.9, startsAt: new Date(), endsAt: new Date(Date.now() + hour) };
+        const response = await api.post<ResponseInterface<CampaignViewInterface>>("", null, JSON.stringify(campaign));
+        expect(response.status).toBe(500);
+        expect(response.data.message).toBe("The campaign must have products, a category or a brand");
+    });
+    it("should not end before it starts", async () => {
+        const campaign = { name: "Al revés", discountPercentage: 0.9, brandId, startsAt: new Date(), endsAt: new Date(Date.now() - hour) };
+        const response = await api.post<ResponseInterface<CampaignViewInterface>>("", null, JSON.stringify(campaign));
+        expect(response.status).toBe(500);
+        expect(response.data.message).toBe("The campaign must end after it starts");
+    });
+    it("should not include products of other stores", async () => {
+        const campaign = { name: "Ajena", discountPercentage: 0.9, productIds: [1], startsAt: new Date(), endsAt: new Date(Date.now() + hour) };
+        const response = await api.post<ResponseInterface<CampaignViewInterface>>("", null, JSON.stringify(campaign));
+        expect(response.status).toBe(500);
+        expect(response.data.message).toBe("Unauthorized Store");
+    });
+});
+
+describe("DELETE /api/campaigns/:campaignId", () => {
+    it("should give the products their own discount back", async () => {
+        const response = await api.delete<ResponseInterface<CampaignViewInterface>>(`${runningId}`);
+        expect(response.data.data.status).toBe(0);
+        expect(await getProduct(regularId)).toMatchObject({ discountPercentage: 1, campaignId: null, campaignEndsAt: null });
+    });
+});
+
+describe("PUT /api/campaigns/:campaignId", () => {
+    it("should not change an ended campaign", async () => {
+        const [ended] = await pool.query<ResultSetHeader>("INSERT INTO campaign SET ?", [
+            { storeId, name: "Pasada", discountPercentage: 0.9, brandId, startsAt: new Date(Date.now() - 2 * hour), endsAt: new Date(Date.now() - hour) },
+        ]);
+        const campaign = { name: "Pasada", discountPercentage: 0.9, brandId, startsAt: new Date(), endsAt: new Date(Date.now() + hour) };
+        const response = await api.put<ResponseInterface<CampaignViewInterface>>(`${ended.insertId}`, null, JSON.stringify(campaign));
+        expect(response.status).toBe(500);
+        expect(response.data.message).toBe("Ended campaigns can't be changed");
+    });
+});
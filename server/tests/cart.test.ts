@@ -0,0 +1,103 @@
+import { ResponseInterface } from "../src/models/response";
+import { CartViewInterface } from "../src/models/cartView";
+import { ApiClient } from "../src/core/http/api.client";
+import { UserInterface } from "../src/models/user";
+import { createPool } from "./db.setup";
+import { ResultSetHeader } from "mysql2/promise";
+import bcrypt from "bcrypt";
+import jwt from "jsonwebtoken";
+import dotenv from "dotenv";
+dotenv.config();
+
+/*********************
+SETUP
+**********************/
+
+const api = new ApiClient(process.env.BASE_URL + "/api/cart");
+const pool = createPool();
+
+const user: UserInterface = {
+    email: "testcart@email.com",
+    password: "test12345",
+    name: "test",
+    lastName: "test",
+    idDocumentType: "DNI",
+    idDocumentNumber: 11122244,
+};
+
+beforeAll(async () => {
+    try {
+        user.password = await bcrypt.hash("test1234", 10);
+        const [response] = await pool.query<ResultSetHeader>("INSERT INTO user SET ?", [user]);
+        user.id = response.insertId;
+        const token = jwt.sign({ ...user }, process.env.SHOPPY__ACCESS_TOKEN, { expiresIn: "1d" });
+        api.authorize(token);
+    } catch (err) {
+        console.error(err);
+    }
+});
+
+afterAll(async () => {
+    try {
+        await pool.query("DELETE FROM cart WHERE userId = ?", [user.id]);
+        await pool.query("DELETE FROM user WHERE id = ?", [user.id]);
+    } catch (err) {
+        console.error(err);
+    } finally {
+        pool.end();
+    }
+});
+
+/******************
+TESTS
+*******************/
+
+describe("POST /api/cart", () => {
+    it("should add a product to the cart", async () => {
+        const response = await api.post<ResponseInterface<CartViewInterface[]>>("", null, JSON.stringify({ productId: 3, quantity: 2 }));
+        expect(response.data.message).toBe(undefined);
+        expect(response.data.data).toHaveLength(1);
+        expect(response.data.data[0]).toMatchObject({ productId: 3, quantity: 2 });
+    });
+    it("should add up the quantity of a product already in the cart", async () => {
+        const response = await api.post<ResponseInterface<CartViewInterface[]>>("", null, JSON.stringify({ productId: 3, quantity: 1 }));
+        expect(response.data.data[0].quantity).toBe(3);
+    });
+    it("should not add more units than the product stock", async () => {
+        const response = await api.post<ResponseInterface<CartViewInterface[]>>("", null, JSON.stringify({ productId: 3, quantity: 100000 }));
+        expect(response.status).toBe(500);
+        expect(response.data.message).toBe("Not enough stock");
+    });
+});
+
+describe("PUT /api/cart", () => {
+    it("should change the quantity of a cart line", async () => {
+        const response = await api.put<ResponseInterface<CartViewInterface[]>>("", null, JSON.stringify({ productId: 3, quantity: 1 }));
+        expect(response.data.data[0].quantity).toBe(1);
+    });
+});
+
+describe("POST /api/cart/merge", () => {
+    it("should merge an anonymous cart into the user cart", async () => {
+        const lines = [
+            { productId: 3, quantity: 2 },
+            { productId: 4, quantity: 1 },
+        ];
+        const response = await api.post<ResponseInterface<CartViewInterface[]>>("merge", null, JSON.stringify(lines));
+        expect(response.data.message).toBe(undefined);
+        expect(response.data.data.find(line => line.productId === 3).quantity).toBe(3);
+        expect(response.data.data.find(line => line.productId === 4).quantity).toBe(1);
+    });
+});
+
+describe("DELETE /api/cart", () => {
+    it("should remove a product from the cart", async () => {
+        const response = await api.delete<ResponseInterface<CartViewInterface[]>>("4");
+        expect(response.data.data).toHaveLength(1);
+    });
+    it("should clear the cart", async () => {
+        await api.delete<ResponseInterface<CartViewInterface[]>>("");
+        const response = await api.get<ResponseInterface<CartViewInterface[]>>("");
+        expect(response.data.data).toHaveLength(0);
+    });
+});
@@ -0,0 +1,138 @@
+import { ApiClient } from "../src/core/http/api.client";
+import { ResponseInterface } from "../src/models/response";
+import { CatalogImportReportInterface } from "../src/models/catalog";
+import { ProductInterface } from "../src/models/product";
+import { ResultSetHeader, RowDataPacket } from "mysql2/promise";
+import { UserInterface } from "../src/models/user";
+import { createPool } from "./db.setup";
+import bcrypt from "bcrypt";
+import jwt from "jsonwebtoken";
+import dotenv from "dotenv";
+dotenv.config();
+
+/*****************
+SETUP
+*****************/
+
+const api = new ApiClient(process.env.BASE_URL + "/api/catalog");
+const productApi = new ApiClient(process.env.BASE_URL + "/api/product");
+const pool = createPool();
+
+const manager: UserInterface = {
+    email: "testcatalogmanager@example.com",
+    password: "test1234",
+    name: "Test",
+    lastName: "Manager",
+    idDocumentType: "DNI",
+    idDocumentNumber: 11119323,
+    rol: "Manager",
+};
+
+let storeId: number;
+let productId: number;
+let token: string;
+
+const header = "id,name,description,price,discountPercentage,currentStock,reorderPoint,minimum,brand,categories,sizes,status";
+const csv = () =>
+    [
+        header,
+        `${productId},Remera catalogo,"Remera de algodon, actualizada",15,0,10,2,1,Marca catalogo,Remeras,S|M,1`,
+        ",Buzo catalogo,Buzo de frisa para el invierno,30,0.1,5,1,0,Marca catalogo,Buzos|Invierno,L,1",
+        ",Gorra catalogo,Gorra de prueba sin precio,-4,0,5,1,0,Marca catalogo,Gorras,U,1",
+    ].join("\n");
+
+const importCsv = async (text: string, dryRun = false) => {
+    const form = new FormData();
+    form.append("csv_file", new Blob([text], { type: "text/csv" }), "catalog.csv");
+    const response = await fetch(`${process.env.BASE_URL}/api/catalog/import${dryRun ? "?dryRun=true" : ""}`, {
+        method: "POST",
+        headers: { "x-auth": token },
+        body: form,
+    });
+    return { status: response.status, data: (await response.json()) as ResponseInterface<CatalogImportReportInterface> };
+};
+
+const getStoreProducts = async () => {
+    const [rows] = await pool.query<RowDataPacket[]>("SELECT id, name, price FROM product WHERE storeId = ? ORDER BY id", [storeId]);
+    return rows;
+};
+
+beforeAll(async () => {
+    try {
+        manager.password = await bcrypt.hash("test1234", 10);
+        const [managerInsert] = await pool.query<ResultSetHeader>("INSERT INTO user SET ?", [manager]);
+        manager.id = managerInsert.insertId;
+        const [storeInsert] = await pool.query<ResultSetHeader>("INSERT INTO store SET ?", [
+            { name: "tienda catalogo", managerId: manager.id, apiUrl: "test@test.com" },
+        ]);
+        storeId = storeInsert.insertId;
+        const [productInsert] = await pool.query<ResultSetHeader>("INSERT INTO product SET ?", [
+            { name: "Remera catalogo", description: "Remera de algodon", price: 10, currentStock: 10, reorderPoint: 2, minimum: 1, storeId, brandId: 1 },
+        ]);
+        productId = productInsert.insertId;
+
+        token = jwt.sign({ ...manager }, process.env.SHOPPY__ACCESS_TOKEN, { expiresIn: "1d" });
+        api.authorize(token);
+        productApi.authorize(token);
+    } catch (err) {
+        console.error(err);
+    }
+});
+
+afterAll(async () => {
+    try {
+        await pool.query("DELETE FROM product WHERE storeId = ?", [storeId]);
+        await pool.query("DELETE FROM store WHERE id = ?", [storeId]);
+        await pool.query("DELETE FROM user WHERE id = ?", [manager.id]);
+    } catch (err) {
+        console.error(err);
+    } finally {
+        pool.end();
+    }
+});
+
+/*****************
+TESTS
+******************/
+
+describe("GET /api/catalog/export", () => {
+    it("should download the products of the manager store as CSV", async () => {
+        const response = await api.download("export");
+        expect(response.status).toBe(200);
+        expect(response.headers.get("content-type")).toContain("text/csv");
+        const [columns, row] = response.data.toString("utf8").split("\r\n");
+        expect(columns).toBe("id,name,description,price,discountPercentage,currentStock,reorderPoint,minimum,brand,categories,sizes,url_img,status");
+        expect(row.startsWith(`${productId},Remera catalogo,Remera de algodon,10,`)).toBe(true);
+    });
+});
+
+describe("POST /api/catalog/import", () => {
+    it("should report the rows of a dry run without saving them", async () => {
+        const response = await importCsv(csv(), true);
+        expect(response.data.message).toBe(undefined);
+        expect(response.data.data).toMatchObject({ dryRun: true, created: 1, updated: 1, rejected: 1 });
+        expect(response.data.data.rows).toEqual([
+            expect.objectContaining({ line: 2, productId, action: "UPDATED" }),
+            expect.objectContaining({ line: 3, productId: null, action: "CREATED" }),
+            expect.objectContaining({ line: 4, action: "REJECTED", error: "Invalid price, it must be positive number" }),
+        ]);
+        expect(await getStoreProducts()).toEqual([expect.objectContaining({ id: productId, price: 10 })]);
+    });
+    it("should create and update the valid rows", async () => {
+        const response = await importCsv(csv());
+        expect(response.data.message).toBe(undefined);
+        expect(response.data.data).toMatchObject({ dryRun: false, created: 1, updated: 1, rejected: 1 });
+        const created = response.data.data.rows[1].productId;
+        expect(await getStoreProducts()).toEqual([
+            expect.objectContaining({ id: productId, price: 15 }),
+            expect.objectContaining({ id: created, name: "Buzo catalogo" }),
+        ]);
+        const { data } = await productApi.get<ResponseInterface<ProductInterface>>(`${created}`);
+        expect(data.data).toMatchObject({ brand: "Marca catalogo", categories: ["Buzos", "Invierno"], sizes: ["L"] });
+    });
+    it("should reject unknown columns", async () => {
+        const response = await importCsv("id,name,color\n,Remera,Rojo");
+        expect(response.status).toBe(500);
+        expect(response.data.message).toBe("Unknown column color");
+    });
+});
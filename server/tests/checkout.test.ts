@@ -4,7 +4,9 @@ import { InvoiceViewInterface } from "../src/models/invoiceView";
 import { ApiClient } from "../src/core/http/api.client";
 import { UserInterface } from "../src/models/user";
 import { createPool } from "./db.setup";
-import { ResultSetHeader } from "mysql2/promise";
+import { ResultSetHeader, RowDataPacket } from "mysql2/promise";
+import { CheckoutLineErrorInterface } from "../src/models/checkout";
+import { InvoiceStatusHistoryInterface } from "../src/models/invoiceStatusHistory";
 import bcrypt from "bcrypt";
 import jwt from "jsonwebtoken";
 import dotenv from "dotenv";
@@ -15,6 +17,9 @@ SETUP
 **********************/
 
 const api = new ApiClient(process.env.BASE_URL + "/api/checkout");
+const keyedApi = new ApiClient(process.env.BASE_URL + "/api/checkout");
+const managerApi = new ApiClient(process.env.BASE_URL + "/api/checkout");
+const otherManagerApi = new ApiClient(process.env.BASE_URL + "/api/checkout");
 const pool = createPool();
 
 interface InvoiceResponse extends InvoiceViewInterface {
@@ -35,8 +40,8 @@ const products1: ProductSaleInterface[] = [
         id: 3,
         name: "Zapatillas de running",
         description: "Zapatillas ligeras para correr",
-        price: 90,
-        discountPercentage: 0.5,
+        price: 89.99,
+        discountPercentage: 0.7,
         currentStock: 100,
         reorderPoint: 30,
         minimum: 15,
@@ -51,7 +56,7 @@ const products1: ProductSaleInterface[] = [
         id: 4,
         name: "Vestido floral",
         description: "Vestido de estilo floral para ocasiones especiales",
-        price: 70,
+        price: 69.99,
         discountPercentage: 1,
         currentStock: 30,
         reorderPoint: 5,
@@ -70,8 +75,8 @@ const products2: ProductSaleInterface[] = [
         id: 3,
         name: "Zapatillas de running",
         description: "Zapatillas ligeras para correr",
-        price: 90,
-        discountPercentage: 0.5,
+        price: 89.99,
+        discountPercentage: 0.7,
         currentStock: 100,
         reorderPoint: 30,
         minimum: 15,
@@ -86,7 +91,7 @@ const products2: ProductSaleInterface[] = [
         id: 4,
         name: "Vestido floral",
         description: "Vestido de estilo floral para ocasiones especiales",
-        price: 70,
+        price: 69.99,
         discountPercentage: 1,
         currentStock: 30,
         reorderPoint: 5,
@@ -100,13 +105,65 @@ const products2: ProductSaleInterface[] = [
     },
 ];
 
+const manager: UserInterface = {
+    email: "testcheckoutmanager@email.com",
+    password: "test12345",
+    name: "test",
+    lastName: "manager",
+    idDocumentType: "DNI",
+    idDocumentNumber: 11122234,
+    rol: "Manager",
+};
+
+const otherManager: UserInterface = {
+    email: "testcheckoutothermanager@email.com",
+    password: "test12345",
+    name: "test",
+    lastName: "manager",
+    idDocumentType: "DNI",
+    idDocumentNumber: 11122235,
+    rol: "Manager",
+};
+
+const storeIds: number[] = [];
+let storeLine: ProductSaleInterface;
+let initialStock: RowDataPacket[];
+
 beforeAll(async () => {
     try {
+        [initialStock] = await pool.query<RowDataPacket[]>("SELECT id, currentStock FROM product WHERE id IN (3, 4)");
         user.password = await bcrypt.hash("test1234", 10);
         const [response] = await pool.query<ResultSetHeader>("INSERT INTO user SET ?", [user]);
         user.id = response.insertId;
         const token = jwt.sign({ ...user }, process.env.SHOPPY__ACCESS_TOKEN, { expiresIn: "1d" });
         api.authorize(token);
+        keyedApi.authorize(token);
+        keyedApi.setHeader("Idempotency-Key", "checkout-test-key");
+
+        for (const [storeManager, client] of [
+            [manager, managerApi],
+            [otherManager, otherManagerApi],
+        ] as const) {
+            const [managerInsert] = await pool.query<ResultSetHeader>("INSERT INTO user SET ?", [storeManager]);
+            storeManager.id = managerInsert.insertId;
+            const [storeInsert] = await pool.query<ResultSetHeader>("INSERT INTO store SET ?", [
+                { name: `tienda ${storeManager.email}`, managerId: storeManager.id, apiUrl: "test@test.com" },
+            ]);
+            storeIds.push(storeInsert.insertId);
+            client.authorize(jwt.sign({ ...storeManager }, process.env.SHOPPY__ACCESS_TOKEN, { expiresIn: "1d" }));
+        }
+        const product = { name: "Gorro test", description: "Gorro de lana", price: 10, currentStock: 10, reorderPoint: 1, minimum: 1, storeId: storeIds[0] };
+        const [productInsert] = await pool.query<ResultSetHeader>("INSERT INTO product SET ?", [{ ...product, brandId: 1 }]);
+        storeLine = {
+            ...product,
+            id: productInsert.insertId,
+            discountPercentage: 1,
+            categories: [],
+            sizes: [],
+            brand: "Nike",
+            url_img: "images/placeholder.jpg",
+            quantity: 2,
+        };
     } catch (err) {
         console.error(err);
     }
@@ -115,7 +172,12 @@ beforeAll(async () => {
 afterAll(async () => {
     try {
         await pool.query("DELETE FROM invoice WHERE userId = ?", [user.id]);
-        await pool.query("DELETE FROM user WHERE id = ?", [user.id]);
+        for (const { id, currentStock } of initialStock) {
+            await pool.query("UPDATE product SET currentStock = ? WHERE id = ?", [currentStock, id]);
+        }
+        await pool.query("DELETE FROM product WHERE storeId IN (?)", [storeIds]);
+        await pool.query("DELETE FROM store WHERE id IN (?)", [storeIds]);
+        await pool.query("DELETE FROM user WHERE id IN (?)", [[user.id, manager.id, otherManager.id]]);
     } catch (err) {
         console.error(err);
     } finally {
@@ -131,23 +193,141 @@ describe("POST /api/checkout/produce", () => {
     it("should produce an invoice", async () => {
         const response = await api.post<ResponseInterface<InvoiceResponse>>("produce", null, JSON.stringify(products1));
         expect(response.data.message).toBe(undefined);
-        expect(response.data.data.total).toBe(300);
+        expect(response.data.data.total).toBe(335.96);
         expect(response.data.data.email).toBe("testcheckout@email.com");
     }, 15000);
     it("should produce an invoice", async () => {
         const response = await api.post<ResponseInterface<InvoiceResponse>>("produce", null, JSON.stringify(products2));
         expect(response.data.message).toBe(undefined);
-        expect(response.data.data.total).toBe(160);
+        expect(response.data.data.total).toBe(195.98);
         expect(response.data.data.email).toBe("testcheckout@email.com");
     }, 15000);
+    it("should decrement the stock of the sold products", async () => {
+        const [rows] = await pool.query<RowDataPacket[]>("SELECT id, currentStock FROM product WHERE id IN (3, 4) ORDER BY id");
+        const stock = (id: number) => initialStock.find(p => p.id === id).currentStock;
+        expect(rows[0].currentStock).toBe(stock(3) - 4);
+        expect(rows[1].currentStock).toBe(stock(4) - 4);
+    });
+    it("should reject lines with a stale price", async () => {
+        const products = [{ ...products2[0], price: 1 }];
+        const response = await api.post<ResponseInterface<CheckoutLineErrorInterface[]>>("produce", null, JSON.stringify(products));
+        expect(response.status).toBe(409);
+        expect(response.data.message).toBe("Checkout rejected");
+        expect(response.data.data[0]).toMatchObject({ productId: 3, reason: "PRICE_CHANGED", price: 89.99 });
+    });
+    it("should reject lines without enough stock and rollback", async () => {
+        const products = [products2[1], { ...products2[0], quantity: 100000 }];
+        const response = await api.post<ResponseInterface<CheckoutLineErrorInterface[]>>("produce", null, JSON.stringify(products));
+        expect(response.status).toBe(409);
+        expect(response.data.data).toHaveLength(1);
+        expect(response.data.data[0]).toMatchObject({ productId: 3, reason: "INSUFFICIENT_STOCK" });
+        const [invoices] = await pool.query<RowDataPacket[]>("SELECT id FROM invoice WHERE userId = ?", [user.id]);
+        expect(invoices).toHaveLength(2);
+    });
 });
 
 describe("GET /api/checkout/get", () => {
     it("should get an invoice", async () => {
         const response = await api.get<ResponseInterface<InvoiceResponse[]>>("get");
         expect(response.data.message).toBe(undefined);
-        expect(response.data.data[0].total).toBe(300);
-        expect(response.data.data[1].total).toBe(160);
+        expect(response.data.data[0].total).toBe(335.96);
+        expect(response.data.data[1].total).toBe(195.98);
         expect(response.data.data[0].email).toBe("testcheckout@email.com");
     });
 });
+
+describe("Invoice status", () => {
+    it("should create invoices waiting for their payment", async () => {
+        const response = await api.get<ResponseInterface<InvoiceResponse[]>>("get");
+        expect(response.data.data.every(invoice => invoice.status === "PENDING_PAYMENT")).toBe(true);
+    });
+    it("should record the first status in the history", async () => {
+        const invoices = await api.get<ResponseInterface<InvoiceResponse[]>>("get");
+        const response = await api.get<ResponseInterface<InvoiceStatusHistoryInterface[]>>(`${invoices.data.data[0].id}/history`);
+        expect(response.data.data).toHaveLength(1);
+        expect(response.data.data[0]).toMatchObject({ fromStatus: null, toStatus: "PENDING_PAYMENT" });
+    });
+    it("should not let a customer change the status", async () => {
+        const invoices = await api.get<ResponseInterface<InvoiceResponse[]>>("get");
+        const response = await api.put<ResponseInterface<InvoiceViewInterface>>(
+            `${invoices.data.data[0].id}/status`,
+            null,
+            JSON.stringify({ status: "CANCELLED" })
+        );
+        expect(response.status).toBe(500);
+        expect(response.data.message).toBe("Unauthorized");
+    });
+});
+
+describe("Idempotency-Key", () => {
+    it("should produce the invoice once and replay it for repeats", async () => {
+        const first = await keyedApi.post<ResponseInterface<InvoiceResponse>>("produce", null, JSON.stringify(products2));
+        expect(first.data.message).toBe(undefined);
+        const repeat = await keyedApi.post<ResponseInterface<InvoiceResponse>>("produce", null, JSON.stringify(products2));
+        expect(repeat.data.message).toBe(undefined);
+        expect(repeat.data.data.id).toBe(first.data.data.id);
+        const [invoices] = await pool.query<RowDataPacket[]>("SELECT id FROM invoice WHERE userId = ?", [user.id]);
+        expect(invoices).toHaveLength(3);
+    }, 15000);
+    it("should reject a repeat with a different body", async () => {
+        const response = await keyedApi.post<ResponseInterface<InvoiceResponse>>("produce", null, JSON.stringify(products1));
+        expect(response.status).toBe(422);
+        expect(response.data.message).toBe("The idempotency key was used with a different request");
+    });
+});
+
+describe("GET /api/checkout/:invoiceId/pdf", () => {
+    it("should download the invoice as a PDF file", async () => {
+        const invoices = await api.get<ResponseInterface<InvoiceResponse[]>>("get");
+        const response = await api.download(`${invoices.data.data[0].id}/pdf`);
+        expect(response.status).toBe(200);
+        expect(response.headers.get("content-type")).toBe("application/pdf");
+        expect(response.data.subarray(0, 5).toString()).toBe("%PDF-");
+    });
+    it("should not let other customers download the invoice", async () => {
+        const invoices = await api.get<ResponseInterface<InvoiceResponse[]>>("get");
+        const otherApi = new ApiClient(process.env.BASE_URL + "/api/checkout");
+        otherApi.authorize(jwt.sign({ ...user, id: 0, email: "other@email.com" }, process.env.SHOPPY__ACCESS_TOKEN, { expiresIn: "1d" }));
+        const response = await otherApi.get<ResponseInterface<undefined>>(`${invoices.data.data[0].id}/pdf`);
+        expect(response.status).toBe(500);
+        expect(response.data.message).toBe("Unauthorized");
+    });
+});
+
+describe("Invoice status changes by the managers", () => {
+    const changeStatus = (client: ApiClient, invoiceId: number, status: string) =>
+        client.put<ResponseInterface<InvoiceViewInterface>>(`${invoiceId}/status`, null, JSON.stringify({ status }));
+    let invoiceId: number;
+
+    beforeAll(async () => {
+        const response = await api.post<ResponseInterface<InvoiceResponse>>("produce", null, JSON.stringify([storeLine]));
+        invoiceId = response.data.data.id;
+    }, 15000);
+
+    it("should not let the manager of another store change the status", async () => {
+        const response = await changeStatus(otherManagerApi, invoiceId, "CANCELLED");
+        expect(response.status).toBe(500);
+        expect(response.data.message).toBe("Unauthorized Store");
+    });
+    it("should not hand over an order that isn't paid", async () => {
+        const response = await changeStatus(managerApi, invoiceId, "READY_FOR_PICKUP");
+        expect(response.status).toBe(500);
+        expect(response.data.message).toBe("The order is not paid");
+    });
+    it("should let the manager cancel an order of the store and put its units back in stock", async () => {
+        const response = await changeStatus(managerApi, invoiceId, "CANCELLED");
+        expect(response.data.message).toBe(undefined);
+        expect(response.data.data.status).toBe("CANCELLED");
+        const [[product]] = await pool.query<RowDataPacket[]>("SELECT currentStock FROM product WHERE id = ?", [storeLine.id]);
+        expect(product.currentStock).toBe(10);
+    });
+    it("should not let a manager change the status of an order with lines of other stores", async () => {
+        const invoice = await api.post<ResponseInterface<InvoiceResponse>>("produce", null, JSON.stringify([storeLine, products2[1]]));
+        expect(invoice.data.message).toBe(undefined);
+        const response = await changeStatus(managerApi, invoice.data.data.id, "CANCELLED");
+        expect(response.status).toBe(500);
+        expect(response.data.message).toBe("The order has lines of other stores");
+        const [[stored]] = await pool.query<RowDataPacket[]>("SELECT status FROM invoice WHERE id = ?", [invoice.data.data.id]);
+        expect(stored.status).toBe("PENDING_PAYMENT");
+    }, 15000);
+});
@@ -0,0 +1,122 @@
+import { ResponseInterface } from "../src/models/response";
+import { ProductInterface } from "../src/models/product";
+import { UserInterface } from "../src/models/user";
+import { ResultSetHeader } from "mysql2/promise";
+import { createPool } from "./db.setup";
+import sharp from "sharp";
+import fs from "fs/promises";
+import path from "path";
+import bcrypt from "bcrypt";
+import jwt from "jsonwebtoken";
+import dotenv from "dotenv";
+dotenv.config();
+
+/*****************
+SETUP
+*****************/
+
+const pool = createPool();
+
+const manager: UserInterface = {
+    email: "testimagemanager@example.com",
+    password: "test1234",
+    name: "Test",
+    lastName: "Manager",
+    idDocumentType: "DNI",
+    idDocumentNumber: 11119324,
+    rol: "Manager",
+};
+
+const productFields = {
+    name: "Campera imagen",
+    description: "Campera para probar las imagenes",
+    price: "20",
+    discountPercentage: "1",
+    currentStock: "5",
+    reorderPoint: "1",
+    minimum: "0",
+    categories: "Camperas",
+    sizes: "M",
+    brand: "Nike",
+};
+
+let storeId: number;
+let token: string;
+let uploaded: string;
+
+const getImage = async (url: string) => {
+    const response = await fetch(`${process.env.BASE_URL}/images/${url}`);
+    return { status: response.status, type: response.headers.get("content-type"), data: Buffer.from(await response.arrayBuffer()) };
+};
+
+const postProduct = async (image: Buffer, name: string) => {
+    const form = new FormData();
+    Object.entries(productFields).forEach(([key, value]) => form.append(key, value));
+    form.append("img_file", new Blob([image]), name);
+    const response = await fetch(`${process.env.BASE_URL}/api/product`, { method: "POST", headers: { "x-auth": token }, body: form });
+    return (await response.json()) as ResponseInterface<ProductInterface[]>;
+};
+
+beforeAll(async () => {
+    try {
+        manager.password = await bcrypt.hash("test1234", 10);
+        const [managerInsert] = await pool.query<ResultSetHeader>("INSERT INTO user SET ?", [manager]);
+        manager.id = managerInsert.insertId;
+        const [storeInsert] = await pool.query<ResultSetHeader>("INSERT INTO store SET ?", [
+            { name: "tienda imagenes", managerId: manager.id, apiUrl: "test@test.com" },
+        ]);
+        storeId = storeInsert.insertId;
+        token = jwt.sign({ ...manager }, process.env.SHOPPY__ACCESS_TOKEN, { expiresIn: "1d" });
+    } catch (err) {
+        console.error(err);
+    }
+});
+
+afterAll(async () => {
+    try {
+        await pool.query("DELETE FROM product WHERE storeId = ?", [storeId]);
+        await pool.query("DELETE FROM store WHERE id = ?", [storeId]);
+        await pool.query("DELETE FROM user WHERE id = ?", [manager.id]);
+        if (uploaded) for (const folder of ["", "thumbnail", "card", "detail"]) await fs.rm(path.join("public", folder, uploaded), { force: true });
+    } catch (err) {
+        console.error(err);
+    } finally {
+        pool.end();
+    }
+});
+
+/*****************
+TESTS
+******************/
+
+describe("GET /images/:size/:file", () => {
+    it("should generate the missing sizes of an image", async () => {
+        const response = await getImage("card/blusa_a_rayas.webp");
+        expect(response.status).toBe(200);
+        expect(response.type).toBe("image/webp");
+        expect((await sharp(response.data).metadata()).width).toBe(400);
+    });
+    it("should not find the sizes of missing images", async () => {
+        const response = await getImage("thumbnail/missing.webp");
+        expect(response.status).toBe(404);
+    });
+});
+
+describe("POST /api/product with an image", () => {
+    it("should reject files that aren't images", async () => {
+        const response = await postProduct(Buffer.from("not an image"), "test_upload.png");
+        expect(response.message).toBe("Invalid file type");
+    });
+    it("should store the image as webp with its sizes, named by its content", async () => {
+        const image = await sharp({ create: { width: 1200, height: 1500, channels: 3, background: "#336699" } })
+            .png()
+            .toBuffer();
+        const response = await postProduct(image, "foto.png");
+        expect(response.message).toBe(undefined);
+        expect(response.data[0].url_img).toMatch(/^images\/[0-9a-f]{32}\.webp$/);
+        uploaded = path.basename(response.data[0].url_img);
+        const thumbnail = await getImage(`thumbnail/${uploaded}`);
+        expect(thumbnail.type).toBe("image/webp");
+        expect(await sharp(thumbnail.data).metadata()).toMatchObject({ format: "webp", width: 160, height: 200 });
+    });
+});
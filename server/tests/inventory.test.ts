@@ -0,0 +1,191 @@
+import { ApiClient } from "../src/core/http/api.client";
+import { ResponseInterface } from "../src/models/response";
+import { ProductInterface } from "../src/models/product";
+import { StockMismatchInterface, StockMovementViewInterface } from "../src/models/stockMovement";
+import { ResultSetHeader, RowDataPacket } from "mysql2/promise";
+import { UserInterface } from "../src/models/user";
+import { createPool } from "./db.setup";
+import bcrypt from "bcrypt";
+import jwt from "jsonwebtoken";
+import dotenv from "dotenv";
+dotenv.config();
+
+/*****************
+SETUP
+*****************/
+
+const api = new ApiClient(process.env.BASE_URL + "/api/inventory");
+const productApi = new ApiClient(process.env.BASE_URL + "/api/product");
+const pool = createPool();
+
+const manager: UserInterface = {
+    email: "testinventorymanager@example.com",
+    password: "test1234",
+    name: "Test",
+    lastName: "Manager",
+    idDocumentType: "DNI",
+    idDocumentNumber: 11118222,
+    rol: "Manager",
+};
+
+const otherManager: UserInterface = {
+    email: "testinventoryothermanager@example.com",
+    password: "test1234",
+    name: "Test",
+    lastName: "Manager",
+    idDocumentType: "DNI",
+    idDocumentNumber: 11118223,
+    rol: "Manager",
+};
+
+const product = {
+    name: "Campera test",
+    description: "Campera de abrigo para el invierno",
+    price: 50,
+    discountPercentage: 1,
+    currentStock: 30,
+    reorderPoint: 10,
+    minimum: 5,
+    categories: ["Chaqueta"],
+    sizes: ["Hombre"],
+    brand: "Nike",
+};
+
+let storeIds: number[];
+let productId: number;
+let otherProductId: number;
+let foreignProductId: number;
+let differentProductId: number;
+
+const insertProduct = async (storeId: number, name: string) => {
+    const [productInsert] = await pool.query<ResultSetHeader>("INSERT INTO product SET ?", [
+        { name, description: "Campera de abrigo", price: 50, currentStock: 0, reorderPoint: 0, minimum: 0, brandId: 1, storeId },
+    ]);
+    return productInsert.insertId;
+};
+
+beforeAll(async () => {
+    try {
+        manager.password = await bcrypt.hash("test1234", 10);
+        const [managerInsert] = await pool.query<ResultSetHeader>("INSERT INTO user SET ?", [manager]);
+        manager.id = managerInsert.insertId;
+        otherManager.password = manager.password;
+        const [otherManagerInsert] = await pool.query<ResultSetHeader>("INSERT INTO user SET ?", [otherManager]);
+        otherManager.id = otherManagerInsert.insertId;
+        const [storeInsert] = await pool.query<ResultSetHeader>("INSERT INTO store SET ?", [
+            { name: "tienda inventario", managerId: manager.id, apiUrl: "test.com" },
+        ]);
+        const [otherStoreInsert] = await pool.query<ResultSetHeader>("INSERT INTO store SET ?", [
+            { name: "tienda destino", managerId: manager.id, apiUrl: "test.com" },
+        ]);
+        const [foreignStoreInsert] = await pool.query<ResultSetHeader>("INSERT INTO store SET ?", [
+            { name: "tienda ajena", managerId: otherManager.id, apiUrl: "test.com" },
+        ]);
+        storeIds = [storeInsert.insertId, otherStoreInsert.insertId, foreignStoreInsert.insertId];
+        otherProductId = await insertProduct(otherStoreInsert.insertId, "Campera test");
+        foreignProductId = await insertProduct(foreignStoreInsert.insertId, "Campera test");
+        differentProductId = await insertProduct(otherStoreInsert.insertId, "Pantalon test");
+
+        const token = jwt.sign({ ...manager }, process.env.SHOPPY__ACCESS_TOKEN, { expiresIn: "1d" });
+        api.authorize(token);
+        productApi.authorize(token);
+    } catch (err) {
+        console.error(err);
+    }
+});
+
+afterAll(async () => {
+    try {
+        await pool.query("DELETE FROM product WHERE id IN (?)", [[productId, otherProductId, foreignProductId, differentProductId]]);
+        await pool.query("DELETE FROM store WHERE id IN (?)", [storeIds]);
+        await pool.query("DELETE FROM user WHERE id IN (?)", [[manager.id, otherManager.id]]);
+    } catch (err) {
+        console.error(err);
+    } finally {
+        pool.end();
+    }
+});
+
+/*****************
+TESTS
+******************/
+
+describe("Stock ledger", () => {
+    it("should record the initial stock of a new product", async () => {
+        const created = await productApi.post<ResponseInterface<ProductInterface[]>>("", null, JSON.stringify(product));
+        expect(created.data.message).toBe(undefined);
+        productId = created.data.data[0].id;
+        const response = await api.get<ResponseInterface<StockMovementViewInterface[]>>(`products/${productId}/movements`);
+        expect(response.data.data).toHaveLength(1);
+        expect(response.data.data[0]).toMatchObject({ reason: "INITIAL", quantity: 30, balance: 30, userId: manager.id, user: manager.email });
+    });
+    it("should record the difference found by a stock take", async () => {
+        const response = await api.post<ResponseInterface<StockMovementViewInterface[]>>(
+            `products/${productId}/stock-take`,
+            null,
+            JSON.stringify({ countedStock: 27, note: "Conteo mensual" })
+        );
+        expect(response.data.message).toBe(undefined);
+        expect(response.data.data[0]).toMatchObject({ reason: "STOCK_TAKE", quantity: -3, balance: 27, note: "Conteo mensual" });
+    });
+    it("should transfer units to the product in another store of the manager", async () => {
+        const response = await api.post<ResponseInterface<StockMovementViewInterface[]>>(
+            "transfers",
+            null,
+            JSON.stringify({ fromProductId: productId, toProductId: otherProductId, quantity: 5 })
+        );
+        expect(response.data.message).toBe(undefined);
+        expect(response.data.data[0]).toMatchObject({ reason: "TRANSFER", quantity: -5, balance: 22, reference: `product:${otherProductId}` });
+        const [rows] = await pool.query<RowDataPacket[]>("SELECT currentStock FROM product WHERE id = ?", [otherProductId]);
+        expect(rows[0].currentStock).toBe(5);
+    });
+    it("should not transfer more units than the stock", async () => {
+        const response = await api.post<ResponseInterface<StockMovementViewInterface[]>>(
+            "transfers",
+            null,
+            JSON.stringify({ fromProductId: productId, toProductId: otherProductId, quantity: 100 })
+        );
+        expect(response.status).toBe(500);
+        expect(response.data.message).toBe("Not enough stock");
+    });
+    it("should not transfer units of products of other stores", async () => {
+        const response = await api.post<ResponseInterface<StockMovementViewInterface[]>>(
+            "transfers",
+            null,
+            JSON.stringify({ fromProductId: foreignProductId, toProductId: productId, quantity: 1 })
+        );
+        expect(response.status).toBe(500);
+        expect(response.data.message).toBe("Unauthorized Store");
+    });
+    it("should not transfer units to a store of another manager", async () => {
+        const response = await api.post<ResponseInterface<StockMovementViewInterface[]>>(
+            "transfers",
+            null,
+            JSON.stringify({ fromProductId: productId, toProductId: foreignProductId, quantity: 1 })
+        );
+        expect(response.status).toBe(500);
+        expect(response.data.message).toBe("Unauthorized Store");
+    });
+    it("should not transfer units to another product", async () => {
+        const response = await api.post<ResponseInterface<StockMovementViewInterface[]>>(
+            "transfers",
+            null,
+            JSON.stringify({ fromProductId: productId, toProductId: differentProductId, quantity: 1 })
+        );
+        expect(response.status).toBe(500);
+        expect(response.data.message).toBe("The products aren't the same item");
+    });
+});
+
+describe("GET /api/inventory/reconciliation", () => {
+    it("should match the ledger with the stock", async () => {
+        const response = await api.get<ResponseInterface<StockMismatchInterface[]>>("reconciliation");
+        expect(response.data.message).toBe(undefined);
+        expect(response.data.data).toHaveLength(0);
+    });
+    it("should flag the stock changed outside the ledger", async () => {
+        await pool.query("UPDATE product SET currentStock = 100 WHERE id = ?", [productId]);
+        const response = await api.get<ResponseInterface<StockMismatchInterface[]>>("reconciliation");
+        expect(response.data.data).toEqual([{ productId, name: "Campera test", currentStock: 100, ledgerStock: 22 }]);
+    });
+});
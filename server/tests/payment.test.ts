@@ -0,0 +1,145 @@
+import { ApiClient } from "../src/core/http/api.client";
+import { ResponseInterface } from "../src/models/response";
+import { PaymentInterface } from "../src/models/payment";
+import { FakePaymentProvider } from "../src/payments/fake.provider";
+import { Logger } from "@miracledevs/paradigm-express-webapi";
+import { ResultSetHeader, RowDataPacket } from "mysql2/promise";
+import { UserInterface } from "../src/models/user";
+import { createPool } from "./db.setup";
+import bcrypt from "bcrypt";
+import jwt from "jsonwebtoken";
+import dotenv from "dotenv";
+dotenv.config();
+
+/*****************
+SETUP
+*****************/
+
+const api = new ApiClient(process.env.BASE_URL + "/api/payments");
+const pool = createPool();
+
+const user: UserInterface = {
+    email: "testpayment@example.com",
+    password: "test1234",
+    name: "Test",
+    lastName: "Payment",
+    idDocumentType: "DNI",
+    idDocumentNumber: 11115222,
+};
+
+const card = { number: "4242424242424242", expiry: "2030-12", cvv: "123" };
+const invoiceIds: number[] = [];
+
+async function invoiceStatus(id: number) {
+    const [[invoice]] = await pool.query<RowDataPacket[]>("SELECT status FROM invoice WHERE id = ?", [id]);
+    return invoice.status;
+}
+
+beforeAll(async () => {
+    try {
+        user.password = await bcrypt.hash("test1234", 10);
+        const [response] = await pool.query<ResultSetHeader>("INSERT INTO user SET ?", [user]);
+        user.id = response.insertId;
+        for (let i = 0; i < 4; i++) {
+            const [invoice] = await pool.query<ResultSetHeader>("INSERT INTO invoice SET ?", [
+                { date: new Date(), total: 50, userId: user.id, status: "PENDING_PAYMENT" },
+            ]);
+            invoiceIds.push(invoice.insertId);
+        }
+        const token = jwt.sign({ ...user }, process.env.SHOPPY__ACCESS_TOKEN, { expiresIn: "1d" });
+        api.authorize(token);
+    } catch (err) {
+        console.error(err);
+    }
+});
+
+afterAll(async () => {
+    try {
+        await pool.query("DELETE FROM user WHERE id = ?", [user.id]);
+    } catch (err) {
+        console.error(err);
+    } finally {
+        pool.end();
+    }
+});
+
+/*****************
+TESTS
+******************/
+
+describe("POST /api/payments/:invoiceId", () => {
+    it("should keep the invoice unpaid when the card is declined", async () => {
+        const response = await api.post<ResponseInterface<PaymentInterface>>(
+            `${invoiceIds[0]}`,
+            null,
+            JSON.stringify({ method: "CARD", card: { ...card, number: "4000000000000002" } })
+        );
+        expect(response.status).toBe(500);
+        expect(response.data.message).toBe("Payment declined");
+        expect(response.data.data.status).toBe("DECLINED");
+        expect(await invoiceStatus(invoiceIds[0])).toBe("PENDING_PAYMENT");
+    });
+    it("should pay the invoice when the card is approved", async () => {
+        const response = await api.post<ResponseInterface<PaymentInterface>>(`${invoiceIds[0]}`, null, JSON.stringify({ method: "CARD", card }));
+        expect(response.data.message).toBe(undefined);
+        expect(response.data.data).toMatchObject({ status: "CAPTURED", amount: 50, provider: "fake" });
+        expect(await invoiceStatus(invoiceIds[0])).toBe("PAID");
+    });
+    it("should not pay an invoice twice", async () => {
+        const response = await api.post<ResponseInterface<PaymentInterface>>(`${invoiceIds[0]}`, null, JSON.stringify({ method: "CARD", card }));
+        expect(response.status).toBe(500);
+        expect(response.data.message).toBe("The order is not waiting for a payment");
+    });
+    it("should give back the declined payment to a retry with the same idempotency key", async () => {
+        const keyedApi = new ApiClient(process.env.BASE_URL + "/api/payments");
+        keyedApi.authorize(jwt.sign({ ...user }, process.env.SHOPPY__ACCESS_TOKEN, { expiresIn: "1d" }));
+        keyedApi.setHeader("Idempotency-Key", "payment-declined-test-key");
+        const body = JSON.stringify({ method: "CARD", card: { ...card, number: "4000000000000002" } });
+        const first = await keyedApi.post<ResponseInterface<PaymentInterface>>(`${invoiceIds[3]}`, null, body);
+        const retry = await keyedApi.post<ResponseInterface<PaymentInterface>>(`${invoiceIds[3]}`, null, body);
+        expect(retry.status).toBe(500);
+        expect(retry.data.message).toBe("Payment declined");
+        expect(retry.data.data).toEqual(first.data.data);
+        const [payments] = await pool.query<RowDataPacket[]>("SELECT id FROM payment WHERE invoiceId = ?", [invoiceIds[3]]);
+        expect(payments).toHaveLength(1);
+    });
+    it("should leave cash payments pending until the order is picked up", async () => {
+        const response = await api.post<ResponseInterface<PaymentInterface>>(`${invoiceIds[2]}`, null, JSON.stringify({ method: "CASH_ON_PICKUP" }));
+        expect(response.data.data).toMatchObject({ status: "PENDING", method: "CASH_ON_PICKUP" });
+        expect(await invoiceStatus(invoiceIds[2])).toBe("PENDING_PAYMENT");
+    });
+});
+
+describe("POST /api/payments/webhook/:provider", () => {
+    let reference: string;
+
+    it("should wait for the confirmation of delayed payments", async () => {
+        const response = await api.post<ResponseInterface<PaymentInterface>>(
+            `${invoiceIds[1]}`,
+            null,
+            JSON.stringify({ method: "CARD", card: { ...card, number: "4000000000000044" } })
+        );
+        expect(response.data.data.status).toBe("PENDING");
+        expect(await invoiceStatus(invoiceIds[1])).toBe("PENDING_PAYMENT");
+        reference = response.data.data.reference;
+    });
+    it("should reject a webhook with a wrong signature", async () => {
+        const response = await api.post<ResponseInterface<PaymentInterface>>(
+            "webhook/fake",
+            null,
+            JSON.stringify({ reference, status: "CAPTURED", signature: "wrong" })
+        );
+        expect(response.status).toBe(500);
+        expect(response.data.message).toBe("Invalid signature");
+    });
+    it("should pay the invoice when the provider confirms", async () => {
+        const signature = new FakePaymentProvider(new Logger()).sign(reference, "CAPTURED");
+        const response = await api.post<ResponseInterface<PaymentInterface>>(
+            "webhook/fake",
+            null,
+            JSON.stringify({ reference, status: "CAPTURED", signature })
+        );
+        expect(response.data.data.status).toBe("CAPTURED");
+        expect(await invoiceStatus(invoiceIds[1])).toBe("PAID");
+    });
+});
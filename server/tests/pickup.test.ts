@@ -0,0 +1,148 @@
+import { ApiClient } from "../src/core/http/api.client";
+import { ResponseInterface } from "../src/models/response";
+import { PickupSlotAvailabilityInterface, PickupSlotInterface } from "../src/models/pickup";
+import { InvoiceViewInterface } from "../src/models/invoiceView";
+import { ResultSetHeader, RowDataPacket } from "mysql2/promise";
+import { UserInterface } from "../src/models/user";
+import { createPool } from "./db.setup";
+import bcrypt from "bcrypt";
+import jwt from "jsonwebtoken";
+import dotenv from "dotenv";
+dotenv.config();
+
+/*****************
+SETUP
+*****************/
+
+const api = new ApiClient(process.env.BASE_URL + "/api/pickup");
+const pool = createPool();
+
+const manager: UserInterface = {
+    email: "testpickupmanager@example.com",
+    password: "test1234",
+    name: "Test",
+    lastName: "Manager",
+    idDocumentType: "DNI",
+    idDocumentNumber: 11113222,
+    rol: "Manager",
+};
+
+const customer: UserInterface = {
+    email: "testpickupcustomer@example.com",
+    password: "test1234",
+    name: "Test",
+    lastName: "Customer",
+    idDocumentType: "DNI",
+    idDocumentNumber: 11113223,
+};
+
+const tomorrow = new Date(Date.now() + 24 * 60 * 60 * 1000);
+const slot = {
+    startsAt: tomorrow,
+    endsAt: new Date(tomorrow.getTime() + 60 * 60 * 1000),
+    capacity: 5,
+};
+
+let storeId: number;
+let slotId: number;
+let invoiceId: number;
+
+beforeAll(async () => {
+    try {
+        manager.password = await bcrypt.hash("test1234", 10);
+        const [managerInsert] = await pool.query<ResultSetHeader>("INSERT INTO user SET ?", [manager]);
+        manager.id = managerInsert.insertId;
+        const [storeInsert] = await pool.query<ResultSetHeader>("INSERT INTO store SET ?", [
+            { name: "tienda pickup", managerId: manager.id, apiUrl: "test@test.com" },
+        ]);
+        storeId = storeInsert.insertId;
+
+        customer.password = await bcrypt.hash("test1234", 10);
+        const [customerInsert] = await pool.query<ResultSetHeader>("INSERT INTO user SET ?", [customer]);
+        customer.id = customerInsert.insertId;
+        const invoice = { date: new Date(), total: 10, userId: customer.id, status: "READY_FOR_PICKUP", pickupCode: "TEST23" };
+        const [invoiceInsert] = await pool.query<ResultSetHeader>("INSERT INTO invoice SET ?", [invoice]);
+        invoiceId = invoiceInsert.insertId;
+        await pool.query("INSERT INTO item SET ?", [{ invoiceId, productId: 3, unitPrice: 10, quantity: 1, total: 10 }]);
+        await pool.query("INSERT INTO invoicePickup SET ?", [{ invoiceId, storeId }]);
+        await pool.query("INSERT INTO payment SET ?", [
+            { invoiceId, method: "CASH_ON_PICKUP", provider: "cash", reference: `cash_test_${invoiceId}`, amount: 10, status: "PENDING" },
+        ]);
+
+        const token = jwt.sign({ ...manager }, process.env.SHOPPY__ACCESS_TOKEN, { expiresIn: "1d" });
+        api.authorize(token);
+    } catch (err) {
+        console.error(err);
+    }
+});
+
+afterAll(async () => {
+    try {
+        await pool.query("DELETE FROM invoice WHERE id = ?", [invoiceId]);
+        await pool.query("DELETE FROM store WHERE id = ?", [storeId]);
+        await pool.query("DELETE FROM user WHERE id IN (?)", [[manager.id, customer.id]]);
+    } catch (err) {
+        console.error(err);
+    } finally {
+        pool.end();
+    }
+});
+
+/*****************
+TESTS
+******************/
+
+describe("POST /api/pickup/slots", () => {
+    it("should create a pickup slot for the manager store", async () => {
+        const response = await api.post<ResponseInterface<PickupSlotInterface>>("slots", null, JSON.stringify(slot));
+        expect(response.data.message).toBe(undefined);
+        expect(response.data.data).toMatchObject({ storeId, capacity: 5 });
+        slotId = response.data.data.id;
+    });
+    it("should not create a slot that ends before it starts", async () => {
+        const response = await api.post<ResponseInterface<PickupSlotInterface>>("slots", null, JSON.stringify({ ...slot, endsAt: new Date() }));
+        expect(response.status).toBe(500);
+        expect(response.data.message).toBe("The slot must end after it starts");
+    });
+});
+
+describe("GET /api/pickup/store/:storeId", () => {
+    it("should return the upcoming slots of the store", async () => {
+        const response = await api.get<ResponseInterface<PickupSlotAvailabilityInterface[]>>(`store/${storeId}`);
+        expect(response.data.data).toHaveLength(1);
+        expect(response.data.data[0]).toMatchObject({ id: slotId, capacity: 5, booked: 0 });
+    });
+});
+
+describe("POST /api/pickup/verify", () => {
+    it("should reject an unknown code", async () => {
+        const response = await api.post<ResponseInterface<InvoiceViewInterface>>("verify", null, JSON.stringify({ code: "ZZZZZZ" }));
+        expect(response.status).toBe(500);
+        expect(response.data.message).toBe("Invalid pickup code");
+    });
+    it("should mark the order as picked up and collect its cash payment", async () => {
+        const response = await api.post<ResponseInterface<InvoiceViewInterface>>("verify", null, JSON.stringify({ code: "test23" }));
+        expect(response.data.message).toBe(undefined);
+        expect(response.data.data.status).toBe("PICKED_UP");
+        expect(response.data.data.pickups[0].pickedUpAt).not.toBe(null);
+        const [payments] = await pool.query<RowDataPacket[]>("SELECT status FROM payment WHERE invoiceId = ?", [invoiceId]);
+        expect(payments[0].status).toBe("CAPTURED");
+        const [history] = await pool.query<RowDataPacket[]>("SELECT fromStatus, toStatus, note FROM invoiceStatusHistory WHERE invoiceId = ? ORDER BY id", [
+            invoiceId,
+        ]);
+        expect(history).toEqual([{ fromStatus: "READY_FOR_PICKUP", toStatus: "PICKED_UP", note: "Pickup code verified, paid on pickup" }]);
+    });
+    it("should not verify the same code twice", async () => {
+        const response = await api.post<ResponseInterface<InvoiceViewInterface>>("verify", null, JSON.stringify({ code: "TEST23" }));
+        expect(response.status).toBe(500);
+        expect(response.data.message).toBe("Order is not ready for pickup");
+    });
+});
+
+describe("DELETE /api/pickup/slots/:slotId", () => {
+    it("should delete a slot without booked orders", async () => {
+        await api.delete<ResponseInterface<void>>(`slots/${slotId}`);
+        const response = await api.get<ResponseInterface<PickupSlotAvailabilityInterface[]>>(`store/${storeId}`);
+        expect(response.data.data).toHaveLength(0);
+    });
+});
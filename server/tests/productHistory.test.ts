@@ -0,0 +1,143 @@
+import { ApiClient } from "../src/core/http/api.client";
+import { ResponseInterface } from "../src/models/response";
+import { ProductInterface } from "../src/models/product";
+import { PriceHistoryPointInterface, ProductVersionDiffInterface, ProductVersionViewInterface } from "../src/models/productVersion";
+import { ResultSetHeader, RowDataPacket } from "mysql2/promise";
+import { UserInterface } from "../src/models/user";
+import { createPool } from "./db.setup";
+import bcrypt from "bcrypt";
+import jwt from "jsonwebtoken";
+import dotenv from "dotenv";
+dotenv.config();
+
+/*****************
+SETUP
+*****************/
+
+const api = new ApiClient(process.env.BASE_URL + "/api/product");
+const pool = createPool();
+
+const manager: UserInterface = {
+    email: "testhistorymanager@example.com",
+    password: "test1234",
+    name: "Test",
+    lastName: "Manager",
+    idDocumentType: "DNI",
+    idDocumentNumber: 11118642,
+    rol: "Manager",
+};
+
+let storeId: number;
+let product: ProductInterface;
+
+const getVersions = async () => (await api.get<ResponseInterface<ProductVersionViewInterface[]>>(`${product.id}/versions`)).data.data;
+
+beforeAll(async () => {
+    try {
+        manager.password = await bcrypt.hash("test1234", 10);
+        const [managerInsert] = await pool.query<ResultSetHeader>("INSERT INTO user SET ?", [manager]);
+        manager.id = managerInsert.insertId;
+        const [storeInsert] = await pool.query<ResultSetHeader>("INSERT INTO store SET ?", [
+            { name: "tienda historial", managerId: manager.id, apiUrl: "test@test.com" },
+        ]);
+        storeId = storeInsert.insertId;
+        const fields = { name: "Buzo historial", description: "Buzo de frisa con capucha", price: 100, currentStock: 10, reorderPoint: 1, minimum: 1 };
+        const [productInsert] = await pool.query<ResultSetHeader>("INSERT INTO product SET ?", [{ ...fields, storeId, brandId: 1 }]);
+        await pool.query("INSERT INTO productSize SET ?", [{ productId: productInsert.insertId, sizeId: 1 }]);
+        await pool.query(
+            `INSERT INTO productVersion (productId, version, action, name, description, price, discountPercentage, reorderPoint, minimum, brand, brandId, categories, sizes, url_img, status)
+            SELECT id, 1, 'CREATE', name, description, price, regularDiscountPercentage, reorderPoint, minimum, brand, 1, categories, sizes, url_img, status
+            FROM product_view WHERE id = ?`,
+            [productInsert.insertId]
+        );
+        const [[stored]] = await pool.query<RowDataPacket[]>("SELECT brand, sizes FROM product_view WHERE id = ?", [productInsert.insertId]);
+        product = {
+            ...fields,
+            id: productInsert.insertId,
+            discountPercentage: 1,
+            brand: stored.brand,
+            categories: [],
+            sizes: stored.sizes,
+            url_img: "images/placeholder.jpg",
+        };
+        api.authorize(jwt.sign({ ...manager }, process.env.SHOPPY__ACCESS_TOKEN, { expiresIn: "1d" }));
+    } catch (err) {
+        console.error(err);
+    }
+});
+
+afterAll(async () => {
+    try {
+        await pool.query("DELETE FROM product WHERE storeId = ?", [storeId]);
+        await pool.query("DELETE FROM store WHERE id = ?", [storeId]);
+        await pool.query("DELETE FROM user WHERE id = ?", [manager.id]);
+    } catch (err) {
+        console.error(err);
+    } finally {
+        pool.end();
+    }
+});
+
+/*****************
+TESTS
+******************/
+
+describe("PUT /api/product", () => {
+    it("should record the edit as a new version with the user that made it", async () => {
+        const response = await api.put<ResponseInterface<ProductInterface>>("", null, JSON.stringify({ ...product, price: 150 }));
+        expect(response.data.message).toBe(undefined);
+        const [latest, first] = await getVersions();
+        expect(latest).toMatchObject({ version: 2, action: "UPDATE", price: 150, user: manager.email });
+        expect(first).toMatchObject({ version: 1, action: "CREATE", price: 100 });
+    });
+});
+
+describe("GET /api/product/:productId/versions/diff", () => {
+    it("should list the fields that changed between two versions", async () => {
+        const response = await api.get<ResponseInterface<ProductVersionDiffInterface>>(`${product.id}/versions/diff`, { from: "1", to: "2" });
+        expect(response.data.message).toBe(undefined);
+        expect(response.data.data.changes).toEqual([{ field: "price", from: 100, to: 150 }]);
+    });
+    it("should not compare a missing version", async () => {
+        const response = await api.get<ResponseInterface<ProductVersionDiffInterface>>(`${product.id}/versions/diff`, { from: "1", to: "9" });
+        expect(response.status).toBe(500);
+        expect(response.data.message).toBe("Version not found");
+    });
+});
+
+describe("GET /api/product/:productId/price-history", () => {
+    it("should return a point for each price the product had", async () => {
+        const response = await new ApiClient(process.env.BASE_URL + "/api/product").get<ResponseInterface<PriceHistoryPointInterface[]>>(
+            `${product.id}/price-history`
+        );
+        expect(response.data.message).toBe(undefined);
+        expect(response.data.data.map(point => point.finalPrice)).toEqual([100, 150]);
+    });
+});
+
+describe("POST /api/product/:productId/versions/:version/revert", () => {
+    it("should bring back the fields of the version without changing the stock", async () => {
+        await pool.query("UPDATE product SET currentStock = 7 WHERE id = ?", [product.id]);
+        const response = await api.post<ResponseInterface<ProductInterface>>(`${product.id}/versions/1/revert`);
+        expect(response.data.message).toBe(undefined);
+        expect(response.data.data).toMatchObject({ price: 100, currentStock: 7 });
+        const [latest] = await getVersions();
+        expect(latest).toMatchObject({ version: 3, action: "REVERT", revertedVersion: 1, price: 100 });
+    });
+    it("should not bring back a brand that was deleted or merged", async () => {
+        await pool.query("UPDATE productVersion SET brandId = NULL WHERE productId = ? AND version = 2", [product.id]);
+        const response = await api.post<ResponseInterface<ProductInterface>>(`${product.id}/versions/2/revert`);
+        expect(response.status).toBe(500);
+        expect(response.data.message).toBe("The brand of the version doesn't exist anymore");
+        const [latest] = await getVersions();
+        expect(latest).toMatchObject({ version: 3, action: "REVERT" });
+    });
+});
+
+describe("DELETE /api/product/:productId", () => {
+    it("should record the product was disabled", async () => {
+        await api.delete<ResponseInterface<ProductInterface>>(`${product.id}`);
+        const [latest] = await getVersions();
+        expect(latest).toMatchObject({ version: 4, action: "DISABLE", status: 0 });
+    });
+});
@@ -0,0 +1,201 @@
+import { ApiClient } from "../src/core/http/api.client";
+import { ResponseInterface } from "../src/models/response";
+import { ProductFacetsInterface, ProductInterface } from "../src/models/product";
+import { ResultSetHeader } from "mysql2/promise";
+import { UserInterface } from "../src/models/user";
+import { createPool } from "./db.setup";
+import dotenv from "dotenv";
+dotenv.config();
+
+/*****************
+SETUP
+*****************/
+
+const api = new ApiClient(process.env.BASE_URL + "/api/product");
+const pool = createPool();
+
+const manager: UserInterface = {
+    email: "testlistingmanager@example.com",
+    password: "test1234",
+    name: "Test",
+    lastName: "Manager",
+    idDocumentType: "DNI",
+    idDocumentNumber: 11116420,
+    rol: "Manager",
+};
+
+interface ListingResponse {
+    products: ProductInterface[];
+    pagination: { perPage: number; nextCursor: string | null; hasNextPage: boolean; totalPages?: number; totalItems?: number };
+    facets?: ProductFacetsInterface;
+}
+
+let storeId: number;
+
+/**
+ * Brand 1 is Nike and 2 Topper, category 1 is Chaqueta and 2 Sudadera, size 1 is Hombre and 2 Mujer
+ */
+const products = [
+    { name: "Chaqueta listado hombre", price: 20, brandId: 1, categoryIds: [1], sizeIds: [1] },
+    { name: "Chaqueta listado mujer", price: 60, brandId: 2, categoryIds: [1], sizeIds: [2] },
+    { name: "Sudadera listado", price: 150, brandId: 1, categoryIds: [2], sizeIds: [1, 2] },
+];
+
+const list = (query: Record<string, string> = {}) => api.get<ResponseInterface<ListingResponse>>(`store/${storeId}/q`, query);
+
+beforeAll(async () => {
+    try {
+        const [managerInsert] = await pool.query<ResultSetHeader>("INSERT INTO user SET ?", [manager]);
+        manager.id = managerInsert.insertId;
+        const [storeInsert] = await pool.query<ResultSetHeader>("INSERT INTO store SET ?", [
+            { name: "tienda listado", managerId: manager.id, apiUrl: "test@test.com" },
+        ]);
+        storeId = storeInsert.insertId;
+        for (const { categoryIds, sizeIds, ...product } of products) {
+            const [productInsert] = await pool.query<ResultSetHeader>("INSERT INTO product SET ?", [
+                { ...product, description: "Producto del listado", currentStock: 5, reorderPoint: 1, minimum: 1, storeId },
+            ]);
+            for (const categoryId of categoryIds) {
+                await pool.query("INSERT INTO productCategory SET ?", [{ productId: productInsert.insertId, categoryId }]);
+            }
+            for (const sizeId of sizeIds) {
+                await pool.query("INSERT INTO productSize SET ?", [{ productId: productInsert.insertId, sizeId }]);
+            }
+        }
+    } catch (err) {
+        console.error(err);
+    }
+});
+
+afterAll(async () => {
+    try {
+        await pool.query("DELETE FROM product WHERE storeId = ?", [storeId]);
+        await pool.query("DELETE FROM store WHERE id = ?", [storeId]);
+        await pool.query("DELETE FROM user WHERE id = ?", [manager.id]);
+    } catch (err) {
+        console.error(err);
+    } finally {
+        pool.end();
+    }
+});
+
+/*****************
+TESTS
+******************/
+
+describe("GET /api/product/store/:storeId/q facets", () => {
+    it("should count the products of each option", async () => {
+        const response = await list();
+        expect(response.data.message).toBe(undefined);
+        const { facets } = response.data.data;
+        expect(facets.categories).toEqual([
+            { value: "Chaqueta", count: 2 },
+            { value: "Sudadera", count: 1 },
+        ]);
+        expect(facets.sizes).toEqual([
+            { value: "Hombre", count: 2 },
+            { value: "Mujer", count: 2 },
+        ]);
+        expect(facets.brands).toEqual([
+            { value: "Nike", count: 2 },
+            { value: "Topper", count: 1 },
+        ]);
+        expect(facets.prices.map(price => price.count)).toEqual([1, 0, 1, 1, 0]);
+    });
+    it("should count each facet with the other filters applied", async () => {
+        const response = await list({ category: "Chaqueta" });
+        const { facets } = response.data.data;
+        expect(facets.categories).toEqual([
+            { value: "Chaqueta", count: 2 },
+            { value: "Sudadera", count: 1 },
+        ]);
+        expect(facets.sizes).toEqual([
+            { value: "Hombre", count: 1 },
+            { value: "Mujer", count: 1 },
+        ]);
+        expect(facets.brands).toEqual([
+            { value: "Nike", count: 1 },
+            { value: "Topper", count: 1 },
+        ]);
+        expect(facets.prices).toEqual([
+            { min: 0, max: 25, count: 1 },
+            { min: 25, max: 50, count: 0 },
+            { min: 50, max: 100, count: 1 },
+            { min: 100, max: 200, count: 0 },
+            { min: 200, max: null, count: 0 },
+        ]);
+    });
+});
+
+describe("GET /api/product/store/:storeId/q options", () => {
+    const names = (response: Awaited<ReturnType<typeof list>>) => response.data.data.products.map(product => product.name);
+
+    it("should sort the products by price", async () => {
+        expect(names(await list({ sort: "price_asc" }))).toEqual(["Chaqueta listado hombre", "Chaqueta listado mujer", "Sudadera listado"]);
+        expect(names(await list({ sort: "price_desc" }))).toEqual(["Sudadera listado", "Chaqueta listado mujer", "Chaqueta listado hombre"]);
+    });
+    it("should sort the products by name and newest first", async () => {
+        expect(names(await list({ sort: "name" }))).toEqual(["Chaqueta listado hombre", "Chaqueta listado mujer", "Sudadera listado"]);
+        expect(names(await list({ sort: "newest" }))).toEqual(["Sudadera listado", "Chaqueta listado mujer", "Chaqueta listado hombre"]);
+    });
+    it("should filter by the price range", async () => {
+        const response = await list({ min_price: "30", max_price: "150", total: "true" });
+        expect(names(response)).toEqual(["Chaqueta listado mujer", "Sudadera listado"]);
+        expect(response.data.data.pagination.totalItems).toBe(2);
+    });
+    it("should match any of the values of a filter and all the filters", async () => {
+        expect(names(await list({ brand: "Nike,Topper", category: "Chaqueta" }))).toEqual(["Chaqueta listado hombre", "Chaqueta listado mujer"]);
+        expect(names(await list({ size: "Mujer", brand: "Nike" }))).toEqual(["Sudadera listado"]);
+    });
+    it("should not sort by an unknown order", async () => {
+        const response = await list({ sort: "random" });
+        expect(response.status).toBe(500);
+        expect(response.data.message).toBe("\"sort\" must be one of [price_asc, price_desc, discount, newest, name]");
+    });
+    it("should not take a max price under the min price", async () => {
+        const response = await list({ min_price: "50", max_price: "10" });
+        expect(response.status).toBe(500);
+        expect(response.data.message).toBe("Invalid max_price, it must be greater than or equal to 0 and to min_price");
+    });
+});
+
+describe("GET /api/product/store/:storeId/q pages", () => {
+    const allPages = async (query: Record<string, string>) => {
+        const names: string[] = [];
+        let cursor: string | null = null;
+        do {
+            const response = await list({ ...query, per_page: "1", ...(cursor ? { cursor } : {}) });
+            expect(response.data.message).toBe(undefined);
+            names.push(...response.data.data.products.map(product => product.name));
+            cursor = response.data.data.pagination.nextCursor;
+        } while (cursor);
+        return names;
+    };
+
+    it("should continue each sort from the cursor of the previous page", async () => {
+        expect(await allPages({ sort: "price_desc" })).toEqual(["Sudadera listado", "Chaqueta listado mujer", "Chaqueta listado hombre"]);
+        expect(await allPages({ sort: "name" })).toEqual(["Chaqueta listado hombre", "Chaqueta listado mujer", "Sudadera listado"]);
+        expect(await allPages({ sort: "newest" })).toEqual(["Sudadera listado", "Chaqueta listado mujer", "Chaqueta listado hombre"]);
+    });
+    it("should not skip products when the stock changes between pages", async () => {
+        const first = await list({ per_page: "1", sort: "price_asc" });
+        await pool.query("UPDATE product SET currentStock = 0 WHERE storeId = ? AND name = ?", [storeId, "Chaqueta listado hombre"]);
+        const second = await list({ per_page: "1", sort: "price_asc", cursor: first.data.data.pagination.nextCursor });
+        expect(second.data.data.products.map(product => product.name)).toEqual(["Chaqueta listado mujer"]);
+        await pool.query("UPDATE product SET currentStock = 5 WHERE storeId = ?", [storeId]);
+    });
+    it("should only count the products and send the facets when they're asked for", async () => {
+        const first = await list({ per_page: "2", total: "true" });
+        expect(first.data.data.pagination).toMatchObject({ totalItems: 3, totalPages: 2, hasNextPage: true });
+        expect(first.data.data.facets).toBeDefined();
+        const second = await list({ per_page: "2", cursor: first.data.data.pagination.nextCursor });
+        expect(second.data.data.pagination).toEqual({ perPage: 2, nextCursor: null, hasNextPage: false });
+        expect(second.data.data.facets).toBeUndefined();
+    });
+    it("should not continue a listing with the cursor of another sort", async () => {
+        const first = await list({ per_page: "1", sort: "name" });
+        const response = await list({ per_page: "1", sort: "price_asc", cursor: first.data.data.pagination.nextCursor });
+        expect(response.status).toBe(500);
+        expect(response.data.message).toBe("Invalid cursor");
+    });
+});
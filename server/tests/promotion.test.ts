@@ -0,0 +1,163 @@
+import { ApiClient } from "../src/core/http/api.client";
+import { ResponseInterface } from "../src/models/response";
+import { PromotionQuoteInterface, PromotionViewInterface } from "../src/models/promotion";
+import { InvoiceViewInterface } from "../src/models/invoiceView";
+import { ProductSaleInterface } from "../src/models/product";
+import { ResultSetHeader } from "mysql2/promise";
+import { UserInterface } from "../src/models/user";
+import { createPool } from "./db.setup";
+import bcrypt from "bcrypt";
+import jwt from "jsonwebtoken";
+import dotenv from "dotenv";
+dotenv.config();
+
+/*****************
+SETUP
+*****************/
+
+const api = new ApiClient(process.env.BASE_URL + "/api/promotions");
+const checkout = new ApiClient(process.env.BASE_URL + "/api/checkout");
+const pool = createPool();
+
+const manager: UserInterface = {
+    email: "testpromotionmanager@example.com",
+    password: "test1234",
+    name: "Test",
+    lastName: "Manager",
+    idDocumentType: "DNI",
+    idDocumentNumber: 11115222,
+    rol: "Manager",
+};
+
+const customer: UserInterface = {
+    email: "testpromotioncustomer@example.com",
+    password: "test1234",
+    name: "Test",
+    lastName: "Customer",
+    idDocumentType: "DNI",
+    idDocumentNumber: 11115223,
+};
+
+let tokenManager: string;
+let tokenCustomer: string;
+let storeId: number;
+let line: ProductSaleInterface;
+
+beforeAll(async () => {
+    try {
+        manager.password = await bcrypt.hash("test1234", 10);
+        const [managerInsert] = await pool.query<ResultSetHeader>("INSERT INTO user SET ?", [manager]);
+        manager.id = managerInsert.insertId;
+        const [storeInsert] = await pool.query<ResultSetHeader>("INSERT INTO store SET ?", [
+            { name: "tienda promociones", managerId: manager.id, apiUrl: "test@test.com" },
+        ]);
+        storeId = storeInsert.insertId;
+        const product = { name: "Medias test", description: "Medias de algodón", price: 10, currentStock: 10, reorderPoint: 1, minimum: 1, storeId };
+        const [productInsert] = await pool.query<ResultSetHeader>("INSERT INTO product SET ?", [{ ...product, brandId: 1 }]);
+        line = {
+            ...product,
+            id: productInsert.insertId,
+            discountPercentage: 1,
+            categories: [],
+            sizes: [],
+            brand: "test",
+            url_img: "images/placeholder.jpg",
+            quantity: 3,
+        };
+
+        customer.password = await bcrypt.hash("test1234", 10);
+        const [customerInsert] = await pool.query<ResultSetHeader>("INSERT INTO user SET ?", [customer]);
+        customer.id = customerInsert.insertId;
+
+        tokenManager = jwt.sign({ ...manager }, process.env.SHOPPY__ACCESS_TOKEN, { expiresIn: "1d" });
+        tokenCustomer = jwt.sign({ ...customer }, process.env.SHOPPY__ACCESS_TOKEN, { expiresIn: "1d" });
+        checkout.authorize(tokenCustomer);
+    } catch (err) {
+        console.error(err);
+    }
+});
+
+afterAll(async () => {
+    try {
+        await pool.query("DELETE FROM invoice WHERE userId = ?", [customer.id]);
+        await pool.query("DELETE FROM product WHERE id = ?", [line.id]);
+        await pool.query("DELETE FROM store WHERE id = ?", [storeId]);
+        await pool.query("DELETE FROM user WHERE id IN (?)", [[manager.id, customer.id]]);
+    } catch (err) {
+        console.error(err);
+    } finally {
+        pool.end();
+    }
+});
+
+/*****************
+TESTS
+******************/
+
+describe("POST /api/promotions", () => {
+    beforeAll(() => api.authorize(tokenManager));
+
+    it("should create a promotion limited to the manager store", async () => {
+        const promotion = { name: "Llevá 3 pagá 2", type: "BUY_X_GET_Y", buyQuantity: 2, getQuantity: 1, storeId: 1 };
+        const response = await api.post<ResponseInterface<PromotionViewInterface>>("", null, JSON.stringify(promotion));
+        expect(response.data.message).toBe(undefined);
+        expect(response.data.data).toMatchObject({ type: "BUY_X_GET_Y", storeId, usageCount: 0 });
+    });
+    it("should create a coupon with a usage limit", async () => {
+        const promotion = { name: "10% off", code: "testpromo10", type: "PERCENTAGE", value: 10, usageLimit: 1 };
+        const response = await api.post<ResponseInterface<PromotionViewInterface>>("", null, JSON.stringify(promotion));
+        expect(response.data.message).toBe(undefined);
+        expect(response.data.data).toMatchObject({ code: "TESTPROMO10", value: 10, usageLimit: 1, storeId });
+    });
+    it("should not create a percentage greater than 100", async () => {
+        const promotion = { name: "Gratis", type: "PERCENTAGE", value: 150 };
+        const response = await api.post<ResponseInterface<PromotionViewInterface>>("", null, JSON.stringify(promotion));
+        expect(response.status).toBe(500);
+        expect(response.data.message).toBe("Invalid value, a percentage can't be greater than 100");
+    });
+    it("should not let a customer create a promotion", async () => {
+        const client = new ApiClient(process.env.BASE_URL + "/api/promotions");
+        client.authorize(tokenCustomer);
+        const response = await client.post<ResponseInterface<PromotionViewInterface>>(
+            "",
+            null,
+            JSON.stringify({ name: "Mía", type: "FIXED_AMOUNT", value: 5 })
+        );
+        expect(response.status).toBe(500);
+        expect(response.data.message).toBe("Unauthorized");
+    });
+});
+
+describe("POST /api/promotions/quote", () => {
+    beforeAll(() => api.authorize(tokenCustomer));
+
+    it("should apply the promotions of the store and the coupon", async () => {
+        const response = await api.post<ResponseInterface<PromotionQuoteInterface>>("quote", { coupon: "TESTPROMO10" }, JSON.stringify([line]));
+        expect(response.data.message).toBe(undefined);
+        expect(response.data.data).toMatchObject({ subtotal: 30, total: 17 });
+        expect(response.data.data.discounts.map(discount => discount.amount)).toEqual([10, 3]);
+    });
+    it("should reject an unknown coupon", async () => {
+        const response = await api.post<ResponseInterface<PromotionQuoteInterface>>("quote", { coupon: "NOPE" }, JSON.stringify([line]));
+        expect(response.status).toBe(500);
+        expect(response.data.message).toBe("Invalid coupon");
+    });
+});
+
+describe("POST /api/checkout/produce with a coupon", () => {
+    it("should store the discounts on the invoice", async () => {
+        const response = await checkout.post<ResponseInterface<InvoiceViewInterface>>("produce", { coupon: "testpromo10" }, JSON.stringify([line]));
+        expect(response.data.message).toBe(undefined);
+        expect(response.data.data).toMatchObject({ total: 17, discount: 13 });
+        expect(response.data.data.discounts).toHaveLength(2);
+    }, 15000);
+    it("should not use a coupon over its usage limit", async () => {
+        const response = await checkout.post<ResponseInterface<InvoiceViewInterface>>(
+            "produce",
+            { coupon: "TESTPROMO10" },
+            JSON.stringify([{ ...line, quantity: 1 }])
+        );
+        expect(response.status).toBe(500);
+        expect(response.data.message).toBe("Invalid coupon");
+    });
+});
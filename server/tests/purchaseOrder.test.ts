@@ -0,0 +1,169 @@
+import { ApiClient } from "../src/core/http/api.client";
+import { ResponseInterface } from "../src/models/response";
+import { SupplierInterface } from "../src/models/supplier";
+import { PurchaseOrderViewInterface } from "../src/models/purchaseOrder";
+import { ProductInterface } from "../src/models/product";
+import { StockMovementViewInterface } from "../src/models/stockMovement";
+import { ResultSetHeader } from "mysql2/promise";
+import { UserInterface } from "../src/models/user";
+import { createPool } from "./db.setup";
+import bcrypt from "bcrypt";
+import jwt from "jsonwebtoken";
+import dotenv from "dotenv";
+dotenv.config();
+
+/*****************
+SETUP
+*****************/
+
+const suppliers = new ApiClient(process.env.BASE_URL + "/api/suppliers");
+const orders = new ApiClient(process.env.BASE_URL + "/api/purchase-orders");
+const productApi = new ApiClient(process.env.BASE_URL + "/api/product");
+const inventory = new ApiClient(process.env.BASE_URL + "/api/inventory");
+const pool = createPool();
+
+const manager: UserInterface = {
+    email: "testpurchasemanager@example.com",
+    password: "test1234",
+    name: "Test",
+    lastName: "Manager",
+    idDocumentType: "DNI",
+    idDocumentNumber: 11119322,
+    rol: "Manager",
+};
+
+let storeId: number;
+let lowProductId: number;
+let supplierId: number;
+let order: PurchaseOrderViewInterface;
+
+const getStock = async () => (await productApi.get<ResponseInterface<ProductInterface>>(`${lowProductId}`)).data.data.currentStock;
+
+beforeAll(async () => {
+    try {
+        manager.password = await bcrypt.hash("test1234", 10);
+        const [managerInsert] = await pool.query<ResultSetHeader>("INSERT INTO user SET ?", [manager]);
+        manager.id = managerInsert.insertId;
+        const [storeInsert] = await pool.query<ResultSetHeader>("INSERT INTO store SET ?", [
+            { name: "tienda compras", managerId: manager.id, apiUrl: "test@test.com" },
+        ]);
+        storeId = storeInsert.insertId;
+        const product = { description: "Producto de prueba", price: 10, reorderPoint: 5, minimum: 2, storeId, brandId: 1 };
+        const [lowInsert] = await pool.query<ResultSetHeader>("INSERT INTO product SET ?", [{ ...product, name: "Guantes test", currentStock: 3 }]);
+        lowProductId = lowInsert.insertId;
+        await pool.query("INSERT INTO product SET ?", [{ ...product, name: "Medias test", currentStock: 20 }]);
+
+        const token = jwt.sign({ ...manager }, process.env.SHOPPY__ACCESS_TOKEN, { expiresIn: "1d" });
+        suppliers.authorize(token);
+        orders.authorize(token);
+        productApi.authorize(token);
+        inventory.authorize(token);
+    } catch (err) {
+        console.error(err);
+    }
+});
+
+afterAll(async () => {
+    try {
+        await pool.query("DELETE FROM purchaseOrder WHERE storeId = ?", [storeId]);
+        await pool.query("DELETE FROM product WHERE storeId = ?", [storeId]);
+        await pool.query("DELETE FROM store WHERE id = ?", [storeId]);
+        await pool.query("DELETE FROM user WHERE id = ?", [manager.id]);
+    } catch (err) {
+        console.error(err);
+    } finally {
+        pool.end();
+    }
+});
+
+/*****************
+TESTS
+******************/
+
+describe("POST /api/suppliers", () => {
+    it("should create a supplier of the manager store", async () => {
+        const response = await suppliers.post<ResponseInterface<SupplierInterface>>(
+            "",
+            null,
+            JSON.stringify({ name: "Textil test", email: "testsupplier@example.com" })
+        );
+        expect(response.data.message).toBe(undefined);
+        expect(response.data.data).toMatchObject({ storeId, name: "Textil test", status: 1 });
+        supplierId = response.data.data.id;
+    });
+});
+
+describe("POST /api/purchase-orders/suggest", () => {
+    it("should order the products at or below their reorder point up to the target level", async () => {
+        const response = await orders.post<ResponseInterface<PurchaseOrderViewInterface>>("suggest", null, JSON.stringify({ supplierId }));
+        expect(response.data.message).toBe(undefined);
+        order = response.data.data;
+        expect(order).toMatchObject({ status: "DRAFT", supplier: "Textil test" });
+        expect(order.lines).toEqual([expect.objectContaining({ productId: lowProductId, quantity: 7, receivedQuantity: 0 })]);
+    });
+    it("should discount the units already ordered", async () => {
+        const response = await orders.post<ResponseInterface<PurchaseOrderViewInterface>>("suggest", null, JSON.stringify({ supplierId }));
+        expect(response.status).toBe(500);
+        expect(response.data.message).toBe("No products to reorder");
+    });
+});
+
+describe("Purchase order lifecycle", () => {
+    it("should change the lines of a draft", async () => {
+        const response = await orders.put<ResponseInterface<PurchaseOrderViewInterface>>(
+            `${order.id}`,
+            null,
+            JSON.stringify({ supplierId, lines: [{ productId: lowProductId, quantity: 8, unitCost: 2 }] })
+        );
+        expect(response.data.message).toBe(undefined);
+        expect(response.data.data.total).toBe(16);
+        order = response.data.data;
+    });
+    it("should not receive a draft", async () => {
+        const response = await orders.post<ResponseInterface<PurchaseOrderViewInterface>>(`${order.id}/receive`, null, JSON.stringify({}));
+        expect(response.status).toBe(500);
+        expect(response.data.message).toBe("Only sent orders can be received");
+    });
+    it("should send the order to the supplier", async () => {
+        const response = await orders.post<ResponseInterface<PurchaseOrderViewInterface>>(`${order.id}/send`);
+        expect(response.data.message).toBe(undefined);
+        expect(response.data.data.status).toBe("SENT");
+        expect(response.data.data.sentAt).not.toBe(null);
+        const rejected = await orders.put<ResponseInterface<PurchaseOrderViewInterface>>(
+            `${order.id}`,
+            null,
+            JSON.stringify({ supplierId, lines: [{ productId: lowProductId, quantity: 1 }] })
+        );
+        expect(rejected.data.message).toBe("Only draft orders can be changed");
+    }, 15000);
+    it("should put the received units in stock", async () => {
+        const response = await orders.post<ResponseInterface<PurchaseOrderViewInterface>>(
+            `${order.id}/receive`,
+            null,
+            JSON.stringify({ lines: [{ lineId: order.lines[0].id, quantity: 5 }] })
+        );
+        expect(response.data.message).toBe(undefined);
+        expect(response.data.data.status).toBe("PARTIALLY_RECEIVED");
+        expect(await getStock()).toBe(8);
+    });
+    it("should not receive more units than ordered", async () => {
+        const response = await orders.post<ResponseInterface<PurchaseOrderViewInterface>>(
+            `${order.id}/receive`,
+            null,
+            JSON.stringify({ lines: [{ lineId: order.lines[0].id, quantity: 4 }] })
+        );
+        expect(response.status).toBe(500);
+        expect(response.data.message).toBe("More units than ordered");
+    });
+    it("should receive every pending unit and record them in the ledger", async () => {
+        const response = await orders.post<ResponseInterface<PurchaseOrderViewInterface>>(`${order.id}/receive`, null, JSON.stringify({}));
+        expect(response.data.data.status).toBe("RECEIVED");
+        expect(response.data.data.receivedAt).not.toBe(null);
+        expect(await getStock()).toBe(11);
+        const { data } = await inventory.get<ResponseInterface<StockMovementViewInterface[]>>(`products/${lowProductId}/movements`);
+        expect(data.data.filter(movement => movement.reason === "PURCHASE")).toEqual([
+            expect.objectContaining({ quantity: 3, balance: 11, reference: `purchase-order:${order.id}` }),
+            expect.objectContaining({ quantity: 5, balance: 8, reference: `purchase-order:${order.id}` }),
+        ]);
+    });
+});
@@ -0,0 +1,168 @@
+import { ApiClient } from "../src/core/http/api.client";
+import { ResponseInterface } from "../src/models/response";
+import { CartViewInterface } from "../src/models/cartView";
+import { CheckoutLineErrorInterface } from "../src/models/checkout";
+import { ProductInterface, ProductSaleInterface } from "../src/models/product";
+import { ResultSetHeader } from "mysql2/promise";
+import { UserInterface } from "../src/models/user";
+import { createPool } from "./db.setup";
+import bcrypt from "bcrypt";
+import jwt from "jsonwebtoken";
+import dotenv from "dotenv";
+dotenv.config();
+
+/*****************
+SETUP
+*****************/
+
+const productApi = new ApiClient(process.env.BASE_URL + "/api/product");
+const firstCart = new ApiClient(process.env.BASE_URL + "/api/cart");
+const secondCart = new ApiClient(process.env.BASE_URL + "/api/cart");
+const checkout = new ApiClient(process.env.BASE_URL + "/api/checkout");
+const pool = createPool();
+
+const customers: UserInterface[] = [11117301, 11117302].map((idDocumentNumber, i) => ({
+    email: `testreservation${i}@example.com`,
+    password: "test1234",
+    name: "Test",
+    lastName: "Customer",
+    idDocumentType: "DNI",
+    idDocumentNumber,
+}));
+
+let storeId: number;
+let line: ProductSaleInterface;
+let variantProductId: number;
+const variantIds: number[] = [];
+
+const getProduct = async () => (await productApi.get<ResponseInterface<ProductInterface>>(`${line.id}`)).data.data;
+
+beforeAll(async () => {
+    try {
+        const [storeInsert] = await pool.query<ResultSetHeader>("INSERT INTO store SET ?", [{ name: "tienda reservas", apiUrl: "test@test.com" }]);
+        storeId = storeInsert.insertId;
+        const product = { name: "Bufanda test", description: "Bufanda de lana", price: 10, currentStock: 3, reorderPoint: 0, minimum: 0, storeId };
+        const [productInsert] = await pool.query<ResultSetHeader>("INSERT INTO product SET ?", [{ ...product, brandId: 1 }]);
+        line = {
+            ...product,
+            id: productInsert.insertId,
+            discountPercentage: 1,
+            categories: [],
+            sizes: [],
+            brand: "test",
+            url_img: "images/placeholder.jpg",
+            quantity: 1,
+        };
+
+        const [variantProductInsert] = await pool.query<ResultSetHeader>("INSERT INTO product SET ?", [{ ...product, name: "Guantes test", brandId: 1 }]);
+        variantProductId = variantProductInsert.insertId;
+        for (const [sku, currentStock] of [
+            ["TEST-GUANTES-S", 1],
+            ["TEST-GUANTES-M", 2],
+        ] as const) {
+            const [variantInsert] = await pool.query<ResultSetHeader>("INSERT INTO productVariant SET ?", [{ productId: variantProductId, sku, currentStock }]);
+            variantIds.push(variantInsert.insertId);
+        }
+
+        for (const customer of customers) {
+            customer.password = await bcrypt.hash("test1234", 10);
+            const [customerInsert] = await pool.query<ResultSetHeader>("INSERT INTO user SET ?", [customer]);
+            customer.id = customerInsert.insertId;
+        }
+        firstCart.authorize(jwt.sign({ ...customers[0] }, process.env.SHOPPY__ACCESS_TOKEN, { expiresIn: "1d" }));
+        const secondToken = jwt.sign({ ...customers[1] }, process.env.SHOPPY__ACCESS_TOKEN, { expiresIn: "1d" });
+        secondCart.authorize(secondToken);
+        checkout.authorize(secondToken);
+    } catch (err) {
+        console.error(err);
+    }
+});
+
+afterAll(async () => {
+    try {
+        const ids = customers.map(customer => customer.id);
+        await pool.query("DELETE FROM invoice WHERE userId IN (?)", [ids]);
+        await pool.query("DELETE FROM product WHERE id IN (?)", [[line.id, variantProductId]]);
+        await pool.query("DELETE FROM store WHERE id = ?", [storeId]);
+        await pool.query("DELETE FROM user WHERE id IN (?)", [ids]);
+    } catch (err) {
+        console.error(err);
+    } finally {
+        pool.end();
+    }
+});
+
+/*****************
+TESTS
+******************/
+
+describe("Stock reservations", () => {
+    it("should hold the units added to the cart", async () => {
+        const response = await firstCart.post<ResponseInterface<CartViewInterface[]>>("", null, JSON.stringify({ productId: line.id, quantity: 2 }));
+        expect(response.data.message).toBe(undefined);
+        expect(response.data.data[0]).toMatchObject({ productId: line.id, quantity: 2, currentStock: 3, availableStock: 3 });
+        expect(response.data.data[0].reservedUntil).not.toBe(null);
+        expect(await getProduct()).toMatchObject({ currentStock: 3, reservedStock: 2, availableStock: 1 });
+    });
+    it("should not add the units held by other users", async () => {
+        const rejected = await secondCart.post<ResponseInterface<CartViewInterface[]>>("", null, JSON.stringify({ productId: line.id, quantity: 2 }));
+        expect(rejected.status).toBe(500);
+        expect(rejected.data.message).toBe("Not enough stock");
+        const response = await secondCart.post<ResponseInterface<CartViewInterface[]>>("", null, JSON.stringify({ productId: line.id, quantity: 1 }));
+        expect(response.data.data[0]).toMatchObject({ quantity: 1, availableStock: 1 });
+    });
+    it("should reject the checkout of the units held by other users", async () => {
+        const response = await checkout.post<ResponseInterface<CheckoutLineErrorInterface[]>>("produce", null, JSON.stringify([{ ...line, quantity: 2 }]));
+        expect(response.status).toBe(409);
+        expect(response.data.data).toEqual([
+            { productId: line.id, reason: "INSUFFICIENT_STOCK", price: 10, discountPercentage: 1, currentStock: 3, availableStock: 1 },
+        ]);
+    });
+    it("should not count the expired reservations", async () => {
+        await pool.query("UPDATE stockReservation SET expiresAt = NOW() - INTERVAL 1 MINUTE WHERE userId = ?", [customers[0].id]);
+        expect(await getProduct()).toMatchObject({ reservedStock: 1, availableStock: 2 });
+        const response = await secondCart.put<ResponseInterface<CartViewInterface[]>>("", null, JSON.stringify({ productId: line.id, quantity: 3 }));
+        expect(response.data.message).toBe(undefined);
+        expect(response.data.data[0]).toMatchObject({ quantity: 3, availableStock: 3 });
+    });
+    it("should release the reservations of the removed lines", async () => {
+        await secondCart.delete<ResponseInterface<CartViewInterface[]>>(`${line.id}`);
+        expect(await getProduct()).toMatchObject({ reservedStock: 0, availableStock: 3 });
+    });
+    it("should release the reservations of the user once the checkout is done", async () => {
+        await secondCart.post<ResponseInterface<CartViewInterface[]>>("", null, JSON.stringify({ productId: line.id, quantity: 1 }));
+        const response = await checkout.post<ResponseInterface<unknown>>("produce", null, JSON.stringify([line]));
+        expect(response.data.message).toBe(undefined);
+        expect(await getProduct()).toMatchObject({ currentStock: 2, reservedStock: 0, availableStock: 2 });
+    }, 15000);
+});
+
+describe("Stock reservations of the variants", () => {
+    it("should not add the units of a variant held by other users", async () => {
+        await firstCart.post<ResponseInterface<CartViewInterface[]>>(
+            "",
+            null,
+            JSON.stringify({ productId: variantProductId, variantId: variantIds[0], quantity: 1 })
+        );
+        const response = await secondCart.post<ResponseInterface<CartViewInterface[]>>(
+            "",
+            null,
+            JSON.stringify({ productId: variantProductId, variantId: variantIds[0], quantity: 1 })
+        );
+        expect(response.status).toBe(500);
+        expect(response.data.message).toBe("Not enough stock");
+    });
+    it("should hold the units of the other variants of the product", async () => {
+        const response = await secondCart.post<ResponseInterface<CartViewInterface[]>>(
+            "",
+            null,
+            JSON.stringify({ productId: variantProductId, variantId: variantIds[1], quantity: 2 })
+        );
+        expect(response.data.message).toBe(undefined);
+        expect(response.data.data.find(l => l.variantId === variantIds[1])).toMatchObject({ quantity: 2, availableStock: 2 });
+        expect((await productApi.get<ResponseInterface<ProductInterface>>(`${variantProductId}`)).data.data).toMatchObject({
+            reservedStock: 3,
+            availableStock: 0,
+        });
+    });
+});
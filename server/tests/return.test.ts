@@ -0,0 +1,204 @@
+import { ApiClient } from "../src/core/http/api.client";
+import { ResponseInterface } from "../src/models/response";
+import { ItemReturnViewInterface } from "../src/models/itemReturn";
+import { PaymentInterface } from "../src/models/payment";
+import { ResultSetHeader, RowDataPacket } from "mysql2/promise";
+import { UserInterface } from "../src/models/user";
+import { createPool } from "./db.setup";
+import bcrypt from "bcrypt";
+import jwt from "jsonwebtoken";
+import dotenv from "dotenv";
+dotenv.config();
+
+/*****************
+SETUP
+*****************/
+
+const api = new ApiClient(process.env.BASE_URL + "/api/returns");
+const checkout = new ApiClient(process.env.BASE_URL + "/api/checkout");
+const payments = new ApiClient(process.env.BASE_URL + "/api/payments");
+const pool = createPool();
+
+const manager: UserInterface = {
+    email: "testreturnmanager@example.com",
+    password: "test1234",
+    name: "Test",
+    lastName: "Manager",
+    idDocumentType: "DNI",
+    idDocumentNumber: 11114222,
+    rol: "Manager",
+};
+
+const customer: UserInterface = {
+    email: "testreturncustomer@example.com",
+    password: "test1234",
+    name: "Test",
+    lastName: "Customer",
+    idDocumentType: "DNI",
+    idDocumentNumber: 11114223,
+};
+
+let tokenManager: string;
+let tokenCustomer: string;
+let storeId: number;
+let productId: number;
+let invoiceId: number;
+let itemId: number;
+let returnId: number;
+let closedInvoiceId: number;
+let unpaidInvoiceId: number;
+
+beforeAll(async () => {
+    try {
+        manager.password = await bcrypt.hash("test1234", 10);
+        const [managerInsert] = await pool.query<ResultSetHeader>("INSERT INTO user SET ?", [manager]);
+        manager.id = managerInsert.insertId;
+        const [storeInsert] = await pool.query<ResultSetHeader>("INSERT INTO store SET ?", [
+            { name: "tienda returns", managerId: manager.id, apiUrl: "test@test.com" },
+        ]);
+        storeId = storeInsert.insertId;
+        const product = { name: "Remera test", price: 10, currentStock: 5, reorderPoint: 1, minimum: 1, brandId: 1, storeId };
+        const [productInsert] = await pool.query<ResultSetHeader>("INSERT INTO product SET ?", [product]);
+        productId = productInsert.insertId;
+
+        customer.password = await bcrypt.hash("test1234", 10);
+        const [customerInsert] = await pool.query<ResultSetHeader>("INSERT INTO user SET ?", [customer]);
+        customer.id = customerInsert.insertId;
+        const [invoiceInsert] = await pool.query<ResultSetHeader>("INSERT INTO invoice SET ?", [
+            { date: new Date(), total: 20, userId: customer.id, status: "PAID" },
+        ]);
+        invoiceId = invoiceInsert.insertId;
+        const [itemInsert] = await pool.query<ResultSetHeader>("INSERT INTO item SET ?", [{ invoiceId, productId, unitPrice: 10, quantity: 2, total: 20 }]);
+        itemId = itemInsert.insertId;
+
+        tokenManager = jwt.sign({ ...manager }, process.env.SHOPPY__ACCESS_TOKEN, { expiresIn: "1d" });
+        tokenCustomer = jwt.sign({ ...customer }, process.env.SHOPPY__ACCESS_TOKEN, { expiresIn: "1d" });
+    } catch (err) {
+        console.error(err);
+    }
+});
+
+afterAll(async () => {
+    try {
+        await pool.query("DELETE FROM invoice WHERE id IN (?)", [[invoiceId, closedInvoiceId, unpaidInvoiceId]]);
+        await pool.query("DELETE FROM product WHERE id = ?", [productId]);
+        await pool.query("DELETE FROM store WHERE id = ?", [storeId]);
+        await pool.query("DELETE FROM user WHERE id IN (?)", [[manager.id, customer.id]]);
+    } catch (err) {
+        console.error(err);
+    } finally {
+        pool.end();
+    }
+});
+
+/*****************
+TESTS
+******************/
+
+describe("POST /api/returns", () => {
+    beforeAll(() => api.authorize(tokenCustomer));
+
+    it("should request the cancellation of a line of a paid order", async () => {
+        const response = await api.post<ResponseInterface<ItemReturnViewInterface>>(
+            "",
+            null,
+            JSON.stringify({ itemId, quantity: 2, reason: "Ya no lo quiero" })
+        );
+        expect(response.data.message).toBe(undefined);
+        expect(response.data.data).toMatchObject({ itemId, invoiceId, type: "CANCELLATION", status: "REQUESTED", quantity: 2 });
+        returnId = response.data.data.id;
+    });
+    it("should not request more units than the ones left", async () => {
+        const response = await api.post<ResponseInterface<ItemReturnViewInterface>>("", null, JSON.stringify({ itemId, quantity: 1 }));
+        expect(response.status).toBe(500);
+        expect(response.data.message).toBe("Not enough units to return");
+    });
+});
+
+describe("PUT /api/returns/:returnId/review", () => {
+    beforeAll(() => api.authorize(tokenManager));
+
+    it("should approve the cancellation and produce a credit note", async () => {
+        const response = await api.put<ResponseInterface<ItemReturnViewInterface>>(`${returnId}/review`, null, JSON.stringify({ status: "APPROVED" }));
+        expect(response.data.message).toBe(undefined);
+        expect(response.data.data).toMatchObject({ status: "APPROVED", creditTotal: 20 });
+    });
+    it("should restock the product and cancel the order", async () => {
+        const [[product]] = await pool.query<RowDataPacket[]>("SELECT currentStock FROM product WHERE id = ?", [productId]);
+        const [[invoice]] = await pool.query<RowDataPacket[]>("SELECT status FROM invoice WHERE id = ?", [invoiceId]);
+        expect(product.currentStock).toBe(7);
+        expect(invoice.status).toBe("CANCELLED");
+    });
+    it("should not review a return twice", async () => {
+        const response = await api.put<ResponseInterface<ItemReturnViewInterface>>(`${returnId}/review`, null, JSON.stringify({ status: "REJECTED" }));
+        expect(response.status).toBe(500);
+        expect(response.data.message).toBe("Return already reviewed");
+    });
+});
+
+describe("Returns of a cancelled order", () => {
+    let closedItemId: number;
+    let pendingReturnId: number;
+
+    beforeAll(async () => {
+        const [invoiceInsert] = await pool.query<ResultSetHeader>("INSERT INTO invoice SET ?", [
+            { date: new Date(), total: 20, userId: customer.id, status: "PAID" },
+        ]);
+        closedInvoiceId = invoiceInsert.insertId;
+        const [itemInsert] = await pool.query<ResultSetHeader>("INSERT INTO item SET ?", [
+            { invoiceId: closedInvoiceId, productId, unitPrice: 10, quantity: 2, total: 20 },
+        ]);
+        closedItemId = itemInsert.insertId;
+        checkout.authorize(tokenManager);
+    });
+
+    it("should reject the requests waiting for a review when the order is cancelled", async () => {
+        api.authorize(tokenCustomer);
+        const request = await api.post<ResponseInterface<ItemReturnViewInterface>>("", null, JSON.stringify({ itemId: closedItemId, quantity: 1 }));
+        pendingReturnId = request.data.data.id;
+        const cancel = await checkout.put<ResponseInterface<undefined>>(`${closedInvoiceId}/status`, null, JSON.stringify({ status: "CANCELLED" }));
+        expect(cancel.data.message).toBe(undefined);
+        const [[itemReturn]] = await pool.query<RowDataPacket[]>("SELECT status FROM itemReturn WHERE id = ?", [pendingReturnId]);
+        expect(itemReturn.status).toBe("REJECTED");
+    });
+    it("should not put the units of the cancelled order back in stock twice", async () => {
+        api.authorize(tokenManager);
+        const response = await api.put<ResponseInterface<ItemReturnViewInterface>>(`${pendingReturnId}/review`, null, JSON.stringify({ status: "APPROVED" }));
+        expect(response.status).toBe(500);
+        expect(response.data.message).toBe("Return already reviewed");
+        const [[product]] = await pool.query<RowDataPacket[]>("SELECT currentStock FROM product WHERE id = ?", [productId]);
+        expect(product.currentStock).toBe(9);
+    });
+});
+
+describe("Cancellations before the payment", () => {
+    let unpaidItemId: number;
+
+    beforeAll(async () => {
+        const [invoiceInsert] = await pool.query<ResultSetHeader>("INSERT INTO invoice SET ?", [
+            { date: new Date(), total: 20, userId: customer.id, status: "PENDING_PAYMENT" },
+        ]);
+        unpaidInvoiceId = invoiceInsert.insertId;
+        const [itemInsert] = await pool.query<ResultSetHeader>("INSERT INTO item SET ?", [
+            { invoiceId: unpaidInvoiceId, productId, unitPrice: 10, quantity: 2, total: 20 },
+        ]);
+        unpaidItemId = itemInsert.insertId;
+        payments.authorize(tokenCustomer);
+    });
+
+    it("should not charge the cancelled units", async () => {
+        api.authorize(tokenCustomer);
+        const request = await api.post<ResponseInterface<ItemReturnViewInterface>>("", null, JSON.stringify({ itemId: unpaidItemId, quantity: 1 }));
+        api.authorize(tokenManager);
+        const review = await api.put<ResponseInterface<ItemReturnViewInterface>>(
+            `${request.data.data.id}/review`,
+            null,
+            JSON.stringify({ status: "APPROVED" })
+        );
+        expect(review.data.data).toMatchObject({ status: "APPROVED", creditTotal: 10 });
+        const card = { number: "4242424242424242", expiry: "2030-12", cvv: "123" };
+        const payment = await payments.post<ResponseInterface<PaymentInterface>>(`${unpaidInvoiceId}`, null, JSON.stringify({ method: "CARD", card }));
+        expect(payment.data.message).toBe(undefined);
+        expect(payment.data.data).toMatchObject({ status: "CAPTURED", amount: 10 });
+    });
+});
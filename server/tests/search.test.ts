@@ -0,0 +1,111 @@
+import { ApiClient } from "../src/core/http/api.client";
+import { ResponseInterface } from "../src/models/response";
+import { ProductSearchResultInterface } from "../src/models/product";
+import { ResultSetHeader } from "mysql2/promise";
+import { UserInterface } from "../src/models/user";
+import { createPool } from "./db.setup";
+import dotenv from "dotenv";
+dotenv.config();
+
+/*****************
+SETUP
+*****************/
+
+const api = new ApiClient(process.env.BASE_URL + "/api/product");
+const pool = createPool();
+
+const manager: UserInterface = {
+    email: "testsearchmanager@example.com",
+    password: "test1234",
+    name: "Test",
+    lastName: "Manager",
+    idDocumentType: "DNI",
+    idDocumentNumber: 11117531,
+    rol: "Manager",
+};
+
+interface SearchResponse {
+    products: ProductSearchResultInterface[];
+    pagination: { page: number; perPage: number; totalPages: number; totalItems: number; hasNextPage: boolean };
+}
+
+let storeIds: number[] = [];
+let disabledStoreId: number;
+const productIds: Record<string, number> = {};
+
+const insertProduct = async (key: string, storeId: number, name: string, description: string) => {
+    const [result] = await pool.query<ResultSetHeader>("INSERT INTO product SET ?", [
+        { name, description, price: 10, currentStock: 5, reorderPoint: 1, minimum: 1, storeId, brandId: 1 },
+    ]);
+    productIds[key] = result.insertId;
+};
+
+const search = (q: string, page = 1, per_page = 12) =>
+    api.get<ResponseInterface<SearchResponse>>("search", { q, page: String(page), per_page: String(per_page) });
+
+beforeAll(async () => {
+    try {
+        const [managerInsert] = await pool.query<ResultSetHeader>("INSERT INTO user SET ?", [manager]);
+        manager.id = managerInsert.insertId;
+        for (const name of ["tienda busqueda norte", "tienda busqueda sur"]) {
+            const [storeInsert] = await pool.query<ResultSetHeader>("INSERT INTO store SET ?", [{ name, managerId: manager.id, apiUrl: "test@test.com" }]);
+            storeIds.push(storeInsert.insertId);
+        }
+        const [disabledInsert] = await pool.query<ResultSetHeader>("INSERT INTO store SET ?", [
+            { name: "tienda busqueda cerrada", managerId: manager.id, apiUrl: "test@test.com", status: 0 },
+        ]);
+        disabledStoreId = disabledInsert.insertId;
+        await insertProduct("name", storeIds[0], "Pantalón zuquirbusca", "De jean");
+        await insertProduct("description", storeIds[1], "Jean recto", "Corte de pantalón zuquirbusca");
+        await insertProduct("closed", disabledStoreId, "Pantalón zuquirbusca cerrado", "De una tienda cerrada");
+    } catch (err) {
+        console.error(err);
+    }
+});
+
+afterAll(async () => {
+    try {
+        storeIds = [...storeIds, disabledStoreId];
+        await pool.query("DELETE FROM product WHERE storeId IN (?)", [storeIds]);
+        await pool.query("DELETE FROM store WHERE id IN (?)", [storeIds]);
+        await pool.query("DELETE FROM user WHERE id = ?", [manager.id]);
+    } catch (err) {
+        console.error(err);
+    } finally {
+        pool.end();
+    }
+});
+
+/*****************
+TESTS
+******************/
+
+describe("GET /api/product/search", () => {
+    it("should find the products of the active stores ignoring the accents, best matches first", async () => {
+        const response = await search("pantalon zuquirbusca");
+        expect(response.data.message).toBe(undefined);
+        const { products, pagination } = response.data.data;
+        expect(products.map(product => product.id)).toEqual([productIds.name, productIds.description]);
+        expect(products[0]).toMatchObject({ store: "tienda busqueda norte" });
+        expect(products[0].relevance).toBeGreaterThan(products[1].relevance);
+        expect(pagination).toMatchObject({ totalItems: 2, totalPages: 1, hasNextPage: false });
+    });
+    it("should paginate the results", async () => {
+        const response = await search("zuquirbusca", 2, 1);
+        const { products, pagination } = response.data.data;
+        expect(products.map(product => product.id)).toEqual([productIds.description]);
+        expect(pagination).toMatchObject({ page: 2, totalItems: 2, totalPages: 2, hasNextPage: false });
+    });
+    it("should not search without a text", async () => {
+        const response = await search(" ");
+        expect(response.status).toBe(500);
+        expect(response.data.message).toBe("The search text is required");
+    });
+    it("should reject the pages out of range", async () => {
+        const firstPage = await search("zuquirbusca", 0);
+        expect(firstPage.status).toBe(500);
+        expect(firstPage.data.message).toBe("Invalid page, it must be greater than or equal to 1");
+        const perPage = await search("zuquirbusca", 1, 1000);
+        expect(perPage.status).toBe(500);
+    });
+});
@@ -0,0 +1,156 @@
+import { ApiClient } from "../src/core/http/api.client";
+import { ResponseInterface } from "../src/models/response";
+import { StockAlertViewInterface } from "../src/models/stockAlert";
+import { InvoiceViewInterface } from "../src/models/invoiceView";
+import { ProductInterface, ProductSaleInterface } from "../src/models/product";
+import { ResultSetHeader } from "mysql2/promise";
+import { UserInterface } from "../src/models/user";
+import { createPool } from "./db.setup";
+import bcrypt from "bcrypt";
+import jwt from "jsonwebtoken";
+import dotenv from "dotenv";
+dotenv.config();
+
+/*****************
+SETUP
+*****************/
+
+const api = new ApiClient(process.env.BASE_URL + "/api/shop");
+const productApi = new ApiClient(process.env.BASE_URL + "/api/product");
+const checkout = new ApiClient(process.env.BASE_URL + "/api/checkout");
+const managerCheckout = new ApiClient(process.env.BASE_URL + "/api/checkout");
+const pool = createPool();
+
+const manager: UserInterface = {
+    email: "testalertmanager@example.com",
+    password: "test1234",
+    name: "Test",
+    lastName: "Manager",
+    idDocumentType: "DNI",
+    idDocumentNumber: 11117222,
+    rol: "Manager",
+};
+
+const customer: UserInterface = {
+    email: "testalertcustomer@example.com",
+    password: "test1234",
+    name: "Test",
+    lastName: "Customer",
+    idDocumentType: "DNI",
+    idDocumentNumber: 11117223,
+};
+
+let storeId: number;
+let line: ProductSaleInterface;
+
+const buy = (quantity: number) => checkout.post<ResponseInterface<InvoiceViewInterface>>("produce", null, JSON.stringify([{ ...line, quantity }]));
+
+beforeAll(async () => {
+    try {
+        manager.password = await bcrypt.hash("test1234", 10);
+        const [managerInsert] = await pool.query<ResultSetHeader>("INSERT INTO user SET ?", [manager]);
+        manager.id = managerInsert.insertId;
+        const [storeInsert] = await pool.query<ResultSetHeader>("INSERT INTO store SET ?", [
+            { name: "tienda alertas", managerId: manager.id, apiUrl: "test@test.com" },
+        ]);
+        storeId = storeInsert.insertId;
+        const product = { name: "Gorro test", description: "Gorro de lana", price: 10, currentStock: 10, reorderPoint: 5, minimum: 2, storeId };
+        const [productInsert] = await pool.query<ResultSetHeader>("INSERT INTO product SET ?", [{ ...product, brandId: 1 }]);
+        await pool.query("INSERT INTO productCategory SET ?", [{ productId: productInsert.insertId, categoryId: 1 }]);
+        line = {
+            ...product,
+            id: productInsert.insertId,
+            discountPercentage: 1,
+            categories: [],
+            sizes: [],
+            brand: "test",
+            url_img: "images/placeholder.jpg",
+            quantity: 1,
+        };
+
+        customer.password = await bcrypt.hash("test1234", 10);
+        const [customerInsert] = await pool.query<ResultSetHeader>("INSERT INTO user SET ?", [customer]);
+        customer.id = customerInsert.insertId;
+
+        const managerToken = jwt.sign({ ...manager }, process.env.SHOPPY__ACCESS_TOKEN, { expiresIn: "1d" });
+        api.authorize(managerToken);
+        productApi.authorize(managerToken);
+        managerCheckout.authorize(managerToken);
+        checkout.authorize(jwt.sign({ ...customer }, process.env.SHOPPY__ACCESS_TOKEN, { expiresIn: "1d" }));
+    } catch (err) {
+        console.error(err);
+    }
+});
+
+afterAll(async () => {
+    try {
+        await pool.query("DELETE FROM invoice WHERE userId = ?", [customer.id]);
+        await pool.query("DELETE FROM product WHERE id = ?", [line.id]);
+        await pool.query("DELETE FROM store WHERE id = ?", [storeId]);
+        await pool.query("DELETE FROM user WHERE id IN (?)", [[manager.id, customer.id]]);
+    } catch (err) {
+        console.error(err);
+    } finally {
+        pool.end();
+    }
+});
+
+/*****************
+TESTS
+******************/
+
+describe("Stock alerts", () => {
+    it("should not alert while the stock is above the reorder point", async () => {
+        await buy(4);
+        const response = await api.get<ResponseInterface<StockAlertViewInterface[]>>(`manager/${manager.id}/alerts`);
+        expect(response.data.message).toBe(undefined);
+        expect(response.data.data).toHaveLength(0);
+    }, 15000);
+    it("should open an alert when a sale reaches the reorder point", async () => {
+        await buy(1);
+        await buy(1);
+        const response = await api.get<ResponseInterface<StockAlertViewInterface[]>>(`manager/${manager.id}/alerts`);
+        expect(response.data.data).toHaveLength(1);
+        expect(response.data.data[0]).toMatchObject({ productId: line.id, level: "REORDER", stock: 4, status: "OPEN" });
+        const { notifiedAt, notificationError } = response.data.data[0];
+        expect(notifiedAt ?? notificationError).not.toBe(null);
+    }, 30000);
+    it("should escalate the alert when the stock falls below the minimum", async () => {
+        await buy(3);
+        const response = await api.get<ResponseInterface<StockAlertViewInterface[]>>(`manager/${manager.id}/alerts`);
+        expect(response.data.data).toHaveLength(1);
+        expect(response.data.data[0]).toMatchObject({ level: "MINIMUM", stock: 1, status: "OPEN" });
+        expect(response.data.data[0].escalatedAt).not.toBe(null);
+    }, 15000);
+    it("should resolve the alert when the manager restocks the product", async () => {
+        const { data } = await productApi.get<ResponseInterface<ProductInterface>>(`${line.id}`);
+        const { id, name, description, price, discountPercentage, reorderPoint, minimum, categories, sizes, brand } = data.data;
+        const update = { id, name, description, price, discountPercentage, currentStock: 20, reorderPoint, minimum, categories, sizes: sizes ?? [], brand };
+        const updated = await productApi.put<ResponseInterface<ProductInterface>>("", null, JSON.stringify(update));
+        expect(updated.data.message).toBe(undefined);
+        const open = await api.get<ResponseInterface<StockAlertViewInterface[]>>(`manager/${manager.id}/alerts`, { status: "OPEN" });
+        expect(open.data.data).toHaveLength(0);
+        const response = await api.get<ResponseInterface<StockAlertViewInterface[]>>(`manager/${manager.id}/alerts`);
+        expect(response.data.data[0]).toMatchObject({ status: "RESOLVED", stock: 20 });
+    }, 15000);
+    it("should resolve the alert when a cancelled order puts its units back in stock", async () => {
+        const sale = await buy(16);
+        const alerts = await api.get<ResponseInterface<StockAlertViewInterface[]>>(`manager/${manager.id}/alerts`, { status: "OPEN" });
+        expect(alerts.data.data).toHaveLength(1);
+        const cancelled = await managerCheckout.put<ResponseInterface<InvoiceViewInterface>>(
+            `${sale.data.data.id}/status`,
+            null,
+            JSON.stringify({ status: "CANCELLED" })
+        );
+        expect(cancelled.data.message).toBe(undefined);
+        const open = await api.get<ResponseInterface<StockAlertViewInterface[]>>(`manager/${manager.id}/alerts`, { status: "OPEN" });
+        expect(open.data.data).toHaveLength(0);
+        const response = await api.get<ResponseInterface<StockAlertViewInterface[]>>(`manager/${manager.id}/alerts`);
+        expect(response.data.data.filter(alert => alert.status === "RESOLVED" && alert.stock === 20)).toHaveLength(2);
+    }, 15000);
+    it("should not show the alerts of other managers", async () => {
+        const response = await api.get<ResponseInterface<StockAlertViewInterface[]>>(`manager/${manager.id + 1}/alerts`);
+        expect(response.status).toBe(500);
+        expect(response.data.message).toBe("Unauthorized");
+    });
+});
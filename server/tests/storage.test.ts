@@ -0,0 +1,72 @@
+import os from "os";
+import fs from "fs/promises";
+import path from "path";
+import { FileStorage } from "../src/storage/fileStorage";
+import { LocalFileStorage } from "../src/storage/local.storage";
+import { S3FileStorage } from "../src/storage/s3.storage";
+import { StorageConfiguration } from "../src/configuration/storage.configuration";
+import { isTextFile, sniffFileType } from "../src/utils/fileType";
+import dotenv from "dotenv";
+dotenv.config();
+
+/*****************
+SETUP
+*****************/
+
+// the S3 driver runs against the service configured in SHOPPY__S3ENDPOINT, like a local MinIO
+const s3 = new StorageConfiguration();
+const folder = path.join(os.tmpdir(), "shoppy-storage-test");
+
+const drivers: [string, () => FileStorage][] = [["local", () => new LocalFileStorage(folder)]];
+if (s3.endpoint && s3.bucket) drivers.push(["s3", () => new S3FileStorage(s3)]);
+
+afterAll(async () => {
+    await fs.rm(folder, { recursive: true, force: true });
+});
+
+/*****************
+TESTS
+******************/
+
+describe.each(drivers)("%s storage", (name, create) => {
+    const storage = create();
+    const key = `test-${Date.now()}.txt`;
+
+    it("should write and read files", async () => {
+        await storage.put(key, Buffer.from("hola"), "text/plain");
+        await storage.put(`card/${key}`, Buffer.from("chau"), "text/plain");
+        expect((await storage.get(key)).toString()).toBe("hola");
+        expect((await storage.get(`card/${key}`)).toString()).toBe("chau");
+    });
+    it("should list the files of every folder", async () => {
+        const files = await storage.list();
+        const written = files.filter(file => file.key.endsWith(key)).sort((a, b) => a.key.localeCompare(b.key));
+        expect(written).toEqual([expect.objectContaining({ key: `card/${key}`, size: 4 }), expect.objectContaining({ key, size: 4 })]);
+    });
+    it("should delete files and ignore the missing ones", async () => {
+        await storage.delete(key);
+        await storage.delete(`card/${key}`);
+        await storage.delete(`missing/${key}`);
+        expect(await storage.get(key)).toBe(null);
+    });
+});
+
+describe("local storage", () => {
+    it("should not read files outside of its folder", async () => {
+        await expect(new LocalFileStorage(folder).get("../secret.txt")).rejects.toThrow("Invalid file key");
+    });
+});
+
+describe("sniffFileType", () => {
+    it("should find the type by the first bytes of the file", () => {
+        expect(sniffFileType(Buffer.from("89504e470d0a1a0a0000", "hex"))).toBe("png");
+        expect(sniffFileType(Buffer.from("ffd8ffe000104a464946", "hex"))).toBe("jpeg");
+        expect(sniffFileType(Buffer.from("RIFF\0\0\0\0WEBPVP8 ", "latin1"))).toBe("webp");
+        expect(sniffFileType(Buffer.from("504b030414000000", "hex"))).toBe("zip");
+        expect(sniffFileType(Buffer.from("<svg></svg>"))).toBe(null);
+    });
+    it("should tell text files from binary ones", () => {
+        expect(isTextFile(Buffer.from("id,name\n1,Remera"))).toBe(true);
+        expect(isTextFile(Buffer.from("504b030414000000", "hex"))).toBe(false);
+    });
+});
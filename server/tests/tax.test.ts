@@ -0,0 +1,120 @@
+import { ApiClient } from "../src/core/http/api.client";
+import { ResponseInterface } from "../src/models/response";
+import { TaxRateViewInterface } from "../src/models/tax";
+import { InvoiceViewInterface } from "../src/models/invoiceView";
+import { ProductSaleInterface } from "../src/models/product";
+import { ResultSetHeader } from "mysql2/promise";
+import { UserInterface } from "../src/models/user";
+import { createPool } from "./db.setup";
+import bcrypt from "bcrypt";
+import jwt from "jsonwebtoken";
+import dotenv from "dotenv";
+dotenv.config();
+
+/*****************
+SETUP
+*****************/
+
+const api = new ApiClient(process.env.BASE_URL + "/api/taxes");
+const checkout = new ApiClient(process.env.BASE_URL + "/api/checkout");
+const pool = createPool();
+
+const admin: UserInterface = {
+    email: "testtaxadmin@example.com",
+    password: "test1234",
+    name: "Test",
+    lastName: "Admin",
+    idDocumentType: "DNI",
+    idDocumentNumber: 11116222,
+    rol: "Admin",
+};
+
+const customer: UserInterface = {
+    email: "testtaxcustomer@example.com",
+    password: "test1234",
+    name: "Test",
+    lastName: "Customer",
+    idDocumentType: "DNI",
+    idDocumentNumber: 11116223,
+};
+
+let storeId: number;
+let line: ProductSaleInterface;
+
+beforeAll(async () => {
+    try {
+        admin.password = await bcrypt.hash("test1234", 10);
+        const [adminInsert] = await pool.query<ResultSetHeader>("INSERT INTO user SET ?", [admin]);
+        admin.id = adminInsert.insertId;
+        const [storeInsert] = await pool.query<ResultSetHeader>("INSERT INTO store SET ?", [{ name: "tienda impuestos", apiUrl: "test@test.com" }]);
+        storeId = storeInsert.insertId;
+        const product = { name: "Bufanda test", description: "Bufanda de lana", price: 10, currentStock: 10, reorderPoint: 1, minimum: 1, storeId };
+        const [productInsert] = await pool.query<ResultSetHeader>("INSERT INTO product SET ?", [{ ...product, brandId: 1 }]);
+        line = {
+            ...product,
+            id: productInsert.insertId,
+            discountPercentage: 1,
+            categories: [],
+            sizes: [],
+            brand: "test",
+            url_img: "images/placeholder.jpg",
+            quantity: 2,
+        };
+
+        customer.password = await bcrypt.hash("test1234", 10);
+        const [customerInsert] = await pool.query<ResultSetHeader>("INSERT INTO user SET ?", [customer]);
+        customer.id = customerInsert.insertId;
+
+        api.authorize(jwt.sign({ ...admin }, process.env.SHOPPY__ACCESS_TOKEN, { expiresIn: "1d" }));
+        checkout.authorize(jwt.sign({ ...customer }, process.env.SHOPPY__ACCESS_TOKEN, { expiresIn: "1d" }));
+    } catch (err) {
+        console.error(err);
+    }
+});
+
+afterAll(async () => {
+    try {
+        await pool.query("DELETE FROM invoice WHERE userId = ?", [customer.id]);
+        await pool.query("DELETE FROM product WHERE id = ?", [line.id]);
+        await pool.query("DELETE FROM store WHERE id = ?", [storeId]);
+        await pool.query("DELETE FROM user WHERE id IN (?)", [[admin.id, customer.id]]);
+    } catch (err) {
+        console.error(err);
+    } finally {
+        pool.end();
+    }
+});
+
+/*****************
+TESTS
+******************/
+
+describe("POST /api/taxes", () => {
+    it("should create a tax rate for a store", async () => {
+        const response = await api.post<ResponseInterface<TaxRateViewInterface[]>>("", null, JSON.stringify({ name: "IVA reducido", rate: 10.5, storeId }));
+        expect(response.data.message).toBe(undefined);
+        expect(response.data.data.find(taxRate => taxRate.storeId === storeId)).toMatchObject({ rate: 10.5, categoryId: null });
+    });
+    it("should not create a rate over 100", async () => {
+        const response = await api.post<ResponseInterface<TaxRateViewInterface[]>>("", null, JSON.stringify({ name: "Error", rate: 150 }));
+        expect(response.status).toBe(500);
+        expect(response.data.message).toBe("Invalid rate, it must be between 0 and 100");
+    });
+});
+
+describe("POST /api/checkout/produce", () => {
+    it("should store the tax included in each line", async () => {
+        const response = await checkout.post<ResponseInterface<InvoiceViewInterface>>("produce", null, JSON.stringify([line]));
+        expect(response.data.message).toBe(undefined);
+        expect(response.data.data.tax).toBe(1.9);
+        expect(response.data.data.products[0]).toMatchObject({ taxRate: 10.5, tax: 1.9 });
+        expect(response.data.data.numbers).toEqual([{ storeId, store: "tienda impuestos", number: 1 }]);
+    }, 15000);
+    it("should number the invoices of the store without gaps under concurrent checkouts", async () => {
+        const responses = await Promise.all(
+            [1, 2, 3].map(() => checkout.post<ResponseInterface<InvoiceViewInterface>>("produce", null, JSON.stringify([line])))
+        );
+        const numbers = responses.map(response => response.data.data.numbers[0].number).sort();
+        expect(numbers).toEqual([2, 3, 4]);
+    }, 30000);
+});
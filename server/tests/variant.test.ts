@@ -0,0 +1,219 @@
+import { ApiClient } from "../src/core/http/api.client";
+import { ResponseInterface } from "../src/models/response";
+import { ProductInterface, ProductSaleInterface } from "../src/models/product";
+import { CartViewInterface } from "../src/models/cartView";
+import { InvoiceViewInterface } from "../src/models/invoiceView";
+import { CheckoutLineErrorInterface } from "../src/models/checkout";
+import { ResultSetHeader, RowDataPacket } from "mysql2/promise";
+import { UserInterface } from "../src/models/user";
+import { createPool } from "./db.setup";
+import bcrypt from "bcrypt";
+import jwt from "jsonwebtoken";
+import dotenv from "dotenv";
+dotenv.config();
+
+/*****************
+SETUP
+*****************/
+
+const productApi = new ApiClient(process.env.BASE_URL + "/api/product");
+const cart = new ApiClient(process.env.BASE_URL + "/api/cart");
+const checkout = new ApiClient(process.env.BASE_URL + "/api/checkout");
+const managerCheckout = new ApiClient(process.env.BASE_URL + "/api/checkout");
+const pool = createPool();
+
+const manager: UserInterface = {
+    email: "testvariantmanager@example.com",
+    password: "test1234",
+    name: "Test",
+    lastName: "Manager",
+    idDocumentType: "DNI",
+    idDocumentNumber: 11119222,
+    rol: "Manager",
+};
+
+const customer: UserInterface = {
+    email: "testvariantcustomer@example.com",
+    password: "test1234",
+    name: "Test",
+    lastName: "Customer",
+    idDocumentType: "DNI",
+    idDocumentNumber: 11119223,
+};
+
+let storeId: number;
+let line: ProductSaleInterface;
+let invoiceId: number;
+const variantIds: number[] = [];
+
+beforeAll(async () => {
+    try {
+        manager.password = await bcrypt.hash("test1234", 10);
+        const [managerInsert] = await pool.query<ResultSetHeader>("INSERT INTO user SET ?", [manager]);
+        manager.id = managerInsert.insertId;
+        const [storeInsert] = await pool.query<ResultSetHeader>("INSERT INTO store SET ?", [
+            { name: "tienda variantes", managerId: manager.id, apiUrl: "test@test.com" },
+        ]);
+        storeId = storeInsert.insertId;
+        const product = { name: "Remera test", description: "Remera de algodón", price: 10, currentStock: 5, reorderPoint: 0, minimum: 0, storeId };
+        const [productInsert] = await pool.query<ResultSetHeader>("INSERT INTO product SET ?", [{ ...product, brandId: 1 }]);
+        line = {
+            ...product,
+            id: productInsert.insertId,
+            discountPercentage: 1,
+            categories: [],
+            sizes: [],
+            brand: "test",
+            url_img: "images/placeholder.jpg",
+            quantity: 1,
+        };
+
+        customer.password = await bcrypt.hash("test1234", 10);
+        const [customerInsert] = await pool.query<ResultSetHeader>("INSERT INTO user SET ?", [customer]);
+        customer.id = customerInsert.insertId;
+
+        const managerToken = jwt.sign({ ...manager }, process.env.SHOPPY__ACCESS_TOKEN, { expiresIn: "1d" });
+        productApi.authorize(managerToken);
+        managerCheckout.authorize(managerToken);
+        const customerToken = jwt.sign({ ...customer }, process.env.SHOPPY__ACCESS_TOKEN, { expiresIn: "1d" });
+        cart.authorize(customerToken);
+        checkout.authorize(customerToken);
+    } catch (err) {
+        console.error(err);
+    }
+});
+
+afterAll(async () => {
+    try {
+        await pool.query("DELETE FROM invoice WHERE userId = ?", [customer.id]);
+        await pool.query("DELETE FROM product WHERE id = ?", [line.id]);
+        await pool.query("DELETE FROM store WHERE id = ?", [storeId]);
+        await pool.query("DELETE FROM user WHERE id IN (?)", [[manager.id, customer.id]]);
+    } catch (err) {
+        console.error(err);
+    } finally {
+        pool.end();
+    }
+});
+
+/*****************
+TESTS
+******************/
+
+describe("POST /api/product/:productId/variants", () => {
+    it("should replace the product stock with the stock of its variants", async () => {
+        const small = await productApi.post<ResponseInterface<ProductInterface>>(
+            `${line.id}/variants`,
+            null,
+            JSON.stringify({ size: "S", sku: "TEST-REMERA-S", currentStock: 2 })
+        );
+        expect(small.data.message).toBe(undefined);
+        expect(small.data.data.currentStock).toBe(2);
+        const medium = await productApi.post<ResponseInterface<ProductInterface>>(
+            `${line.id}/variants`,
+            null,
+            JSON.stringify({ size: "M", color: "Rojo", sku: "TEST-REMERA-M", currentStock: 1, price: 15 })
+        );
+        expect(medium.data.data.currentStock).toBe(3);
+        expect(medium.data.data.sizes).toEqual(expect.arrayContaining(["S", "M"]));
+        variantIds.push(...medium.data.data.variants.map(variant => variant.id));
+        expect(medium.data.data.variants).toEqual([
+            expect.objectContaining({ sku: "TEST-REMERA-S", size: "S", color: null, price: null, currentStock: 2 }),
+            expect.objectContaining({ sku: "TEST-REMERA-M", size: "M", color: "Rojo", price: 15, currentStock: 1 }),
+        ]);
+    });
+    it("should not repeat a SKU", async () => {
+        const response = await productApi.post<ResponseInterface<ProductInterface>>(
+            `${line.id}/variants`,
+            null,
+            JSON.stringify({ size: "L", sku: "TEST-REMERA-S", currentStock: 1 })
+        );
+        expect(response.status).toBe(500);
+        expect(response.data.message).toBe("The SKU is already in use");
+    });
+    it("should not change the stock of the product apart from its variants", async () => {
+        const { data } = await productApi.get<ResponseInterface<ProductInterface>>(`${line.id}`);
+        const { id, name, description, price, discountPercentage, reorderPoint, minimum, categories, sizes, brand } = data.data;
+        const update = { id, name, description, price, discountPercentage, currentStock: 10, reorderPoint, minimum, categories, sizes, brand };
+        const response = await productApi.put<ResponseInterface<ProductInterface>>("", null, JSON.stringify(update));
+        expect(response.status).toBe(500);
+        expect(response.data.message).toBe("The stock of a product with variants is changed through its variants");
+    });
+});
+
+describe("PUT /api/product/:productId/variants/:variantId", () => {
+    it("should adjust the product stock with the variant stock", async () => {
+        const response = await productApi.put<ResponseInterface<ProductInterface>>(
+            `${line.id}/variants/${variantIds[0]}`,
+            null,
+            JSON.stringify({ size: "S", sku: "TEST-REMERA-S", currentStock: 4 })
+        );
+        expect(response.data.message).toBe(undefined);
+        expect(response.data.data.currentStock).toBe(5);
+    });
+});
+
+describe("Sales of variants", () => {
+    it("should require a variant to add the product to the cart", async () => {
+        const response = await cart.post<ResponseInterface<CartViewInterface[]>>("", null, JSON.stringify({ productId: line.id, quantity: 1 }));
+        expect(response.status).toBe(500);
+        expect(response.data.message).toBe("Choose a variant of the product");
+    });
+    it("should not add more units than the variant stock", async () => {
+        const response = await cart.post<ResponseInterface<CartViewInterface[]>>(
+            "",
+            null,
+            JSON.stringify({ productId: line.id, variantId: variantIds[1], quantity: 2 })
+        );
+        expect(response.status).toBe(500);
+        expect(response.data.message).toBe("Not enough stock");
+    });
+    it("should add each variant as a line of the cart", async () => {
+        await cart.post<ResponseInterface<CartViewInterface[]>>("", null, JSON.stringify({ productId: line.id, variantId: variantIds[0], quantity: 1 }));
+        const response = await cart.post<ResponseInterface<CartViewInterface[]>>(
+            "",
+            null,
+            JSON.stringify({ productId: line.id, variantId: variantIds[1], quantity: 1 })
+        );
+        expect(response.data.data).toHaveLength(2);
+        expect(response.data.data.find(l => l.variantId === variantIds[1])).toMatchObject({ size: "M", color: "Rojo", price: 15, total: 15 });
+    });
+    it("should reject the checkout of a product without its variant", async () => {
+        const response = await checkout.post<ResponseInterface<CheckoutLineErrorInterface[]>>("produce", null, JSON.stringify([line]));
+        expect(response.status).toBe(409);
+        expect(response.data.data[0]).toMatchObject({ productId: line.id, reason: "VARIANT_REQUIRED" });
+    });
+    it("should sell the variants with their own price and stock", async () => {
+        const lines = [
+            { ...line, variantId: variantIds[0] },
+            { ...line, variantId: variantIds[1], price: 15 },
+        ];
+        const response = await checkout.post<ResponseInterface<InvoiceViewInterface>>("produce", null, JSON.stringify(lines));
+        expect(response.data.message).toBe(undefined);
+        expect(response.data.data.products).toEqual(
+            expect.arrayContaining([
+                expect.objectContaining({ variantId: variantIds[0], sku: "TEST-REMERA-S", size: "S", price: 10 }),
+                expect.objectContaining({ variantId: variantIds[1], sku: "TEST-REMERA-M", size: "M", color: "Rojo", price: 15 }),
+            ])
+        );
+        const { data } = await productApi.get<ResponseInterface<ProductInterface>>(`${line.id}`);
+        expect(data.data.currentStock).toBe(3);
+        expect(data.data.variants.map(variant => variant.currentStock)).toEqual([3, 0]);
+        invoiceId = response.data.data.id;
+    }, 15000);
+    it("should put back the units of every variant when the order is cancelled", async () => {
+        const response = await managerCheckout.put<ResponseInterface<InvoiceViewInterface>>(
+            `${invoiceId}/status`,
+            null,
+            JSON.stringify({ status: "CANCELLED" })
+        );
+        expect(response.data.message).toBe(undefined);
+        const { data } = await productApi.get<ResponseInterface<ProductInterface>>(`${line.id}`);
+        expect(data.data.currentStock).toBe(5);
+        expect(data.data.variants.map(variant => variant.currentStock)).toEqual([4, 1]);
+        const [movements] = await pool.query<RowDataPacket[]>("SELECT quantity, balance FROM stockMovement WHERE productId = ? AND reason = 'RETURN'", [
+            line.id,
+        ]);
+        expect(movements).toEqual([{ quantity: 2, balance: 5 }]);
+    });
+});